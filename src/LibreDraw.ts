@@ -1,12 +1,22 @@
-import type { Map as MaplibreMap } from 'maplibre-gl';
+import type { Map as MaplibreMap, MapMouseEvent } from 'maplibre-gl';
 import type {
+  BufferOptions,
+  ChangeEvent,
   LibreDrawFeature,
   FeatureCollection,
   LibreDrawEventMap,
   LibreDrawOptions,
+  NormalizedInputEvent,
+  Position,
   ToolbarOptions,
 } from './types';
-import { DeleteAction } from './types/features';
+import {
+  BatchCreateAction,
+  BatchDeleteAction,
+  CreateAction,
+  DeleteAction,
+  MergeAction,
+} from './types/features';
 import { EventBus } from './core/EventBus';
 import { FeatureStore } from './core/FeatureStore';
 import { HistoryManager } from './core/HistoryManager';
@@ -17,18 +27,41 @@ import { LibreDrawError } from './core/errors';
 import { validateGeoJSON, validateFeature } from './validation/geojson';
 import { IdleMode } from './modes/IdleMode';
 import { DrawMode } from './modes/DrawMode';
+import { LineMode } from './modes/LineMode';
+import { PointMode } from './modes/PointMode';
+import { RectangleMode } from './modes/RectangleMode';
+import { CircleMode } from './modes/CircleMode';
+import { FreehandMode } from './modes/FreehandMode';
 import { SelectMode } from './modes/SelectMode';
+import { HoleMode } from './modes/HoleMode';
 import { SplitMode } from './modes/SplitMode';
+import { DifferenceMode } from './modes/DifferenceMode';
+import { IntersectMode } from './modes/IntersectMode';
 import { SetbackMode } from './modes/SetbackMode';
+import { StripsMode } from './modes/StripsMode';
+import { BufferMode } from './modes/BufferMode';
 import type { MapInteractionConfig } from './modes/Mode';
 import { InputHandler } from './input/InputHandler';
+import { ClipboardInput } from './input/ClipboardInput';
 import { SourceManager } from './rendering/SourceManager';
 import { RenderManager } from './rendering/RenderManager';
 import { Toolbar } from './ui/Toolbar';
 import { cloneFeature } from './utils/featureSnapshot';
+import {
+  createPasteFeatures,
+  parseClipboardFeatures,
+  serializeFeatures,
+} from './utils/clipboard';
+import { createArrayCopies, createDuplicates } from './utils/duplicate';
+import type { ArrayCopyOptions, DuplicateOffset } from './utils/duplicate';
+import { geometryEquals } from './utils/geometry';
+import { mergePolygons } from './utils/polygonOps';
+import type { StripOptions } from './utils/strips';
+import type { ResolvedSnapOptions } from './utils/snapping';
+import { findSnapTarget, resolveSnapOptions, toSnapCandidates } from './utils/snapping';
 
 /**
- * LibreDraw - A MapLibre GL JS polygon drawing and editing library.
+ * LibreDraw - A MapLibre GL JS polygon, line and point drawing and editing library.
  *
  * This is the main facade class that wires together all internal modules
  * (event bus, feature store, history, modes, input, rendering, toolbar)
@@ -48,14 +81,28 @@ export class LibreDraw {
   private historyManager: HistoryManager;
   private modeManager: ModeManager;
   private inputHandler: InputHandler;
+  private clipboardInput: ClipboardInput;
   private sourceManager: SourceManager;
   private renderManager: RenderManager;
   private toolbar: Toolbar | null = null;
+  private drawMode: DrawMode;
   private selectMode: SelectMode;
+  private differenceMode: DifferenceMode;
+  private intersectMode: IntersectMode;
+  private stripsMode: StripsMode;
+  private bufferMode: BufferMode;
   private setbackMode: SetbackMode;
+  private circleMode: CircleMode;
+  private snapOptions: ResolvedSnapOptions;
+  private clipboard: LibreDrawFeature[] = [];
+  private cursorPosition: Position | null = null;
   private destroyed = false;
   private inputEnabled = false;
 
+  private handleMouseMove = (e: MapMouseEvent): void => {
+    this.cursorPosition = [e.lngLat.lng, e.lngLat.lat];
+  };
+
   private handleStyleData = (): void => {
     if (this.destroyed || !this.map.isStyleLoaded()) return;
     if (this.renderManager.isReadyForCurrentStyle()) return;
@@ -98,6 +145,7 @@ export class LibreDraw {
     this.featureStore = new FeatureStore();
     this.historyManager = new HistoryManager(options.historyLimit ?? 100);
     this.modeManager = new ModeManager();
+    this.snapOptions = resolveSnapOptions(options.snap);
 
     // Rendering
     this.sourceManager = new SourceManager(map);
@@ -128,15 +176,22 @@ export class LibreDraw {
       render: {
         renderFeatures: () => this.renderAllFeatures(),
         renderPreview: (coords) => this.renderManager.renderPreview(coords),
+        renderPreviewLines: (lines) => this.renderManager.renderPreviewLines(lines),
         clearPreview: () => this.renderManager.clearPreview(),
         renderEdgeHighlight: (coords) =>
           this.renderManager.renderEdgeHighlight(coords),
+        renderEdgeHighlights: (edges) => this.renderManager.renderEdgeHighlights(edges),
         clearEdgeHighlight: () => this.renderManager.clearEdgeHighlight(),
         renderVertices: (vertices, midpoints, highlightIndex) =>
           this.renderManager.renderVertices(vertices, midpoints, highlightIndex),
+        renderTransformHandles: (handles) => this.renderManager.renderTransformHandles(handles),
         clearVertices: () => this.renderManager.clearVertices(),
         setSelectedIds: (ids) => this.renderManager.setSelectedIds(ids),
       },
+      snapping: {
+        snap: (event, excludeIds) => this.snapPointer(event, excludeIds),
+        clearIndicator: () => this.renderManager.clearSnapIndicator(),
+      },
       getScreenPoint: (lngLat) => {
         const pt = map.project([lngLat.lng, lngLat.lat]);
         return { x: pt.x, y: pt.y };
@@ -149,18 +204,42 @@ export class LibreDraw {
         }
       },
       getSetbackDistance: () => this.toolbar?.getSetbackDistance() ?? 10,
+      setSetbackDistance: (distance) => this.toolbar?.setSetbackDistance(distance),
+      getCircleRadius: () => this.toolbar?.getCircleRadius() ?? null,
+      getStripOptions: () => this.toolbar?.getStripOptions() ?? { count: 4 },
+      getBufferDistance: () => this.toolbar?.getBufferDistance() ?? -10,
     };
 
-    const drawMode = new DrawMode(modeContext);
+    this.drawMode = new DrawMode(modeContext, options.draw);
+    const rectangleMode = new RectangleMode(modeContext, options.rectangle);
+    this.circleMode = new CircleMode(modeContext, options.circle);
+    const freehandMode = new FreehandMode(modeContext, options.freehand);
+    const lineMode = new LineMode(modeContext);
+    const pointMode = new PointMode(modeContext);
     this.selectMode = new SelectMode(modeContext);
-    const splitMode = new SplitMode(modeContext);
+    const holeMode = new HoleMode(modeContext);
+    const splitMode = new SplitMode(modeContext, options.split);
+    this.differenceMode = new DifferenceMode(modeContext);
+    this.intersectMode = new IntersectMode(modeContext);
+    this.stripsMode = new StripsMode(modeContext);
+    this.bufferMode = new BufferMode(modeContext, options.buffer);
     this.setbackMode = new SetbackMode(modeContext);
 
     // Register modes
     this.modeManager.registerMode('idle', new IdleMode());
-    this.modeManager.registerMode('draw', drawMode);
+    this.modeManager.registerMode('draw', this.drawMode);
+    this.modeManager.registerMode('rectangle', rectangleMode);
+    this.modeManager.registerMode('circle', this.circleMode);
+    this.modeManager.registerMode('freehand', freehandMode);
+    this.modeManager.registerMode('line', lineMode);
+    this.modeManager.registerMode('point', pointMode);
     this.modeManager.registerMode('select', this.selectMode);
+    this.modeManager.registerMode('hole', holeMode);
     this.modeManager.registerMode('split', splitMode);
+    this.modeManager.registerMode('difference', this.differenceMode);
+    this.modeManager.registerMode('intersect', this.intersectMode);
+    this.modeManager.registerMode('strips', this.stripsMode);
+    this.modeManager.registerMode('buffer', this.bufferMode);
     this.modeManager.registerMode('setback', this.setbackMode);
 
     // Mode change event
@@ -186,6 +265,24 @@ export class LibreDraw {
       map,
       () => this.modeManager.getCurrentMode(),
     );
+    this.clipboardInput = new ClipboardInput({
+      onCopy: () => {
+        const ids = this.selectMode.getSelectedIds();
+        return ids.length > 0 ? serializeFeatures(this.copyFeatures(ids)) : null;
+      },
+      onCut: () => {
+        const ids = this.selectMode.getSelectedIds();
+        return ids.length > 0 ? serializeFeatures(this.cutFeatures(ids)) : null;
+      },
+      onPaste: (text) => {
+        if (this.modeManager.getMode() !== 'select') return false;
+        const features = parseClipboardFeatures(text);
+        if (!features) return false;
+        this.pasteFeatures(features, this.cursorPosition ?? undefined);
+        return true;
+      },
+    });
+    map.on('mousemove', this.handleMouseMove);
 
     // Toolbar
     if (options.toolbar !== false && options.toolbar !== undefined) {
@@ -213,7 +310,14 @@ export class LibreDraw {
    * event is emitted on every transition.
    *
    * @param mode - `'idle'` (no interaction), `'draw'` (create polygons),
-   *   or `'select'` (select/edit existing polygons).
+   *   `'rectangle'` (create rectangles), `'circle'` (create circles),
+   *   `'freehand'` (trace polygons),
+   *   `'line'` (create lines), `'point'` (place markers),
+   *   `'select'` (select/edit existing features), `'hole'` (cut holes),
+   *   `'split'`, `'difference'` (subtract one polygon from another),
+   *   `'intersect'` (create the overlap of two polygons), `'strips'`
+   *   (divide a polygon into equal-area strips), `'buffer'` (offset the
+   *   whole boundary), or `'setback'`.
    *
    * @throws {LibreDrawError} If this instance has been destroyed.
    *
@@ -233,7 +337,7 @@ export class LibreDraw {
   /**
    * Get the current drawing mode.
    *
-   * @returns The active mode name: `'idle'`, `'draw'`, or `'select'`.
+   * @returns The active mode name, e.g. `'idle'`, `'draw'`, `'line'`, or `'select'`.
    *
    * @throws {LibreDrawError} If this instance has been destroyed.
    *
@@ -252,7 +356,7 @@ export class LibreDraw {
   /**
    * Get all features as an array.
    *
-   * Returns a snapshot of all polygon features currently in the store.
+   * Returns a snapshot of all polygon, line and point features currently in the store.
    *
    * @returns An array of all {@link LibreDrawFeature} objects.
    *
@@ -272,8 +376,8 @@ export class LibreDraw {
   /**
    * Export all features as a GeoJSON FeatureCollection.
    *
-   * Returns a standard GeoJSON FeatureCollection containing all polygon
-   * features currently in the store.
+   * Returns a standard GeoJSON FeatureCollection containing all polygon,
+   * line and point features currently in the store.
    *
    * @returns A GeoJSON {@link FeatureCollection}.
    *
@@ -297,11 +401,13 @@ export class LibreDraw {
    * Validates the input, clears the current store and history, and
    * re-renders the map. Undo/redo history is reset after this call.
    *
-   * @param geojson - A GeoJSON FeatureCollection containing Polygon features.
+   * @param geojson - A GeoJSON FeatureCollection containing Polygon,
+   *   MultiPolygon, LineString or Point features.
    *
    * @throws {LibreDrawError} If this instance has been destroyed.
+   * @throws {LibreDrawError} If called inside a {@link transaction}.
    * @throws {LibreDrawError} If the input is not a valid FeatureCollection
-   *   or contains invalid polygon geometries.
+   *   or contains invalid geometries.
    *
    * @example
    * ```ts
@@ -320,6 +426,7 @@ export class LibreDraw {
    */
   setFeatures(geojson: unknown): void {
     this.assertNotDestroyed();
+    this.assertNotInTransaction('set features');
     const validated = validateGeoJSON(geojson);
     this.featureStore.setAll(validated.features);
     this.resetSelectionState();
@@ -334,9 +441,11 @@ export class LibreDraw {
    * Each feature is validated and added. Unlike {@link setFeatures},
    * this does not clear existing features or history.
    *
-   * @param features - An array of GeoJSON Feature objects with Polygon geometry.
+   * @param features - An array of GeoJSON Feature objects with Polygon,
+   *   MultiPolygon, LineString or Point geometry.
    *
    * @throws {LibreDrawError} If this instance has been destroyed.
+   * @throws {LibreDrawError} If called inside a {@link transaction}.
    * @throws {LibreDrawError} If any feature has invalid geometry.
    *
    * @example
@@ -353,6 +462,7 @@ export class LibreDraw {
    */
   addFeatures(features: unknown[]): void {
     this.assertNotDestroyed();
+    this.assertNotInTransaction('add features');
     for (const feature of features) {
       const validated = validateFeature(feature);
       this.featureStore.add(validated);
@@ -446,6 +556,383 @@ export class LibreDraw {
     return feature;
   }
 
+  /**
+   * Merge (union) two or more adjacent or overlapping polygons into a
+   * single feature.
+   *
+   * The merged feature gets a new ID and the properties of the first
+   * feature. It replaces the originals in a single {@link MergeAction},
+   * so one undo restores them all. Emits a `'merge'` event on success,
+   * or a `'mergefailed'` event when the features cannot be merged (for
+   * example when none of them touch or overlap).
+   *
+   * @param ids - IDs of the features to merge. Defaults to the selected features.
+   * @returns The merged feature, or `undefined` if the merge failed.
+   *
+   * @throws {LibreDrawError} If this instance has been destroyed.
+   * @throws {LibreDrawError} If no feature exists for one of the IDs.
+   *
+   * @example
+   * ```ts
+   * const merged = draw.mergeFeatures(['field-a', 'field-b']);
+   * if (merged) {
+   *   draw.undo(); // restores both fields
+   * }
+   * ```
+   */
+  mergeFeatures(ids?: string[]): LibreDrawFeature | undefined {
+    this.assertNotDestroyed();
+
+    const uniqueIds = Array.from(new Set(ids ?? this.selectMode.getSelectedIds()));
+    const features = uniqueIds.map((id) => {
+      const feature = this.featureStore.getById(id);
+      if (!feature) {
+        throw new LibreDrawError(`Feature not found: ${id}`);
+      }
+      return feature;
+    });
+
+    const result = mergePolygons(features);
+    if (result.type === 'error') {
+      this.eventBus.emit('mergefailed', { reason: result.reason, featureIds: uniqueIds });
+      return undefined;
+    }
+
+    const selectedIds = this.selectMode.getSelectedIds();
+    if (selectedIds.some((id) => uniqueIds.includes(id))) {
+      this.selectMode.clearSelection();
+    }
+
+    for (const id of uniqueIds) {
+      this.featureStore.remove(id);
+    }
+    const stored = this.featureStore.add(result.feature);
+    this.historyManager.push(new MergeAction(features, stored));
+    this.eventBus.emit('merge', {
+      originalFeatures: features.map((f) => cloneFeature(f)),
+      feature: cloneFeature(stored),
+    });
+    this.renderAllFeatures();
+    this.updateToolbarHistoryState();
+
+    return cloneFeature(stored);
+  }
+
+  /**
+   * Subtract one polygon (the cutter) from another (the target), for
+   * example to clip an exclusion zone out of a field.
+   *
+   * The target keeps its ID and properties; the result may contain holes
+   * or become a MultiPolygon. The cutter is left unchanged. The change is
+   * recorded as a single update, so one undo restores the target. Emits a
+   * `'difference'` event on success, or a `'differencefailed'` event when
+   * the polygons do not overlap or the cutter covers the whole target.
+   *
+   * @param targetId - ID of the polygon to clip.
+   * @param cutterId - ID of the polygon to subtract.
+   * @returns The clipped feature, or `undefined` if the operation failed.
+   *
+   * @throws {LibreDrawError} If this instance has been destroyed.
+   * @throws {LibreDrawError} If no feature exists for one of the IDs.
+   *
+   * @example
+   * ```ts
+   * const clipped = draw.difference('field', 'protected-area');
+   * if (clipped) {
+   *   draw.undo(); // restores the field
+   * }
+   * ```
+   */
+  difference(targetId: string, cutterId: string): LibreDrawFeature | undefined {
+    this.assertNotDestroyed();
+
+    for (const id of [targetId, cutterId]) {
+      if (!this.featureStore.getById(id)) {
+        throw new LibreDrawError(`Feature not found: ${id}`);
+      }
+    }
+
+    if (this.selectMode.getSelectedIds().includes(targetId)) {
+      this.selectMode.clearSelection();
+    }
+
+    const result = this.differenceMode.executeDifference(targetId, cutterId);
+    return result ? cloneFeature(result) : undefined;
+  }
+
+  /**
+   * Create a new feature from the area shared by two polygons, for
+   * example where a planned spraying zone overlaps a field.
+   *
+   * The inputs are not modified. The new feature gets a new ID and empty
+   * properties; it is a MultiPolygon when the overlap has several parts.
+   * Emits a `'create'` event and is undoable like any other creation.
+   * Emits an `'intersectfailed'` event when the polygons do not overlap.
+   *
+   * @param idA - ID of the first polygon.
+   * @param idB - ID of the second polygon.
+   * @returns The new overlap feature, or `undefined` if the operation failed.
+   *
+   * @throws {LibreDrawError} If this instance has been destroyed.
+   * @throws {LibreDrawError} If no feature exists for one of the IDs.
+   *
+   * @example
+   * ```ts
+   * const overlap = draw.intersect('spray-zone', 'field');
+   * if (!overlap) {
+   *   console.log('The zone does not touch the field');
+   * }
+   * ```
+   */
+  intersect(idA: string, idB: string): LibreDrawFeature | undefined {
+    this.assertNotDestroyed();
+
+    for (const id of [idA, idB]) {
+      if (!this.featureStore.getById(id)) {
+        throw new LibreDrawError(`Feature not found: ${id}`);
+      }
+    }
+
+    const result = this.intersectMode.executeIntersect(idA, idB);
+    return result ? cloneFeature(result) : undefined;
+  }
+
+  /**
+   * Divide a polygon into strips of equal area parallel to one of its
+   * edges, for example the plots of a planting trial.
+   *
+   * Strips are numbered from the chosen edge: each gets a new ID, the
+   * polygon's properties and a `stripIndex` property (0 at the edge).
+   * With a target width, the number of strips is the polygon's depth
+   * from the edge divided by the width, rounded. The strips replace the
+   * polygon in a single split action, so one undo restores it. Emits a
+   * `'strips'` event on success, or a `'stripsfailed'` event when the
+   * polygon cannot be divided.
+   *
+   * @param id - ID of the polygon to divide.
+   * @param edgeIndex - Index of the outer-ring edge the strips run along
+   *   (edge `i` goes from vertex `i` to vertex `i + 1`).
+   * @param options - `{ count }` strips, or a target `{ width }` in meters.
+   * @returns The strips, or `undefined` if the operation failed.
+   *
+   * @throws {LibreDrawError} If this instance has been destroyed.
+   * @throws {LibreDrawError} If no feature exists for the ID.
+   *
+   * @example
+   * ```ts
+   * const strips = draw.splitIntoStrips('field', 0, { count: 6 });
+   * strips?.forEach((s) => console.log(s.properties.stripIndex));
+   * ```
+   */
+  splitIntoStrips(
+    id: string,
+    edgeIndex: number,
+    options: StripOptions,
+  ): LibreDrawFeature[] | undefined {
+    this.assertNotDestroyed();
+
+    if (!this.featureStore.getById(id)) {
+      throw new LibreDrawError(`Feature not found: ${id}`);
+    }
+
+    if (this.selectMode.getSelectedIds().includes(id)) {
+      this.selectMode.clearSelection();
+    }
+
+    const strips = this.stripsMode.executeStrips(id, edgeIndex, options);
+    return strips?.map((strip) => cloneFeature(strip));
+  }
+
+  /**
+   * Grow or shrink a polygon's whole boundary by a uniform distance, for
+   * example to pull in a headland or add a spray buffer around a field.
+   *
+   * Positive distances push the boundary out, negative distances pull it
+   * in; offsets are measured in meters along great circles. Holes shrink
+   * or grow accordingly, and parts that collapse are dropped, so the
+   * result may be a MultiPolygon. The feature keeps its ID and properties
+   * and the change is recorded as a single update. Emits a `'buffer'`
+   * event on success, or a `'bufferfailed'` event when nothing is left.
+   *
+   * @param id - ID of the polygon to buffer.
+   * @param distance - Outward (positive) or inward (negative) distance in meters.
+   * @param options - Corner style; defaults to the `buffer` constructor option.
+   * @returns The buffered feature, or `undefined` if the operation failed.
+   *
+   * @throws {LibreDrawError} If this instance has been destroyed.
+   * @throws {LibreDrawError} If no feature exists for the ID.
+   *
+   * @example
+   * ```ts
+   * // 12 m headland with rounded corners
+   * draw.buffer('field', -12, { join: 'round' });
+   * ```
+   */
+  buffer(id: string, distance: number, options: BufferOptions = {}): LibreDrawFeature | undefined {
+    this.assertNotDestroyed();
+
+    if (!this.featureStore.getById(id)) {
+      throw new LibreDrawError(`Feature not found: ${id}`);
+    }
+
+    if (this.selectMode.getSelectedIds().includes(id)) {
+      this.selectMode.clearSelection();
+    }
+
+    const result = this.bufferMode.executeBuffer(id, distance, options.join);
+    return result ? cloneFeature(result) : undefined;
+  }
+
+  /**
+   * Copy features to the clipboard.
+   *
+   * The copies are kept for {@link paste} and also written to the system
+   * clipboard as a GeoJSON FeatureCollection, so they can be pasted in
+   * another browser tab. Writing to the system clipboard needs a secure
+   * context; where it is unavailable only the internal copy is kept.
+   * In select mode, Ctrl/Cmd+C copies the selection the same way.
+   *
+   * @param ids - IDs of the features to copy. Defaults to the selected features.
+   * @returns The copied features.
+   *
+   * @throws {LibreDrawError} If this instance has been destroyed.
+   * @throws {LibreDrawError} If no feature exists for one of the IDs.
+   *
+   * @example
+   * ```ts
+   * draw.copy(['plot-template']);
+   * draw.paste([139.75, 35.68]);
+   * ```
+   */
+  copy(ids?: string[]): LibreDrawFeature[] {
+    this.assertNotDestroyed();
+    const features = this.copyFeatures(ids ?? this.selectMode.getSelectedIds());
+    this.writeSystemClipboard(features);
+    return features;
+  }
+
+  /**
+   * Copy features to the clipboard and delete them.
+   *
+   * Works like {@link copy}, then removes the features in a single
+   * history entry, so one undo restores them all. Emits a `'delete'`
+   * event for each feature. In select mode, Ctrl/Cmd+X cuts the
+   * selection the same way.
+   *
+   * @param ids - IDs of the features to cut. Defaults to the selected features.
+   * @returns The cut features.
+   *
+   * @throws {LibreDrawError} If this instance has been destroyed.
+   * @throws {LibreDrawError} If no feature exists for one of the IDs.
+   *
+   * @example
+   * ```ts
+   * draw.cut();
+   * draw.undo(); // restores the cut features
+   * ```
+   */
+  cut(ids?: string[]): LibreDrawFeature[] {
+    this.assertNotDestroyed();
+    const features = this.cutFeatures(ids ?? this.selectMode.getSelectedIds());
+    this.writeSystemClipboard(features);
+    return features;
+  }
+
+  /**
+   * Paste the features last copied or cut with this instance.
+   *
+   * The pasted features get new IDs and keep their properties. They are
+   * moved together so the center of their bounding box lands on the
+   * position, which defaults to the last cursor position over the map;
+   * before the cursor has been over the map they keep their place. The
+   * paste is recorded as a single history entry and emits a `'create'`
+   * event for each feature. In select mode the pasted features are
+   * selected.
+   *
+   * In select mode, Ctrl/Cmd+V pastes GeoJSON Features or
+   * FeatureCollections from the system clipboard at the cursor, including
+   * features copied in another browser tab.
+   *
+   * @param position - Where to paste, as `[lng, lat]`.
+   * @returns The pasted features, or an empty array if nothing was copied.
+   *
+   * @throws {LibreDrawError} If this instance has been destroyed.
+   *
+   * @example
+   * ```ts
+   * draw.copy(['plot-template']);
+   * const [plot] = draw.paste([139.75, 35.68]);
+   * console.log(plot.id); // a new ID
+   * ```
+   */
+  paste(position?: Position): LibreDrawFeature[] {
+    this.assertNotDestroyed();
+    return this.pasteFeatures(this.clipboard, position ?? this.cursorPosition ?? undefined);
+  }
+
+  /**
+   * Duplicate features at an offset, for example to lay out a second plot
+   * next to the first.
+   *
+   * The duplicates get new IDs and keep their properties, and are moved
+   * together by the offset, measured geodesically from the center of their
+   * combined bounding box. They are recorded as a single history entry and
+   * emit a `'create'` event each. In select mode the duplicates are
+   * selected.
+   *
+   * @param offset - Distance in meters and bearing in degrees clockwise from north.
+   * @param ids - IDs of the features to duplicate. Defaults to the selected features.
+   * @returns The duplicates, or an empty array if there was nothing to duplicate.
+   *
+   * @throws {LibreDrawError} If this instance has been destroyed.
+   * @throws {LibreDrawError} If no feature exists for one of the IDs.
+   * @throws {LibreDrawError} If the distance or bearing is not a finite number.
+   *
+   * @example
+   * ```ts
+   * // 30 m east of the original
+   * const [copy] = draw.duplicate({ distance: 30, bearing: 90 }, ['plot-1']);
+   * ```
+   */
+  duplicate(offset: DuplicateOffset, ids?: string[]): LibreDrawFeature[] {
+    this.assertNotDestroyed();
+    const features = this.getFeaturesByIds(ids ?? this.selectMode.getSelectedIds());
+    return this.addCopies(createDuplicates(features, offset));
+  }
+
+  /**
+   * Copy features several times in a row, for example to lay out a row of
+   * greenhouses.
+   *
+   * Each copy is placed `gap` meters beyond the previous one along the
+   * bearing, measured between the shapes rather than their centers.
+   * Several features are copied together as a group. The copies get new
+   * IDs and keep their properties. All copies are recorded as a single
+   * history entry, so one undo removes the whole row, and emit a
+   * `'create'` event each. In select mode the copies are selected.
+   *
+   * @param options - Number of copies, bearing in degrees clockwise from
+   *   north and gap in meters.
+   * @param ids - IDs of the features to copy. Defaults to the selected features.
+   * @returns The copies in row order, or an empty array if there was nothing to copy.
+   *
+   * @throws {LibreDrawError} If this instance has been destroyed.
+   * @throws {LibreDrawError} If no feature exists for one of the IDs.
+   * @throws {LibreDrawError} If the count is not an integer from 1 to 500,
+   *   or the bearing or gap is invalid.
+   *
+   * @example
+   * ```ts
+   * // Five more greenhouses to the south, 4 m apart
+   * draw.arrayCopy({ count: 5, bearing: 180, gap: 4 }, ['greenhouse-1']);
+   * ```
+   */
+  arrayCopy(options: ArrayCopyOptions, ids?: string[]): LibreDrawFeature[] {
+    this.assertNotDestroyed();
+    const features = this.getFeaturesByIds(ids ?? this.selectMode.getSelectedIds());
+    return this.addCopies(createArrayCopies(features, options));
+  }
+
   /**
    * Programmatically select a feature by its ID.
    *
@@ -509,6 +996,7 @@ export class LibreDraw {
    * @returns `true` if an action was undone, `false` if nothing to undo.
    *
    * @throws {LibreDrawError} If this instance has been destroyed.
+   * @throws {LibreDrawError} If called inside {@link transaction}.
    *
    * @example
    * ```ts
@@ -519,6 +1007,7 @@ export class LibreDraw {
    */
   undo(): boolean {
     this.assertNotDestroyed();
+    this.assertNotInTransaction('undo');
     const result = this.historyManager.undo(this.featureStore);
     if (result) {
       this.renderAllFeatures();
@@ -537,6 +1026,7 @@ export class LibreDraw {
    * @returns `true` if an action was redone, `false` if nothing to redo.
    *
    * @throws {LibreDrawError} If this instance has been destroyed.
+   * @throws {LibreDrawError} If called inside {@link transaction}.
    *
    * @example
    * ```ts
@@ -546,6 +1036,7 @@ export class LibreDraw {
    */
   redo(): boolean {
     this.assertNotDestroyed();
+    this.assertNotInTransaction('redo');
     const result = this.historyManager.redo(this.featureStore);
     if (result) {
       this.renderAllFeatures();
@@ -555,10 +1046,75 @@ export class LibreDraw {
     return result;
   }
 
+  /**
+   * Run several changes as one undo step.
+   *
+   * Every change made by `fn` through the API is recorded as a single
+   * history entry, so one undo reverts them all and one redo re-applies
+   * them. The usual per-feature events fire as the changes happen, and a
+   * single `'change'` event with the net result fires once `fn` returns,
+   * if anything changed. If `fn` throws, its changes are reverted, a
+   * `'change'` event with `rolledBack: true` describes the revert to
+   * listeners that already saw the per-feature events, and the error is
+   * rethrown. `fn` must make its changes synchronously. A
+   * transaction started inside another one joins it. {@link setFeatures},
+   * {@link addFeatures}, {@link undo} and {@link redo} bypass or reset the
+   * history, so they throw when called from `fn`.
+   *
+   * @param fn - The changes to group.
+   * @returns The value returned by `fn`.
+   *
+   * @throws {LibreDrawError} If this instance has been destroyed.
+   *
+   * @example
+   * ```ts
+   * draw.transaction(() => {
+   *   draw.deleteFeature('plot-1');
+   *   draw.deleteFeature('plot-2');
+   * });
+   * draw.undo(); // restores both plots
+   * ```
+   */
+  transaction<T>(fn: () => T): T {
+    this.assertNotDestroyed();
+    if (this.historyManager.isInTransaction()) return fn();
+
+    const before = new Map(this.featureStore.getAll().map((f) => [f.id, f]));
+    this.historyManager.beginTransaction();
+    let result: T;
+    try {
+      result = fn();
+    } catch (error) {
+      const failed = new Map(this.featureStore.getAll().map((f) => [f.id, f]));
+      this.historyManager.rollbackTransaction(this.featureStore);
+      // Restore the snapshot too, so the store matches it exactly
+      this.featureStore.setAll([...before.values()]);
+      if (!this.destroyed) {
+        this.renderAllFeatures();
+        this.selectMode.refreshVertexHandles();
+        this.updateToolbarHistoryState();
+        const rollback = this.collectChanges(failed, true);
+        if (rollback) {
+          this.eventBus.emit('change', rollback);
+        }
+      }
+      throw error;
+    }
+
+    this.historyManager.commitTransaction();
+    if (this.destroyed) return result;
+    this.updateToolbarHistoryState();
+    const change = this.collectChanges(before, false);
+    if (change) {
+      this.eventBus.emit('change', change);
+    }
+    return result;
+  }
+
   /**
    * Register an event listener.
    *
-   * Supported events: `'create'`, `'update'`, `'delete'`,
+   * Supported events: `'create'`, `'update'`, `'delete'`, `'change'`,
    * `'selectionchange'`, `'modechange'`.
    *
    * @param type - The event type to listen for.
@@ -571,8 +1127,11 @@ export class LibreDraw {
    * draw.on('create', (e) => console.log('Created:', e.feature.id));
    * draw.on('update', (e) => console.log('Updated:', e.feature.id));
    * draw.on('delete', (e) => console.log('Deleted:', e.feature.id));
+   * draw.on('change', (e) => console.log('Transaction:', e.created, e.updated, e.deleted));
    * draw.on('split', (e) => console.log('Split:', e.originalFeature.id));
    * draw.on('splitfailed', (e) => console.log('Split failed:', e.reason));
+   * draw.on('merge', (e) => console.log('Merged:', e.feature.id));
+   * draw.on('difference', (e) => console.log('Clipped:', e.feature.id));
    * draw.on('selectionchange', (e) => console.log('Selected:', e.selectedIds));
    * draw.on('modechange', (e) => console.log(`${e.previousMode} -> ${e.mode}`));
    * ```
@@ -630,12 +1189,15 @@ export class LibreDraw {
     this.destroyed = true;
 
     this.map.off('styledata', this.handleStyleData);
+    this.map.off('mousemove', this.handleMouseMove);
     this.modeManager.setMode('idle');
     this.inputHandler.destroy();
+    this.clipboardInput.destroy();
     this.renderManager.destroy();
     this.eventBus.removeAllListeners();
     this.historyManager.clear();
     this.featureStore.clear();
+    this.clipboard = [];
 
     if (this.toolbar) {
       this.toolbar.destroy();
@@ -651,6 +1213,7 @@ export class LibreDraw {
     this.renderManager.initialize();
     if (!this.inputEnabled) {
       this.inputHandler.enable();
+      this.clipboardInput.enable();
       this.inputEnabled = true;
     }
     this.renderAllFeatures();
@@ -664,6 +1227,55 @@ export class LibreDraw {
     this.renderManager.render(features);
   }
 
+  /**
+   * Resolve the pointer position for modes, snapping it to nearby
+   * features when enabled and updating the snap indicator.
+   */
+  private snapPointer(event: NormalizedInputEvent, excludeIds: string[] = []): Position {
+    const raw: Position = [event.lngLat.lng, event.lngLat.lat];
+    if (!this.snapOptions.enabled) return raw;
+
+    const candidates = this.featureStore.getAll().filter((f) => !excludeIds.includes(f.id));
+    candidates.push(...this.queryLayerSnapCandidates(event));
+    const result = findSnapTarget(
+      event.point,
+      candidates,
+      (lngLat) => {
+        const pt = this.map.project([lngLat.lng, lngLat.lat]);
+        return { x: pt.x, y: pt.y };
+      },
+      this.snapOptions,
+    );
+
+    if (!result) {
+      this.renderManager.clearSnapIndicator();
+      return raw;
+    }
+
+    this.renderManager.renderSnapIndicator(result.position);
+    return result.position;
+  }
+
+  /**
+   * Query the features rendered by the configured snap layers around
+   * the pointer. Layers missing from the current style are skipped.
+   */
+  private queryLayerSnapCandidates(event: NormalizedInputEvent): LibreDrawFeature[] {
+    const layers = this.snapOptions.layers.filter((id) => this.map.getLayer(id));
+    if (layers.length === 0) return [];
+
+    const { x, y } = event.point;
+    const tolerance = this.snapOptions.tolerance;
+    const rendered = this.map.queryRenderedFeatures(
+      [
+        [x - tolerance, y - tolerance],
+        [x + tolerance, y + tolerance],
+      ],
+      { layers },
+    );
+    return toSnapCandidates(rendered);
+  }
+
   /**
    * Create the toolbar UI.
    */
@@ -675,16 +1287,84 @@ export class LibreDraw {
           const current = this.modeManager.getMode();
           this.modeManager.setMode(current === 'draw' ? 'idle' : 'draw');
         },
+        onDrawVertexSubmit: (vertex) => {
+          this.drawMode.executeFromUi(vertex);
+        },
+        onDrawVertexChange: (vertex) => {
+          this.drawMode.onTypedVertexChange(vertex);
+        },
+        onRectangleClick: () => {
+          const current = this.modeManager.getMode();
+          this.modeManager.setMode(current === 'rectangle' ? 'idle' : 'rectangle');
+        },
+        onCircleClick: () => {
+          const current = this.modeManager.getMode();
+          this.modeManager.setMode(current === 'circle' ? 'idle' : 'circle');
+        },
+        onCircleRadiusSubmit: (radius) => {
+          this.circleMode.executeFromUi(radius);
+        },
+        onCircleRadiusChange: (radius) => {
+          this.circleMode.onRadiusChange(radius);
+        },
+        onFreehandClick: () => {
+          const current = this.modeManager.getMode();
+          this.modeManager.setMode(current === 'freehand' ? 'idle' : 'freehand');
+        },
+        onLineClick: () => {
+          const current = this.modeManager.getMode();
+          this.modeManager.setMode(current === 'line' ? 'idle' : 'line');
+        },
+        onPointClick: () => {
+          const current = this.modeManager.getMode();
+          this.modeManager.setMode(current === 'point' ? 'idle' : 'point');
+        },
         onSelectClick: () => {
           const current = this.modeManager.getMode();
           this.modeManager.setMode(
             current === 'select' ? 'idle' : 'select',
           );
         },
+        onHoleClick: () => {
+          const current = this.modeManager.getMode();
+          this.modeManager.setMode(current === 'hole' ? 'idle' : 'hole');
+        },
         onSplitClick: () => {
           const current = this.modeManager.getMode();
           this.modeManager.setMode(current === 'split' ? 'idle' : 'split');
         },
+        onDifferenceClick: () => {
+          const current = this.modeManager.getMode();
+          this.modeManager.setMode(
+            current === 'difference' ? 'idle' : 'difference',
+          );
+        },
+        onIntersectClick: () => {
+          const current = this.modeManager.getMode();
+          this.modeManager.setMode(
+            current === 'intersect' ? 'idle' : 'intersect',
+          );
+        },
+        onStripsClick: () => {
+          const current = this.modeManager.getMode();
+          this.modeManager.setMode(current === 'strips' ? 'idle' : 'strips');
+        },
+        onStripsExecute: (options) => {
+          this.stripsMode.executeFromUi(options);
+        },
+        onStripsOptionsChange: (options) => {
+          this.stripsMode.onOptionsChange(options);
+        },
+        onBufferClick: () => {
+          const current = this.modeManager.getMode();
+          this.modeManager.setMode(current === 'buffer' ? 'idle' : 'buffer');
+        },
+        onBufferExecute: (distance) => {
+          this.bufferMode.executeFromUi(distance);
+        },
+        onBufferDistanceChange: (distance) => {
+          this.bufferMode.onDistanceChange(distance);
+        },
         onSetbackClick: () => {
           const current = this.modeManager.getMode();
           this.modeManager.setMode(
@@ -700,9 +1380,11 @@ export class LibreDraw {
         onDeleteClick: () => {
           if (this.modeManager.getMode() === 'select') {
             const selectedIds = this.selectMode.getSelectedIds();
-            for (const id of selectedIds) {
-              this.deleteFeature(id);
-            }
+            this.transaction(() => {
+              for (const id of selectedIds) {
+                this.deleteFeature(id);
+              }
+            });
           }
         },
         onUndoClick: () => {
@@ -723,6 +1405,126 @@ export class LibreDraw {
     );
   }
 
+  /**
+   * Look up features by ID, ignoring repeated IDs.
+   */
+  private getFeaturesByIds(ids: string[]): LibreDrawFeature[] {
+    return Array.from(new Set(ids)).map((id) => {
+      const feature = this.featureStore.getById(id);
+      if (!feature) {
+        throw new LibreDrawError(`Feature not found: ${id}`);
+      }
+      return feature;
+    });
+  }
+
+  /**
+   * Keep copies of features for pasting.
+   */
+  private copyFeatures(ids: string[]): LibreDrawFeature[] {
+    const features = this.getFeaturesByIds(ids);
+    if (features.length > 0) {
+      this.clipboard = features.map((f) => cloneFeature(f));
+    }
+    return features;
+  }
+
+  /**
+   * Keep copies of features for pasting and delete them as one history entry.
+   */
+  private cutFeatures(ids: string[]): LibreDrawFeature[] {
+    const features = this.copyFeatures(ids);
+    if (features.length === 0) return features;
+
+    const selectedIds = this.selectMode.getSelectedIds();
+    if (features.some((f) => selectedIds.includes(f.id))) {
+      this.selectMode.clearSelection();
+    }
+
+    for (const feature of features) {
+      this.featureStore.remove(feature.id);
+    }
+    this.historyManager.push(
+      features.length === 1 ? new DeleteAction(features[0]) : new BatchDeleteAction(features),
+    );
+    for (const feature of features) {
+      this.eventBus.emit('delete', { feature: cloneFeature(feature) });
+    }
+    this.renderAllFeatures();
+    this.updateToolbarHistoryState();
+
+    return features;
+  }
+
+  /**
+   * Add copies of features with new IDs, centered on the position.
+   */
+  private pasteFeatures(features: LibreDrawFeature[], position?: Position): LibreDrawFeature[] {
+    return this.addCopies(createPasteFeatures(features, position));
+  }
+
+  /**
+   * Add new features as one history entry and select them in select mode.
+   */
+  private addCopies(copies: LibreDrawFeature[]): LibreDrawFeature[] {
+    if (copies.length === 0) return [];
+
+    const stored = copies.map((feature) => this.featureStore.add(feature));
+    this.historyManager.push(
+      stored.length === 1 ? new CreateAction(stored[0]) : new BatchCreateAction(stored),
+    );
+    for (const feature of stored) {
+      this.eventBus.emit('create', { feature: cloneFeature(feature) });
+    }
+    this.renderAllFeatures();
+    this.updateToolbarHistoryState();
+
+    if (this.modeManager.getMode() === 'select') {
+      this.selectMode.selectFeatures(stored.map((f) => f.id));
+    }
+
+    return stored.map((f) => cloneFeature(f));
+  }
+
+  /**
+   * Write features to the system clipboard as GeoJSON. The Clipboard API
+   * is missing outside secure contexts and may be denied; the internal
+   * clipboard still works then.
+   */
+  private writeSystemClipboard(features: LibreDrawFeature[]): void {
+    if (features.length === 0) return;
+    navigator.clipboard?.writeText(serializeFeatures(features)).catch(() => {});
+  }
+
+  /**
+   * Compare the features in the store with a snapshot taken earlier.
+   * @returns The net changes, or null when nothing changed.
+   */
+  private collectChanges(
+    before: Map<string, LibreDrawFeature>,
+    rolledBack: boolean,
+  ): ChangeEvent | null {
+    const after = this.featureStore.getAll();
+    const afterIds = new Set(after.map((f) => f.id));
+    const created: LibreDrawFeature[] = [];
+    const updated: ChangeEvent['updated'] = [];
+    for (const feature of after) {
+      const oldFeature = before.get(feature.id);
+      if (!oldFeature) {
+        created.push(feature);
+      } else if (
+        !geometryEquals(oldFeature.geometry, feature.geometry) ||
+        JSON.stringify(oldFeature.properties) !== JSON.stringify(feature.properties)
+      ) {
+        updated.push({ feature, oldFeature });
+      }
+    }
+    const deleted = Array.from(before.values()).filter((f) => !afterIds.has(f.id));
+
+    if (created.length + updated.length + deleted.length === 0) return null;
+    return { created, updated, deleted, rolledBack };
+  }
+
   /**
    * Apply map interaction settings declared by the active mode.
    */
@@ -738,6 +1540,12 @@ export class LibreDraw {
     } else {
       this.map.doubleClickZoom.disable();
     }
+
+    if (config.boxZoom === false) {
+      this.map.boxZoom.disable();
+    } else {
+      this.map.boxZoom.enable();
+    }
   }
 
   /**
@@ -774,4 +1582,16 @@ export class LibreDraw {
       );
     }
   }
+
+  /**
+   * Assert that no transaction is open, so operations that bypass or reset
+   * the history cannot interleave with the changes it collects.
+   * @param operation - What was attempted, for the error message.
+   * @throws LibreDrawError if a transaction is open.
+   */
+  private assertNotInTransaction(operation: string): void {
+    if (this.historyManager.isInTransaction()) {
+      throw new LibreDrawError(`Cannot ${operation} inside a transaction.`);
+    }
+  }
 }
@@ -1,14 +1,18 @@
+import { CompoundAction } from '../types/features';
 import type { Action, FeatureStoreInterface } from '../types/features';
 
 /**
  * Manages undo/redo history using an action-based stack.
  *
  * Each action knows how to apply and revert itself on the feature store.
- * A configurable limit prevents unbounded memory growth.
+ * A configurable limit prevents unbounded memory growth. Actions pushed
+ * during a transaction are collected and recorded as one entry when it is
+ * committed.
  */
 export class HistoryManager {
   private undoStack: Action[] = [];
   private redoStack: Action[] = [];
+  private transaction: Action[] | null = null;
   private readonly limit: number;
 
   /**
@@ -25,6 +29,10 @@ export class HistoryManager {
    * @param action - The action to record.
    */
   push(action: Action): void {
+    if (this.transaction) {
+      this.transaction.push(action);
+      return;
+    }
     this.undoStack.push(action);
     this.redoStack = [];
     if (this.undoStack.length > this.limit) {
@@ -32,6 +40,48 @@ export class HistoryManager {
     }
   }
 
+  /**
+   * Start collecting pushed actions into a single history entry.
+   * @throws {Error} If a transaction is already open.
+   */
+  beginTransaction(): void {
+    if (this.transaction) {
+      throw new Error('A history transaction is already open.');
+    }
+    this.transaction = [];
+  }
+
+  /**
+   * Record the actions collected since {@link beginTransaction} as one
+   * entry: the action itself when there is only one, a
+   * {@link CompoundAction} otherwise. Nothing is recorded when no action
+   * was pushed.
+   */
+  commitTransaction(): void {
+    const actions = this.transaction;
+    this.transaction = null;
+    if (!actions || actions.length === 0) return;
+    this.push(actions.length === 1 ? actions[0] : new CompoundAction(actions));
+  }
+
+  /**
+   * Revert the actions collected since {@link beginTransaction}, newest
+   * first, and discard them. The undo and redo stacks are left untouched.
+   * @param store - The feature store to revert the actions on.
+   */
+  rollbackTransaction(store: FeatureStoreInterface): void {
+    const actions = this.transaction ?? [];
+    this.transaction = null;
+    new CompoundAction(actions).revert(store);
+  }
+
+  /**
+   * Whether a transaction is open.
+   */
+  isInTransaction(): boolean {
+    return this.transaction !== null;
+  }
+
   /**
    * Undo the most recent action.
    * @param store - The feature store to revert the action on.
@@ -77,10 +127,13 @@ export class HistoryManager {
   }
 
   /**
-   * Clear all history.
+   * Clear all history, including actions collected by an open transaction.
    */
   clear(): void {
     this.undoStack = [];
     this.redoStack = [];
+    if (this.transaction) {
+      this.transaction = [];
+    }
   }
 }
@@ -1,5 +1,8 @@
 import type { LibreDrawEventMap } from '../types/events';
 import type { Action, LibreDrawFeature, Position } from '../types/features';
+import type { NormalizedInputEvent } from '../types/input';
+import type { TransformHandle } from '../utils/transform';
+import type { StripOptions } from '../utils/strips';
 
 /**
  * Shared dependencies injected into modes.
@@ -24,18 +27,37 @@ export interface ModeContext {
   render: {
     renderFeatures(): void;
     renderPreview(coordinates: Position[]): void;
+    renderPreviewLines(lines: Position[][]): void;
     clearPreview(): void;
     renderEdgeHighlight(coordinates: Position[]): void;
+    renderEdgeHighlights(edges: Position[][]): void;
     clearEdgeHighlight(): void;
     renderVertices(
       vertices: Position[],
       midpoints: Position[],
       highlightIndex?: number,
     ): void;
+    /** Render transform handles; cleared together with the vertices. */
+    renderTransformHandles(handles: TransformHandle[]): void;
     clearVertices(): void;
     setSelectedIds(ids: string[]): void;
   };
+  snapping: {
+    /**
+     * Resolve the pointer position, snapped to nearby features when
+     * snapping is enabled, and show or hide the snap indicator.
+     * @param excludeIds - Features not to snap to (e.g. the one being edited).
+     */
+    snap(event: NormalizedInputEvent, excludeIds?: string[]): Position;
+    clearIndicator(): void;
+  };
   getScreenPoint(lngLat: { lng: number; lat: number }): { x: number; y: number };
   setDragPan(enabled: boolean): void;
   getSetbackDistance(): number;
+  /** Show a distance in the setback input without notifying the mode. */
+  setSetbackDistance(distance: number): void;
+  /** Radius in the circle input, or null when there is no toolbar. */
+  getCircleRadius(): number | null;
+  getStripOptions(): StripOptions;
+  getBufferDistance(): number;
 }
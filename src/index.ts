@@ -1,10 +1,14 @@
-// LibreDraw - MapLibre GL JS polygon drawing and editing library
+// LibreDraw - MapLibre GL JS polygon, line and point drawing and editing library
 export { LibreDraw } from './LibreDraw';
 
 // Public types
 export type {
   Position,
   PolygonGeometry,
+  MultiPolygonGeometry,
+  LineStringGeometry,
+  PointGeometry,
+  LibreDrawGeometry,
   FeatureProperties,
   LibreDrawFeature,
   FeatureCollection,
@@ -17,8 +21,20 @@ export type {
   CreateEvent,
   UpdateEvent,
   DeleteEvent,
+  ChangeEvent,
   SplitEvent,
   SplitFailedEvent,
+  MergeEvent,
+  MergeFailedEvent,
+  DifferenceEvent,
+  DifferenceFailedEvent,
+  IntersectFailedEvent,
+  StripsEvent,
+  StripsFailedEvent,
+  BufferEvent,
+  BufferFailedEvent,
+  HoleFailedEvent,
+  SetbackEdge,
   SetbackEvent,
   SetbackFailedEvent,
   SetbackFailReason,
@@ -29,6 +45,13 @@ export type {
 export type {
   LibreDrawOptions,
   ToolbarOptions,
+  DrawOptions,
+  RectangleOptions,
+  CircleOptions,
+  FreehandOptions,
+  SnapOptions,
+  SplitOptions,
+  BufferOptions,
   ToolbarPosition,
   ToolbarControls,
   StyleConfig,
@@ -38,8 +61,18 @@ export type {
 export type {
   NormalizedInputEvent,
   InputType,
+  TypedVertex,
 } from './types';
 
+// Circle parameters stored in `properties.circle`
+export type { CircleProperties } from './utils/circle';
+
+// Strip split options for `splitIntoStrips`
+export type { StripOptions } from './utils/strips';
+
+// Duplicate and array copy options for `duplicate` and `arrayCopy`
+export type { DuplicateOffset, ArrayCopyOptions } from './utils/duplicate';
+
 // Mode name type
 export type { ModeName } from './types';
 
@@ -57,3 +90,6 @@ export { SplitAction } from './types';
 
 // Setback history action
 export { SetbackAction } from './types';
+
+// Merge history action
+export { MergeAction } from './types';
@@ -0,0 +1,96 @@
+import { isEditableTarget } from './KeyboardInput';
+
+/**
+ * Callbacks for clipboard events.
+ */
+export interface ClipboardInputCallbacks {
+  /**
+   * Copy the current selection.
+   * @returns The text to put on the clipboard, or `null` to leave the copy
+   *   to the browser.
+   */
+  onCopy(): string | null;
+  /**
+   * Cut the current selection.
+   * @returns The text to put on the clipboard, or `null` to leave the cut
+   *   to the browser.
+   */
+  onCut(): string | null;
+  /**
+   * Paste clipboard text.
+   * @returns Whether the text was pasted as features.
+   */
+  onPaste(text: string): boolean;
+}
+
+/**
+ * Handles the browser's copy, cut and paste events (Ctrl/Cmd + C, X, V).
+ *
+ * Reading and writing the clipboard data of these events works without
+ * a permission prompt, so features can be copied between browser tabs.
+ * Events in text fields, and copy or cut while text is selected elsewhere
+ * on the page, are left to the browser.
+ */
+export class ClipboardInput {
+  private callbacks: ClipboardInputCallbacks;
+
+  private handleCopy = (e: ClipboardEvent): void => {
+    this.write(e, () => this.callbacks.onCopy());
+  };
+
+  private handleCut = (e: ClipboardEvent): void => {
+    this.write(e, () => this.callbacks.onCut());
+  };
+
+  private handlePaste = (e: ClipboardEvent): void => {
+    if (isEditableTarget(e.target) || !e.clipboardData) return;
+    if (this.callbacks.onPaste(e.clipboardData.getData('text/plain'))) {
+      e.preventDefault();
+    }
+  };
+
+  constructor(callbacks: ClipboardInputCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  /**
+   * Start listening for clipboard events.
+   */
+  enable(): void {
+    document.addEventListener('copy', this.handleCopy);
+    document.addEventListener('cut', this.handleCut);
+    document.addEventListener('paste', this.handlePaste);
+  }
+
+  /**
+   * Stop listening for clipboard events.
+   */
+  disable(): void {
+    document.removeEventListener('copy', this.handleCopy);
+    document.removeEventListener('cut', this.handleCut);
+    document.removeEventListener('paste', this.handlePaste);
+  }
+
+  /**
+   * Destroy the clipboard input handler and remove all listeners.
+   */
+  destroy(): void {
+    this.disable();
+  }
+
+  private write(e: ClipboardEvent, getText: () => string | null): void {
+    if (isEditableTarget(e.target) || hasTextSelection() || !e.clipboardData) return;
+
+    const text = getText();
+    if (text === null) return;
+
+    e.clipboardData.setData('text/plain', text);
+    e.preventDefault();
+  }
+}
+
+/** Whether the user has selected text on the page that a copy or cut targets. */
+function hasTextSelection(): boolean {
+  const selection = window.getSelection();
+  return selection !== null && !selection.isCollapsed;
+}
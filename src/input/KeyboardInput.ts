@@ -5,11 +5,24 @@ export interface KeyboardInputCallbacks {
   onKeyDown(key: string, event: KeyboardEvent): void;
 }
 
+/**
+ * Whether a keyboard event originated from an editable element.
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target instanceof HTMLInputElement ||
+    target instanceof HTMLTextAreaElement ||
+    target.isContentEditable
+  );
+}
+
 /**
  * Handles keyboard input events for the drawing interface.
  *
  * Listens for key events on the document and dispatches
- * relevant keys (Escape, Delete, Backspace) to the active mode.
+ * relevant keys (Escape, Enter, Delete, Backspace) to the active mode.
+ * Keys typed into text fields are ignored.
  */
 export class KeyboardInput {
   private callbacks: KeyboardInputCallbacks;
@@ -17,11 +30,13 @@ export class KeyboardInput {
   /** The set of keys that this handler cares about. */
   private static readonly RELEVANT_KEYS = new Set([
     'Escape',
+    'Enter',
     'Delete',
     'Backspace',
   ]);
 
   private handleKeyDown = (e: KeyboardEvent): void => {
+    if (isEditableTarget(e.target)) return;
     if (KeyboardInput.RELEVANT_KEYS.has(e.key)) {
       this.callbacks.onKeyDown(e.key, e);
     }
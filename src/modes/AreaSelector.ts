@@ -0,0 +1,110 @@
+import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
+import { point as turfPoint, polygon as turfPolygon } from '@turf/helpers';
+import type { ModeContext } from '../core/ModeContext';
+import type { LibreDrawFeature, Position } from '../types/features';
+import type { NormalizedInputEvent } from '../types/input';
+import { getDistinctPositions } from '../utils/transform';
+
+/**
+ * Shape of an area selection: a rubber-band box between the press point and
+ * the pointer, or a freehand lasso along the pointer path.
+ */
+export type AreaSelectShape = 'box' | 'lasso';
+
+/**
+ * Handles dragging out a selection area and finding the features that lie
+ * entirely within it.
+ */
+export class AreaSelector {
+  private context: ModeContext;
+  private selecting = false;
+  private shape: AreaSelectShape = 'box';
+  private path: Position[] = [];
+
+  constructor(context: ModeContext) {
+    this.context = context;
+  }
+
+  isSelecting(): boolean {
+    return this.selecting;
+  }
+
+  start(event: NormalizedInputEvent, shape: AreaSelectShape): void {
+    this.selecting = true;
+    this.shape = shape;
+    this.path = [[event.lngLat.lng, event.lngLat.lat]];
+    this.context.setDragPan(false);
+  }
+
+  handleMove(event: NormalizedInputEvent): boolean {
+    if (!this.selecting) return false;
+
+    const position: Position = [event.lngLat.lng, event.lngLat.lat];
+    if (this.shape === 'box') {
+      this.path = [this.path[0], position];
+    } else {
+      const last = this.path[this.path.length - 1];
+      if (last[0] !== position[0] || last[1] !== position[1]) {
+        this.path.push(position);
+      }
+    }
+
+    const ring = this.getRing();
+    if (ring) {
+      this.context.render.renderPreview(ring);
+    }
+    return true;
+  }
+
+  /**
+   * Finish the selection.
+   * @returns IDs of the features whose vertices all lie within the area.
+   */
+  finish(): string[] {
+    const ring = this.getRing();
+    this.endSelect();
+    if (!ring) return [];
+
+    const area = turfPolygon([ring]);
+    const isWithin = (feature: LibreDrawFeature): boolean =>
+      getDistinctPositions(feature).every((position) =>
+        booleanPointInPolygon(turfPoint(position), area),
+      );
+
+    return this.context.store
+      .getAll()
+      .filter(isWithin)
+      .map((feature) => feature.id);
+  }
+
+  endSelect(): void {
+    if (this.selecting) {
+      this.context.render.clearPreview();
+      this.context.setDragPan(true);
+    }
+    this.selecting = false;
+    this.path = [];
+  }
+
+  resetInteractionState(): void {
+    this.endSelect();
+  }
+
+  /** Closed ring of the selection area, or null while it has no area yet. */
+  private getRing(): Position[] | null {
+    if (this.shape === 'lasso') {
+      return this.path.length >= 3 ? [...this.path, this.path[0]] : null;
+    }
+
+    if (this.path.length < 2) return null;
+    const [[lng1, lat1], [lng2, lat2]] = this.path;
+    if (lng1 === lng2 || lat1 === lat2) return null;
+    return [
+      [lng1, lat1],
+      [lng2, lat1],
+      [lng2, lat2],
+      [lng1, lat2],
+      [lng1, lat1],
+    ];
+  }
+}
@@ -0,0 +1,221 @@
+import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
+import { point as turfPoint } from '@turf/helpers';
+import type { Mode } from './Mode';
+import type { ModeContext } from '../core/ModeContext';
+import type { LibreDrawFeature, MultiPolygonGeometry, PolygonGeometry, Position } from '../types/features';
+import { UpdateAction } from '../types/features';
+import type { NormalizedInputEvent } from '../types/input';
+import type { BufferOptions } from '../types/options';
+import { bufferPolygon } from '../utils/buffer';
+import type { BufferJoin } from '../utils/buffer';
+import { cloneFeature } from '../utils/featureSnapshot';
+import { getPolygonParts, isPolygonalFeature } from '../utils/geometry';
+
+type BufferState = 'idle' | 'previewing';
+
+const DEFAULT_BUFFER_DISTANCE_METERS = -10;
+
+/**
+ * Mode for buffering a whole polygon boundary inward or outward.
+ * Click a polygon to preview the buffered outline; Enter (or the toolbar
+ * button) applies it. Negative distances pull the boundary in.
+ */
+export class BufferMode implements Mode {
+  private context: ModeContext;
+  private join: BufferJoin;
+  private isActive = false;
+  private state: BufferState = 'idle';
+  private selectedFeatureId: string | null = null;
+
+  constructor(context: ModeContext, options: BufferOptions = {}) {
+    this.context = context;
+    this.join = options.join ?? 'mitre';
+  }
+
+  mapInteractions(): { dragPan: boolean; doubleClickZoom: boolean } {
+    return {
+      dragPan: true,
+      doubleClickZoom: false,
+    };
+  }
+
+  activate(): void {
+    this.isActive = true;
+    this.resetInteractionState();
+  }
+
+  deactivate(): void {
+    this.isActive = false;
+    this.resetInteractionState();
+  }
+
+  onPointerDown(event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    const hit = this.hitTest([event.lngLat.lng, event.lngLat.lat]);
+    if (!hit) {
+      this.resetInteractionState();
+      return;
+    }
+
+    this.selectFeature(hit.id);
+    this.state = 'previewing';
+    this.updateBufferPreview();
+  }
+
+  onPointerMove(_event: NormalizedInputEvent): void {
+    // No-op
+  }
+
+  onPointerUp(_event: NormalizedInputEvent): void {
+    // No-op
+  }
+
+  onDoubleClick(_event: NormalizedInputEvent): void {
+    // No-op
+  }
+
+  onLongPress(_event: NormalizedInputEvent): void {
+    // No-op
+  }
+
+  onKeyDown(key: string, _event: KeyboardEvent): void {
+    if (!this.isActive) return;
+
+    if (key === 'Escape') {
+      this.resetInteractionState();
+      return;
+    }
+
+    if (key === 'Enter') {
+      this.executeFromPreview();
+    }
+  }
+
+  /**
+   * Called by UI when the buffer distance changes.
+   */
+  onDistanceChange(distance: number): void {
+    if (!this.isActive || this.state !== 'previewing') return;
+    this.updateBufferPreview(distance);
+  }
+
+  /**
+   * Called by UI execute button.
+   */
+  executeFromUi(distance: number): void {
+    this.executeFromPreview(distance);
+  }
+
+  /**
+   * Buffer a polygon in place and record a single update.
+   * Emits `bufferfailed` and returns undefined when the operation fails.
+   * @param featureId - ID of the polygon to buffer.
+   * @param distance - Outward (positive) or inward (negative) distance in meters.
+   * @param join - Corner style; defaults to the mode's configured join.
+   */
+  executeBuffer(
+    featureId: string,
+    distance: number,
+    join: BufferJoin = this.join,
+  ): LibreDrawFeature | undefined {
+    const feature = this.context.store.getById(featureId);
+    if (!feature) return undefined;
+
+    const result = bufferPolygon(feature, distance, join);
+    if (result.type === 'error') {
+      this.context.events.emit('bufferfailed', {
+        reason: result.reason,
+        featureId: feature.id,
+      });
+      return undefined;
+    }
+
+    const buffered = result.feature;
+    this.context.store.update(feature.id, buffered);
+    this.context.history.push(new UpdateAction(feature.id, feature, buffered));
+    this.context.events.emit('buffer', {
+      originalFeature: cloneFeature(feature),
+      feature: cloneFeature(buffered),
+      distance,
+    });
+    this.context.render.renderFeatures();
+
+    return buffered;
+  }
+
+  /** Render the outline of the buffered polygon for the current or overridden distance. */
+  private updateBufferPreview(distanceOverride?: number): void {
+    const feature = this.getSelectedFeature();
+    if (!feature) return;
+
+    const distance = distanceOverride ?? this.getBufferDistance();
+    const result = bufferPolygon(feature, distance, this.join);
+    if (result.type === 'error') {
+      this.context.render.clearPreview();
+      return;
+    }
+
+    this.context.render.renderPreviewLines(getPolygonParts(result.feature.geometry).flat());
+  }
+
+  /** Apply the previewed buffer and leave the mode ready for the next polygon. */
+  private executeFromPreview(distanceOverride?: number): void {
+    if (!this.isActive || this.state !== 'previewing' || !this.selectedFeatureId) return;
+
+    const distance = distanceOverride ?? this.getBufferDistance();
+    if (this.executeBuffer(this.selectedFeatureId, distance)) {
+      this.resetInteractionState();
+    }
+  }
+
+  /** Find the topmost polygon or multipolygon that contains the given position. */
+  private hitTest(
+    position: Position,
+  ): LibreDrawFeature<PolygonGeometry | MultiPolygonGeometry> | undefined {
+    const clickPoint = turfPoint([position[0], position[1]]);
+    const features = this.context.store.getAll();
+
+    for (let i = features.length - 1; i >= 0; i--) {
+      const feature = features[i];
+      if (!isPolygonalFeature(feature)) continue;
+      if (booleanPointInPolygon(clickPoint, feature.geometry)) {
+        return feature;
+      }
+    }
+
+    return undefined;
+  }
+
+  /** Highlight the polygon to buffer and notify listeners. */
+  private selectFeature(id: string): void {
+    this.selectedFeatureId = id;
+    this.context.render.setSelectedIds([id]);
+    this.context.events.emit('selectionchange', { selectedIds: [id] });
+    this.context.render.renderFeatures();
+  }
+
+  /** Get the currently selected polygon from the store. */
+  private getSelectedFeature(): LibreDrawFeature | undefined {
+    if (!this.selectedFeatureId) return undefined;
+    return this.context.store.getById(this.selectedFeatureId);
+  }
+
+  /** Read buffer distance from context with numeric safety fallback. */
+  private getBufferDistance(): number {
+    const distance = this.context.getBufferDistance();
+    return Number.isFinite(distance) ? distance : DEFAULT_BUFFER_DISTANCE_METERS;
+  }
+
+  /** Reset the mode to idle state and clear the preview and highlight. */
+  private resetInteractionState(): void {
+    this.state = 'idle';
+    this.context.render.clearPreview();
+    if (!this.selectedFeatureId) return;
+
+    this.selectedFeatureId = null;
+    this.context.render.setSelectedIds([]);
+    this.context.events.emit('selectionchange', { selectedIds: [] });
+    this.context.render.renderFeatures();
+  }
+}
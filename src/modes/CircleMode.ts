@@ -0,0 +1,207 @@
+import type { Mode } from './Mode';
+import type { NormalizedInputEvent } from '../types/input';
+import type { LibreDrawFeature, Position } from '../types/features';
+import { CreateAction } from '../types/features';
+import type { CircleOptions } from '../types/options';
+import { cloneFeature } from '../utils/featureSnapshot';
+import {
+  createCircleRing,
+  DEFAULT_CIRCLE_SEGMENTS,
+  distanceMeters,
+  withCircle,
+} from '../utils/circle';
+import type { ModeContext } from '../core/ModeContext';
+
+type CircleState = 'idle' | 'radius';
+
+/**
+ * Threshold in pixels: a pointer released further than this from where
+ * it was pressed is treated as a drag, and clicks closer than this to the
+ * center are ignored.
+ */
+const DRAG_THRESHOLD_PX = 5;
+
+/**
+ * Drawing mode for circles and regular polygons with a geodesic radius.
+ *
+ * The first click (or press) sets the center. The radius is set by
+ * dragging, by a second click, or by a typed value in meters submitted
+ * from the toolbar input (or Enter). Once a radius is typed, the preview
+ * shows it instead of following the pointer until the circle is finished
+ * or cancelled. The center, radius and segment count
+ * are stored in `properties.circle` so select mode can re-edit the
+ * feature as a circle.
+ *
+ * Long press or Escape cancels the current circle.
+ */
+export class CircleMode implements Mode {
+  private context: ModeContext;
+  private segments: number;
+  private isActive = false;
+  private state: CircleState = 'idle';
+  private center: Position | null = null;
+  private pressPoint: { x: number; y: number } | null = null;
+  private typedRadius: number | null = null;
+  /** Whether the radius was typed for the current circle. */
+  private radiusTyped = false;
+
+  constructor(context: ModeContext, options: CircleOptions = {}) {
+    this.context = context;
+    this.segments = options.segments ?? DEFAULT_CIRCLE_SEGMENTS;
+  }
+
+  mapInteractions(): { dragPan: boolean; doubleClickZoom: boolean } {
+    return {
+      dragPan: false,
+      doubleClickZoom: false,
+    };
+  }
+
+  activate(): void {
+    this.isActive = true;
+    this.typedRadius = this.context.getCircleRadius();
+    this.reset();
+  }
+
+  deactivate(): void {
+    this.isActive = false;
+    this.reset();
+  }
+
+  onPointerDown(event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    if (this.state === 'idle') {
+      this.center = [event.lngLat.lng, event.lngLat.lat];
+      this.pressPoint = { x: event.point.x, y: event.point.y };
+      this.state = 'radius';
+      if (this.radiusTyped && this.typedRadius !== null) {
+        this.renderRadiusPreview(this.typedRadius);
+      }
+      return;
+    }
+
+    this.finalizeAtPointer(event);
+  }
+
+  onPointerMove(event: NormalizedInputEvent): void {
+    if (!this.isActive || !this.center) return;
+    if (this.radiusTyped && this.typedRadius !== null) return;
+    this.renderRadiusPreview(distanceMeters(this.center, [event.lngLat.lng, event.lngLat.lat]));
+  }
+
+  onPointerUp(event: NormalizedInputEvent): void {
+    if (!this.isActive || !this.pressPoint) return;
+
+    const dx = event.point.x - this.pressPoint.x;
+    const dy = event.point.y - this.pressPoint.y;
+    this.pressPoint = null;
+
+    // A press-drag-release sets the radius on release
+    if (this.state === 'radius' && Math.sqrt(dx * dx + dy * dy) > DRAG_THRESHOLD_PX) {
+      this.finalizeAtPointer(event);
+    }
+  }
+
+  onDoubleClick(event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    // Prevent the double click from being handled by the map
+    event.originalEvent.preventDefault();
+    event.originalEvent.stopPropagation();
+  }
+
+  onLongPress(_event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+    this.reset();
+  }
+
+  onKeyDown(key: string, _event: KeyboardEvent): void {
+    if (!this.isActive) return;
+
+    if (key === 'Escape') {
+      this.reset();
+      return;
+    }
+
+    if (key === 'Enter' && this.typedRadius !== null) {
+      this.finalize(this.typedRadius);
+    }
+  }
+
+  /**
+   * Called by UI when the typed radius changes.
+   */
+  onRadiusChange(radius: number): void {
+    this.typedRadius = radius;
+    this.radiusTyped = true;
+    if (!this.isActive || this.state !== 'radius') return;
+    this.renderRadiusPreview(radius);
+  }
+
+  /**
+   * Called by UI execute button: create the circle with the typed radius
+   * around the current center.
+   */
+  executeFromUi(radius: number): void {
+    this.typedRadius = radius;
+    if (!this.isActive) return;
+    this.finalize(radius);
+  }
+
+  /** Finalize with the distance from the center to the pointer as radius. */
+  private finalizeAtPointer(event: NormalizedInputEvent): void {
+    if (!this.center || this.isNearCenter(event)) return;
+    this.finalize(distanceMeters(this.center, [event.lngLat.lng, event.lngLat.lat]));
+  }
+
+  private isNearCenter(event: NormalizedInputEvent): boolean {
+    if (!this.center) return false;
+    const centerPt = this.context.getScreenPoint({
+      lng: this.center[0],
+      lat: this.center[1],
+    });
+    const dx = event.point.x - centerPt.x;
+    const dy = event.point.y - centerPt.y;
+    return Math.sqrt(dx * dx + dy * dy) <= DRAG_THRESHOLD_PX;
+  }
+
+  private renderRadiusPreview(radius: number): void {
+    if (!this.center || !(radius > 0)) return;
+    this.context.render.renderPreview(createCircleRing(this.center, radius, this.segments));
+  }
+
+  /**
+   * Finalize the circle: create the feature, push to history, emit event.
+   */
+  private finalize(radius: number): void {
+    if (this.state !== 'radius' || !this.center || !(radius > 0)) return;
+
+    const feature: LibreDrawFeature = withCircle(
+      {
+        id: crypto.randomUUID(),
+        type: 'Feature',
+        geometry: { type: 'Polygon', coordinates: [] },
+        properties: {},
+      },
+      { center: this.center, radius, segments: this.segments },
+    );
+
+    const stored = this.context.store.add(feature);
+    const action = new CreateAction(stored);
+    this.context.history.push(action);
+    this.context.events.emit('create', { feature: cloneFeature(stored) });
+    this.context.render.renderFeatures();
+
+    // Reset state for next circle
+    this.reset();
+  }
+
+  private reset(): void {
+    this.state = 'idle';
+    this.center = null;
+    this.pressPoint = null;
+    this.radiusTyped = false;
+    this.context.render.clearPreview();
+  }
+}
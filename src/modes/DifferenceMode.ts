@@ -0,0 +1,163 @@
+import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
+import { point as turfPoint } from '@turf/helpers';
+import type { Mode } from './Mode';
+import type { ModeContext } from '../core/ModeContext';
+import type { LibreDrawFeature, MultiPolygonGeometry, PolygonGeometry, Position } from '../types/features';
+import { UpdateAction } from '../types/features';
+import type { NormalizedInputEvent } from '../types/input';
+import { cloneFeature } from '../utils/featureSnapshot';
+import { isPolygonalFeature } from '../utils/geometry';
+import { subtractPolygon } from '../utils/polygonOps';
+
+type DifferenceState = 'idle' | 'cutter';
+
+/**
+ * Mode for subtracting one polygon (the cutter) from another (the target).
+ * Click the target first, then the cutter; the cutter itself is kept.
+ */
+export class DifferenceMode implements Mode {
+  private context: ModeContext;
+  private isActive = false;
+  private state: DifferenceState = 'idle';
+  private targetId: string | null = null;
+
+  constructor(context: ModeContext) {
+    this.context = context;
+  }
+
+  mapInteractions(): { dragPan: boolean; doubleClickZoom: boolean } {
+    return {
+      dragPan: true,
+      doubleClickZoom: false,
+    };
+  }
+
+  activate(): void {
+    this.isActive = true;
+    this.resetInteractionState();
+  }
+
+  deactivate(): void {
+    this.isActive = false;
+    this.resetInteractionState();
+  }
+
+  onPointerDown(event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    const position: Position = [event.lngLat.lng, event.lngLat.lat];
+
+    if (this.state === 'idle' || !this.targetId) {
+      const target = this.hitTest(position);
+      if (!target) return;
+
+      this.selectFeature(target.id);
+      this.state = 'cutter';
+      return;
+    }
+
+    const cutter = this.hitTest(position, this.targetId);
+    if (!cutter) {
+      this.resetInteractionState();
+      return;
+    }
+
+    if (this.executeDifference(this.targetId, cutter.id)) {
+      this.resetInteractionState();
+    }
+  }
+
+  onPointerMove(_event: NormalizedInputEvent): void {
+    // No-op
+  }
+
+  onPointerUp(_event: NormalizedInputEvent): void {
+    // No-op
+  }
+
+  onDoubleClick(_event: NormalizedInputEvent): void {
+    // No-op
+  }
+
+  onLongPress(_event: NormalizedInputEvent): void {
+    // No-op
+  }
+
+  onKeyDown(key: string, _event: KeyboardEvent): void {
+    if (!this.isActive) return;
+    if (key !== 'Escape') return;
+
+    this.resetInteractionState();
+  }
+
+  /**
+   * Subtract the cutter from the target and record a single update.
+   * Emits `differencefailed` and returns undefined when the operation fails.
+   * @param targetId - ID of the polygon to clip.
+   * @param cutterId - ID of the polygon to subtract; it is left unchanged.
+   */
+  executeDifference(targetId: string, cutterId: string): LibreDrawFeature | undefined {
+    const target = this.context.store.getById(targetId);
+    const cutter = this.context.store.getById(cutterId);
+    if (!target || !cutter) return undefined;
+
+    const result = subtractPolygon(target, cutter);
+    if (result.type === 'error') {
+      this.context.events.emit('differencefailed', {
+        reason: result.reason,
+        featureId: target.id,
+      });
+      return undefined;
+    }
+
+    const clipped = result.feature;
+    this.context.store.update(target.id, clipped);
+    this.context.history.push(new UpdateAction(target.id, target, clipped));
+    this.context.events.emit('difference', {
+      originalFeature: cloneFeature(target),
+      feature: cloneFeature(clipped),
+      cutterId: cutter.id,
+    });
+    this.context.render.renderFeatures();
+
+    return clipped;
+  }
+
+  /** Find the topmost polygon or multipolygon that contains the given position. */
+  private hitTest(
+    position: Position,
+    excludeId?: string,
+  ): LibreDrawFeature<PolygonGeometry | MultiPolygonGeometry> | undefined {
+    const clickPoint = turfPoint([position[0], position[1]]);
+    const features = this.context.store.getAll();
+
+    for (let i = features.length - 1; i >= 0; i--) {
+      const feature = features[i];
+      if (feature.id === excludeId || !isPolygonalFeature(feature)) continue;
+      if (booleanPointInPolygon(clickPoint, feature.geometry)) {
+        return feature;
+      }
+    }
+
+    return undefined;
+  }
+
+  /** Highlight a feature as the difference target and notify listeners. */
+  private selectFeature(id: string): void {
+    this.targetId = id;
+    this.context.render.setSelectedIds([id]);
+    this.context.events.emit('selectionchange', { selectedIds: [id] });
+    this.context.render.renderFeatures();
+  }
+
+  /** Reset the mode to idle state and clear the target highlight. */
+  private resetInteractionState(): void {
+    this.state = 'idle';
+    if (!this.targetId) return;
+
+    this.targetId = null;
+    this.context.render.setSelectedIds([]);
+    this.context.events.emit('selectionchange', { selectedIds: [] });
+    this.context.render.renderFeatures();
+  }
+}
@@ -1,12 +1,15 @@
 import type { Mode } from './Mode';
-import type { NormalizedInputEvent } from '../types/input';
+import type { NormalizedInputEvent, TypedVertex } from '../types/input';
 import type { LibreDrawFeature, Position } from '../types/features';
 import { CreateAction } from '../types/features';
 import {
   wouldNewVertexCauseIntersection,
   wouldClosingCauseIntersection,
 } from '../validation/intersection';
+import type { DrawOptions } from '../types/options';
 import { cloneFeature } from '../utils/featureSnapshot';
+import { constrainToAngle, planarBearing } from '../utils/angle';
+import { resolveTypedVertex } from '../utils/typedVertex';
 import type { ModeContext } from '../core/ModeContext';
 
 /**
@@ -29,14 +32,23 @@ const MIN_VERTICES = 3;
  *
  * Long press removes the last vertex (undo last point).
  * Escape cancels the entire drawing.
+ * Vertices snap to existing features when snapping is enabled.
+ * Holding Shift (or the `constrainAngles` option) constrains new segments
+ * to 0/45/90° steps; the constraint takes precedence over snapping.
+ * Vertices can also be typed (length and bearing/angle, or lng/lat) in the
+ * toolbar input panel; the typed vertex replaces the cursor in the preview
+ * until it is submitted or the input is cleared.
  */
 export class DrawMode implements Mode {
   private vertices: Position[] = [];
   private isActive = false;
   private context: ModeContext;
+  private options: DrawOptions;
+  private typedVertex: TypedVertex | null = null;
 
-  constructor(context: ModeContext) {
+  constructor(context: ModeContext, options: DrawOptions = {}) {
     this.context = context;
+    this.options = options;
   }
 
   mapInteractions(): { dragPan: boolean; doubleClickZoom: boolean } {
@@ -49,18 +61,21 @@ export class DrawMode implements Mode {
   activate(): void {
     this.isActive = true;
     this.vertices = [];
+    this.typedVertex = null;
   }
 
   deactivate(): void {
     this.isActive = false;
     this.vertices = [];
+    this.typedVertex = null;
     this.context.render.clearPreview();
+    this.context.snapping.clearIndicator();
   }
 
   onPointerDown(event: NormalizedInputEvent): void {
     if (!this.isActive) return;
 
-    const newVertex: Position = [event.lngLat.lng, event.lngLat.lat];
+    const newVertex = this.resolvePosition(event);
 
     // Check if this click is close to the first vertex (closing the polygon)
     if (this.vertices.length >= MIN_VERTICES) {
@@ -89,7 +104,7 @@ export class DrawMode implements Mode {
   }
 
   onPointerMove(event: NormalizedInputEvent): void {
-    if (!this.isActive || this.vertices.length === 0) return;
+    if (!this.isActive) return;
     this.updatePreview(event);
   }
 
@@ -140,6 +155,40 @@ export class DrawMode implements Mode {
     }
   }
 
+  /**
+   * Called by the UI input panel when the typed values change: preview
+   * the typed vertex, or go back to following the cursor when the input
+   * was cleared (null).
+   */
+  onTypedVertexChange(vertex: TypedVertex | null): void {
+    if (!this.isActive) return;
+
+    this.typedVertex = vertex;
+    const position = vertex ? resolveTypedVertex(vertex, this.vertices) : null;
+    if (position) {
+      this.context.render.renderPreview(this.buildPreviewCoordinates(position));
+    } else if (this.vertices.length > 0) {
+      this.context.render.renderPreview(this.buildPreviewCoordinates());
+    }
+  }
+
+  /**
+   * Called by the UI input panel on Enter or execute: add the typed vertex.
+   */
+  executeFromUi(vertex: TypedVertex): void {
+    if (!this.isActive) return;
+
+    const position = resolveTypedVertex(vertex, this.vertices);
+    if (!position) return;
+
+    // Reject vertex if it would cause self-intersection
+    if (wouldNewVertexCauseIntersection(this.vertices, position)) return;
+
+    this.vertices.push(position);
+    this.typedVertex = null;
+    this.context.render.renderPreview(this.buildPreviewCoordinates());
+  }
+
   /**
    * Build the preview coordinate ring for rendering,
    * including cursor position if available.
@@ -159,11 +208,36 @@ export class DrawMode implements Mode {
   }
 
   /**
-   * Update the preview rendering with the current cursor position.
+   * Resolve the pointer position for the next vertex: angle-constrained
+   * from the last vertex when constraints apply, otherwise snapped.
+   */
+  private resolvePosition(event: NormalizedInputEvent): Position {
+    const anchor = this.vertices[this.vertices.length - 1];
+    const constrained = this.options.constrainAngles || event.originalEvent.shiftKey;
+    if (!anchor || !constrained) {
+      return this.context.snapping.snap(event);
+    }
+
+    this.context.snapping.clearIndicator();
+    const previous = this.vertices[this.vertices.length - 2];
+    const reference =
+      previous && this.options.angleReference !== 'north'
+        ? planarBearing(previous, anchor)
+        : 0;
+    return constrainToAngle(anchor, [event.lngLat.lng, event.lngLat.lat], reference);
+  }
+
+  /**
+   * Update the preview rendering with the current cursor position, or the
+   * typed vertex while one is pending.
    */
   private updatePreview(event: NormalizedInputEvent): void {
-    const cursorPos: Position = [event.lngLat.lng, event.lngLat.lat];
-    const previewCoords = this.buildPreviewCoordinates(cursorPos);
+    // Resolve even before the first vertex so the snap indicator shows on hover
+    const cursorPos = this.resolvePosition(event);
+    if (this.vertices.length === 0) return;
+
+    const typedPos = this.typedVertex ? resolveTypedVertex(this.typedVertex, this.vertices) : null;
+    const previewCoords = this.buildPreviewCoordinates(typedPos ?? cursorPos);
     this.context.render.renderPreview(previewCoords);
   }
 
@@ -197,7 +271,9 @@ export class DrawMode implements Mode {
 
     // Reset state for next drawing
     this.vertices = [];
+    this.typedVertex = null;
     this.context.render.clearPreview();
+    this.context.snapping.clearIndicator();
   }
 
   /**
@@ -205,6 +281,8 @@ export class DrawMode implements Mode {
    */
   private cancelDrawing(): void {
     this.vertices = [];
+    this.typedVertex = null;
     this.context.render.clearPreview();
+    this.context.snapping.clearIndicator();
   }
 }
@@ -0,0 +1,104 @@
+import type { ModeContext } from '../core/ModeContext';
+import type { LibreDrawFeature, Position } from '../types/features';
+import type { NormalizedInputEvent } from '../types/input';
+import { planarBearing } from '../utils/angle';
+import { cloneFeature } from '../utils/featureSnapshot';
+import {
+  getFeatureCenter,
+  getTransformHandles,
+  rotateFeature,
+  snapAngle,
+} from '../utils/transform';
+
+const HIT_THRESHOLD_MOUSE_PX = 10;
+const HIT_THRESHOLD_TOUCH_PX = 24;
+
+/**
+ * Handles rotation of a selected feature around its center by dragging
+ * the rotation handle. Holding Shift snaps the angle to 15° steps.
+ */
+export class FeatureRotator {
+  private context: ModeContext;
+  private onFeatureRotated: (feature: LibreDrawFeature) => void;
+  private rotating = false;
+  private rotateStartFeature: LibreDrawFeature | null = null;
+  private center: Position | null = null;
+  private startBearing = 0;
+
+  constructor(
+    context: ModeContext,
+    onFeatureRotated: (feature: LibreDrawFeature) => void,
+  ) {
+    this.context = context;
+    this.onFeatureRotated = onFeatureRotated;
+  }
+
+  isRotating(): boolean {
+    return this.rotating;
+  }
+
+  getRotateStartFeature(): LibreDrawFeature | null {
+    return this.rotateStartFeature;
+  }
+
+  /**
+   * Start rotating when the pointer is on the feature's rotation handle.
+   * @returns Whether a rotation was started.
+   */
+  tryStartRotate(feature: LibreDrawFeature, event: NormalizedInputEvent): boolean {
+    const handle = getTransformHandles(feature).find((h) => h.kind === 'rotate');
+    if (!handle) return false;
+
+    const screenPt = this.context.getScreenPoint({
+      lng: handle.position[0],
+      lat: handle.position[1],
+    });
+    const dx = event.point.x - screenPt.x;
+    const dy = event.point.y - screenPt.y;
+    if (Math.sqrt(dx * dx + dy * dy) > this.getThreshold(event)) return false;
+
+    this.rotating = true;
+    this.rotateStartFeature = cloneFeature(feature);
+    this.center = getFeatureCenter(feature);
+    this.startBearing = planarBearing(this.center, [event.lngLat.lng, event.lngLat.lat]);
+    this.context.setDragPan(false);
+    return true;
+  }
+
+  handleRotateMove(selectedId: string, event: NormalizedInputEvent): boolean {
+    if (!this.rotating) return false;
+    if (!this.rotateStartFeature || !this.center) return true;
+
+    const bearing = planarBearing(this.center, [event.lngLat.lng, event.lngLat.lat]);
+    let angle = bearing - this.startBearing;
+    if (event.originalEvent.shiftKey) {
+      angle = snapAngle(angle);
+    }
+
+    const updatedFeature = rotateFeature(this.rotateStartFeature, angle, this.center);
+    this.context.store.update(selectedId, updatedFeature);
+    this.context.render.renderFeatures();
+    this.onFeatureRotated(updatedFeature);
+    return true;
+  }
+
+  endRotate(): void {
+    if (this.rotating) {
+      this.context.setDragPan(true);
+    }
+    this.rotating = false;
+    this.rotateStartFeature = null;
+    this.center = null;
+    this.startBearing = 0;
+  }
+
+  resetInteractionState(): void {
+    this.endRotate();
+  }
+
+  private getThreshold(event: NormalizedInputEvent): number {
+    return event.inputType === 'touch'
+      ? HIT_THRESHOLD_TOUCH_PX
+      : HIT_THRESHOLD_MOUSE_PX;
+  }
+}
@@ -0,0 +1,174 @@
+import type { ModeContext } from '../core/ModeContext';
+import type { LibreDrawFeature, Position } from '../types/features';
+import type { NormalizedInputEvent } from '../types/input';
+import { cloneFeature } from '../utils/featureSnapshot';
+import { getPolygonParts } from '../utils/geometry';
+import type { TransformHandle } from '../utils/transform';
+import { getFeatureCenter, getTransformHandles, scaleFeature } from '../utils/transform';
+import { doRingsIntersect, hasRingSelfIntersection } from '../validation/intersection';
+
+const HIT_THRESHOLD_MOUSE_PX = 10;
+const HIT_THRESHOLD_TOUCH_PX = 24;
+// Smaller scale factors would collapse (or, below zero, mirror) the feature.
+const MIN_SCALE_FACTOR = 0.01;
+const EPSILON = 1e-12;
+
+type ScaleHandle = Extract<TransformHandle, { kind: 'scale' }>;
+
+/**
+ * Whether every ring of a scaled polygon stays simple and apart from the
+ * other rings of its part. Lines and points are always accepted.
+ */
+function isScaleValid(feature: LibreDrawFeature): boolean {
+  const geometry = feature.geometry;
+  if (geometry.type !== 'Polygon' && geometry.type !== 'MultiPolygon') return true;
+
+  return getPolygonParts(geometry).every((rings) =>
+    rings.every(
+      (ring, i) =>
+        !hasRingSelfIntersection(ring) &&
+        rings.every((other, j) => j <= i || !doRingsIntersect(ring, other)),
+    ),
+  );
+}
+
+/**
+ * Handles resizing of a selected feature by dragging the scale handles on
+ * its bounding box. Corner handles scale both axes, edge handles one.
+ * By default the feature is scaled about the opposite corner or edge;
+ * holding Alt scales about its center, and holding Shift keeps the
+ * proportions.
+ */
+export class FeatureScaler {
+  private context: ModeContext;
+  private onFeatureScaled: (feature: LibreDrawFeature) => void;
+  private scaling = false;
+  private scaleStartFeature: LibreDrawFeature | null = null;
+  private handle: ScaleHandle | null = null;
+  private center: Position | null = null;
+
+  constructor(
+    context: ModeContext,
+    onFeatureScaled: (feature: LibreDrawFeature) => void,
+  ) {
+    this.context = context;
+    this.onFeatureScaled = onFeatureScaled;
+  }
+
+  isScaling(): boolean {
+    return this.scaling;
+  }
+
+  getScaleStartFeature(): LibreDrawFeature | null {
+    return this.scaleStartFeature;
+  }
+
+  /**
+   * Start scaling when the pointer is on one of the feature's scale handles.
+   * @returns Whether scaling was started.
+   */
+  tryStartScale(feature: LibreDrawFeature, event: NormalizedInputEvent): boolean {
+    const handle = this.findNearestHandle(feature, event);
+    if (!handle) return false;
+
+    this.scaling = true;
+    this.scaleStartFeature = cloneFeature(feature);
+    this.handle = handle;
+    this.center = getFeatureCenter(feature);
+    this.context.setDragPan(false);
+    return true;
+  }
+
+  handleScaleMove(selectedId: string, event: NormalizedInputEvent): boolean {
+    if (!this.scaling) return false;
+    if (!this.scaleStartFeature || !this.handle || !this.center) return true;
+
+    const origin = event.originalEvent.altKey ? this.center : this.handle.anchor;
+    const [scaleX, scaleY] = this.computeScale(
+      origin,
+      [event.lngLat.lng, event.lngLat.lat],
+      event.originalEvent.shiftKey,
+    );
+    if (scaleX < MIN_SCALE_FACTOR || scaleY < MIN_SCALE_FACTOR) return true;
+
+    const updatedFeature = scaleFeature(this.scaleStartFeature, scaleX, scaleY, origin);
+    if (!isScaleValid(updatedFeature)) return true;
+
+    this.context.store.update(selectedId, updatedFeature);
+    this.context.render.renderFeatures();
+    this.onFeatureScaled(updatedFeature);
+    return true;
+  }
+
+  endScale(): void {
+    if (this.scaling) {
+      this.context.setDragPan(true);
+    }
+    this.scaling = false;
+    this.scaleStartFeature = null;
+    this.handle = null;
+    this.center = null;
+  }
+
+  resetInteractionState(): void {
+    this.endScale();
+  }
+
+  /**
+   * Scale factors that move the grabbed handle to the pointer, measured in a
+   * local equirectangular plane around the origin. Uniform scaling projects
+   * the pointer onto the line from the origin through the handle.
+   */
+  private computeScale(origin: Position, pointer: Position, uniform: boolean): [number, number] {
+    const handle = this.handle!;
+    const k = Math.cos((origin[1] * Math.PI) / 180);
+    const hx = (handle.position[0] - origin[0]) * k;
+    const hy = handle.position[1] - origin[1];
+    const px = (pointer[0] - origin[0]) * k;
+    const py = pointer[1] - origin[1];
+
+    const scaleX = handle.axes !== 'y' && Math.abs(hx) > EPSILON ? px / hx : 1;
+    const scaleY = handle.axes !== 'x' && Math.abs(hy) > EPSILON ? py / hy : 1;
+    if (!uniform) return [scaleX, scaleY];
+
+    if (handle.axes === 'x') return [scaleX, scaleX];
+    if (handle.axes === 'y') return [scaleY, scaleY];
+
+    const lengthSquared = hx * hx + hy * hy;
+    const scale = lengthSquared > EPSILON ? (px * hx + py * hy) / lengthSquared : 1;
+    return [scale, scale];
+  }
+
+  private findNearestHandle(
+    feature: LibreDrawFeature,
+    event: NormalizedInputEvent,
+  ): ScaleHandle | null {
+    const threshold = this.getThreshold(event);
+    let nearest: ScaleHandle | null = null;
+    let minDist = Infinity;
+
+    for (const handle of getTransformHandles(feature)) {
+      if (handle.kind !== 'scale') continue;
+
+      const screenPt = this.context.getScreenPoint({
+        lng: handle.position[0],
+        lat: handle.position[1],
+      });
+      const dx = event.point.x - screenPt.x;
+      const dy = event.point.y - screenPt.y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      if (dist <= threshold && dist < minDist) {
+        minDist = dist;
+        nearest = handle;
+      }
+    }
+
+    return nearest;
+  }
+
+  private getThreshold(event: NormalizedInputEvent): number {
+    return event.inputType === 'touch'
+      ? HIT_THRESHOLD_TOUCH_PX
+      : HIT_THRESHOLD_MOUSE_PX;
+  }
+}
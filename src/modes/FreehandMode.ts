@@ -0,0 +1,164 @@
+import type { Mode } from './Mode';
+import type { NormalizedInputEvent } from '../types/input';
+import type { LibreDrawFeature, Position } from '../types/features';
+import { CreateAction } from '../types/features';
+import type { FreehandOptions } from '../types/options';
+import { hasRingSelfIntersection } from '../validation/intersection';
+import { cloneFeature } from '../utils/featureSnapshot';
+import { MIN_POLYGON_VERTICES } from '../utils/geometry';
+import { simplifyPath } from '../utils/simplify';
+import type { ModeContext } from '../core/ModeContext';
+
+/**
+ * Default Douglas–Peucker tolerance in pixels.
+ */
+const DEFAULT_TOLERANCE_PX = 3;
+
+/**
+ * A recorded sample of the pointer path.
+ */
+interface PathSample {
+  point: { x: number; y: number };
+  position: Position;
+}
+
+/**
+ * Freehand (lasso) drawing mode for creating polygons.
+ *
+ * The pointer path is recorded while the mouse button or finger is down.
+ * On release the path is simplified (Douglas–Peucker, pixel tolerance) and
+ * closed into a polygon. Self-intersecting outlines are rejected.
+ *
+ * Long press or Escape cancels the current stroke.
+ */
+export class FreehandMode implements Mode {
+  private context: ModeContext;
+  private tolerance: number;
+  private isActive = false;
+  private path: PathSample[] = [];
+
+  constructor(context: ModeContext, options: FreehandOptions = {}) {
+    this.context = context;
+    this.tolerance = options.tolerance ?? DEFAULT_TOLERANCE_PX;
+  }
+
+  mapInteractions(): { dragPan: boolean; doubleClickZoom: boolean } {
+    return {
+      dragPan: false,
+      doubleClickZoom: false,
+    };
+  }
+
+  activate(): void {
+    this.isActive = true;
+    this.path = [];
+  }
+
+  deactivate(): void {
+    this.isActive = false;
+    this.cancelStroke();
+  }
+
+  onPointerDown(event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+    this.path = [this.toSample(event)];
+  }
+
+  onPointerMove(event: NormalizedInputEvent): void {
+    if (!this.isActive || this.path.length === 0) return;
+
+    const last = this.path[this.path.length - 1].point;
+    if (event.point.x === last.x && event.point.y === last.y) return;
+
+    this.path.push(this.toSample(event));
+    this.renderStrokePreview();
+  }
+
+  onPointerUp(event: NormalizedInputEvent): void {
+    if (!this.isActive || this.path.length === 0) return;
+
+    this.onPointerMove(event);
+    this.finalizeStroke();
+  }
+
+  onDoubleClick(event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    // Prevent the double click from being handled by the map
+    event.originalEvent.preventDefault();
+    event.originalEvent.stopPropagation();
+  }
+
+  onLongPress(_event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+    this.cancelStroke();
+  }
+
+  onKeyDown(key: string, _event: KeyboardEvent): void {
+    if (!this.isActive) return;
+
+    if (key === 'Escape') {
+      this.cancelStroke();
+    }
+  }
+
+  private toSample(event: NormalizedInputEvent): PathSample {
+    return {
+      point: { x: event.point.x, y: event.point.y },
+      position: [event.lngLat.lng, event.lngLat.lat],
+    };
+  }
+
+  /**
+   * Render the recorded path, closed back to its start.
+   */
+  private renderStrokePreview(): void {
+    const coords = this.path.map((sample) => sample.position);
+    coords.push([...coords[0]] as Position);
+    this.context.render.renderPreview(coords);
+  }
+
+  /**
+   * Simplify the recorded path and create the polygon if it is valid.
+   */
+  private finalizeStroke(): void {
+    const points = this.path.map((sample) => sample.point);
+    const kept = simplifyPath(points, this.tolerance);
+
+    // The end of a lasso usually returns to its start; drop it when it does
+    const first = points[kept[0]];
+    const last = points[kept[kept.length - 1]];
+    if (kept.length > 1 && Math.hypot(last.x - first.x, last.y - first.y) <= this.tolerance) {
+      kept.pop();
+    }
+
+    const vertices = kept.map((i) => this.path[i].position);
+    this.cancelStroke();
+
+    if (vertices.length < MIN_POLYGON_VERTICES) return;
+
+    const ring: Position[] = [...vertices, [...vertices[0]] as Position];
+    if (hasRingSelfIntersection(ring)) return;
+
+    const feature: LibreDrawFeature = {
+      id: crypto.randomUUID(),
+      type: 'Feature',
+      geometry: {
+        type: 'Polygon',
+        coordinates: [ring],
+      },
+      properties: {},
+    };
+
+    const stored = this.context.store.add(feature);
+    const action = new CreateAction(stored);
+    this.context.history.push(action);
+    this.context.events.emit('create', { feature: cloneFeature(stored) });
+    this.context.render.renderFeatures();
+  }
+
+  private cancelStroke(): void {
+    this.path = [];
+    this.context.render.clearPreview();
+  }
+}
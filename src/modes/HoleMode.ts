@@ -0,0 +1,288 @@
+import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
+import { point as turfPoint } from '@turf/helpers';
+import type { Mode } from './Mode';
+import type { ModeContext } from '../core/ModeContext';
+import type {
+  LibreDrawFeature,
+  MultiPolygonGeometry,
+  PolygonGeometry,
+  Position,
+} from '../types/features';
+import { UpdateAction } from '../types/features';
+import type { NormalizedInputEvent } from '../types/input';
+import { cloneFeature } from '../utils/featureSnapshot';
+import { isPolygonalFeature, MIN_POLYGON_VERTICES } from '../utils/geometry';
+import { cutHole, findHoleAt, removeHole } from '../utils/holes';
+import { wouldNewVertexCauseIntersection } from '../validation/intersection';
+
+type HoleState = 'idle' | 'drawing';
+
+/**
+ * Threshold in pixels: clicking within this distance of the first
+ * hole vertex closes the ring.
+ */
+const CLOSE_THRESHOLD_PX = 10;
+
+/**
+ * Mode for cutting holes (interior rings) into polygons.
+ *
+ * The first click selects the target polygon. Subsequent clicks inside it
+ * add hole vertices; the ring is closed by double-click, Enter, or a click
+ * near the first vertex. Clicking inside an existing hole of the target
+ * (before adding vertices) removes that hole.
+ *
+ * Long press removes the last vertex. Escape cancels the current ring,
+ * or clears the target when no ring is in progress.
+ */
+export class HoleMode implements Mode {
+  private context: ModeContext;
+  private isActive = false;
+  private state: HoleState = 'idle';
+  private selectedFeatureId: string | null = null;
+  private vertices: Position[] = [];
+
+  constructor(context: ModeContext) {
+    this.context = context;
+  }
+
+  mapInteractions(): { dragPan: boolean; doubleClickZoom: boolean } {
+    return {
+      dragPan: false,
+      doubleClickZoom: false,
+    };
+  }
+
+  activate(): void {
+    this.isActive = true;
+    this.resetInteractionState(false);
+  }
+
+  deactivate(): void {
+    this.isActive = false;
+    this.resetInteractionState(true);
+  }
+
+  onPointerDown(event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    const position: Position = [event.lngLat.lng, event.lngLat.lat];
+    const target = this.getSelectedFeature();
+
+    if (this.state === 'idle' || !target) {
+      this.handleTargetSelection(position);
+      return;
+    }
+
+    if (this.vertices.length === 0) {
+      const hole = findHoleAt(target, position);
+      if (hole) {
+        this.commit(target, removeHole(target, hole));
+        return;
+      }
+      if (!booleanPointInPolygon(turfPoint(position), target.geometry)) {
+        this.handleTargetSelection(position);
+        return;
+      }
+    }
+
+    if (this.vertices.length >= MIN_POLYGON_VERTICES && this.isNearFirstVertex(event)) {
+      this.finalizeHole();
+      return;
+    }
+
+    // Reject vertex if it would cause self-intersection
+    if (wouldNewVertexCauseIntersection(this.vertices, position)) return;
+
+    this.vertices.push(position);
+    this.updatePreview(position);
+  }
+
+  onPointerMove(event: NormalizedInputEvent): void {
+    if (!this.isActive || this.vertices.length === 0) return;
+    this.updatePreview([event.lngLat.lng, event.lngLat.lat]);
+  }
+
+  onPointerUp(_event: NormalizedInputEvent): void {
+    // No-op; action happens on pointer down
+  }
+
+  onDoubleClick(event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    // Remove the vertex added by the double-click's second pointerdown
+    if (this.vertices.length > MIN_POLYGON_VERTICES) {
+      this.vertices.pop();
+    }
+
+    if (this.vertices.length >= MIN_POLYGON_VERTICES) {
+      this.finalizeHole();
+    }
+
+    // Prevent the double click from being handled by the map
+    event.originalEvent.preventDefault();
+    event.originalEvent.stopPropagation();
+  }
+
+  onLongPress(_event: NormalizedInputEvent): void {
+    if (!this.isActive || this.vertices.length === 0) return;
+
+    // Remove the last vertex (undo last point)
+    this.vertices.pop();
+    if (this.vertices.length === 0) {
+      this.context.render.clearPreview();
+    } else {
+      this.context.render.renderPreview(this.buildPreviewCoordinates());
+    }
+  }
+
+  onKeyDown(key: string, _event: KeyboardEvent): void {
+    if (!this.isActive) return;
+
+    if (key === 'Enter') {
+      this.finalizeHole();
+      return;
+    }
+
+    if (key !== 'Escape') return;
+
+    if (this.vertices.length > 0) {
+      this.vertices = [];
+      this.context.render.clearPreview();
+    } else {
+      this.resetInteractionState(true);
+    }
+  }
+
+  /** Select the topmost polygon under the position as the hole target. */
+  private handleTargetSelection(position: Position): void {
+    const hit = this.hitTest(position);
+    this.vertices = [];
+    this.context.render.clearPreview();
+
+    if (!hit) {
+      this.state = 'idle';
+      this.clearSelection();
+      return;
+    }
+
+    this.selectFeature(hit.id);
+    this.state = 'drawing';
+  }
+
+  /** Validate the drawn ring and add it to the target polygon. */
+  private finalizeHole(): void {
+    const target = this.getSelectedFeature();
+    if (!target || this.vertices.length < MIN_POLYGON_VERTICES) return;
+
+    const result = cutHole(target, this.vertices);
+    this.vertices = [];
+    this.context.render.clearPreview();
+
+    if (result.type === 'error') {
+      this.context.events.emit('holefailed', {
+        reason: result.reason,
+        featureId: target.id,
+      });
+      return;
+    }
+
+    this.commit(target, result.feature);
+  }
+
+  /** Store the updated target, push history, and emit an update event. */
+  private commit(oldFeature: LibreDrawFeature, newFeature: LibreDrawFeature): void {
+    this.context.store.update(oldFeature.id, newFeature);
+    this.context.history.push(
+      new UpdateAction(oldFeature.id, oldFeature, cloneFeature(newFeature)),
+    );
+    this.context.events.emit('update', {
+      feature: cloneFeature(newFeature),
+      oldFeature: cloneFeature(oldFeature),
+    });
+    this.context.render.renderFeatures();
+  }
+
+  private isNearFirstVertex(event: NormalizedInputEvent): boolean {
+    const first = this.context.getScreenPoint({
+      lng: this.vertices[0][0],
+      lat: this.vertices[0][1],
+    });
+    const dx = event.point.x - first.x;
+    const dy = event.point.y - first.y;
+    return Math.sqrt(dx * dx + dy * dy) <= CLOSE_THRESHOLD_PX;
+  }
+
+  private buildPreviewCoordinates(cursorPos?: Position): Position[] {
+    const coords = [...this.vertices];
+    if (cursorPos) {
+      coords.push(cursorPos);
+    }
+    // Close the ring for preview
+    if (coords.length > 0) {
+      coords.push([...coords[0]] as Position);
+    }
+    return coords;
+  }
+
+  private updatePreview(cursorPos: Position): void {
+    this.context.render.renderPreview(this.buildPreviewCoordinates(cursorPos));
+  }
+
+  /** Find the topmost polygon that contains the given position. */
+  private hitTest(
+    position: Position,
+  ): LibreDrawFeature<PolygonGeometry | MultiPolygonGeometry> | undefined {
+    const clickPoint = turfPoint([position[0], position[1]]);
+    const features = this.context.store.getAll();
+
+    for (let i = features.length - 1; i >= 0; i--) {
+      const feature = features[i];
+      if (!isPolygonalFeature(feature)) continue;
+      if (
+        booleanPointInPolygon(clickPoint, feature.geometry) ||
+        findHoleAt(feature, position)
+      ) {
+        return feature;
+      }
+    }
+
+    return undefined;
+  }
+
+  /** Get the current target polygon from the store. */
+  private getSelectedFeature():
+    | LibreDrawFeature<PolygonGeometry | MultiPolygonGeometry>
+    | undefined {
+    if (!this.selectedFeatureId) return undefined;
+    const feature = this.context.store.getById(this.selectedFeatureId);
+    return feature && isPolygonalFeature(feature) ? feature : undefined;
+  }
+
+  /** Highlight a feature as the hole target and notify listeners. */
+  private selectFeature(id: string): void {
+    this.selectedFeatureId = id;
+    this.context.render.setSelectedIds([id]);
+    this.context.events.emit('selectionchange', { selectedIds: [id] });
+    this.context.render.renderFeatures();
+  }
+
+  /** Remove the current target highlight and notify listeners. */
+  private clearSelection(): void {
+    if (!this.selectedFeatureId) return;
+    this.selectedFeatureId = null;
+    this.context.render.setSelectedIds([]);
+    this.context.events.emit('selectionchange', { selectedIds: [] });
+    this.context.render.renderFeatures();
+  }
+
+  /** Reset the mode to idle state, optionally clearing the target. */
+  private resetInteractionState(clearSelection: boolean): void {
+    this.state = 'idle';
+    this.vertices = [];
+    this.context.render.clearPreview();
+
+    if (clearSelection) {
+      this.clearSelection();
+    }
+  }
+}
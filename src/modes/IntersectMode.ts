@@ -0,0 +1,160 @@
+import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
+import { point as turfPoint } from '@turf/helpers';
+import type { Mode } from './Mode';
+import type { ModeContext } from '../core/ModeContext';
+import type { LibreDrawFeature, MultiPolygonGeometry, PolygonGeometry, Position } from '../types/features';
+import { CreateAction } from '../types/features';
+import type { NormalizedInputEvent } from '../types/input';
+import { cloneFeature } from '../utils/featureSnapshot';
+import { isPolygonalFeature } from '../utils/geometry';
+import { intersectPolygons } from '../utils/polygonOps';
+
+type IntersectState = 'idle' | 'second';
+
+/**
+ * Mode for creating a new feature from the overlap of two polygons.
+ * Click the first polygon, then the second; both inputs are kept.
+ */
+export class IntersectMode implements Mode {
+  private context: ModeContext;
+  private isActive = false;
+  private state: IntersectState = 'idle';
+  private firstId: string | null = null;
+
+  constructor(context: ModeContext) {
+    this.context = context;
+  }
+
+  mapInteractions(): { dragPan: boolean; doubleClickZoom: boolean } {
+    return {
+      dragPan: true,
+      doubleClickZoom: false,
+    };
+  }
+
+  activate(): void {
+    this.isActive = true;
+    this.resetInteractionState();
+  }
+
+  deactivate(): void {
+    this.isActive = false;
+    this.resetInteractionState();
+  }
+
+  onPointerDown(event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    const position: Position = [event.lngLat.lng, event.lngLat.lat];
+
+    if (this.state === 'idle' || !this.firstId) {
+      const first = this.hitTest(position);
+      if (!first) return;
+
+      this.selectFeature(first.id);
+      this.state = 'second';
+      return;
+    }
+
+    const second = this.hitTest(position, this.firstId);
+    if (!second) {
+      this.resetInteractionState();
+      return;
+    }
+
+    if (this.executeIntersect(this.firstId, second.id)) {
+      this.resetInteractionState();
+    }
+  }
+
+  onPointerMove(_event: NormalizedInputEvent): void {
+    // No-op
+  }
+
+  onPointerUp(_event: NormalizedInputEvent): void {
+    // No-op
+  }
+
+  onDoubleClick(_event: NormalizedInputEvent): void {
+    // No-op
+  }
+
+  onLongPress(_event: NormalizedInputEvent): void {
+    // No-op
+  }
+
+  onKeyDown(key: string, _event: KeyboardEvent): void {
+    if (!this.isActive) return;
+    if (key !== 'Escape') return;
+
+    this.resetInteractionState();
+  }
+
+  /**
+   * Add the overlap of two polygons as a new feature and record its creation.
+   * Emits `intersectfailed` and returns undefined when the operation fails.
+   * @param idA - ID of the first polygon.
+   * @param idB - ID of the second polygon.
+   */
+  executeIntersect(idA: string, idB: string): LibreDrawFeature | undefined {
+    const a = this.context.store.getById(idA);
+    const b = this.context.store.getById(idB);
+    if (!a || !b) return undefined;
+
+    const result = intersectPolygons(a, b);
+    if (result.type === 'error') {
+      this.context.events.emit('intersectfailed', {
+        reason: result.reason,
+        featureIds: [a.id, b.id],
+      });
+      return undefined;
+    }
+
+    const stored = this.context.store.add(result.feature);
+    this.context.history.push(new CreateAction(stored));
+    this.context.events.emit('create', {
+      feature: cloneFeature(stored),
+    });
+    this.context.render.renderFeatures();
+
+    return stored;
+  }
+
+  /** Find the topmost polygon or multipolygon that contains the given position. */
+  private hitTest(
+    position: Position,
+    excludeId?: string,
+  ): LibreDrawFeature<PolygonGeometry | MultiPolygonGeometry> | undefined {
+    const clickPoint = turfPoint([position[0], position[1]]);
+    const features = this.context.store.getAll();
+
+    for (let i = features.length - 1; i >= 0; i--) {
+      const feature = features[i];
+      if (feature.id === excludeId || !isPolygonalFeature(feature)) continue;
+      if (booleanPointInPolygon(clickPoint, feature.geometry)) {
+        return feature;
+      }
+    }
+
+    return undefined;
+  }
+
+  /** Highlight the first polygon and notify listeners. */
+  private selectFeature(id: string): void {
+    this.firstId = id;
+    this.context.render.setSelectedIds([id]);
+    this.context.events.emit('selectionchange', { selectedIds: [id] });
+    this.context.render.renderFeatures();
+  }
+
+  /** Reset the mode to idle state and clear the highlight. */
+  private resetInteractionState(): void {
+    this.state = 'idle';
+    if (!this.firstId) return;
+
+    this.firstId = null;
+    this.context.render.setSelectedIds([]);
+    this.context.events.emit('selectionchange', { selectedIds: [] });
+    this.context.render.renderFeatures();
+  }
+}
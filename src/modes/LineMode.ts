@@ -0,0 +1,143 @@
+import type { Mode } from './Mode';
+import type { NormalizedInputEvent } from '../types/input';
+import type { LibreDrawFeature, Position } from '../types/features';
+import { CreateAction } from '../types/features';
+import { cloneFeature } from '../utils/featureSnapshot';
+import { MIN_LINE_VERTICES } from '../utils/geometry';
+import type { ModeContext } from '../core/ModeContext';
+
+/**
+ * Drawing mode for creating new lines.
+ *
+ * Users click to add vertices. The line is finalized when:
+ * - The user double-clicks (with at least 2 vertices), or
+ * - The user presses Enter (with at least 2 vertices).
+ *
+ * Long press removes the last vertex (undo last point).
+ * Escape cancels the entire drawing.
+ */
+export class LineMode implements Mode {
+  private vertices: Position[] = [];
+  private isActive = false;
+  private context: ModeContext;
+
+  constructor(context: ModeContext) {
+    this.context = context;
+  }
+
+  mapInteractions(): { dragPan: boolean; doubleClickZoom: boolean } {
+    return {
+      dragPan: false,
+      doubleClickZoom: false,
+    };
+  }
+
+  activate(): void {
+    this.isActive = true;
+    this.vertices = [];
+  }
+
+  deactivate(): void {
+    this.isActive = false;
+    this.vertices = [];
+    this.context.render.clearPreview();
+  }
+
+  onPointerDown(event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    this.vertices.push([event.lngLat.lng, event.lngLat.lat]);
+    this.updatePreview(event);
+  }
+
+  onPointerMove(event: NormalizedInputEvent): void {
+    if (!this.isActive || this.vertices.length === 0) return;
+    this.updatePreview(event);
+  }
+
+  onPointerUp(_event: NormalizedInputEvent): void {
+    // No-op for line mode; action happens on pointer down
+  }
+
+  onDoubleClick(event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    // Remove the last vertex added by the double-click's second pointerdown
+    // (it would have been added in onPointerDown before onDoubleClick fires)
+    if (this.vertices.length > MIN_LINE_VERTICES) {
+      this.vertices.pop();
+    }
+
+    this.finalizeLine();
+
+    // Prevent the double click from being handled by the map
+    event.originalEvent.preventDefault();
+    event.originalEvent.stopPropagation();
+  }
+
+  onLongPress(_event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    // Remove the last vertex (undo last point)
+    if (this.vertices.length > 0) {
+      this.vertices.pop();
+      this.context.render.renderPreview([...this.vertices]);
+    }
+  }
+
+  onKeyDown(key: string, _event: KeyboardEvent): void {
+    if (!this.isActive) return;
+
+    if (key === 'Escape') {
+      this.cancelDrawing();
+      return;
+    }
+
+    if (key === 'Enter') {
+      this.finalizeLine();
+    }
+  }
+
+  /**
+   * Update the preview rendering with the current cursor position.
+   */
+  private updatePreview(event: NormalizedInputEvent): void {
+    const cursorPos: Position = [event.lngLat.lng, event.lngLat.lat];
+    this.context.render.renderPreview([...this.vertices, cursorPos]);
+  }
+
+  /**
+   * Finalize the line: create the feature, push to history, emit event.
+   */
+  private finalizeLine(): void {
+    if (this.vertices.length < MIN_LINE_VERTICES) return;
+
+    const feature: LibreDrawFeature = {
+      id: crypto.randomUUID(),
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: [...this.vertices],
+      },
+      properties: {},
+    };
+
+    const stored = this.context.store.add(feature);
+    const action = new CreateAction(stored);
+    this.context.history.push(action);
+    this.context.events.emit('create', { feature: cloneFeature(stored) });
+    this.context.render.renderFeatures();
+
+    // Reset state for next drawing
+    this.vertices = [];
+    this.context.render.clearPreview();
+  }
+
+  /**
+   * Cancel the current drawing operation.
+   */
+  private cancelDrawing(): void {
+    this.vertices = [];
+    this.context.render.clearPreview();
+  }
+}
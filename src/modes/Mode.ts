@@ -6,6 +6,8 @@ import type { NormalizedInputEvent } from '../types/input';
 export interface MapInteractionConfig {
   dragPan: boolean;
   doubleClickZoom: boolean;
+  /** Shift-drag box zoom. Defaults to enabled. */
+  boxZoom?: boolean;
 }
 
 /**
@@ -0,0 +1,106 @@
+import type { Mode } from './Mode';
+import type { NormalizedInputEvent } from '../types/input';
+import type { LibreDrawFeature } from '../types/features';
+import { CreateAction } from '../types/features';
+import { cloneFeature } from '../utils/featureSnapshot';
+import type { ModeContext } from '../core/ModeContext';
+
+/**
+ * A press within this many milliseconds of the previous one is treated as
+ * the second press of a double click.
+ */
+const DOUBLE_CLICK_MS = 300;
+
+/**
+ * Maximum distance in pixels between the two presses of a double click.
+ */
+const DOUBLE_CLICK_TOLERANCE_PX = 5;
+
+/**
+ * Drawing mode for placing point markers.
+ *
+ * Each click/tap drops a new Point feature at the pointer location. The
+ * second press of a double click does not drop another marker.
+ */
+export class PointMode implements Mode {
+  private isActive = false;
+  private context: ModeContext;
+  private lastPress: { x: number; y: number; time: number } | null = null;
+
+  constructor(context: ModeContext) {
+    this.context = context;
+  }
+
+  mapInteractions(): { dragPan: boolean; doubleClickZoom: boolean } {
+    return {
+      dragPan: false,
+      doubleClickZoom: false,
+    };
+  }
+
+  activate(): void {
+    this.isActive = true;
+  }
+
+  deactivate(): void {
+    this.isActive = false;
+    this.lastPress = null;
+  }
+
+  onPointerDown(event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    // Ignore the second press of a double click on the same spot
+    const now = Date.now();
+    const last = this.lastPress;
+    this.lastPress = { x: event.point.x, y: event.point.y, time: now };
+    if (
+      last &&
+      now - last.time < DOUBLE_CLICK_MS &&
+      Math.hypot(event.point.x - last.x, event.point.y - last.y) <= DOUBLE_CLICK_TOLERANCE_PX
+    ) {
+      this.lastPress = null;
+      return;
+    }
+
+    const feature: LibreDrawFeature = {
+      id: crypto.randomUUID(),
+      type: 'Feature',
+      geometry: {
+        type: 'Point',
+        coordinates: [event.lngLat.lng, event.lngLat.lat],
+      },
+      properties: {},
+    };
+
+    const stored = this.context.store.add(feature);
+    const action = new CreateAction(stored);
+    this.context.history.push(action);
+    this.context.events.emit('create', { feature: cloneFeature(stored) });
+    this.context.render.renderFeatures();
+  }
+
+  onPointerMove(_event: NormalizedInputEvent): void {
+    // No-op for point mode
+  }
+
+  onPointerUp(_event: NormalizedInputEvent): void {
+    // No-op for point mode; action happens on pointer down
+  }
+
+  onDoubleClick(event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    // Prevent the double click from being handled by the map
+    event.originalEvent.preventDefault();
+    event.originalEvent.stopPropagation();
+  }
+
+  onLongPress(_event: NormalizedInputEvent): void {
+    // No-op for point mode
+  }
+
+  onKeyDown(_key: string, _event: KeyboardEvent): void {
+    // No-op for point mode
+  }
+}
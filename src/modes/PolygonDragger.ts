@@ -2,55 +2,60 @@ import type { ModeContext } from '../core/ModeContext';
 import type { LibreDrawFeature } from '../types/features';
 import type { NormalizedInputEvent } from '../types/input';
 import { cloneFeature } from '../utils/featureSnapshot';
-import { movePolygon } from '../utils/geometry';
+import { translateFeature } from '../utils/geometry';
 
 /**
- * Handles whole-polygon drag interactions.
+ * Handles whole-feature drag interactions (polygons, lines and points).
+ * Several selected features are moved together by the same offset.
  */
 export class PolygonDragger {
   private context: ModeContext;
-  private onFeatureMoved: (feature: LibreDrawFeature) => void;
+  private onFeaturesMoved: (features: LibreDrawFeature[]) => void;
   private dragging = false;
-  private dragStartFeature: LibreDrawFeature | null = null;
+  private dragStartFeatures: LibreDrawFeature[] = [];
   private dragStartLngLat: { lng: number; lat: number } | null = null;
 
   constructor(
     context: ModeContext,
-    onFeatureMoved: (feature: LibreDrawFeature) => void,
+    onFeaturesMoved: (features: LibreDrawFeature[]) => void,
   ) {
     this.context = context;
-    this.onFeatureMoved = onFeatureMoved;
+    this.onFeaturesMoved = onFeaturesMoved;
   }
 
   isDragging(): boolean {
     return this.dragging;
   }
 
-  getDragStartFeature(): LibreDrawFeature | null {
-    return this.dragStartFeature;
+  getDragStartFeatures(): LibreDrawFeature[] {
+    return this.dragStartFeatures;
   }
 
   startDrag(
-    feature: LibreDrawFeature,
+    features: LibreDrawFeature[],
     startLngLat: { lng: number; lat: number },
   ): void {
     this.dragging = true;
-    this.dragStartFeature = cloneFeature(feature);
+    this.dragStartFeatures = features.map((feature) => cloneFeature(feature));
     this.dragStartLngLat = startLngLat;
     this.context.setDragPan(false);
   }
 
-  handleDragMove(selectedId: string, event: NormalizedInputEvent): boolean {
+  handleDragMove(event: NormalizedInputEvent): boolean {
     if (!this.dragging) return false;
-    if (!this.dragStartFeature || !this.dragStartLngLat) return true;
+    if (!this.dragStartLngLat) return true;
 
     const dLng = event.lngLat.lng - this.dragStartLngLat.lng;
     const dLat = event.lngLat.lat - this.dragStartLngLat.lat;
-    const updatedFeature = movePolygon(this.dragStartFeature, dLng, dLat);
+    const updatedFeatures = this.dragStartFeatures.map((feature) =>
+      translateFeature(feature, dLng, dLat),
+    );
 
-    this.context.store.update(selectedId, updatedFeature);
+    for (const feature of updatedFeatures) {
+      this.context.store.update(feature.id, feature);
+    }
     this.context.render.renderFeatures();
-    this.onFeatureMoved(updatedFeature);
+    this.onFeaturesMoved(updatedFeatures);
     return true;
   }
 
@@ -59,7 +64,7 @@ export class PolygonDragger {
       this.context.setDragPan(true);
     }
     this.dragging = false;
-    this.dragStartFeature = null;
+    this.dragStartFeatures = [];
     this.dragStartLngLat = null;
   }
 
@@ -0,0 +1,214 @@
+import type { Mode } from './Mode';
+import type { NormalizedInputEvent } from '../types/input';
+import type { LibreDrawFeature, Position } from '../types/features';
+import { CreateAction } from '../types/features';
+import type { RectangleOptions } from '../types/options';
+import { cloneFeature } from '../utils/featureSnapshot';
+import { axisAlignedRectangle, rotatedRectangle } from '../utils/rectangle';
+import type { ModeContext } from '../core/ModeContext';
+
+type RectangleState = 'idle' | 'second-corner' | 'depth';
+
+/**
+ * Threshold in pixels: a pointer released further than this from where
+ * it was pressed is treated as a drag, and points closer than this to the
+ * first corner are ignored.
+ */
+const DRAG_THRESHOLD_PX = 5;
+
+/**
+ * Drawing mode for creating rectangular polygons.
+ *
+ * Axis-aligned (default): drag from corner to corner, or click two
+ * opposite corners.
+ *
+ * Rotated (`rotated: true`): click (or drag) the two ends of a baseline,
+ * then click a third time to set the depth.
+ *
+ * Long press removes the last point. Escape cancels the drawing.
+ */
+export class RectangleMode implements Mode {
+  private context: ModeContext;
+  private options: RectangleOptions;
+  private isActive = false;
+  private state: RectangleState = 'idle';
+  private start: Position | null = null;
+  private baselineEnd: Position | null = null;
+  private pressPoint: { x: number; y: number } | null = null;
+
+  constructor(context: ModeContext, options: RectangleOptions = {}) {
+    this.context = context;
+    this.options = options;
+  }
+
+  mapInteractions(): { dragPan: boolean; doubleClickZoom: boolean } {
+    return {
+      dragPan: false,
+      doubleClickZoom: false,
+    };
+  }
+
+  activate(): void {
+    this.isActive = true;
+    this.reset();
+  }
+
+  deactivate(): void {
+    this.isActive = false;
+    this.reset();
+  }
+
+  onPointerDown(event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    const position: Position = [event.lngLat.lng, event.lngLat.lat];
+
+    if (this.state === 'idle') {
+      this.start = position;
+      this.pressPoint = { x: event.point.x, y: event.point.y };
+      this.state = 'second-corner';
+      return;
+    }
+
+    if (this.state === 'second-corner') {
+      this.completeSecondCorner(event);
+      return;
+    }
+
+    this.finalizeRotated(position);
+  }
+
+  onPointerMove(event: NormalizedInputEvent): void {
+    if (!this.isActive || !this.start) return;
+    this.updatePreview([event.lngLat.lng, event.lngLat.lat]);
+  }
+
+  onPointerUp(event: NormalizedInputEvent): void {
+    if (!this.isActive || !this.pressPoint) return;
+
+    const dx = event.point.x - this.pressPoint.x;
+    const dy = event.point.y - this.pressPoint.y;
+    this.pressPoint = null;
+
+    // A press-drag-release sets the second corner on release
+    if (this.state === 'second-corner' && Math.sqrt(dx * dx + dy * dy) > DRAG_THRESHOLD_PX) {
+      this.completeSecondCorner(event);
+    }
+  }
+
+  onDoubleClick(event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    // Prevent the double click from being handled by the map
+    event.originalEvent.preventDefault();
+    event.originalEvent.stopPropagation();
+  }
+
+  onLongPress(_event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    // Remove the last point (undo last point)
+    if (this.state === 'depth' && this.start) {
+      this.baselineEnd = null;
+      this.state = 'second-corner';
+      this.context.render.renderPreview([this.start, this.start]);
+    } else if (this.state === 'second-corner') {
+      this.reset();
+    }
+  }
+
+  onKeyDown(key: string, _event: KeyboardEvent): void {
+    if (!this.isActive) return;
+
+    if (key === 'Escape') {
+      this.reset();
+    }
+  }
+
+  /**
+   * Handle the second corner (axis-aligned) or the baseline end (rotated).
+   */
+  private completeSecondCorner(event: NormalizedInputEvent): void {
+    if (!this.start || this.isNearStart(event)) return;
+
+    const position: Position = [event.lngLat.lng, event.lngLat.lat];
+
+    if (!this.options.rotated) {
+      const ring = axisAlignedRectangle(this.start, position);
+      if (ring) this.finalize(ring);
+      return;
+    }
+
+    this.baselineEnd = position;
+    this.state = 'depth';
+    this.updatePreview(position);
+  }
+
+  private finalizeRotated(depthPosition: Position): void {
+    if (!this.start || !this.baselineEnd) return;
+
+    const ring = rotatedRectangle(this.start, this.baselineEnd, depthPosition);
+    if (ring) this.finalize(ring);
+  }
+
+  /**
+   * Build the preview for the current state and cursor position.
+   */
+  private updatePreview(cursorPos: Position): void {
+    if (!this.start) return;
+
+    let ring: Position[] | null;
+    if (this.state === 'depth' && this.baselineEnd) {
+      ring = rotatedRectangle(this.start, this.baselineEnd, cursorPos);
+    } else if (this.options.rotated) {
+      ring = [this.start, cursorPos];
+    } else {
+      ring = axisAlignedRectangle(this.start, cursorPos);
+    }
+
+    this.context.render.renderPreview(ring ?? [this.start, cursorPos]);
+  }
+
+  private isNearStart(event: NormalizedInputEvent): boolean {
+    if (!this.start) return false;
+    const startPt = this.context.getScreenPoint({
+      lng: this.start[0],
+      lat: this.start[1],
+    });
+    const dx = event.point.x - startPt.x;
+    const dy = event.point.y - startPt.y;
+    return Math.sqrt(dx * dx + dy * dy) <= DRAG_THRESHOLD_PX;
+  }
+
+  /**
+   * Finalize the rectangle: create the feature, push to history, emit event.
+   */
+  private finalize(ring: Position[]): void {
+    const feature: LibreDrawFeature = {
+      id: crypto.randomUUID(),
+      type: 'Feature',
+      geometry: {
+        type: 'Polygon',
+        coordinates: [ring],
+      },
+      properties: {},
+    };
+
+    const stored = this.context.store.add(feature);
+    const action = new CreateAction(stored);
+    this.context.history.push(action);
+    this.context.events.emit('create', { feature: cloneFeature(stored) });
+    this.context.render.renderFeatures();
+
+    // Reset state for next rectangle
+    this.reset();
+  }
+
+  private reset(): void {
+    this.state = 'idle';
+    this.start = null;
+    this.baselineEnd = null;
+    this.pressPoint = null;
+    this.context.render.clearPreview();
+  }
+}
@@ -1,23 +1,49 @@
-import type { Mode } from './Mode';
+import type { MapInteractionConfig, Mode } from './Mode';
 import type { NormalizedInputEvent } from '../types/input';
 import type { LibreDrawFeature } from '../types/features';
-import { DeleteAction, UpdateAction } from '../types/features';
+import {
+  BatchDeleteAction,
+  BatchUpdateAction,
+  DeleteAction,
+  UpdateAction,
+} from '../types/features';
 import type { ModeContext } from '../core/ModeContext';
 import { cloneFeature } from '../utils/featureSnapshot';
 import { SelectionManager } from './SelectionManager';
 import { VertexEditor } from './VertexEditor';
 import { PolygonDragger } from './PolygonDragger';
+import { FeatureRotator } from './FeatureRotator';
+import { FeatureScaler } from './FeatureScaler';
+import { AreaSelector } from './AreaSelector';
+import { geometryEquals } from '../utils/geometry';
+import { findNearestEdge } from '../utils/setback';
 import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
 import { point as turfPoint } from '@turf/helpers';
 
+const LINE_HIT_THRESHOLD_MOUSE_PX = 8;
+const LINE_HIT_THRESHOLD_TOUCH_PX = 20;
+const POINT_HIT_THRESHOLD_MOUSE_PX = 10;
+const POINT_HIT_THRESHOLD_TOUCH_PX = 24;
+
 /**
- * Selection and editing mode for existing polygons.
+ * Selection and editing mode for existing polygons, lines and points.
+ * A selected polygon or line can be moved, rotated with its rotation
+ * handle, resized with its bounding-box scale handles, and reshaped by
+ * its vertices.
+ *
+ * Shift-click adds or removes features from the selection, and Shift-drag
+ * (Shift+Alt-drag for a lasso) selects every feature within the dragged
+ * area. Several selected features are moved and deleted together; vertex
+ * and transform handles are only shown for a single selected feature.
  */
 export class SelectMode implements Mode {
   private context: ModeContext;
   private selection: SelectionManager;
   private vertexEditor: VertexEditor;
   private polygonDragger: PolygonDragger;
+  private featureRotator: FeatureRotator;
+  private featureScaler: FeatureScaler;
+  private areaSelector: AreaSelector;
   private isActive = false;
 
   constructor(
@@ -27,15 +53,26 @@ export class SelectMode implements Mode {
     this.context = context;
     this.selection = new SelectionManager(context, onSelectionChange);
     this.vertexEditor = new VertexEditor(context);
-    this.polygonDragger = new PolygonDragger(context, (feature) => {
+    this.polygonDragger = new PolygonDragger(context, (features) => {
+      if (features.length === 1) {
+        this.vertexEditor.renderHandles(features[0]);
+      }
+    });
+    this.featureRotator = new FeatureRotator(context, (feature) => {
       this.vertexEditor.renderHandles(feature);
     });
+    this.featureScaler = new FeatureScaler(context, (feature) => {
+      this.vertexEditor.renderHandles(feature);
+    });
+    this.areaSelector = new AreaSelector(context);
   }
 
-  mapInteractions(): { dragPan: boolean; doubleClickZoom: boolean } {
+  mapInteractions(): MapInteractionConfig {
     return {
       dragPan: true,
       doubleClickZoom: false,
+      // Shift-drag selects an area instead of zooming to it
+      boxZoom: false,
     };
   }
 
@@ -64,8 +101,7 @@ export class SelectMode implements Mode {
     const feature = this.context.store.getById(id);
     if (!feature) return false;
 
-    this.vertexEditor.resetInteractionState();
-    this.polygonDragger.resetInteractionState();
+    this.resetInteractionState();
 
     this.selection.selectOnly(id);
     this.vertexEditor.renderHandles(feature);
@@ -74,6 +110,28 @@ export class SelectMode implements Mode {
     return true;
   }
 
+  /**
+   * Programmatically replace the selection with several features.
+   * IDs that do not exist are skipped.
+   */
+  selectFeatures(ids: string[]): boolean {
+    if (!this.isActive) return false;
+
+    const existingIds = ids.filter((id) => this.context.store.getById(id));
+    if (existingIds.length === 0) return false;
+
+    this.resetInteractionState();
+
+    this.selection.clear();
+    for (const id of existingIds) {
+      this.selection.add(id);
+    }
+    this.renderSelectionHandles();
+    this.selection.notify();
+    this.context.render.renderFeatures();
+    return true;
+  }
+
   /**
    * Programmatically clear the current selection.
    * Public API keeps the active-mode guard.
@@ -89,51 +147,64 @@ export class SelectMode implements Mode {
   onPointerDown(event: NormalizedInputEvent): void {
     if (!this.isActive) return;
 
-    const selectedId = this.selection.getFirstSelectedId();
+    const shiftKey = event.originalEvent.shiftKey;
+    const selectedId = this.selection.getSoleSelectedId();
     if (selectedId) {
       const feature = this.context.store.getById(selectedId);
       if (feature) {
+        // Transform handles use Shift as a modifier, so they are hit before
+        // Shift-click and area selection.
+        if (this.featureRotator.tryStartRotate(feature, event)) {
+          return;
+        }
+
         if (
+          !shiftKey &&
           this.vertexEditor.tryStartVertexDragOrInsert(feature, selectedId, event)
         ) {
           return;
         }
 
-        const bodyClick = turfPoint([event.lngLat.lng, event.lngLat.lat]);
-        if (booleanPointInPolygon(bodyClick, feature.geometry)) {
-          this.polygonDragger.startDrag(feature, event.lngLat);
+        if (this.featureScaler.tryStartScale(feature, event)) {
           return;
         }
       }
     }
 
+    if (!shiftKey) {
+      const selectedFeatures = this.getSelectedFeatures();
+      if (selectedFeatures.some((feature) => this.isPointerOnFeature(feature, event))) {
+        this.polygonDragger.startDrag(selectedFeatures, event.lngLat);
+        return;
+      }
+    }
+
     this.vertexEditor.clearHighlight();
 
-    const clickPoint = turfPoint([event.lngLat.lng, event.lngLat.lat]);
     const features = this.context.store.getAll();
 
     let hitFeature: LibreDrawFeature | undefined;
     for (let i = features.length - 1; i >= 0; i--) {
       const feature = features[i];
-      if (booleanPointInPolygon(clickPoint, feature.geometry)) {
+      if (this.isPointerOnFeature(feature, event)) {
         hitFeature = feature;
         break;
       }
     }
 
-    if (hitFeature) {
-      if (this.selection.has(hitFeature.id)) {
-        this.selection.remove(hitFeature.id);
-        this.context.render.clearVertices();
-      } else {
-        this.selection.selectOnly(hitFeature.id);
-        this.vertexEditor.renderHandles(hitFeature);
+    if (shiftKey) {
+      if (!hitFeature) {
+        this.areaSelector.start(event, event.originalEvent.altKey ? 'lasso' : 'box');
+        return;
       }
+      this.selection.toggle(hitFeature.id);
+    } else if (hitFeature) {
+      this.selection.selectOnly(hitFeature.id);
     } else {
       this.selection.clear();
-      this.context.render.clearVertices();
     }
 
+    this.renderSelectionHandles();
     this.selection.notify();
     this.context.render.renderFeatures();
   }
@@ -141,11 +212,15 @@ export class SelectMode implements Mode {
   onPointerMove(event: NormalizedInputEvent): void {
     if (!this.isActive) return;
 
-    const selectedId = this.selection.getFirstSelectedId();
+    if (this.areaSelector.handleMove(event)) return;
+    if (this.polygonDragger.handleDragMove(event)) return;
+
+    const selectedId = this.selection.getSoleSelectedId();
     if (!selectedId) return;
 
     if (this.vertexEditor.handleDragMove(selectedId, event)) return;
-    if (this.polygonDragger.handleDragMove(selectedId, event)) return;
+    if (this.featureRotator.handleRotateMove(selectedId, event)) return;
+    if (this.featureScaler.handleScaleMove(selectedId, event)) return;
 
     const feature = this.context.store.getById(selectedId);
     if (!feature) return;
@@ -156,36 +231,51 @@ export class SelectMode implements Mode {
   onPointerUp(_event: NormalizedInputEvent): void {
     if (!this.isActive) return;
 
+    if (this.areaSelector.isSelecting()) {
+      this.finishAreaSelection();
+      return;
+    }
+
+    if (this.polygonDragger.isDragging()) {
+      this.commitUpdates(this.polygonDragger.getDragStartFeatures());
+      this.polygonDragger.endDrag();
+      return;
+    }
+
     const vertexDragging = this.vertexEditor.isDragging();
-    const polygonDragging = this.polygonDragger.isDragging();
-    if (!vertexDragging && !polygonDragging) return;
+    const rotating = this.featureRotator.isRotating();
+    const scaling = this.featureScaler.isScaling();
+    if (!vertexDragging && !rotating && !scaling) return;
 
-    const selectedId = this.selection.getFirstSelectedId();
-    if (!selectedId) {
+    if (!this.selection.getSoleSelectedId()) {
       this.vertexEditor.endDrag();
-      this.polygonDragger.endDrag();
+      this.featureRotator.endRotate();
+      this.featureScaler.endScale();
       return;
     }
 
     if (vertexDragging) {
-      this.commitDragUpdate(selectedId, this.vertexEditor.getDragStartFeature());
+      this.commitUpdate(this.vertexEditor.getDragStartFeature());
       this.vertexEditor.endDrag();
       return;
     }
 
-    if (polygonDragging) {
-      this.commitDragUpdate(
-        selectedId,
-        this.polygonDragger.getDragStartFeature(),
-      );
-      this.polygonDragger.endDrag();
+    if (rotating) {
+      this.commitUpdate(this.featureRotator.getRotateStartFeature());
+      this.featureRotator.endRotate();
+      return;
+    }
+
+    if (scaling) {
+      this.commitUpdate(this.featureScaler.getScaleStartFeature());
+      this.featureScaler.endScale();
     }
   }
 
   onDoubleClick(event: NormalizedInputEvent): void {
     if (!this.isActive) return;
 
-    const selectedId = this.selection.getFirstSelectedId();
+    const selectedId = this.selection.getSoleSelectedId();
     if (!selectedId) return;
 
     const feature = this.context.store.getById(selectedId);
@@ -200,7 +290,7 @@ export class SelectMode implements Mode {
   onLongPress(event: NormalizedInputEvent): void {
     if (!this.isActive) return;
 
-    const selectedId = this.selection.getFirstSelectedId();
+    const selectedId = this.selection.getSoleSelectedId();
     if (!selectedId) return;
 
     const feature = this.context.store.getById(selectedId);
@@ -219,66 +309,128 @@ export class SelectMode implements Mode {
 
   /**
    * Refresh vertex/midpoint handles after external geometry changes.
+   * Features that no longer exist are dropped from the selection.
    */
   refreshVertexHandles(): void {
     if (!this.isActive) return;
+    if (!this.selection.hasSelection()) return;
 
-    const selectedId = this.selection.getFirstSelectedId();
-    if (!selectedId) return;
+    const missingIds = this.selection
+      .getSelectedIds()
+      .filter((id) => !this.context.store.getById(id));
+    for (const id of missingIds) {
+      this.selection.remove(id);
+    }
 
-    const feature = this.context.store.getById(selectedId);
-    if (feature) {
-      this.vertexEditor.renderHandles(feature);
-    } else {
-      this.selection.remove(selectedId);
-      this.context.render.clearVertices();
+    this.renderSelectionHandles();
+    if (missingIds.length > 0) {
       this.selection.notify();
     }
   }
 
-  private forceClearSelectionState(): void {
+  private resetInteractionState(): void {
     this.vertexEditor.resetInteractionState();
     this.polygonDragger.resetInteractionState();
+    this.featureRotator.resetInteractionState();
+    this.featureScaler.resetInteractionState();
+    this.areaSelector.resetInteractionState();
+  }
+
+  private forceClearSelectionState(): void {
+    this.resetInteractionState();
 
     if (this.selection.clearAndNotify()) {
       this.context.render.clearVertices();
     }
   }
 
-  private commitDragUpdate(
-    selectedId: string,
-    startFeature: LibreDrawFeature | null,
-  ): void {
-    if (!startFeature) return;
+  private getSelectedFeatures(): LibreDrawFeature[] {
+    return this.selection
+      .getSelectedIds()
+      .map((id) => this.context.store.getById(id))
+      .filter((feature): feature is LibreDrawFeature => feature !== undefined);
+  }
 
-    const currentFeature = this.context.store.getById(selectedId);
-    if (!currentFeature || !this.hasGeometryChanged(startFeature, currentFeature)) {
-      return;
+  /** Show the editing handles of a single selected feature, or none at all. */
+  private renderSelectionHandles(): void {
+    const selectedId = this.selection.getSoleSelectedId();
+    const feature = selectedId ? this.context.store.getById(selectedId) : undefined;
+    if (feature) {
+      this.vertexEditor.renderHandles(feature);
+    } else {
+      this.context.render.clearVertices();
     }
+  }
+
+  /** Add the features within the dragged box or lasso to the selection. */
+  private finishAreaSelection(): void {
+    const ids = this.areaSelector.finish();
+    const addedIds = ids.filter((id) => !this.selection.has(id));
+    if (addedIds.length === 0) return;
 
-    const action = new UpdateAction(
-      selectedId,
-      startFeature,
-      cloneFeature(currentFeature),
-    );
+    for (const id of addedIds) {
+      this.selection.add(id);
+    }
+    this.renderSelectionHandles();
+    this.selection.notify();
+    this.context.render.renderFeatures();
+  }
+
+  private commitUpdate(startFeature: LibreDrawFeature | null): void {
+    if (startFeature) {
+      this.commitUpdates([startFeature]);
+    }
+  }
+
+  /**
+   * Record the features that changed since the interaction started as one
+   * history entry, and emit an update event for each of them.
+   */
+  private commitUpdates(startFeatures: LibreDrawFeature[]): void {
+    const oldFeatures: LibreDrawFeature[] = [];
+    const newFeatures: LibreDrawFeature[] = [];
+    for (const startFeature of startFeatures) {
+      const currentFeature = this.context.store.getById(startFeature.id);
+      if (
+        !currentFeature ||
+        geometryEquals(startFeature.geometry, currentFeature.geometry)
+      ) {
+        continue;
+      }
+      oldFeatures.push(startFeature);
+      newFeatures.push(cloneFeature(currentFeature));
+    }
+    if (newFeatures.length === 0) return;
+
+    const action =
+      newFeatures.length === 1
+        ? new UpdateAction(newFeatures[0].id, oldFeatures[0], newFeatures[0])
+        : new BatchUpdateAction(oldFeatures, newFeatures);
     this.context.history.push(action);
-    this.context.events.emit('update', {
-      feature: cloneFeature(currentFeature),
-      oldFeature: cloneFeature(startFeature),
+    newFeatures.forEach((feature, i) => {
+      this.context.events.emit('update', {
+        feature: cloneFeature(feature),
+        oldFeature: cloneFeature(oldFeatures[i]),
+      });
     });
   }
 
   private deleteSelected(): void {
     if (!this.selection.hasSelection()) return;
 
-    const idsToDelete = this.selection.getSelectedIds();
-    for (const id of idsToDelete) {
-      const feature = this.context.store.getById(id);
-      if (!feature) continue;
+    const features = this.getSelectedFeatures();
+    for (const feature of features) {
+      this.context.store.remove(feature.id);
+    }
 
-      this.context.store.remove(id);
-      const action = new DeleteAction(feature);
-      this.context.history.push(action);
+    if (features.length > 0) {
+      this.context.history.push(
+        features.length === 1
+          ? new DeleteAction(features[0])
+          : new BatchDeleteAction(features),
+      );
+    }
+    for (const feature of features) {
       this.context.events.emit('delete', { feature: cloneFeature(feature) });
     }
 
@@ -288,34 +440,42 @@ export class SelectMode implements Mode {
     this.context.render.renderFeatures();
   }
 
-  private hasGeometryChanged(
-    before: LibreDrawFeature,
-    after: LibreDrawFeature,
+  /** Whether the pointer hits the body of a polygon, the stroke of a line or a point marker. */
+  private isPointerOnFeature(
+    feature: LibreDrawFeature,
+    event: NormalizedInputEvent,
   ): boolean {
-    const beforeCoords = before.geometry.coordinates;
-    const afterCoords = after.geometry.coordinates;
-
-    if (beforeCoords.length !== afterCoords.length) return true;
-
-    for (let ringIndex = 0; ringIndex < beforeCoords.length; ringIndex++) {
-      const beforeRing = beforeCoords[ringIndex];
-      const afterRing = afterCoords[ringIndex];
-      if (beforeRing.length !== afterRing.length) return true;
-
-      for (
-        let positionIndex = 0;
-        positionIndex < beforeRing.length;
-        positionIndex++
-      ) {
-        if (
-          beforeRing[positionIndex][0] !== afterRing[positionIndex][0] ||
-          beforeRing[positionIndex][1] !== afterRing[positionIndex][1]
-        ) {
-          return true;
-        }
-      }
+    const geometry = feature.geometry;
+    if (geometry.type === 'Point') {
+      const threshold =
+        event.inputType === 'touch'
+          ? POINT_HIT_THRESHOLD_TOUCH_PX
+          : POINT_HIT_THRESHOLD_MOUSE_PX;
+      const screenPt = this.context.getScreenPoint({
+        lng: geometry.coordinates[0],
+        lat: geometry.coordinates[1],
+      });
+      const dx = event.point.x - screenPt.x;
+      const dy = event.point.y - screenPt.y;
+      return Math.sqrt(dx * dx + dy * dy) <= threshold;
+    }
+    if (geometry.type === 'LineString') {
+      const threshold =
+        event.inputType === 'touch'
+          ? LINE_HIT_THRESHOLD_TOUCH_PX
+          : LINE_HIT_THRESHOLD_MOUSE_PX;
+      return (
+        findNearestEdge(
+          geometry.coordinates,
+          event.point,
+          threshold,
+          this.context.getScreenPoint,
+          false,
+        ) !== null
+      );
     }
 
-    return false;
+    const clickPoint = turfPoint([event.lngLat.lng, event.lngLat.lat]);
+    return booleanPointInPolygon(clickPoint, geometry);
   }
 }
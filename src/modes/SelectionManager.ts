@@ -20,7 +20,12 @@ export class SelectionManager {
     return Array.from(this.selectedIds);
   }
 
-  getFirstSelectedId(): string | undefined {
+  /**
+   * The selected ID when exactly one feature is selected. Vertex editing
+   * and transform handles only apply to a single selected feature.
+   */
+  getSoleSelectedId(): string | undefined {
+    if (this.selectedIds.size !== 1) return undefined;
     return this.selectedIds.values().next().value as string | undefined;
   }
 
@@ -37,6 +42,21 @@ export class SelectionManager {
     this.selectedIds.add(id);
   }
 
+  add(id: string): void {
+    this.selectedIds.add(id);
+  }
+
+  /**
+   * Add the ID to the selection, or remove it if it is already selected.
+   */
+  toggle(id: string): void {
+    if (this.selectedIds.has(id)) {
+      this.selectedIds.delete(id);
+    } else {
+      this.selectedIds.add(id);
+    }
+  }
+
   remove(id: string): void {
     this.selectedIds.delete(id);
   }
@@ -2,11 +2,17 @@ import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
 import { point as turfPoint } from '@turf/helpers';
 import type { Mode } from './Mode';
 import type { ModeContext } from '../core/ModeContext';
-import type { LibreDrawFeature, Position } from '../types/features';
+import type {
+  LibreDrawFeature,
+  MultiPolygonGeometry,
+  PolygonGeometry,
+  Position,
+} from '../types/features';
 import { SetbackAction } from '../types/features';
+import type { SetbackEdge, SetbackFailReason } from '../types/events';
 import type { NormalizedInputEvent } from '../types/input';
 import { cloneFeature } from '../utils/featureSnapshot';
-import { getVertices } from '../utils/geometry';
+import { getPolygonParts, getVertices, isPolygonFeature } from '../utils/geometry';
 import { splitPolygon } from '../utils/splitPolygon';
 import {
   computeInwardNormal,
@@ -14,6 +20,7 @@ import {
   extendLine,
   findNearestEdge,
 } from '../utils/setback';
+import type { EdgeHit } from '../utils/setback';
 
 type SetbackState = 'idle' | 'selecting-edge' | 'previewing';
 
@@ -24,15 +31,45 @@ const OUTSIDE_EDGE_HIT_BONUS_PX = 12;
 const EXTENDED_OFFSET_LINE_RATIO = 1.0;
 const DEFAULT_SETBACK_DISTANCE_METERS = 10;
 
+/** Signed side of a point relative to a line (positive to the left). */
+function sideOfLine(point: Position, lineStart: Position, lineEnd: Position): number {
+  return (
+    (lineEnd[0] - lineStart[0]) * (point[1] - lineStart[1]) -
+    (lineEnd[1] - lineStart[1]) * (point[0] - lineStart[0])
+  );
+}
+
+/** Side of a cut line a split piece lies on, judged by its farthest outer vertex. */
+function pieceSide(
+  piece: LibreDrawFeature<PolygonGeometry | MultiPolygonGeometry>,
+  lineStart: Position,
+  lineEnd: Position,
+): number {
+  let farthest = 0;
+  for (const [outer] of getPolygonParts(piece.geometry)) {
+    for (const position of outer) {
+      const side = sideOfLine(position, lineStart, lineEnd);
+      if (Math.abs(side) > Math.abs(farthest)) farthest = side;
+    }
+  }
+  return Math.sign(farthest);
+}
+
 /**
  * Mode for edge setback operation.
+ *
+ * Shift-click (or long-press) further edges to set them back together, each
+ * with its own distance. The distance input shows and edits the active
+ * edge, the most recently picked one; the other edges keep their own
+ * distance. All edges are applied as a single setback action.
  */
 export class SetbackMode implements Mode {
   private context: ModeContext;
   private isActive = false;
   private state: SetbackState = 'idle';
   private selectedFeatureId: string | null = null;
-  private selectedEdgeIndex = -1;
+  /** Picked edges in order with their distances; the last one is active. */
+  private selectedEdges: SetbackEdge[] = [];
 
   constructor(context: ModeContext) {
     this.context = context;
@@ -89,8 +126,9 @@ export class SetbackMode implements Mode {
     // No-op
   }
 
-  onLongPress(_event: NormalizedInputEvent): void {
-    // No-op
+  onLongPress(event: NormalizedInputEvent): void {
+    if (!this.isActive || this.state !== 'previewing') return;
+    this.toggleEdgeAt(event);
   }
 
   onKeyDown(key: string, _event: KeyboardEvent): void {
@@ -107,18 +145,21 @@ export class SetbackMode implements Mode {
   }
 
   /**
-   * Called by UI when setback distance changes.
+   * Called by UI when setback distance changes. Applies to the active edge.
    */
   onDistanceChange(distance: number): void {
     if (!this.isActive || this.state !== 'previewing') return;
-    this.updateOffsetPreview(distance);
+    this.setActiveEdgeDistance(distance);
+    this.updateOffsetPreview();
   }
 
   /**
-   * Called by UI execute button.
+   * Called by UI execute button with the distance of the active edge.
    */
   executeFromUi(distance: number): void {
-    this.executeSetback(distance);
+    if (!this.isActive || this.state !== 'previewing') return;
+    this.setActiveEdgeDistance(distance);
+    this.executeSetback();
   }
 
   /** Select the target polygon at the pointer location and enter edge-selection state. */
@@ -152,10 +193,9 @@ export class SetbackMode implements Mode {
 
     if (!hit) return;
 
-    this.selectedEdgeIndex = hit.edgeIndex;
+    this.selectedEdges = [{ edgeIndex: hit.edgeIndex, distance: this.getSetbackDistance() }];
     this.state = 'previewing';
 
-    this.renderSelectedEdgeHighlight(feature, this.selectedEdgeIndex);
     this.updateOffsetPreview();
   }
 
@@ -178,10 +218,13 @@ export class SetbackMode implements Mode {
       return;
     }
 
-    this.renderSelectedEdgeHighlight(feature, hit.edgeIndex);
+    this.renderHoveredEdgeHighlight(feature, hit.edgeIndex);
   }
 
-  /** Handle clicks in previewing state (edge switch or outside-click reset). */
+  /**
+   * Handle clicks in previewing state: switch to another edge, Shift-click
+   * to add or remove an edge, or reset on an outside click.
+   */
   private handlePreviewingClick(event: NormalizedInputEvent): void {
     const feature = this.getSelectedFeature();
     if (!feature) {
@@ -189,123 +232,130 @@ export class SetbackMode implements Mode {
       return;
     }
 
-    const vertices = getVertices(feature);
+    const { hit, insidePolygon } = this.findPreviewEdge(feature, event);
+    if (hit && event.originalEvent.shiftKey) {
+      this.toggleEdgeAt(event);
+      return;
+    }
+
+    if (hit) {
+      this.selectedEdges = [{ edgeIndex: hit.edgeIndex, distance: this.getSetbackDistance() }];
+      this.updateOffsetPreview();
+      return;
+    }
+
+    if (!insidePolygon) {
+      this.resetInteractionState(true);
+      return;
+    }
+  }
+
+  /** Find the edge near a pointer event, with a wider hit area just outside the polygon. */
+  private findPreviewEdge(
+    feature: LibreDrawFeature<PolygonGeometry>,
+    event: NormalizedInputEvent,
+  ): { hit: EdgeHit | null; insidePolygon: boolean } {
     const clickPoint = turfPoint([event.lngLat.lng, event.lngLat.lat]);
     const insidePolygon = booleanPointInPolygon(clickPoint, feature.geometry);
     const threshold = this.getThreshold(event) + (insidePolygon ? 0 : OUTSIDE_EDGE_HIT_BONUS_PX);
 
     const hit = findNearestEdge(
-      vertices,
+      getVertices(feature),
       event.point,
       threshold,
       this.context.getScreenPoint,
     );
-    if (hit) {
-      this.selectedEdgeIndex = hit.edgeIndex;
-      this.renderSelectedEdgeHighlight(feature, this.selectedEdgeIndex);
-      this.updateOffsetPreview();
-      return;
+    return { hit, insidePolygon };
+  }
+
+  /**
+   * Add the edge under the pointer to the setback, or remove it when it is
+   * already picked. A newly added edge becomes the active edge.
+   */
+  private toggleEdgeAt(event: NormalizedInputEvent): void {
+    const feature = this.getSelectedFeature();
+    if (!feature) return;
+
+    const { hit } = this.findPreviewEdge(feature, event);
+    if (!hit) return;
+
+    const existing = this.selectedEdges.findIndex((edge) => edge.edgeIndex === hit.edgeIndex);
+    if (existing >= 0) {
+      this.selectedEdges.splice(existing, 1);
+    } else {
+      this.selectedEdges.push({ edgeIndex: hit.edgeIndex, distance: this.getSetbackDistance() });
     }
 
-    if (!insidePolygon) {
-      this.resetInteractionState(true);
+    if (this.selectedEdges.length === 0) {
+      this.state = 'selecting-edge';
+      this.context.render.clearPreview();
+      this.context.render.clearEdgeHighlight();
       return;
     }
+
+    // Show the distance of the edge that is now active
+    this.context.setSetbackDistance(this.selectedEdges[this.selectedEdges.length - 1].distance);
+    this.updateOffsetPreview();
   }
 
-  /** Render the offset preview line using current or overridden setback distance. */
-  private updateOffsetPreview(distanceOverride?: number): void {
+  /** Store a new distance for the active edge. */
+  private setActiveEdgeDistance(distance: number): void {
+    const active = this.selectedEdges[this.selectedEdges.length - 1];
+    if (active && Number.isFinite(distance)) {
+      active.distance = distance;
+    }
+  }
+
+  /**
+   * Render the picked edges and their offset preview lines.
+   */
+  private updateOffsetPreview(): void {
     const feature = this.getSelectedFeature();
-    if (!feature || this.selectedEdgeIndex < 0) return;
+    if (!feature || this.selectedEdges.length === 0) return;
 
-    const distance = distanceOverride ?? this.getSetbackDistance();
-    if (distance <= 0) return;
+    this.context.render.renderEdgeHighlights(
+      this.selectedEdges.map((edge) => this.getEdgeCoordinates(feature, edge.edgeIndex)),
+    );
 
-    const vertices = getVertices(feature);
-    const [edgeStart, edgeEnd] = this.getEdgeCoordinates(feature, this.selectedEdgeIndex);
+    const edges = this.selectedEdges;
+    if (edges.some((edge) => edge.distance <= 0)) return;
 
+    const vertices = getVertices(feature);
     try {
-      const inwardNormal = computeInwardNormal(edgeStart, edgeEnd, vertices);
-      const [offsetStart, offsetEnd] = computeOffsetLine(
-        edgeStart,
-        edgeEnd,
-        distance,
-        inwardNormal,
-      );
-      this.context.render.renderPreview([offsetStart, offsetEnd]);
+      const lines = edges.map((edge) => {
+        const [edgeStart, edgeEnd] = this.getEdgeCoordinates(feature, edge.edgeIndex);
+        const inwardNormal = computeInwardNormal(edgeStart, edgeEnd, vertices);
+        return computeOffsetLine(edgeStart, edgeEnd, edge.distance, inwardNormal);
+      });
+      this.context.render.renderPreviewLines(lines);
     } catch {
       this.context.render.clearPreview();
     }
   }
 
   /** Execute the setback operation and commit history/event updates on success. */
-  private executeSetback(distanceOverride?: number): void {
+  private executeSetback(): void {
     if (!this.isActive || this.state !== 'previewing') return;
 
     const feature = this.getSelectedFeature();
-    if (!feature || this.selectedEdgeIndex < 0) {
+    if (!feature || this.selectedEdges.length === 0) {
       this.resetInteractionState(true);
       return;
     }
 
-    if (feature.geometry.coordinates.length > 1) {
-      this.emitSetbackFailed('has-holes', feature.id);
-      this.state = 'selecting-edge';
-      this.selectedEdgeIndex = -1;
-      this.context.render.clearPreview();
-      this.context.render.clearEdgeHighlight();
-      return;
-    }
-
-    const distance = distanceOverride ?? this.getSetbackDistance();
-    if (distance <= 0) return;
+    const edges = this.selectedEdges.map((edge) => ({ ...edge }));
+    if (edges.some((edge) => edge.distance <= 0)) return;
 
-    const vertices = getVertices(feature);
-    const [edgeStart, edgeEnd] = this.getEdgeCoordinates(feature, this.selectedEdgeIndex);
-
-    let extendedStart: Position;
-    let extendedEnd: Position;
-    try {
-      const inwardNormal = computeInwardNormal(edgeStart, edgeEnd, vertices);
-      const [offsetStart, offsetEnd] = computeOffsetLine(
-        edgeStart,
-        edgeEnd,
-        distance,
-        inwardNormal,
-      );
-      [extendedStart, extendedEnd] = extendLine(
-        offsetStart,
-        offsetEnd,
-        EXTENDED_OFFSET_LINE_RATIO,
-      );
-    } catch {
-      this.emitSetbackFailed('invalid-split', feature.id);
-      return;
-    }
-
-    const splitResult = splitPolygon(feature, extendedStart, extendedEnd);
-    if (splitResult.type === 'error') {
+    const resultFeature = this.applySetbacks(feature, edges);
+    if (!resultFeature) {
       this.emitSetbackFailed('invalid-split', feature.id);
       this.state = 'selecting-edge';
-      this.selectedEdgeIndex = -1;
+      this.selectedEdges = [];
       this.context.render.clearPreview();
       this.context.render.clearEdgeHighlight();
       return;
     }
 
-    const [featureA, featureB] = splitResult.features;
-    const edgeMidpoint: Position = [
-      (edgeStart[0] + edgeEnd[0]) / 2,
-      (edgeStart[1] + edgeEnd[1]) / 2,
-    ];
-
-    const isASetbackBand = booleanPointInPolygon(
-      turfPoint(edgeMidpoint),
-      featureA.geometry,
-    );
-
-    const resultFeature = isASetbackBand ? featureB : featureA;
-
     this.context.store.remove(feature.id);
     this.context.store.add(resultFeature);
 
@@ -314,22 +364,77 @@ export class SetbackMode implements Mode {
     this.context.events.emit('setback', {
       originalFeature: cloneFeature(feature),
       feature: cloneFeature(resultFeature),
-      edgeIndex: this.selectedEdgeIndex,
-      distance,
+      edgeIndex: edges[0].edgeIndex,
+      distance: edges[0].distance,
+      edges,
     });
 
     this.context.render.renderFeatures();
     this.resetInteractionState(true);
   }
 
+  /**
+   * Cut the band along each edge off the polygon in turn. Offset lines are
+   * taken from the original edges, so the order of the edges does not
+   * matter. Returns undefined when a cut fails.
+   */
+  private applySetbacks(
+    feature: LibreDrawFeature<PolygonGeometry>,
+    edges: SetbackEdge[],
+  ): LibreDrawFeature<PolygonGeometry | MultiPolygonGeometry> | undefined {
+    const vertices = getVertices(feature);
+    let current: LibreDrawFeature<PolygonGeometry | MultiPolygonGeometry> = feature;
+
+    for (const edge of edges) {
+      // A hole can divide the remaining polygon; further cuts need a single polygon.
+      if (!isPolygonFeature(current)) return undefined;
+
+      const [edgeStart, edgeEnd] = this.getEdgeCoordinates(feature, edge.edgeIndex);
+      let extendedStart: Position;
+      let extendedEnd: Position;
+      try {
+        const inwardNormal = computeInwardNormal(edgeStart, edgeEnd, vertices);
+        const [offsetStart, offsetEnd] = computeOffsetLine(
+          edgeStart,
+          edgeEnd,
+          edge.distance,
+          inwardNormal,
+        );
+        [extendedStart, extendedEnd] = extendLine(
+          offsetStart,
+          offsetEnd,
+          EXTENDED_OFFSET_LINE_RATIO,
+        );
+      } catch {
+        return undefined;
+      }
+
+      const splitResult = splitPolygon(current, extendedStart, extendedEnd);
+      if (splitResult.type === 'error') return undefined;
+
+      // The band is the piece on the same side of the cut line as the edge.
+      const edgeMidpoint: Position = [
+        (edgeStart[0] + edgeEnd[0]) / 2,
+        (edgeStart[1] + edgeEnd[1]) / 2,
+      ];
+      const bandSide = Math.sign(sideOfLine(edgeMidpoint, extendedStart, extendedEnd));
+      const [featureA, featureB] = splitResult.features;
+      current = pieceSide(featureA, extendedStart, extendedEnd) === bandSide ? featureB : featureA;
+    }
+
+    return current;
+  }
+
   /** Find the topmost polygon that contains the given geographic position. */
-  private hitTest(position: Position): LibreDrawFeature | undefined {
+  private hitTest(position: Position): LibreDrawFeature<PolygonGeometry> | undefined {
     const clickPoint = turfPoint([position[0], position[1]]);
     const features = this.context.store.getAll();
 
     for (let i = features.length - 1; i >= 0; i--) {
-      if (booleanPointInPolygon(clickPoint, features[i].geometry)) {
-        return features[i];
+      const feature = features[i];
+      if (!isPolygonFeature(feature)) continue;
+      if (booleanPointInPolygon(clickPoint, feature.geometry)) {
+        return feature;
       }
     }
 
@@ -353,10 +458,11 @@ export class SetbackMode implements Mode {
     this.context.render.renderFeatures();
   }
 
-  /** Get the currently selected feature from the store. */
-  private getSelectedFeature(): LibreDrawFeature | undefined {
+  /** Get the currently selected polygon from the store. */
+  private getSelectedFeature(): LibreDrawFeature<PolygonGeometry> | undefined {
     if (!this.selectedFeatureId) return undefined;
-    return this.context.store.getById(this.selectedFeatureId);
+    const feature = this.context.store.getById(this.selectedFeatureId);
+    return feature && isPolygonFeature(feature) ? feature : undefined;
   }
 
   /** Resolve edge endpoints from a feature and edge index. */
@@ -370,13 +476,13 @@ export class SetbackMode implements Mode {
   }
 
   /** Render highlight for the given edge index. */
-  private renderSelectedEdgeHighlight(feature: LibreDrawFeature, edgeIndex: number): void {
+  private renderHoveredEdgeHighlight(feature: LibreDrawFeature, edgeIndex: number): void {
     const [start, end] = this.getEdgeCoordinates(feature, edgeIndex);
     this.context.render.renderEdgeHighlight([start, end]);
   }
 
   /** Emit a normalized setback failure event. */
-  private emitSetbackFailed(reason: 'has-holes' | 'invalid-split', featureId: string): void {
+  private emitSetbackFailed(reason: SetbackFailReason, featureId: string): void {
     this.context.events.emit('setbackfailed', {
       reason,
       featureId,
@@ -399,7 +505,7 @@ export class SetbackMode implements Mode {
   /** Reset mode interaction state and optionally clear feature selection. */
   private resetInteractionState(clearSelection: boolean): void {
     this.state = 'idle';
-    this.selectedEdgeIndex = -1;
+    this.selectedEdges = [];
     this.context.render.clearPreview();
     this.context.render.clearEdgeHighlight();
 
@@ -2,27 +2,37 @@ import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
 import { point as turfPoint } from '@turf/helpers';
 import type { Mode } from './Mode';
 import type { ModeContext } from '../core/ModeContext';
-import type { LibreDrawFeature, Position } from '../types/features';
+import type { LibreDrawFeature, PolygonGeometry, Position } from '../types/features';
 import { SplitAction } from '../types/features';
+import type { SplitOptions } from '../types/options';
 import type { NormalizedInputEvent } from '../types/input';
+import { clonePropertiesWithoutCircle } from '../utils/circle';
 import { cloneFeature } from '../utils/featureSnapshot';
-import { splitPolygon } from '../utils/splitPolygon';
-import type { SplitResult } from '../utils/splitPolygon';
+import { getPolygonParts, isPolygonFeature } from '../utils/geometry';
+import { splitPolygonByLine } from '../utils/splitPolygon';
+import type { PolylineSplitResult } from '../utils/splitPolygon';
 
-type SplitState = 'idle' | 'first-point' | 'second-point';
+type SplitState = 'idle' | 'first-point' | 'next-point';
 
 /**
- * Mode for splitting a selected polygon with a two-point line.
+ * Mode for splitting a selected polygon with a polyline.
+ *
+ * After selecting the target, click to place line points and finish with
+ * a double-click or Enter. The polygon is cut into all resulting pieces
+ * as a single history action. Line points snap to existing features when
+ * snapping is enabled.
  */
 export class SplitMode implements Mode {
   private context: ModeContext;
+  private options: SplitOptions;
   private isActive = false;
   private state: SplitState = 'idle';
   private selectedFeatureId: string | null = null;
-  private lineStart: Position | null = null;
+  private linePoints: Position[] = [];
 
-  constructor(context: ModeContext) {
+  constructor(context: ModeContext, options: SplitOptions = {}) {
     this.context = context;
+    this.options = options;
   }
 
   mapInteractions(): { dragPan: boolean; doubleClickZoom: boolean } {
@@ -50,41 +60,63 @@ export class SplitMode implements Mode {
       return;
     }
 
-    if (this.state === 'first-point') {
-      this.lineStart = [event.lngLat.lng, event.lngLat.lat];
-      this.state = 'second-point';
-      this.context.render.renderPreview([this.lineStart, this.lineStart]);
-      return;
-    }
-
-    this.executeSplit([event.lngLat.lng, event.lngLat.lat]);
+    const point = this.context.snapping.snap(event);
+    this.linePoints.push(point);
+    this.state = 'next-point';
+    this.context.render.renderPreview([...this.linePoints, point]);
   }
 
   onPointerMove(event: NormalizedInputEvent): void {
-    if (!this.isActive) return;
-    if (this.state !== 'second-point' || !this.lineStart) return;
+    if (!this.isActive || this.state === 'idle') return;
 
-    const lineEnd: Position = [event.lngLat.lng, event.lngLat.lat];
-    this.context.render.renderPreview([this.lineStart, lineEnd]);
+    const cursor = this.context.snapping.snap(event);
+    if (this.state !== 'next-point') return;
+
+    this.context.render.renderPreview([...this.linePoints, cursor]);
   }
 
   onPointerUp(_event: NormalizedInputEvent): void {
     // No-op
   }
 
-  onDoubleClick(_event: NormalizedInputEvent): void {
-    // No-op
+  onDoubleClick(event: NormalizedInputEvent): void {
+    if (!this.isActive || this.state !== 'next-point') return;
+
+    // Remove the point added by the double-click's second pointerdown
+    if (this.linePoints.length > 2) {
+      this.linePoints.pop();
+    }
+
+    this.executeSplit();
+
+    event.originalEvent.preventDefault();
+    event.originalEvent.stopPropagation();
   }
 
   onLongPress(_event: NormalizedInputEvent): void {
-    // No-op
+    if (!this.isActive || this.state !== 'next-point') return;
+
+    // Remove the last line point
+    this.linePoints.pop();
+    if (this.linePoints.length === 0) {
+      this.state = 'first-point';
+      this.context.render.clearPreview();
+      return;
+    }
+    this.context.render.renderPreview([...this.linePoints]);
   }
 
   onKeyDown(key: string, _event: KeyboardEvent): void {
     if (!this.isActive) return;
-    if (key !== 'Escape') return;
 
-    this.resetInteractionState(true);
+    if (key === 'Escape') {
+      this.resetInteractionState(true);
+      return;
+    }
+
+    if (key === 'Enter' && this.state === 'next-point') {
+      this.executeSplit();
+    }
   }
 
   /** Perform a hit-test at the pointer position and select the target polygon. */
@@ -98,64 +130,90 @@ export class SplitMode implements Mode {
 
     this.selectFeature(hit.id);
     this.state = 'first-point';
-    this.lineStart = null;
+    this.linePoints = [];
     this.context.render.clearPreview();
   }
 
-  /** Execute the split operation using the stored first point and the given second point. */
-  private executeSplit(lineEnd: Position): void {
-    if (!this.selectedFeatureId || !this.lineStart) {
+  /** Execute the split operation along the placed line points. */
+  private executeSplit(): void {
+    if (this.linePoints.length < 2) return;
+
+    if (!this.selectedFeatureId) {
       this.resetInteractionState(true);
       return;
     }
 
     const feature = this.context.store.getById(this.selectedFeatureId);
-    if (!feature) {
+    if (!feature || !isPolygonFeature(feature)) {
       this.resetInteractionState(true);
       return;
     }
 
-    const splitResult: SplitResult = splitPolygon(feature, this.lineStart, lineEnd);
+    const splitResult: PolylineSplitResult = splitPolygonByLine(feature, this.linePoints);
     if (splitResult.type === 'error') {
       this.context.events.emit('splitfailed', {
         reason: splitResult.reason,
         featureId: feature.id,
       });
       this.state = 'first-point';
-      this.lineStart = null;
+      this.linePoints = [];
       this.context.render.clearPreview();
       return;
     }
 
-    const [featureA, featureB] = splitResult.features;
-
-    this.context.store.remove(feature.id);
-    this.context.store.add(featureA);
-    this.context.store.add(featureB);
+    const pieces = splitResult.features;
+
+    if (this.options.keepAsMultiPolygon) {
+      const merged: LibreDrawFeature = {
+        id: feature.id,
+        type: 'Feature',
+        geometry: {
+          type: 'MultiPolygon',
+          coordinates: pieces.flatMap((piece) => getPolygonParts(piece.geometry)),
+        },
+        properties: clonePropertiesWithoutCircle(feature.properties),
+      };
+
+      this.context.store.remove(feature.id);
+      this.context.store.add(merged);
+      this.context.history.push(new SplitAction(feature, merged));
+      this.context.events.emit('split', {
+        originalFeature: cloneFeature(feature),
+        features: [cloneFeature(merged)],
+      });
+    } else {
+      this.context.store.remove(feature.id);
+      for (const piece of pieces) {
+        this.context.store.add(piece);
+      }
 
-    const action = new SplitAction(feature, featureA, featureB);
-    this.context.history.push(action);
-    this.context.events.emit('split', {
-      originalFeature: cloneFeature(feature),
-      features: [cloneFeature(featureA), cloneFeature(featureB)],
-    });
+      const action = new SplitAction(feature, ...pieces);
+      this.context.history.push(action);
+      this.context.events.emit('split', {
+        originalFeature: cloneFeature(feature),
+        features: pieces.map((piece) => cloneFeature(piece)),
+      });
+    }
 
     this.clearSelection();
     this.context.render.clearPreview();
+    this.context.snapping.clearIndicator();
     this.context.render.renderFeatures();
 
     this.state = 'idle';
-    this.lineStart = null;
+    this.linePoints = [];
   }
 
   /** Find the topmost polygon that contains the given position. */
-  private hitTest(position: Position): LibreDrawFeature | undefined {
+  private hitTest(position: Position): LibreDrawFeature<PolygonGeometry> | undefined {
     const clickPoint = turfPoint([position[0], position[1]]);
     const features = this.context.store.getAll();
 
     for (let i = features.length - 1; i >= 0; i--) {
-      if (booleanPointInPolygon(clickPoint, features[i].geometry)) {
-        return features[i];
+      const feature = features[i];
+      if (!isPolygonFeature(feature)) continue;
+      if (booleanPointInPolygon(clickPoint, feature.geometry)) {
+        return feature;
       }
     }
 
@@ -182,8 +240,9 @@ export class SplitMode implements Mode {
   /** Reset the mode to idle state, optionally clearing the active selection. */
   private resetInteractionState(clearSelection: boolean): void {
     this.state = 'idle';
-    this.lineStart = null;
+    this.linePoints = [];
     this.context.render.clearPreview();
+    this.context.snapping.clearIndicator();
 
     if (clearSelection) {
       this.clearSelection();
@@ -0,0 +1,343 @@
+import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
+import { point as turfPoint } from '@turf/helpers';
+import type { Mode } from './Mode';
+import type { ModeContext } from '../core/ModeContext';
+import type { LibreDrawFeature, PolygonGeometry, Position } from '../types/features';
+import { SplitAction } from '../types/features';
+import type { NormalizedInputEvent } from '../types/input';
+import { cloneFeature } from '../utils/featureSnapshot';
+import { getVertices, isPolygonFeature } from '../utils/geometry';
+import { findNearestEdge } from '../utils/setback';
+import { splitIntoStrips } from '../utils/strips';
+import type { StripOptions } from '../utils/strips';
+
+type StripsState = 'idle' | 'selecting-edge' | 'previewing';
+
+const HIT_THRESHOLD_MOUSE_PX = 18;
+const HIT_THRESHOLD_TOUCH_PX = 24;
+// Expand edge hit area when clicking slightly outside polygon in preview state.
+const OUTSIDE_EDGE_HIT_BONUS_PX = 12;
+const DEFAULT_STRIP_COUNT = 4;
+
+/**
+ * Mode for dividing a polygon into strips of equal area parallel to an
+ * edge. Click a polygon, then the edge the strips run along; the cut lines
+ * are previewed until Enter (or the toolbar button) applies them. The
+ * toolbar input sets either the number of strips or a target width.
+ */
+export class StripsMode implements Mode {
+  private context: ModeContext;
+  private isActive = false;
+  private state: StripsState = 'idle';
+  private selectedFeatureId: string | null = null;
+  private selectedEdgeIndex = -1;
+
+  constructor(context: ModeContext) {
+    this.context = context;
+  }
+
+  mapInteractions(): { dragPan: boolean; doubleClickZoom: boolean } {
+    return {
+      dragPan: false,
+      doubleClickZoom: false,
+    };
+  }
+
+  activate(): void {
+    this.isActive = true;
+    this.resetInteractionState(false);
+  }
+
+  deactivate(): void {
+    this.isActive = false;
+    this.resetInteractionState(true);
+  }
+
+  onPointerDown(event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    if (this.state === 'idle') {
+      this.handlePolygonSelection(event);
+      return;
+    }
+
+    if (this.state === 'selecting-edge') {
+      this.handleEdgeSelection(event);
+      return;
+    }
+
+    if (this.state === 'previewing') {
+      this.handlePreviewingClick(event);
+    }
+  }
+
+  onPointerMove(event: NormalizedInputEvent): void {
+    if (!this.isActive) return;
+
+    if (this.state === 'selecting-edge') {
+      this.updateHoveredEdgeHighlight(event);
+    }
+  }
+
+  onPointerUp(_event: NormalizedInputEvent): void {
+    // No-op
+  }
+
+  onDoubleClick(_event: NormalizedInputEvent): void {
+    // No-op
+  }
+
+  onLongPress(_event: NormalizedInputEvent): void {
+    // No-op
+  }
+
+  onKeyDown(key: string, _event: KeyboardEvent): void {
+    if (!this.isActive) return;
+
+    if (key === 'Escape') {
+      this.resetInteractionState(true);
+      return;
+    }
+
+    if (key === 'Enter') {
+      this.executeFromPreview();
+    }
+  }
+
+  /**
+   * Called by UI when the strip count or width changes.
+   */
+  onOptionsChange(options: StripOptions): void {
+    if (!this.isActive || this.state !== 'previewing') return;
+    this.updateStripPreview(options);
+  }
+
+  /**
+   * Called by UI execute button.
+   */
+  executeFromUi(options: StripOptions): void {
+    this.executeFromPreview(options);
+  }
+
+  /**
+   * Replace a polygon with strips of equal area and record a single split.
+   * Emits `stripsfailed` and returns undefined when the operation fails.
+   * @param featureId - ID of the polygon to divide.
+   * @param edgeIndex - Index of the outer-ring edge the strips run along.
+   * @param options - Number of strips, or a target width in meters.
+   */
+  executeStrips(
+    featureId: string,
+    edgeIndex: number,
+    options: StripOptions,
+  ): LibreDrawFeature[] | undefined {
+    const feature = this.context.store.getById(featureId);
+    if (!feature) return undefined;
+
+    const result = splitIntoStrips(feature, edgeIndex, options);
+    if (result.type === 'error') {
+      this.context.events.emit('stripsfailed', {
+        reason: result.reason,
+        featureId: feature.id,
+      });
+      return undefined;
+    }
+
+    this.context.store.remove(feature.id);
+    const strips = result.features.map((strip) => this.context.store.add(strip));
+
+    this.context.history.push(new SplitAction(feature, ...strips));
+    this.context.events.emit('strips', {
+      originalFeature: cloneFeature(feature),
+      features: strips.map((strip) => cloneFeature(strip)),
+      edgeIndex,
+    });
+    this.context.render.renderFeatures();
+
+    return strips;
+  }
+
+  /** Select the target polygon at the pointer location and enter edge-selection state. */
+  private handlePolygonSelection(event: NormalizedInputEvent): void {
+    const hit = this.hitTest([event.lngLat.lng, event.lngLat.lat]);
+    if (!hit) {
+      this.resetInteractionState(true);
+      return;
+    }
+
+    this.selectFeature(hit.id);
+    this.state = 'selecting-edge';
+  }
+
+  /** Choose an edge under the pointer and switch to previewing state. */
+  private handleEdgeSelection(event: NormalizedInputEvent): void {
+    const feature = this.getSelectedFeature();
+    if (!feature) {
+      this.resetInteractionState(true);
+      return;
+    }
+
+    const hit = findNearestEdge(
+      getVertices(feature),
+      event.point,
+      this.getThreshold(event),
+      this.context.getScreenPoint,
+    );
+    if (!hit) return;
+
+    this.selectedEdgeIndex = hit.edgeIndex;
+    this.state = 'previewing';
+
+    this.renderSelectedEdgeHighlight(feature, this.selectedEdgeIndex);
+    this.updateStripPreview();
+  }
+
+  /** Update hovered edge highlight while waiting for edge selection. */
+  private updateHoveredEdgeHighlight(event: NormalizedInputEvent): void {
+    const feature = this.getSelectedFeature();
+    if (!feature) return;
+
+    const hit = findNearestEdge(
+      getVertices(feature),
+      event.point,
+      this.getThreshold(event),
+      this.context.getScreenPoint,
+    );
+
+    if (!hit) {
+      this.context.render.clearEdgeHighlight();
+      return;
+    }
+
+    this.renderSelectedEdgeHighlight(feature, hit.edgeIndex);
+  }
+
+  /** Handle clicks in previewing state (edge switch or outside-click reset). */
+  private handlePreviewingClick(event: NormalizedInputEvent): void {
+    const feature = this.getSelectedFeature();
+    if (!feature) {
+      this.resetInteractionState(true);
+      return;
+    }
+
+    const clickPoint = turfPoint([event.lngLat.lng, event.lngLat.lat]);
+    const insidePolygon = booleanPointInPolygon(clickPoint, feature.geometry);
+    const threshold = this.getThreshold(event) + (insidePolygon ? 0 : OUTSIDE_EDGE_HIT_BONUS_PX);
+
+    const hit = findNearestEdge(
+      getVertices(feature),
+      event.point,
+      threshold,
+      this.context.getScreenPoint,
+    );
+    if (hit) {
+      this.selectedEdgeIndex = hit.edgeIndex;
+      this.renderSelectedEdgeHighlight(feature, this.selectedEdgeIndex);
+      this.updateStripPreview();
+      return;
+    }
+
+    if (!insidePolygon) {
+      this.resetInteractionState(true);
+    }
+  }
+
+  /** Render the cut lines between strips for the current or overridden options. */
+  private updateStripPreview(optionsOverride?: StripOptions): void {
+    const feature = this.getSelectedFeature();
+    if (!feature || this.selectedEdgeIndex < 0) return;
+
+    const options = this.normalizeOptions(optionsOverride ?? this.context.getStripOptions());
+    const result = splitIntoStrips(feature, this.selectedEdgeIndex, options);
+    if (result.type === 'error') {
+      this.context.render.clearPreview();
+      return;
+    }
+
+    this.context.render.renderPreviewLines(result.cutLines);
+  }
+
+  /** Apply the previewed strips and leave the mode ready for the next polygon. */
+  private executeFromPreview(optionsOverride?: StripOptions): void {
+    if (!this.isActive || this.state !== 'previewing' || !this.selectedFeatureId) return;
+
+    const options = this.normalizeOptions(optionsOverride ?? this.context.getStripOptions());
+    const strips = this.executeStrips(this.selectedFeatureId, this.selectedEdgeIndex, options);
+    if (strips) {
+      this.resetInteractionState(true);
+    }
+  }
+
+  /** Find the topmost polygon that contains the given geographic position. */
+  private hitTest(position: Position): LibreDrawFeature<PolygonGeometry> | undefined {
+    const clickPoint = turfPoint([position[0], position[1]]);
+    const features = this.context.store.getAll();
+
+    for (let i = features.length - 1; i >= 0; i--) {
+      const feature = features[i];
+      if (!isPolygonFeature(feature)) continue;
+      if (booleanPointInPolygon(clickPoint, feature.geometry)) {
+        return feature;
+      }
+    }
+
+    return undefined;
+  }
+
+  /** Mark a feature as selected and notify render/event layers. */
+  private selectFeature(id: string): void {
+    this.selectedFeatureId = id;
+    this.context.render.setSelectedIds([id]);
+    this.context.events.emit('selectionchange', { selectedIds: [id] });
+    this.context.render.renderFeatures();
+  }
+
+  /** Clear current feature selection and notify render/event layers. */
+  private clearSelection(): void {
+    if (!this.selectedFeatureId) return;
+    this.selectedFeatureId = null;
+    this.context.render.setSelectedIds([]);
+    this.context.events.emit('selectionchange', { selectedIds: [] });
+    this.context.render.renderFeatures();
+  }
+
+  /** Get the currently selected polygon from the store. */
+  private getSelectedFeature(): LibreDrawFeature<PolygonGeometry> | undefined {
+    if (!this.selectedFeatureId) return undefined;
+    const feature = this.context.store.getById(this.selectedFeatureId);
+    return feature && isPolygonFeature(feature) ? feature : undefined;
+  }
+
+  /** Render highlight for the given edge index. */
+  private renderSelectedEdgeHighlight(feature: LibreDrawFeature, edgeIndex: number): void {
+    const vertices = getVertices(feature);
+    const next = (edgeIndex + 1) % vertices.length;
+    this.context.render.renderEdgeHighlight([vertices[edgeIndex], vertices[next]]);
+  }
+
+  /** Round a typed count to whole strips, with numeric safety fallback. */
+  private normalizeOptions(options: StripOptions): StripOptions {
+    if (!('count' in options)) return options;
+    const count = Number.isFinite(options.count) ? options.count : DEFAULT_STRIP_COUNT;
+    return { count: Math.round(count) };
+  }
+
+  /** Return pointer hit threshold by input device type. */
+  private getThreshold(event: NormalizedInputEvent): number {
+    return event.inputType === 'touch'
+      ? HIT_THRESHOLD_TOUCH_PX
+      : HIT_THRESHOLD_MOUSE_PX;
+  }
+
+  /** Reset mode interaction state and optionally clear feature selection. */
+  private resetInteractionState(clearSelection: boolean): void {
+    this.state = 'idle';
+    this.selectedEdgeIndex = -1;
+    this.context.render.clearPreview();
+    this.context.render.clearEdgeHighlight();
+
+    if (clearSelection) {
+      this.clearSelection();
+    }
+  }
+}
@@ -1,27 +1,71 @@
 import type { ModeContext } from '../core/ModeContext';
-import type { LibreDrawFeature, Position } from '../types/features';
+import type {
+  LibreDrawFeature,
+  MultiPolygonGeometry,
+  PolygonGeometry,
+  Position,
+} from '../types/features';
 import type { NormalizedInputEvent } from '../types/input';
 import { UpdateAction } from '../types/features';
+import { distanceMeters, getCircle, withCircle } from '../utils/circle';
 import { cloneFeature } from '../utils/featureSnapshot';
+import type { RingRef } from '../utils/geometry';
 import {
   computeMidpoints,
+  getEditableRings,
+  getMinVertices,
+  getPolygonParts,
   getVertices,
   insertVertex,
   moveVertex,
   removeVertex,
 } from '../utils/geometry';
-import { hasRingSelfIntersection } from '../validation/intersection';
+import { getTransformHandles } from '../utils/transform';
+import { doRingsIntersect, hasRingSelfIntersection } from '../validation/intersection';
 
 const HIT_THRESHOLD_MOUSE_PX = 10;
 const HIT_THRESHOLD_TOUCH_PX = 24;
-const MIN_VERTICES = 3;
 
 /**
- * Handles vertex/midpoint interactions for selected polygons.
+ * A vertex or midpoint handle, addressed by its ring and index within it.
+ */
+interface HandleRef {
+  ring: RingRef;
+  index: number;
+}
+
+/**
+ * Handle positions of every editable ring, flattened for rendering and hit-testing.
+ */
+interface Handles {
+  vertices: Position[];
+  vertexRefs: HandleRef[];
+  midpoints: Position[];
+  midpointRefs: HandleRef[];
+}
+
+/**
+ * Whether an edited ring stays simple and does not cross the other rings of its part.
+ */
+function isRingEditValid(
+  geometry: PolygonGeometry | MultiPolygonGeometry,
+  ref: RingRef,
+): boolean {
+  const rings = getPolygonParts(geometry)[ref.part];
+  const ring = rings[ref.ring];
+  if (hasRingSelfIntersection(ring)) return false;
+  return rings.every((other, i) => i === ref.ring || !doRingsIntersect(ring, other));
+}
+
+/**
+ * Handles vertex/midpoint interactions for selected polygons and lines.
+ * Every ring is editable: holes and the parts of MultiPolygons included.
+ * Circles drawn in circle mode expose a single radius handle instead.
  */
 export class VertexEditor {
   private context: ModeContext;
   private dragging = false;
+  private dragRing: RingRef = { part: 0, ring: 0 };
   private dragVertexIndex = -1;
   private dragStartFeature: LibreDrawFeature | null = null;
   private highlightedVertexIndex = -1;
@@ -52,23 +96,29 @@ export class VertexEditor {
     selectedId: string,
     event: NormalizedInputEvent,
   ): boolean {
-    const vertices = getVertices(feature);
+    const handles = this.collectHandles(feature);
     const threshold = this.getThreshold(event);
 
-    const vertexIdx = this.findNearestVertex(vertices, event.point, threshold);
+    const vertexIdx = this.findNearestVertex(handles.vertices, event.point, threshold);
     if (vertexIdx >= 0) {
-      this.startDrag(feature, vertexIdx);
+      const { ring, index } = handles.vertexRefs[vertexIdx];
+      this.startDrag(feature, ring, index);
       return true;
     }
 
-    const midpoints = computeMidpoints(vertices);
-    const midIdx = this.findNearestPoint(midpoints, event.point, threshold);
+    const midIdx = this.findNearestPoint(handles.midpoints, event.point, threshold);
     if (midIdx >= 0) {
+      const { ring, index } = handles.midpointRefs[midIdx];
       const beforeInsert = cloneFeature(feature);
-      const newFeature = insertVertex(feature, midIdx + 1, midpoints[midIdx]);
+      const newFeature = insertVertex(
+        feature,
+        index + 1,
+        handles.midpoints[midIdx],
+        ring,
+      );
       this.context.store.update(selectedId, newFeature);
       this.renderHandles(newFeature);
-      this.startDrag(newFeature, midIdx + 1, beforeInsert);
+      this.startDrag(newFeature, ring, index + 1, beforeInsert);
       return true;
     }
 
@@ -81,10 +131,32 @@ export class VertexEditor {
     const feature = this.context.store.getById(selectedId);
     if (!feature) return true;
 
-    const newPos: Position = [event.lngLat.lng, event.lngLat.lat];
-    const updatedFeature = moveVertex(feature, this.dragVertexIndex, newPos);
+    // Exclude the edited feature so a vertex doesn't snap to itself
+    const newPos = this.context.snapping.snap(event, [selectedId]);
+
+    const circle = getCircle(feature);
+    if (circle) {
+      const radius = distanceMeters(circle.center, newPos);
+      if (radius <= 0) return true;
+      const resized = withCircle(feature, { ...circle, radius });
+      this.context.store.update(selectedId, resized);
+      this.context.render.renderFeatures();
+      this.renderHandles(resized);
+      return true;
+    }
+
+    const updatedFeature = moveVertex(
+      feature,
+      this.dragVertexIndex,
+      newPos,
+      this.dragRing,
+    );
 
-    if (hasRingSelfIntersection(updatedFeature.geometry.coordinates[0])) {
+    const geometry = updatedFeature.geometry;
+    if (
+      (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon') &&
+      !isRingEditValid(geometry, this.dragRing)
+    ) {
       return true;
     }
 
@@ -98,7 +170,7 @@ export class VertexEditor {
     feature: LibreDrawFeature,
     event: NormalizedInputEvent,
   ): void {
-    const vertices = getVertices(feature);
+    const { vertices } = this.collectHandles(feature);
     const threshold = this.getThreshold(event);
     const nearIdx = this.findNearestVertex(vertices, event.point, threshold);
 
@@ -113,16 +185,18 @@ export class VertexEditor {
     feature: LibreDrawFeature,
     event: NormalizedInputEvent,
   ): boolean {
-    const vertices = getVertices(feature);
+    const handles = this.collectHandles(feature);
     const threshold = this.getThreshold(event);
-    const vertexIdx = this.findNearestVertex(vertices, event.point, threshold);
+    const vertexIdx = this.findNearestVertex(handles.vertices, event.point, threshold);
+    if (vertexIdx < 0) return false;
 
-    if (vertexIdx < 0 || vertices.length <= MIN_VERTICES) {
+    const { ring, index } = handles.vertexRefs[vertexIdx];
+    if (getCircle(feature) || getVertices(feature, ring).length <= getMinVertices(feature)) {
       return false;
     }
 
     const oldFeature = cloneFeature(feature);
-    const updatedFeature = removeVertex(feature, vertexIdx);
+    const updatedFeature = removeVertex(feature, index, ring);
 
     this.context.store.update(selectedId, updatedFeature);
 
@@ -143,36 +217,69 @@ export class VertexEditor {
   }
 
   renderHandles(feature: LibreDrawFeature): void {
-    const vertices = getVertices(feature);
-    const midpoints = computeMidpoints(vertices);
+    const { vertices, midpoints } = this.collectHandles(feature);
     this.context.render.renderVertices(
       vertices,
       midpoints,
       this.highlightedVertexIndex >= 0 ? this.highlightedVertexIndex : undefined,
     );
+    this.context.render.renderTransformHandles(getTransformHandles(feature));
   }
 
   endDrag(): void {
     if (this.dragging) {
       this.context.setDragPan(true);
+      this.context.snapping.clearIndicator();
     }
     this.dragging = false;
+    this.dragRing = { part: 0, ring: 0 };
     this.dragVertexIndex = -1;
     this.dragStartFeature = null;
   }
 
   private startDrag(
     feature: LibreDrawFeature,
+    ring: RingRef,
     vertexIndex: number,
     // Midpoint insertion passes the pre-insert snapshot so undo restores original shape.
     startFeatureSnapshot: LibreDrawFeature = cloneFeature(feature),
   ): void {
     this.dragging = true;
+    this.dragRing = ring;
     this.dragVertexIndex = vertexIndex;
     this.dragStartFeature = startFeatureSnapshot;
     this.context.setDragPan(false);
   }
 
+  private collectHandles(feature: LibreDrawFeature): Handles {
+    const handles: Handles = {
+      vertices: [],
+      vertexRefs: [],
+      midpoints: [],
+      midpointRefs: [],
+    };
+
+    // Circles are resized from the vertex due north of the center
+    if (getCircle(feature)) {
+      handles.vertices.push(getVertices(feature)[0]);
+      handles.vertexRefs.push({ ring: { part: 0, ring: 0 }, index: 0 });
+      return handles;
+    }
+
+    for (const { ref, vertices, closed } of getEditableRings(feature)) {
+      vertices.forEach((vertex, index) => {
+        handles.vertices.push(vertex);
+        handles.vertexRefs.push({ ring: ref, index });
+      });
+      computeMidpoints(vertices, closed).forEach((midpoint, index) => {
+        handles.midpoints.push(midpoint);
+        handles.midpointRefs.push({ ring: ref, index });
+      });
+    }
+
+    return handles;
+  }
+
   private getThreshold(event: NormalizedInputEvent): number {
     return event.inputType === 'touch'
       ? HIT_THRESHOLD_TOUCH_PX
@@ -2,6 +2,7 @@ import type { Map as MaplibreMap } from 'maplibre-gl';
 import type { LibreDrawFeature, Position } from '../types/features';
 import type { PartialStyleConfig, StyleConfig } from '../types/style';
 import { mergeStyleConfig } from '../types/style';
+import type { TransformHandle } from '../utils/transform';
 import { SourceManager, SOURCE_IDS } from './SourceManager';
 
 /**
@@ -10,11 +11,16 @@ import { SourceManager, SOURCE_IDS } from './SourceManager';
 export const LAYER_IDS = {
   FILL: 'libre-draw-fill',
   OUTLINE: 'libre-draw-outline',
+  LINE: 'libre-draw-line',
+  POINT: 'libre-draw-point',
+  POINT_SYMBOL: 'libre-draw-point-symbol',
   VERTICES: 'libre-draw-vertices',
   PREVIEW: 'libre-draw-preview',
   EDGE_HIGHLIGHT: 'libre-draw-edge-highlight',
   EDIT_VERTICES: 'libre-draw-edit-vertices',
   EDIT_MIDPOINTS: 'libre-draw-edit-midpoints',
+  EDIT_TRANSFORM_HANDLES: 'libre-draw-edit-transform-handles',
+  SNAP_INDICATOR: 'libre-draw-snap-indicator',
 } as const;
 
 /**
@@ -23,8 +29,11 @@ export const LAYER_IDS = {
  * Creates and manages MapLibre layers for:
  * - Fill: polygon fill rendering
  * - Outline: polygon border rendering
+ * - Line: LineString feature rendering
+ * - Point / point symbol: marker circles and optional `marker-symbol` icons
  * - Vertices: vertex point rendering
  * - Preview: in-progress drawing preview
+ * - Snap indicator: the position the pointer snaps to
  *
  * Uses requestAnimationFrame for batch updates to avoid
  * redundant re-renders within a single frame.
@@ -37,6 +46,9 @@ export class RenderManager {
   private pendingFeatures: LibreDrawFeature[] | null = null;
   private initialized = false;
   private style: StyleConfig;
+  // Edit handles share one source: vertices/midpoints and transform handles.
+  private vertexHandleFeatures: GeoJSON.Feature[] = [];
+  private transformHandleFeatures: GeoJSON.Feature[] = [];
 
   constructor(
     map: MaplibreMap,
@@ -97,6 +109,7 @@ export class RenderManager {
         id: LAYER_IDS.OUTLINE,
         type: 'line',
         source: SOURCE_IDS.FEATURES,
+        filter: ['==', '$type', 'Polygon'],
         paint: {
           'line-color': [
             'case',
@@ -109,13 +122,74 @@ export class RenderManager {
       });
     }
 
-    // Feature vertices layer (circle markers at each vertex)
+    // LineString feature layer
+    if (!this.map.getLayer(LAYER_IDS.LINE)) {
+      this.map.addLayer({
+        id: LAYER_IDS.LINE,
+        type: 'line',
+        source: SOURCE_IDS.FEATURES,
+        filter: ['==', '$type', 'LineString'],
+        layout: {
+          'line-cap': 'round',
+          'line-join': 'round',
+        },
+        paint: {
+          'line-color': [
+            'case',
+            ['boolean', ['get', '_selected'], false],
+            this.style.line.selectedColor,
+            this.style.line.color,
+          ],
+          'line-width': this.style.line.width,
+        },
+      });
+    }
+
+    // Point feature layer (marker circles)
+    if (!this.map.getLayer(LAYER_IDS.POINT)) {
+      this.map.addLayer({
+        id: LAYER_IDS.POINT,
+        type: 'circle',
+        source: SOURCE_IDS.FEATURES,
+        filter: ['==', '$type', 'Point'],
+        paint: {
+          'circle-radius': this.style.point.radius,
+          'circle-color': [
+            'case',
+            ['boolean', ['get', '_selected'], false],
+            this.style.point.selectedColor,
+            this.style.point.color,
+          ],
+          'circle-stroke-color': this.style.point.strokeColor,
+          'circle-stroke-width': this.style.point.strokeWidth,
+        },
+      });
+    }
+
+    // Point symbol layer (icon named by the `marker-symbol` property,
+    // which must be registered on the map with addImage)
+    if (!this.map.getLayer(LAYER_IDS.POINT_SYMBOL)) {
+      this.map.addLayer({
+        id: LAYER_IDS.POINT_SYMBOL,
+        type: 'symbol',
+        source: SOURCE_IDS.FEATURES,
+        filter: ['all', ['==', '$type', 'Point'], ['has', 'marker-symbol']],
+        layout: {
+          'icon-image': ['get', 'marker-symbol'],
+          'icon-allow-overlap': true,
+          'icon-ignore-placement': true,
+        },
+      });
+    }
+
+    // Feature vertices layer (circle markers at each vertex).
+    // Point features are drawn by the point layers instead.
     if (!this.map.getLayer(LAYER_IDS.VERTICES)) {
       this.map.addLayer({
         id: LAYER_IDS.VERTICES,
         type: 'circle',
         source: SOURCE_IDS.FEATURES,
-        filter: ['==', '$type', 'Point'],
+        filter: ['all', ['==', '$type', 'Point'], ['!has', '_id']],
         paint: {
           'circle-radius': this.style.vertex.radius,
           'circle-color': this.style.vertex.color,
@@ -199,6 +273,37 @@ export class RenderManager {
       });
     }
 
+    // Transform handles layer (rotation handle of the selected feature)
+    if (!this.map.getLayer(LAYER_IDS.EDIT_TRANSFORM_HANDLES)) {
+      this.map.addLayer({
+        id: LAYER_IDS.EDIT_TRANSFORM_HANDLES,
+        type: 'circle',
+        source: SOURCE_IDS.EDIT_VERTICES,
+        filter: ['==', ['get', '_type'], 'transform'],
+        paint: {
+          'circle-radius': this.style.transformHandle.radius,
+          'circle-color': this.style.transformHandle.color,
+          'circle-stroke-color': this.style.transformHandle.strokeColor,
+          'circle-stroke-width': this.style.transformHandle.strokeWidth,
+        },
+      });
+    }
+
+    // Snap indicator layer (drawn on top of everything else)
+    if (!this.map.getLayer(LAYER_IDS.SNAP_INDICATOR)) {
+      this.map.addLayer({
+        id: LAYER_IDS.SNAP_INDICATOR,
+        type: 'circle',
+        source: SOURCE_IDS.SNAP_INDICATOR,
+        paint: {
+          'circle-radius': this.style.snap.radius,
+          'circle-color': this.style.snap.color,
+          'circle-stroke-color': this.style.snap.strokeColor,
+          'circle-stroke-width': this.style.snap.strokeWidth,
+        },
+      });
+    }
+
     this.initialized = true;
   }
 
@@ -249,6 +354,34 @@ export class RenderManager {
     this.sourceManager.updatePreview(previewGeoJSON);
   }
 
+  /**
+   * Render several separate preview lines (e.g. strip cut lines).
+   * @param lines - The line coordinates, one array per line.
+   */
+  renderPreviewLines(lines: Position[][]): void {
+    const visible = lines.filter((line) => line.length >= 2);
+    if (visible.length === 0) {
+      this.clearPreview();
+      return;
+    }
+
+    this.sourceManager.updatePreview({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: {},
+          geometry: {
+            type: 'MultiLineString',
+            coordinates: visible.map((line) =>
+              line.map((pos) => [pos[0], pos[1]] as [number, number]),
+            ),
+          },
+        },
+      ],
+    });
+  }
+
   /**
    * Clear the drawing preview.
    */
@@ -285,6 +418,34 @@ export class RenderManager {
     });
   }
 
+  /**
+   * Render several highlighted edges at once (for multi-edge setback).
+   * @param edges - The edge coordinates, one two-point line per edge.
+   */
+  renderEdgeHighlights(edges: Position[][]): void {
+    const visible = edges.filter((edge) => edge.length >= 2);
+    if (visible.length === 0) {
+      this.clearEdgeHighlight();
+      return;
+    }
+
+    this.sourceManager.updateEdgeHighlight({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: {},
+          geometry: {
+            type: 'MultiLineString',
+            coordinates: visible.map((edge) =>
+              edge.map((pos) => [pos[0], pos[1]] as [number, number]),
+            ),
+          },
+        },
+      ],
+    });
+  }
+
   /**
    * Clear highlighted edge line.
    */
@@ -321,19 +482,56 @@ export class RenderManager {
       });
     }
 
-    this.sourceManager.updateEditVertices({
-      type: 'FeatureCollection',
-      features,
-    });
+    this.vertexHandleFeatures = features;
+    this.updateEditHandles();
   }
 
   /**
-   * Clear the vertex/midpoint markers.
+   * Render transform handles (e.g. the rotation handle) of a selected feature.
+   * @param handles - The handles to show; an empty list hides them.
+   */
+  renderTransformHandles(handles: TransformHandle[]): void {
+    this.transformHandleFeatures = handles.map((handle) => ({
+      type: 'Feature',
+      properties: { _type: 'transform', _kind: handle.kind },
+      geometry: { type: 'Point', coordinates: [handle.position[0], handle.position[1]] },
+    }));
+    this.updateEditHandles();
+  }
+
+  /**
+   * Clear the vertex/midpoint markers and transform handles.
    */
   clearVertices(): void {
+    this.vertexHandleFeatures = [];
+    this.transformHandleFeatures = [];
     this.sourceManager.clearEditVertices();
   }
 
+  /**
+   * Render the snap indicator at the snapped position.
+   * @param position - The position the pointer snaps to.
+   */
+  renderSnapIndicator(position: Position): void {
+    this.sourceManager.updateSnapIndicator({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: {},
+          geometry: { type: 'Point', coordinates: [position[0], position[1]] },
+        },
+      ],
+    });
+  }
+
+  /**
+   * Clear the snap indicator.
+   */
+  clearSnapIndicator(): void {
+    this.sourceManager.clearSnapIndicator();
+  }
+
   /**
    * Set the IDs of selected features for visual highlighting.
    * @param ids - The selected feature IDs.
@@ -347,11 +545,16 @@ export class RenderManager {
    */
   destroy(): void {
     const layerIds = [
+      LAYER_IDS.SNAP_INDICATOR,
+      LAYER_IDS.EDIT_TRANSFORM_HANDLES,
       LAYER_IDS.EDIT_VERTICES,
       LAYER_IDS.EDIT_MIDPOINTS,
       LAYER_IDS.EDGE_HIGHLIGHT,
       LAYER_IDS.PREVIEW,
       LAYER_IDS.VERTICES,
+      LAYER_IDS.POINT_SYMBOL,
+      LAYER_IDS.POINT,
+      LAYER_IDS.LINE,
       LAYER_IDS.OUTLINE,
       LAYER_IDS.FILL,
     ];
@@ -395,6 +598,16 @@ export class RenderManager {
     this.pendingFeatures = null;
   }
 
+  /**
+   * Write vertex/midpoint markers and transform handles to the edit source.
+   */
+  private updateEditHandles(): void {
+    this.sourceManager.updateEditVertices({
+      type: 'FeatureCollection',
+      features: [...this.vertexHandleFeatures, ...this.transformHandleFeatures],
+    });
+  }
+
   /**
    * Whether all draw layers exist on the current style.
    */
@@ -402,11 +615,16 @@ export class RenderManager {
     return Boolean(
       this.map.getLayer(LAYER_IDS.FILL) &&
         this.map.getLayer(LAYER_IDS.OUTLINE) &&
+        this.map.getLayer(LAYER_IDS.LINE) &&
+        this.map.getLayer(LAYER_IDS.POINT) &&
+        this.map.getLayer(LAYER_IDS.POINT_SYMBOL) &&
         this.map.getLayer(LAYER_IDS.VERTICES) &&
         this.map.getLayer(LAYER_IDS.PREVIEW) &&
         this.map.getLayer(LAYER_IDS.EDGE_HIGHLIGHT) &&
         this.map.getLayer(LAYER_IDS.EDIT_MIDPOINTS) &&
-        this.map.getLayer(LAYER_IDS.EDIT_VERTICES),
+        this.map.getLayer(LAYER_IDS.EDIT_VERTICES) &&
+        this.map.getLayer(LAYER_IDS.EDIT_TRANSFORM_HANDLES) &&
+        this.map.getLayer(LAYER_IDS.SNAP_INDICATOR),
     );
   }
 }
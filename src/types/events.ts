@@ -23,12 +23,30 @@ export interface DeleteEvent {
   feature: LibreDrawFeature;
 }
 
+/**
+ * Event payload for the combined changes of a transaction: the net
+ * result compared with the features before it started.
+ *
+ * When the transaction was rolled back, `rolledBack` is true and the
+ * changes describe the rollback itself, compared with the features the
+ * failed transaction left behind.
+ */
+export interface ChangeEvent {
+  created: LibreDrawFeature[];
+  updated: UpdateEvent[];
+  deleted: LibreDrawFeature[];
+  rolledBack: boolean;
+}
+
 /**
  * Event payload for split operation.
+ *
+ * `features` holds the resulting polygons (two or more), or a single
+ * MultiPolygon feature when split mode keeps the pieces together.
  */
 export interface SplitEvent {
   originalFeature: LibreDrawFeature;
-  features: [LibreDrawFeature, LibreDrawFeature];
+  features: LibreDrawFeature[];
 }
 
 /**
@@ -39,18 +57,113 @@ export interface SplitFailedEvent {
   featureId: string;
 }
 
-export type SetbackFailReason =
-  | 'has-holes'
-  | 'invalid-split';
+/**
+ * Event payload for a merge operation.
+ */
+export interface MergeEvent {
+  originalFeatures: LibreDrawFeature[];
+  feature: LibreDrawFeature;
+}
+
+/**
+ * Event payload for a failed merge operation.
+ */
+export interface MergeFailedEvent {
+  reason: import('../utils/polygonOps').MergeFailReason;
+  featureIds: string[];
+}
+
+/**
+ * Event payload for a difference (clip) operation.
+ */
+export interface DifferenceEvent {
+  originalFeature: LibreDrawFeature;
+  feature: LibreDrawFeature;
+  cutterId: string;
+}
+
+/**
+ * Event payload for a failed difference operation.
+ */
+export interface DifferenceFailedEvent {
+  reason: import('../utils/polygonOps').DifferenceFailReason;
+  featureId: string;
+}
+
+/**
+ * Event payload for a failed intersection.
+ */
+export interface IntersectFailedEvent {
+  reason: import('../utils/polygonOps').IntersectFailReason;
+  featureIds: string[];
+}
+
+/**
+ * Event payload for an equal-area strip split.
+ *
+ * `features` holds the strips ordered from the chosen edge; each has a
+ * `stripIndex` property.
+ */
+export interface StripsEvent {
+  originalFeature: LibreDrawFeature;
+  features: LibreDrawFeature[];
+  edgeIndex: number;
+}
+
+/**
+ * Event payload for a failed strip split.
+ */
+export interface StripsFailedEvent {
+  reason: import('../utils/strips').StripFailReason;
+  featureId: string;
+}
+
+/**
+ * Event payload for a whole-perimeter buffer.
+ */
+export interface BufferEvent {
+  originalFeature: LibreDrawFeature;
+  feature: LibreDrawFeature;
+  distance: number;
+}
+
+/**
+ * Event payload for a failed buffer.
+ */
+export interface BufferFailedEvent {
+  reason: import('../utils/buffer').BufferFailReason;
+  featureId: string;
+}
+
+/**
+ * Event payload for a rejected hole ring.
+ */
+export interface HoleFailedEvent {
+  reason: import('../utils/holes').HoleFailReason;
+  featureId: string;
+}
+
+export type SetbackFailReason = 'invalid-split';
+
+/**
+ * One edge of a setback operation and its setback distance in meters.
+ */
+export interface SetbackEdge {
+  edgeIndex: number;
+  distance: number;
+}
 
 /**
  * Event payload for successful setback operation.
+ * `edgeIndex` and `distance` describe the first edge; `edges` lists every
+ * edge in the order it was applied.
  */
 export interface SetbackEvent {
   originalFeature: LibreDrawFeature;
   feature: LibreDrawFeature;
   edgeIndex: number;
   distance: number;
+  edges: SetbackEdge[];
 }
 
 /**
@@ -83,8 +196,19 @@ export interface LibreDrawEventMap {
   create: CreateEvent;
   update: UpdateEvent;
   delete: DeleteEvent;
+  change: ChangeEvent;
   split: SplitEvent;
   splitfailed: SplitFailedEvent;
+  merge: MergeEvent;
+  mergefailed: MergeFailedEvent;
+  difference: DifferenceEvent;
+  differencefailed: DifferenceFailedEvent;
+  intersectfailed: IntersectFailedEvent;
+  strips: StripsEvent;
+  stripsfailed: StripsFailedEvent;
+  buffer: BufferEvent;
+  bufferfailed: BufferFailedEvent;
+  holefailed: HoleFailedEvent;
   setback: SetbackEvent;
   setbackfailed: SetbackFailedEvent;
   selectionchange: SelectionChangeEvent;
@@ -13,6 +13,40 @@ export interface PolygonGeometry {
   coordinates: Position[][];
 }
 
+/**
+ * GeoJSON MultiPolygon geometry. Each part is a list of rings,
+ * the first being the outer boundary of that part.
+ */
+export interface MultiPolygonGeometry {
+  type: 'MultiPolygon';
+  coordinates: Position[][][];
+}
+
+/**
+ * GeoJSON LineString geometry.
+ */
+export interface LineStringGeometry {
+  type: 'LineString';
+  coordinates: Position[];
+}
+
+/**
+ * GeoJSON Point geometry (a marker).
+ */
+export interface PointGeometry {
+  type: 'Point';
+  coordinates: Position;
+}
+
+/**
+ * Any geometry that LibreDraw can store and edit.
+ */
+export type LibreDrawGeometry =
+  | PolygonGeometry
+  | MultiPolygonGeometry
+  | LineStringGeometry
+  | PointGeometry;
+
 /**
  * Arbitrary key-value properties attached to a feature.
  */
@@ -21,17 +55,20 @@ export interface FeatureProperties {
 }
 
 /**
- * A GeoJSON Feature with Polygon geometry used internally by LibreDraw.
+ * A GeoJSON Feature used internally by LibreDraw.
+ *
+ * The geometry type parameter defaults to any supported geometry;
+ * geometry-specific helpers narrow it (e.g. `LibreDrawFeature<PolygonGeometry>`).
  */
-export interface LibreDrawFeature {
+export interface LibreDrawFeature<G extends LibreDrawGeometry = LibreDrawGeometry> {
   id: string;
   type: 'Feature';
-  geometry: PolygonGeometry;
+  geometry: G;
   properties: FeatureProperties;
 }
 
 /**
- * A GeoJSON FeatureCollection containing LibreDraw polygons.
+ * A GeoJSON FeatureCollection containing LibreDraw features.
  */
 export interface FeatureCollection {
   type: 'FeatureCollection';
@@ -41,7 +78,14 @@ export interface FeatureCollection {
 /**
  * The type of history action.
  */
-export type ActionType = 'create' | 'update' | 'delete' | 'split' | 'setback';
+export type ActionType =
+  | 'create'
+  | 'update'
+  | 'delete'
+  | 'split'
+  | 'setback'
+  | 'merge'
+  | 'compound';
 
 /**
  * A reversible action that can be applied and reverted on a FeatureStore.
@@ -83,6 +127,31 @@ export class CreateAction implements Action {
   }
 }
 
+/**
+ * Action that represents creating several features at once, such as
+ * pasting copied features, so one undo removes all of them.
+ */
+export class BatchCreateAction implements Action {
+  public readonly type: ActionType = 'create';
+  public readonly features: LibreDrawFeature[];
+
+  constructor(features: LibreDrawFeature[]) {
+    this.features = features.map((f) => cloneFeature(f));
+  }
+
+  apply(store: FeatureStoreInterface): void {
+    for (const feature of this.features) {
+      store.add(feature);
+    }
+  }
+
+  revert(store: FeatureStoreInterface): void {
+    for (const feature of this.features) {
+      store.remove(feature.id);
+    }
+  }
+}
+
 /**
  * Action that represents the update of an existing feature.
  */
@@ -111,6 +180,33 @@ export class UpdateAction implements Action {
   }
 }
 
+/**
+ * Action that represents updating several features at once, such as moving
+ * a multi-feature selection, so one undo restores all of them.
+ */
+export class BatchUpdateAction implements Action {
+  public readonly type: ActionType = 'update';
+  public readonly oldFeatures: LibreDrawFeature[];
+  public readonly newFeatures: LibreDrawFeature[];
+
+  constructor(oldFeatures: LibreDrawFeature[], newFeatures: LibreDrawFeature[]) {
+    this.oldFeatures = oldFeatures.map((f) => cloneFeature(f));
+    this.newFeatures = newFeatures.map((f) => cloneFeature(f));
+  }
+
+  apply(store: FeatureStoreInterface): void {
+    for (const feature of this.newFeatures) {
+      store.update(feature.id, feature);
+    }
+  }
+
+  revert(store: FeatureStoreInterface): void {
+    for (const feature of this.oldFeatures) {
+      store.update(feature.id, feature);
+    }
+  }
+}
+
 /**
  * Action that represents the deletion of a feature.
  */
@@ -132,33 +228,74 @@ export class DeleteAction implements Action {
 }
 
 /**
- * Action that represents splitting one feature into two features.
+ * Action that represents deleting several features at once, so one undo
+ * restores all of them.
+ */
+export class BatchDeleteAction implements Action {
+  public readonly type: ActionType = 'delete';
+  public readonly features: LibreDrawFeature[];
+
+  constructor(features: LibreDrawFeature[]) {
+    this.features = features.map((f) => cloneFeature(f));
+  }
+
+  apply(store: FeatureStoreInterface): void {
+    for (const feature of this.features) {
+      store.remove(feature.id);
+    }
+  }
+
+  revert(store: FeatureStoreInterface): void {
+    for (const feature of this.features) {
+      store.add(feature);
+    }
+  }
+}
+
+/**
+ * Action that represents splitting one feature into two or more features.
+ *
+ * When `features` holds a single feature the split pieces were kept
+ * together in it (a MultiPolygon), which may reuse the original ID.
  */
 export class SplitAction implements Action {
   public readonly type: ActionType = 'split';
   public readonly originalFeature: LibreDrawFeature;
-  public readonly featureA: LibreDrawFeature;
-  public readonly featureB: LibreDrawFeature;
+  public readonly features: LibreDrawFeature[];
 
-  constructor(
-    originalFeature: LibreDrawFeature,
-    featureA: LibreDrawFeature,
-    featureB: LibreDrawFeature,
-  ) {
+  constructor(originalFeature: LibreDrawFeature, ...features: LibreDrawFeature[]) {
     this.originalFeature = cloneFeature(originalFeature);
-    this.featureA = cloneFeature(featureA);
-    this.featureB = cloneFeature(featureB);
+    this.features = features.map((f) => cloneFeature(f));
+  }
+
+  /**
+   * The first resulting feature.
+   * @deprecated Use `features[0]`.
+   */
+  get featureA(): LibreDrawFeature {
+    return this.features[0];
+  }
+
+  /**
+   * The second resulting feature. Undefined when the pieces were kept
+   * together in one feature.
+   * @deprecated Use `features[1]`.
+   */
+  get featureB(): LibreDrawFeature {
+    return this.features[1];
   }
 
   apply(store: FeatureStoreInterface): void {
     store.remove(this.originalFeature.id);
-    store.add(this.featureA);
-    store.add(this.featureB);
+    for (const feature of this.features) {
+      store.add(feature);
+    }
   }
 
   revert(store: FeatureStoreInterface): void {
-    store.remove(this.featureA.id);
-    store.remove(this.featureB.id);
+    for (const feature of this.features) {
+      store.remove(feature.id);
+    }
     store.add(this.originalFeature);
   }
 }
@@ -189,3 +326,61 @@ export class SetbackAction implements Action {
     store.add(this.originalFeature);
   }
 }
+
+/**
+ * Action that represents merging several features into one (N -> 1).
+ * Reverting restores all original features.
+ */
+export class MergeAction implements Action {
+  public readonly type: ActionType = 'merge';
+  public readonly originalFeatures: LibreDrawFeature[];
+  public readonly resultFeature: LibreDrawFeature;
+
+  constructor(
+    originalFeatures: LibreDrawFeature[],
+    resultFeature: LibreDrawFeature,
+  ) {
+    this.originalFeatures = originalFeatures.map((f) => cloneFeature(f));
+    this.resultFeature = cloneFeature(resultFeature);
+  }
+
+  apply(store: FeatureStoreInterface): void {
+    for (const feature of this.originalFeatures) {
+      store.remove(feature.id);
+    }
+    store.add(this.resultFeature);
+  }
+
+  revert(store: FeatureStoreInterface): void {
+    store.remove(this.resultFeature.id);
+    for (const feature of this.originalFeatures) {
+      store.add(feature);
+    }
+  }
+}
+
+/**
+ * Action that groups several actions into one history entry, so they are
+ * undone and redone together. Actions are applied in order and reverted in
+ * reverse order.
+ */
+export class CompoundAction implements Action {
+  public readonly type: ActionType = 'compound';
+  public readonly actions: Action[];
+
+  constructor(actions: Action[]) {
+    this.actions = [...actions];
+  }
+
+  apply(store: FeatureStoreInterface): void {
+    for (const action of this.actions) {
+      action.apply(store);
+    }
+  }
+
+  revert(store: FeatureStoreInterface): void {
+    for (let i = this.actions.length - 1; i >= 0; i--) {
+      this.actions[i].revert(store);
+    }
+  }
+}
@@ -1,6 +1,10 @@
 export type {
   Position,
   PolygonGeometry,
+  MultiPolygonGeometry,
+  LineStringGeometry,
+  PointGeometry,
+  LibreDrawGeometry,
   FeatureProperties,
   LibreDrawFeature,
   FeatureCollection,
@@ -13,18 +17,35 @@ export type { ModeName } from './mode';
 
 export {
   CreateAction,
+  BatchCreateAction,
   UpdateAction,
+  BatchUpdateAction,
   DeleteAction,
+  BatchDeleteAction,
   SplitAction,
   SetbackAction,
+  MergeAction,
+  CompoundAction,
 } from './features';
 
 export type {
   CreateEvent,
   UpdateEvent,
   DeleteEvent,
+  ChangeEvent,
   SplitEvent,
   SplitFailedEvent,
+  MergeEvent,
+  MergeFailedEvent,
+  DifferenceEvent,
+  DifferenceFailedEvent,
+  IntersectFailedEvent,
+  StripsEvent,
+  StripsFailedEvent,
+  BufferEvent,
+  BufferFailedEvent,
+  HoleFailedEvent,
+  SetbackEdge,
   SetbackEvent,
   SetbackFailedEvent,
   SetbackFailReason,
@@ -37,16 +58,27 @@ export type {
   ToolbarPosition,
   ToolbarControls,
   ToolbarOptions,
+  DrawOptions,
+  RectangleOptions,
+  CircleOptions,
+  FreehandOptions,
+  SnapOptions,
+  SplitOptions,
+  BufferOptions,
   LibreDrawOptions,
 } from './options';
 
 export type {
   FillStyle,
   OutlineStyle,
+  LineStyle,
+  PointStyle,
   VertexStyle,
   PreviewStyle,
   EditVertexStyle,
   MidpointStyle,
+  TransformHandleStyle,
+  SnapIndicatorStyle,
   StyleConfig,
   PartialStyleConfig,
 } from './style';
@@ -59,4 +91,5 @@ export {
 export type {
   InputType,
   NormalizedInputEvent,
+  TypedVertex,
 } from './input';
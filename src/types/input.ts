@@ -16,3 +16,16 @@ export interface NormalizedInputEvent {
   /** The input device type that generated this event. */
   inputType: InputType;
 }
+
+/**
+ * A vertex typed into the draw mode input panel instead of clicked.
+ * - `bearing`: segment length in meters and bearing in degrees clockwise
+ *   from true north.
+ * - `angle`: segment length in meters and turn angle in degrees clockwise
+ *   from the direction of the previous segment (true north for the first).
+ * - `lnglat`: an absolute longitude/latitude.
+ */
+export type TypedVertex =
+  | { type: 'bearing'; distance: number; bearing: number }
+  | { type: 'angle'; distance: number; angle: number }
+  | { type: 'lnglat'; lng: number; lat: number };
@@ -1,4 +1,4 @@
 /**
  * The available drawing modes.
  */
-export type ModeName = 'idle' | 'draw' | 'select' | 'split' | 'setback';
+export type ModeName = 'idle' | 'draw' | 'rectangle' | 'circle' | 'freehand' | 'line' | 'point' | 'select' | 'hole' | 'split' | 'difference' | 'intersect' | 'strips' | 'buffer' | 'setback';
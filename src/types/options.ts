@@ -14,8 +14,18 @@ export type ToolbarPosition =
  */
 export interface ToolbarControls {
   draw?: boolean;
+  rectangle?: boolean;
+  circle?: boolean;
+  freehand?: boolean;
+  line?: boolean;
+  point?: boolean;
   select?: boolean;
+  hole?: boolean;
   split?: boolean;
+  difference?: boolean;
+  intersect?: boolean;
+  strips?: boolean;
+  buffer?: boolean;
   setback?: boolean;
   delete?: boolean;
   undo?: boolean;
@@ -30,6 +40,100 @@ export interface ToolbarOptions {
   controls?: ToolbarControls;
 }
 
+/**
+ * Options for polygon draw mode.
+ */
+export interface DrawOptions {
+  /**
+   * Always constrain new segments to 0/45/90° steps, not only while Shift
+   * is held. Defaults to false.
+   */
+  constrainAngles?: boolean;
+  /**
+   * What constrained angles are measured from: the previous segment, or
+   * true north. The first segment always uses true north. Defaults to
+   * `'segment'`.
+   */
+  angleReference?: 'segment' | 'north';
+}
+
+/**
+ * Options for rectangle mode.
+ */
+export interface RectangleOptions {
+  /**
+   * Draw rotated rectangles from a baseline (two clicks) and a depth
+   * (third click) instead of axis-aligned ones. Defaults to false.
+   */
+  rotated?: boolean;
+}
+
+/**
+ * Options for circle mode.
+ */
+export interface CircleOptions {
+  /**
+   * Number of segments used to approximate the circle. Small values give
+   * regular polygons (e.g. 6 for a hexagon). Defaults to 64.
+   */
+  segments?: number;
+}
+
+/**
+ * Options for freehand mode.
+ */
+export interface FreehandOptions {
+  /**
+   * Douglas–Peucker simplification tolerance in pixels. Larger values
+   * give fewer vertices. Defaults to 3.
+   */
+  tolerance?: number;
+}
+
+/**
+ * Options for snapping pointer positions to existing features while
+ * drawing, dragging vertices and placing split points.
+ */
+export interface SnapOptions {
+  /** Whether snapping is active. Defaults to true when options are given. */
+  enabled?: boolean;
+  /** Snapping distance in pixels. Defaults to 10. */
+  tolerance?: number;
+  /** Snap to vertices (and point markers). Defaults to true. */
+  vertex?: boolean;
+  /** Snap to edge midpoints. Defaults to true. */
+  midpoint?: boolean;
+  /** Snap to the nearest point on an edge. Defaults to true. */
+  edge?: boolean;
+  /**
+   * IDs of other map layers whose rendered features are also snap targets
+   * (e.g. a cadastral vector tile layer). Defaults to none.
+   */
+  layers?: string[];
+}
+
+/**
+ * Options for split mode.
+ */
+export interface SplitOptions {
+  /**
+   * Keep all pieces in the original feature as a single MultiPolygon
+   * instead of replacing it with separate Polygon features. Defaults to false.
+   */
+  keepAsMultiPolygon?: boolean;
+}
+
+/**
+ * Options for buffer mode.
+ */
+export interface BufferOptions {
+  /**
+   * How offset edges meet at corners: sharp `'mitre'` corners (bevelled
+   * when very sharp) or `'round'` arcs. Defaults to `'mitre'`.
+   */
+  join?: 'mitre' | 'round';
+}
+
 /**
  * Options for creating a LibreDraw instance.
  */
@@ -40,4 +144,18 @@ export interface LibreDrawOptions {
   historyLimit?: number;
   /** Partial style overrides for map layer rendering. */
   style?: PartialStyleConfig;
+  /** Polygon draw mode behavior. */
+  draw?: DrawOptions;
+  /** Rectangle mode behavior. */
+  rectangle?: RectangleOptions;
+  /** Circle mode behavior. */
+  circle?: CircleOptions;
+  /** Freehand mode behavior. */
+  freehand?: FreehandOptions;
+  /** Snapping to existing features: `true` for defaults, or options. Off by default. */
+  snap?: boolean | SnapOptions;
+  /** Split mode behavior. */
+  split?: SplitOptions;
+  /** Buffer mode behavior. */
+  buffer?: BufferOptions;
 }
@@ -17,6 +17,26 @@ export interface OutlineStyle {
   selectedColor: string;
 }
 
+/**
+ * Style for LineString feature rendering.
+ */
+export interface LineStyle {
+  color: string;
+  width: number;
+  selectedColor: string;
+}
+
+/**
+ * Style for Point feature markers.
+ */
+export interface PointStyle {
+  color: string;
+  radius: number;
+  strokeColor: string;
+  strokeWidth: number;
+  selectedColor: string;
+}
+
 /**
  * Style for feature vertex markers.
  */
@@ -58,16 +78,40 @@ export interface MidpointStyle {
   radius: number;
 }
 
+/**
+ * Style for transform handles (e.g. the rotation handle) of a selected feature.
+ */
+export interface TransformHandleStyle {
+  color: string;
+  strokeColor: string;
+  strokeWidth: number;
+  radius: number;
+}
+
+/**
+ * Style for the snap indicator shown where the pointer will snap.
+ */
+export interface SnapIndicatorStyle {
+  color: string;
+  radius: number;
+  strokeColor: string;
+  strokeWidth: number;
+}
+
 /**
  * Full render style configuration.
  */
 export interface StyleConfig {
   fill: FillStyle;
   outline: OutlineStyle;
+  line: LineStyle;
+  point: PointStyle;
   vertex: VertexStyle;
   preview: PreviewStyle;
   editVertex: EditVertexStyle;
   midpoint: MidpointStyle;
+  transformHandle: TransformHandleStyle;
+  snap: SnapIndicatorStyle;
 }
 
 /**
@@ -76,10 +120,14 @@ export interface StyleConfig {
 export interface PartialStyleConfig {
   fill?: Partial<FillStyle>;
   outline?: Partial<OutlineStyle>;
+  line?: Partial<LineStyle>;
+  point?: Partial<PointStyle>;
   vertex?: Partial<VertexStyle>;
   preview?: Partial<PreviewStyle>;
   editVertex?: Partial<EditVertexStyle>;
   midpoint?: Partial<MidpointStyle>;
+  transformHandle?: Partial<TransformHandleStyle>;
+  snap?: Partial<SnapIndicatorStyle>;
 }
 
 /**
@@ -97,6 +145,18 @@ export const DEFAULT_STYLE_CONFIG: StyleConfig = {
     width: 2,
     selectedColor: '#fbb03b',
   },
+  line: {
+    color: '#3bb2d0',
+    width: 3,
+    selectedColor: '#fbb03b',
+  },
+  point: {
+    color: '#3bb2d0',
+    radius: 6,
+    strokeColor: '#ffffff',
+    strokeWidth: 2,
+    selectedColor: '#fbb03b',
+  },
   vertex: {
     color: '#ffffff',
     strokeColor: '#3bb2d0',
@@ -122,6 +182,18 @@ export const DEFAULT_STYLE_CONFIG: StyleConfig = {
     opacity: 0.5,
     radius: 3,
   },
+  transformHandle: {
+    color: '#ffffff',
+    strokeColor: '#fbb03b',
+    strokeWidth: 2,
+    radius: 6,
+  },
+  snap: {
+    color: '#ff00ff',
+    radius: 6,
+    strokeColor: '#ffffff',
+    strokeWidth: 2,
+  },
 };
 
 /**
@@ -137,6 +209,14 @@ export function mergeStyleConfig(overrides?: PartialStyleConfig): StyleConfig {
       ...DEFAULT_STYLE_CONFIG.outline,
       ...overrides?.outline,
     },
+    line: {
+      ...DEFAULT_STYLE_CONFIG.line,
+      ...overrides?.line,
+    },
+    point: {
+      ...DEFAULT_STYLE_CONFIG.point,
+      ...overrides?.point,
+    },
     vertex: {
       ...DEFAULT_STYLE_CONFIG.vertex,
       ...overrides?.vertex,
@@ -156,5 +236,13 @@ export function mergeStyleConfig(overrides?: PartialStyleConfig): StyleConfig {
       ...DEFAULT_STYLE_CONFIG.midpoint,
       ...overrides?.midpoint,
     },
+    transformHandle: {
+      ...DEFAULT_STYLE_CONFIG.transformHandle,
+      ...overrides?.transformHandle,
+    },
+    snap: {
+      ...DEFAULT_STYLE_CONFIG.snap,
+      ...overrides?.snap,
+    },
   };
 }
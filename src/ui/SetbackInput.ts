@@ -3,20 +3,39 @@ export interface SetbackInputCallbacks {
   onDistanceChange(distance: number): void;
 }
 
+/**
+ * Accessible labels and value settings, so the input can be reused for
+ * other distances (e.g. the circle radius) or counts (e.g. strips).
+ */
+export interface SetbackInputOptions {
+  inputLabel?: string;
+  executeLabel?: string;
+  unit?: string;
+  defaultValue?: number;
+  min?: number;
+  step?: number;
+  /** Accept negative values too (e.g. an inward buffer); only zero is rejected. */
+  signed?: boolean;
+}
+
 const DEFAULT_DISTANCE_METERS = 10;
 const EXECUTE_BUTTON_LABEL = '実行';
 
 /**
- * Inline distance input used by setback mode.
+ * Inline distance input used by setback mode (and circle mode for the radius).
  */
 export class SetbackInput {
   private container: HTMLDivElement;
   private input: HTMLInputElement;
   private executeButton: HTMLButtonElement;
   private callbacks: SetbackInputCallbacks;
+  private defaultValue: number;
+  private signed: boolean;
 
-  constructor(callbacks: SetbackInputCallbacks) {
+  constructor(callbacks: SetbackInputCallbacks, options: SetbackInputOptions = {}) {
     this.callbacks = callbacks;
+    this.defaultValue = options.defaultValue ?? DEFAULT_DISTANCE_METERS;
+    this.signed = options.signed ?? false;
 
     this.container = document.createElement('div');
     this.container.className = 'libre-draw-setback-input';
@@ -24,21 +43,23 @@ export class SetbackInput {
 
     this.input = document.createElement('input');
     this.input.type = 'number';
-    this.input.min = '0.1';
-    this.input.step = '0.1';
-    this.input.value = String(DEFAULT_DISTANCE_METERS);
-    this.input.setAttribute('aria-label', 'Setback distance in meters');
+    if (!this.signed) {
+      this.input.min = String(options.min ?? 0.1);
+    }
+    this.input.step = String(options.step ?? 0.1);
+    this.input.value = String(this.defaultValue);
+    this.input.setAttribute('aria-label', options.inputLabel ?? 'Setback distance in meters');
     this.applyInputStyles();
 
     const unit = document.createElement('span');
-    unit.textContent = 'm';
+    unit.textContent = options.unit ?? 'm';
     unit.style.fontSize = '12px';
     unit.style.color = '#333';
 
     this.executeButton = document.createElement('button');
     this.executeButton.type = 'button';
     this.executeButton.textContent = EXECUTE_BUTTON_LABEL;
-    this.executeButton.setAttribute('aria-label', 'Execute setback');
+    this.executeButton.setAttribute('aria-label', options.executeLabel ?? 'Execute setback');
     this.applyButtonStyles();
 
     this.container.appendChild(this.input);
@@ -60,6 +81,15 @@ export class SetbackInput {
     return this.parseDistance();
   }
 
+  /**
+   * Show a distance without firing onDistanceChange.
+   */
+  setDistance(distance: number): void {
+    if (this.isAccepted(distance)) {
+      this.input.value = String(distance);
+    }
+  }
+
   setVisible(visible: boolean): void {
     this.container.style.display = visible ? 'inline-flex' : 'none';
   }
@@ -73,7 +103,7 @@ export class SetbackInput {
 
   private handleInput = (): void => {
     const distance = this.parseDistance();
-    if (distance > 0) {
+    if (this.isAccepted(distance)) {
       this.callbacks.onDistanceChange(distance);
     }
   };
@@ -82,26 +112,30 @@ export class SetbackInput {
     if (event.key !== 'Enter') return;
 
     const distance = this.parseDistance();
-    if (distance > 0) {
+    if (this.isAccepted(distance)) {
       this.callbacks.onSubmit(distance);
     }
   };
 
   private handleExecute = (): void => {
     const distance = this.parseDistance();
-    if (distance > 0) {
+    if (this.isAccepted(distance)) {
       this.callbacks.onSubmit(distance);
     }
   };
 
   private parseDistance(): number {
     const value = Number(this.input.value);
-    if (!Number.isFinite(value) || value <= 0) {
-      return DEFAULT_DISTANCE_METERS;
+    if (!this.isAccepted(value)) {
+      return this.defaultValue;
     }
     return value;
   }
 
+  private isAccepted(value: number): boolean {
+    return Number.isFinite(value) && (this.signed ? value !== 0 : value > 0);
+  }
+
   private applyContainerStyles(): void {
     const s = this.container.style;
     s.display = 'inline-flex';
@@ -0,0 +1,189 @@
+import type { StripOptions } from '../utils/strips';
+
+export interface StripsInputCallbacks {
+  onSubmit(options: StripOptions): void;
+  onOptionsChange(options: StripOptions): void;
+}
+
+type StripsInputKind = 'count' | 'width';
+
+interface KindSettings {
+  option: string;
+  label: string;
+  defaultValue: number;
+  min: number;
+  step: number;
+}
+
+const KIND_SETTINGS: Record<StripsInputKind, KindSettings> = {
+  count: {
+    option: 'strips',
+    label: 'Number of strips',
+    defaultValue: 4,
+    min: 2,
+    step: 1,
+  },
+  width: {
+    option: 'm width',
+    label: 'Strip width in meters',
+    defaultValue: 10,
+    min: 0.1,
+    step: 0.1,
+  },
+};
+
+const EXECUTE_BUTTON_LABEL = '実行';
+
+/**
+ * Inline input used by strips mode: a number of strips, or a target strip
+ * width in meters, chosen with a select.
+ */
+export class StripsInput {
+  private container: HTMLDivElement;
+  private kindSelect: HTMLSelectElement;
+  private input: HTMLInputElement;
+  private executeButton: HTMLButtonElement;
+  private callbacks: StripsInputCallbacks;
+
+  constructor(callbacks: StripsInputCallbacks) {
+    this.callbacks = callbacks;
+
+    this.container = document.createElement('div');
+    this.container.className = 'libre-draw-strips-input';
+    this.applyContainerStyles();
+
+    this.kindSelect = document.createElement('select');
+    this.kindSelect.setAttribute('aria-label', 'Strips input type');
+    for (const kind of Object.keys(KIND_SETTINGS) as StripsInputKind[]) {
+      const option = document.createElement('option');
+      option.value = kind;
+      option.textContent = KIND_SETTINGS[kind].option;
+      this.kindSelect.appendChild(option);
+    }
+    this.applyFieldStyles(this.kindSelect, 'auto');
+
+    this.input = document.createElement('input');
+    this.input.type = 'number';
+    this.applyFieldStyles(this.input, '64px');
+
+    this.executeButton = document.createElement('button');
+    this.executeButton.type = 'button';
+    this.executeButton.textContent = EXECUTE_BUTTON_LABEL;
+    this.executeButton.setAttribute('aria-label', 'Split into strips');
+    this.applyButtonStyles();
+
+    this.container.appendChild(this.kindSelect);
+    this.container.appendChild(this.input);
+    this.container.appendChild(this.executeButton);
+
+    this.kindSelect.addEventListener('change', this.handleKindChange);
+    this.input.addEventListener('input', this.handleInput);
+    this.input.addEventListener('keydown', this.handleKeyDown);
+    this.executeButton.addEventListener('click', this.handleExecute);
+
+    this.applyKindSettings();
+    this.setVisible(false);
+  }
+
+  getElement(): HTMLDivElement {
+    return this.container;
+  }
+
+  /**
+   * The strip count or width, falling back to the default of the chosen
+   * kind while the field is not a positive number.
+   */
+  getOptions(): StripOptions {
+    const kind = this.getKind();
+    const value = Number(this.input.value);
+    const accepted = Number.isFinite(value) && value > 0;
+    const resolved = accepted ? value : KIND_SETTINGS[kind].defaultValue;
+    return kind === 'count' ? { count: resolved } : { width: resolved };
+  }
+
+  setVisible(visible: boolean): void {
+    this.container.style.display = visible ? 'inline-flex' : 'none';
+  }
+
+  destroy(): void {
+    this.kindSelect.removeEventListener('change', this.handleKindChange);
+    this.input.removeEventListener('input', this.handleInput);
+    this.input.removeEventListener('keydown', this.handleKeyDown);
+    this.executeButton.removeEventListener('click', this.handleExecute);
+    this.container.remove();
+  }
+
+  private handleKindChange = (): void => {
+    this.applyKindSettings();
+    this.callbacks.onOptionsChange(this.getOptions());
+  };
+
+  private handleInput = (): void => {
+    if (this.isValueAccepted()) {
+      this.callbacks.onOptionsChange(this.getOptions());
+    }
+  };
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (event.key !== 'Enter') return;
+    this.handleExecute();
+  };
+
+  private handleExecute = (): void => {
+    if (this.isValueAccepted()) {
+      this.callbacks.onSubmit(this.getOptions());
+    }
+  };
+
+  private getKind(): StripsInputKind {
+    return this.kindSelect.value as StripsInputKind;
+  }
+
+  private isValueAccepted(): boolean {
+    const value = Number(this.input.value);
+    return Number.isFinite(value) && value > 0;
+  }
+
+  /** Reset the field to the default, limits and label of the chosen kind. */
+  private applyKindSettings(): void {
+    const settings = KIND_SETTINGS[this.getKind()];
+    this.input.min = String(settings.min);
+    this.input.step = String(settings.step);
+    this.input.value = String(settings.defaultValue);
+    this.input.setAttribute('aria-label', settings.label);
+  }
+
+  private applyContainerStyles(): void {
+    const s = this.container.style;
+    s.display = 'inline-flex';
+    s.alignItems = 'center';
+    s.gap = '6px';
+    s.marginLeft = '8px';
+    s.padding = '4px 6px';
+    s.background = 'rgba(255, 255, 255, 0.95)';
+    s.border = '1px solid #d0d7de';
+    s.borderRadius = '4px';
+    s.pointerEvents = 'auto';
+  }
+
+  private applyFieldStyles(field: HTMLElement, width: string): void {
+    const s = field.style;
+    s.width = width;
+    s.height = '28px';
+    s.border = '1px solid #c8c8c8';
+    s.borderRadius = '4px';
+    s.padding = '0 6px';
+    s.fontSize = '12px';
+  }
+
+  private applyButtonStyles(): void {
+    const s = this.executeButton.style;
+    s.height = '28px';
+    s.border = '1px solid #c8c8c8';
+    s.borderRadius = '4px';
+    s.background = '#fff';
+    s.padding = '0 8px';
+    s.cursor = 'pointer';
+    s.fontSize = '12px';
+  }
+}
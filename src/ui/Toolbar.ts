@@ -1,35 +1,82 @@
 import type { Map as MaplibreMap } from 'maplibre-gl';
 import type { ToolbarOptions, ToolbarControls } from '../types/options';
+import type { TypedVertex } from '../types/input';
+import type { StripOptions } from '../utils/strips';
 import { ToolbarButton } from './ToolbarButton';
 import { drawIcon } from './icons/draw';
+import { lineIcon } from './icons/line';
+import { pointIcon } from './icons/point';
+import { rectangleIcon } from './icons/rectangle';
+import { circleIcon } from './icons/circle';
+import { freehandIcon } from './icons/freehand';
 import { selectIcon } from './icons/select';
+import { holeIcon } from './icons/hole';
 import { splitIcon } from './icons/split';
+import { differenceIcon } from './icons/difference';
+import { intersectIcon } from './icons/intersect';
+import { stripsIcon } from './icons/strips';
+import { bufferIcon } from './icons/buffer';
 import { setbackIcon } from './icons/setback';
 import { deleteIcon } from './icons/delete';
 import { undoIcon } from './icons/undo';
 import { redoIcon } from './icons/redo';
 import { SetbackInput } from './SetbackInput';
+import { StripsInput } from './StripsInput';
+import { VertexInput } from './VertexInput';
 
 /**
  * Default toolbar control visibility.
  */
 const DEFAULT_CONTROLS: Required<ToolbarControls> = {
   draw: true,
+  rectangle: true,
+  circle: true,
+  freehand: true,
+  line: true,
+  point: true,
   select: true,
+  hole: true,
   split: true,
+  difference: true,
+  intersect: true,
+  strips: true,
+  buffer: true,
   setback: true,
   delete: true,
   undo: true,
   redo: true,
 };
 
+/**
+ * Initial value of the buffer distance input (an inward headland).
+ */
+const DEFAULT_BUFFER_DISTANCE = -10;
+
 /**
  * Callbacks that the Toolbar needs from the host application.
  */
 export interface ToolbarCallbacks {
   onDrawClick(): void;
+  onDrawVertexSubmit(vertex: TypedVertex): void;
+  onDrawVertexChange(vertex: TypedVertex | null): void;
+  onRectangleClick(): void;
+  onCircleClick(): void;
+  onCircleRadiusSubmit(radius: number): void;
+  onCircleRadiusChange(radius: number): void;
+  onFreehandClick(): void;
+  onLineClick(): void;
+  onPointClick(): void;
   onSelectClick(): void;
+  onHoleClick(): void;
   onSplitClick(): void;
+  onDifferenceClick(): void;
+  onIntersectClick(): void;
+  onStripsClick(): void;
+  onStripsExecute(options: StripOptions): void;
+  onStripsOptionsChange(options: StripOptions): void;
+  onBufferClick(): void;
+  onBufferExecute(distance: number): void;
+  onBufferDistanceChange(distance: number): void;
   onSetbackClick(): void;
   onSetbackExecute(distance: number): void;
   onSetbackDistanceChange(distance: number): void;
@@ -42,15 +89,19 @@ export interface ToolbarCallbacks {
  * Creates and manages the drawing toolbar UI.
  *
  * The toolbar is positioned on the map using MapLibre's control
- * container system. It creates buttons for draw, select, delete,
- * undo, and redo actions. Button states are updated externally
- * to reflect the current mode and history state.
+ * container system. It creates the mode buttons (with their inline inputs),
+ * the delete button and the undo/redo buttons. Button states are updated
+ * externally to reflect the current mode and history state.
  */
 export class Toolbar {
   private map: MaplibreMap;
   private container: HTMLDivElement;
   private buttons: Map<string, ToolbarButton> = new Map();
+  private drawInput: VertexInput | null = null;
   private setbackInput: SetbackInput | null = null;
+  private circleInput: SetbackInput | null = null;
+  private stripsInput: StripsInput | null = null;
+  private bufferInput: SetbackInput | null = null;
   private callbacks: ToolbarCallbacks;
   private options: ToolbarOptions;
 
@@ -73,23 +124,75 @@ export class Toolbar {
 
   /**
    * Update the active mode displayed in the toolbar.
-   * @param mode - The active mode name ('idle', 'draw', 'select', 'split', 'setback').
+   * @param mode - The active mode name, a `ModeName` such as `'draw'` or `'idle'`.
    */
   setActiveMode(mode: string): void {
     const drawBtn = this.buttons.get('draw');
+    const rectangleBtn = this.buttons.get('rectangle');
+    const circleBtn = this.buttons.get('circle');
+    const freehandBtn = this.buttons.get('freehand');
+    const lineBtn = this.buttons.get('line');
+    const pointBtn = this.buttons.get('point');
     const selectBtn = this.buttons.get('select');
+    const holeBtn = this.buttons.get('hole');
     const splitBtn = this.buttons.get('split');
+    const differenceBtn = this.buttons.get('difference');
+    const intersectBtn = this.buttons.get('intersect');
+    const stripsBtn = this.buttons.get('strips');
+    const bufferBtn = this.buttons.get('buffer');
     const setbackBtn = this.buttons.get('setback');
 
     if (drawBtn) {
       drawBtn.setActive(mode === 'draw');
     }
+    if (this.drawInput) {
+      this.drawInput.setVisible(mode === 'draw');
+    }
+    if (rectangleBtn) {
+      rectangleBtn.setActive(mode === 'rectangle');
+    }
+    if (circleBtn) {
+      circleBtn.setActive(mode === 'circle');
+    }
+    if (this.circleInput) {
+      this.circleInput.setVisible(mode === 'circle');
+    }
+    if (freehandBtn) {
+      freehandBtn.setActive(mode === 'freehand');
+    }
+    if (lineBtn) {
+      lineBtn.setActive(mode === 'line');
+    }
+    if (pointBtn) {
+      pointBtn.setActive(mode === 'point');
+    }
     if (selectBtn) {
       selectBtn.setActive(mode === 'select');
     }
+    if (holeBtn) {
+      holeBtn.setActive(mode === 'hole');
+    }
     if (splitBtn) {
       splitBtn.setActive(mode === 'split');
     }
+    if (differenceBtn) {
+      differenceBtn.setActive(mode === 'difference');
+    }
+    if (intersectBtn) {
+      intersectBtn.setActive(mode === 'intersect');
+    }
+    if (stripsBtn) {
+      stripsBtn.setActive(mode === 'strips');
+    }
+    if (this.stripsInput) {
+      this.stripsInput.setVisible(mode === 'strips');
+    }
+    if (bufferBtn) {
+      bufferBtn.setActive(mode === 'buffer');
+    }
+    if (this.bufferInput) {
+      this.bufferInput.setVisible(mode === 'buffer');
+    }
     if (setbackBtn) {
       setbackBtn.setActive(mode === 'setback');
     }
@@ -119,10 +222,26 @@ export class Toolbar {
    * Remove the toolbar from the map and clean up.
    */
   destroy(): void {
+    if (this.drawInput) {
+      this.drawInput.destroy();
+      this.drawInput = null;
+    }
     if (this.setbackInput) {
       this.setbackInput.destroy();
       this.setbackInput = null;
     }
+    if (this.circleInput) {
+      this.circleInput.destroy();
+      this.circleInput = null;
+    }
+    if (this.stripsInput) {
+      this.stripsInput.destroy();
+      this.stripsInput = null;
+    }
+    if (this.bufferInput) {
+      this.bufferInput.destroy();
+      this.bufferInput = null;
+    }
     for (const button of this.buttons.values()) {
       button.destroy();
     }
@@ -137,6 +256,34 @@ export class Toolbar {
     return this.setbackInput?.getDistance() ?? 10;
   }
 
+  /**
+   * Show a setback distance in meters in the setback input.
+   */
+  setSetbackDistance(distance: number): void {
+    this.setbackInput?.setDistance(distance);
+  }
+
+  /**
+   * Current circle radius in meters, or null without a circle input.
+   */
+  getCircleRadius(): number | null {
+    return this.circleInput?.getDistance() ?? null;
+  }
+
+  /**
+   * Current strip count or width for strips mode, or null without a strips input.
+   */
+  getStripOptions(): StripOptions | null {
+    return this.stripsInput?.getOptions() ?? null;
+  }
+
+  /**
+   * Current buffer distance in meters (negative for inward).
+   */
+  getBufferDistance(): number {
+    return this.bufferInput?.getDistance() ?? DEFAULT_BUFFER_DISTANCE;
+  }
+
   /**
    * Create all toolbar buttons based on the configured controls.
    */
@@ -147,8 +294,34 @@ export class Toolbar {
     };
 
     if (controls.draw) {
-      this.addButton('draw', drawIcon, 'Draw polygon', () => {
-        this.callbacks.onDrawClick();
+      this.addDrawControl();
+    }
+
+    if (controls.rectangle) {
+      this.addButton('rectangle', rectangleIcon, 'Draw rectangle', () => {
+        this.callbacks.onRectangleClick();
+      }, true);
+    }
+
+    if (controls.circle) {
+      this.addCircleControl();
+    }
+
+    if (controls.freehand) {
+      this.addButton('freehand', freehandIcon, 'Draw freehand', () => {
+        this.callbacks.onFreehandClick();
+      }, true);
+    }
+
+    if (controls.line) {
+      this.addButton('line', lineIcon, 'Draw line', () => {
+        this.callbacks.onLineClick();
+      }, true);
+    }
+
+    if (controls.point) {
+      this.addButton('point', pointIcon, 'Draw point', () => {
+        this.callbacks.onPointClick();
       }, true);
     }
 
@@ -158,12 +331,38 @@ export class Toolbar {
       }, true);
     }
 
+    if (controls.hole) {
+      this.addButton('hole', holeIcon, 'Cut hole', () => {
+        this.callbacks.onHoleClick();
+      }, true);
+    }
+
     if (controls.split) {
       this.addButton('split', splitIcon, 'Split feature', () => {
         this.callbacks.onSplitClick();
       }, true);
     }
 
+    if (controls.difference) {
+      this.addButton('difference', differenceIcon, 'Subtract polygon', () => {
+        this.callbacks.onDifferenceClick();
+      }, true);
+    }
+
+    if (controls.intersect) {
+      this.addButton('intersect', intersectIcon, 'Intersect polygons', () => {
+        this.callbacks.onIntersectClick();
+      }, true);
+    }
+
+    if (controls.strips) {
+      this.addStripsControl();
+    }
+
+    if (controls.buffer) {
+      this.addBufferControl();
+    }
+
     if (controls.setback) {
       this.addSetbackControl();
     }
@@ -229,6 +428,118 @@ export class Toolbar {
     this.container.appendChild(row);
   }
 
+  /**
+   * Create draw toggle button + inline typed vertex input.
+   */
+  private addDrawControl(): void {
+    const row = this.createControlRow();
+
+    const button = new ToolbarButton({
+      id: 'draw',
+      icon: drawIcon,
+      title: 'Draw polygon',
+      onClick: () => this.callbacks.onDrawClick(),
+      isToggle: true,
+    });
+    this.buttons.set('draw', button);
+    row.appendChild(button.getElement());
+
+    this.drawInput = new VertexInput({
+      onSubmit: (vertex) => this.callbacks.onDrawVertexSubmit(vertex),
+      onVertexChange: (vertex) => this.callbacks.onDrawVertexChange(vertex),
+    });
+    row.appendChild(this.drawInput.getElement());
+
+    this.container.appendChild(row);
+  }
+
+  /**
+   * Create circle toggle button + inline radius input.
+   */
+  private addCircleControl(): void {
+    const row = this.createControlRow();
+
+    const button = new ToolbarButton({
+      id: 'circle',
+      icon: circleIcon,
+      title: 'Draw circle',
+      onClick: () => this.callbacks.onCircleClick(),
+      isToggle: true,
+    });
+    this.buttons.set('circle', button);
+    row.appendChild(button.getElement());
+
+    this.circleInput = new SetbackInput(
+      {
+        onSubmit: (radius) => this.callbacks.onCircleRadiusSubmit(radius),
+        onDistanceChange: (radius) => this.callbacks.onCircleRadiusChange(radius),
+      },
+      { inputLabel: 'Circle radius in meters', executeLabel: 'Create circle' },
+    );
+    row.appendChild(this.circleInput.getElement());
+
+    this.container.appendChild(row);
+  }
+
+  /**
+   * Create strips toggle button + inline strip count or width input.
+   */
+  private addStripsControl(): void {
+    const row = this.createControlRow();
+
+    const button = new ToolbarButton({
+      id: 'strips',
+      icon: stripsIcon,
+      title: 'Split into strips',
+      onClick: () => this.callbacks.onStripsClick(),
+      isToggle: true,
+    });
+    this.buttons.set('strips', button);
+    row.appendChild(button.getElement());
+
+    this.stripsInput = new StripsInput({
+      onSubmit: (options) => this.callbacks.onStripsExecute(options),
+      onOptionsChange: (options) => this.callbacks.onStripsOptionsChange(options),
+    });
+    row.appendChild(this.stripsInput.getElement());
+
+    this.container.appendChild(row);
+  }
+
+  /**
+   * Create buffer toggle button + inline signed distance input.
+   */
+  private addBufferControl(): void {
+    const row = this.createControlRow();
+
+    const button = new ToolbarButton({
+      id: 'buffer',
+      icon: bufferIcon,
+      title: 'Buffer boundary',
+      onClick: () => this.callbacks.onBufferClick(),
+      isToggle: true,
+    });
+    this.buttons.set('buffer', button);
+    row.appendChild(button.getElement());
+
+    this.bufferInput = new SetbackInput(
+      {
+        onSubmit: (distance) => this.callbacks.onBufferExecute(distance),
+        onDistanceChange: (distance) => this.callbacks.onBufferDistanceChange(distance),
+      },
+      {
+        inputLabel: 'Buffer distance in meters, negative for inward',
+        executeLabel: 'Apply buffer',
+        defaultValue: DEFAULT_BUFFER_DISTANCE,
+        step: 0.1,
+        signed: true,
+      },
+    );
+    row.appendChild(this.bufferInput.getElement());
+
+    this.container.appendChild(row);
+  }
+
   /**
    * Create a single control row container.
    */
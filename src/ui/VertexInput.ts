@@ -0,0 +1,207 @@
+import type { TypedVertex } from '../types/input';
+
+export interface VertexInputCallbacks {
+  onSubmit(vertex: TypedVertex): void;
+  /** Called with the typed vertex, or null once the input no longer holds a valid one. */
+  onVertexChange(vertex: TypedVertex | null): void;
+}
+
+type VertexInputKind = TypedVertex['type'];
+
+interface KindLabels {
+  option: string;
+  first: string;
+  second: string;
+  /** Placeholders doubling as units. */
+  placeholders: [string, string];
+}
+
+const KIND_LABELS: Record<VertexInputKind, KindLabels> = {
+  bearing: {
+    option: 'm / bearing',
+    first: 'Segment length in meters',
+    second: 'Bearing in degrees from north',
+    placeholders: ['m', '°'],
+  },
+  angle: {
+    option: 'm / angle',
+    first: 'Segment length in meters',
+    second: 'Angle in degrees from the previous segment',
+    placeholders: ['m', '°'],
+  },
+  lnglat: {
+    option: 'lng / lat',
+    first: 'Longitude',
+    second: 'Latitude',
+    placeholders: ['lng', 'lat'],
+  },
+};
+
+const EXECUTE_BUTTON_LABEL = '追加';
+
+/**
+ * Inline input panel used by draw mode to type the next vertex as a
+ * length and bearing/angle, or as an absolute lng/lat.
+ */
+export class VertexInput {
+  private container: HTMLDivElement;
+  private kindSelect: HTMLSelectElement;
+  private firstInput: HTMLInputElement;
+  private secondInput: HTMLInputElement;
+  private executeButton: HTMLButtonElement;
+  private callbacks: VertexInputCallbacks;
+  private hasVertex = false;
+
+  constructor(callbacks: VertexInputCallbacks) {
+    this.callbacks = callbacks;
+
+    this.container = document.createElement('div');
+    this.container.className = 'libre-draw-vertex-input';
+    this.applyContainerStyles();
+
+    this.kindSelect = document.createElement('select');
+    this.kindSelect.setAttribute('aria-label', 'Vertex input type');
+    for (const kind of Object.keys(KIND_LABELS) as VertexInputKind[]) {
+      const option = document.createElement('option');
+      option.value = kind;
+      option.textContent = KIND_LABELS[kind].option;
+      this.kindSelect.appendChild(option);
+    }
+    this.applyFieldStyles(this.kindSelect, 'auto');
+
+    this.firstInput = this.createNumberInput();
+    this.secondInput = this.createNumberInput();
+
+    this.executeButton = document.createElement('button');
+    this.executeButton.type = 'button';
+    this.executeButton.textContent = EXECUTE_BUTTON_LABEL;
+    this.executeButton.setAttribute('aria-label', 'Add vertex');
+    this.applyButtonStyles();
+
+    this.container.appendChild(this.kindSelect);
+    this.container.appendChild(this.firstInput);
+    this.container.appendChild(this.secondInput);
+    this.container.appendChild(this.executeButton);
+
+    this.kindSelect.addEventListener('change', this.handleKindChange);
+    for (const input of [this.firstInput, this.secondInput]) {
+      input.addEventListener('input', this.handleInput);
+      input.addEventListener('keydown', this.handleKeyDown);
+    }
+    this.executeButton.addEventListener('click', this.handleExecute);
+
+    this.applyKindLabels();
+    this.setVisible(false);
+  }
+
+  getElement(): HTMLDivElement {
+    return this.container;
+  }
+
+  /**
+   * The typed vertex, or null while a field is empty or not a number.
+   */
+  getVertex(): TypedVertex | null {
+    const first = this.firstInput.value.trim() === '' ? NaN : Number(this.firstInput.value);
+    const second = this.secondInput.value.trim() === '' ? NaN : Number(this.secondInput.value);
+    if (!Number.isFinite(first) || !Number.isFinite(second)) return null;
+
+    switch (this.kindSelect.value as VertexInputKind) {
+      case 'bearing':
+        return { type: 'bearing', distance: first, bearing: second };
+      case 'angle':
+        return { type: 'angle', distance: first, angle: second };
+      case 'lnglat':
+        return { type: 'lnglat', lng: first, lat: second };
+    }
+  }
+
+  setVisible(visible: boolean): void {
+    this.container.style.display = visible ? 'inline-flex' : 'none';
+  }
+
+  destroy(): void {
+    this.kindSelect.removeEventListener('change', this.handleKindChange);
+    for (const input of [this.firstInput, this.secondInput]) {
+      input.removeEventListener('input', this.handleInput);
+      input.removeEventListener('keydown', this.handleKeyDown);
+    }
+    this.executeButton.removeEventListener('click', this.handleExecute);
+    this.container.remove();
+  }
+
+  private handleKindChange = (): void => {
+    this.applyKindLabels();
+    this.handleInput();
+  };
+
+  private handleInput = (): void => {
+    const vertex = this.getVertex();
+    if (vertex || this.hasVertex) {
+      this.callbacks.onVertexChange(vertex);
+    }
+    this.hasVertex = vertex !== null;
+  };
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (event.key !== 'Enter') return;
+    this.handleExecute();
+  };
+
+  private handleExecute = (): void => {
+    const vertex = this.getVertex();
+    if (vertex) {
+      this.callbacks.onSubmit(vertex);
+    }
+  };
+
+  private applyKindLabels(): void {
+    const labels = KIND_LABELS[this.kindSelect.value as VertexInputKind];
+    this.firstInput.setAttribute('aria-label', labels.first);
+    this.firstInput.placeholder = labels.placeholders[0];
+    this.secondInput.setAttribute('aria-label', labels.second);
+    this.secondInput.placeholder = labels.placeholders[1];
+  }
+
+  private createNumberInput(): HTMLInputElement {
+    const input = document.createElement('input');
+    input.type = 'number';
+    input.step = 'any';
+    this.applyFieldStyles(input, '64px');
+    return input;
+  }
+
+  private applyContainerStyles(): void {
+    const s = this.container.style;
+    s.display = 'inline-flex';
+    s.alignItems = 'center';
+    s.gap = '6px';
+    s.marginLeft = '8px';
+    s.padding = '4px 6px';
+    s.background = 'rgba(255, 255, 255, 0.95)';
+    s.border = '1px solid #d0d7de';
+    s.borderRadius = '4px';
+    s.pointerEvents = 'auto';
+  }
+
+  private applyFieldStyles(field: HTMLElement, width: string): void {
+    const s = field.style;
+    s.width = width;
+    s.height = '28px';
+    s.border = '1px solid #c8c8c8';
+    s.borderRadius = '4px';
+    s.padding = '0 6px';
+    s.fontSize = '12px';
+  }
+
+  private applyButtonStyles(): void {
+    const s = this.executeButton.style;
+    s.height = '28px';
+    s.border = '1px solid #c8c8c8';
+    s.borderRadius = '4px';
+    s.background = '#fff';
+    s.padding = '0 8px';
+    s.cursor = 'pointer';
+    s.fontSize = '12px';
+  }
+}
@@ -0,0 +1,4 @@
+/**
+ * Buffer icon (a polygon with a dashed outline offset around it).
+ */
+export const bufferIcon = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="24" height="24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M8 8h8v8H8z"/><rect x="3" y="3" width="18" height="18" rx="3" stroke-width="1.4" stroke-dasharray="3 2"/></svg>`;
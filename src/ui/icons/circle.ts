@@ -0,0 +1,4 @@
+/**
+ * Circle SVG icon for the circle tool.
+ */
+export const circleIcon = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="24" height="24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="12" cy="12" r="8"/><circle cx="12" cy="12" r="1"/></svg>`;
@@ -0,0 +1,4 @@
+/**
+ * Difference icon (square with an overlapping square cut away).
+ */
+export const differenceIcon = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="24" height="24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M4 4h11v6h-5v5H4z" fill="currentColor" fill-opacity="0.2"/><rect x="10" y="10" width="10" height="10" stroke-dasharray="3 2"/></svg>`;
@@ -0,0 +1,4 @@
+/**
+ * Lasso SVG icon for the freehand tool.
+ */
+export const freehandIcon = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="24" height="24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M7 17.5C4.5 16.3 3 14.3 3 12c0-4.4 4-8 9-8s9 3.6 9 8-4 8-9 8c-1.2 0-2.4-.2-3.4-.6"/><path d="M7 17.5c0 1.7-1 3-2.5 3.5"/></svg>`;
@@ -0,0 +1,4 @@
+/**
+ * Polygon-with-hole SVG icon for the cut hole tool.
+ */
+export const holeIcon = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="24" height="24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polygon points="3 4 21 3 20 20 4 21"/><polygon points="9 9 15 9 14 15 9 14" stroke-dasharray="2 2"/></svg>`;
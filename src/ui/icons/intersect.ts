@@ -0,0 +1,4 @@
+/**
+ * Intersect icon (two overlapping squares with the shared area filled).
+ */
+export const intersectIcon = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="24" height="24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="4" y="4" width="11" height="11" stroke-dasharray="3 2"/><rect x="9" y="9" width="11" height="11" stroke-dasharray="3 2"/><rect x="9" y="9" width="6" height="6" fill="currentColor" fill-opacity="0.35"/></svg>`;
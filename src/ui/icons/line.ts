@@ -0,0 +1,4 @@
+/**
+ * Polyline SVG icon for the line tool.
+ */
+export const lineIcon = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="24" height="24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M3 19l6-8 5 4 7-10"/><circle cx="3" cy="19" r="1.5"/><circle cx="9" cy="11" r="1.5"/><circle cx="14" cy="15" r="1.5"/><circle cx="21" cy="5" r="1.5"/></svg>`;
@@ -0,0 +1,4 @@
+/**
+ * Rectangle SVG icon for the rectangle tool.
+ */
+export const rectangleIcon = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="24" height="24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="3" y="6" width="18" height="12" rx="1"/></svg>`;
@@ -0,0 +1,4 @@
+/**
+ * Strips icon (a field divided into parallel strips along its base).
+ */
+export const stripsIcon = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" width="24" height="24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="4" y="4" width="16" height="16"/><line x1="4" y1="9.3" x2="20" y2="9.3" stroke-width="1.4" stroke-dasharray="3 2"/><line x1="4" y1="14.7" x2="20" y2="14.7" stroke-width="1.4" stroke-dasharray="3 2"/><line x1="4" y1="20" x2="20" y2="20" stroke-width="3"/></svg>`;
@@ -0,0 +1,55 @@
+import type { Position } from '../types/features';
+
+/**
+ * Angle step for constrained segments, in degrees (0/45/90/...).
+ */
+export const ANGLE_CONSTRAINT_STEP = 45;
+
+/**
+ * Bearing of the segment `a` → `b` in degrees clockwise from true north.
+ *
+ * Computed in a local equirectangular plane around `a`, consistent with
+ * {@link constrainToAngle}.
+ */
+export function planarBearing(a: Position, b: Position): number {
+  const k = Math.cos((a[1] * Math.PI) / 180);
+  return (Math.atan2((b[0] - a[0]) * k, b[1] - a[1]) * 180) / Math.PI;
+}
+
+/**
+ * Constrain the segment from `anchor` towards `cursor` to the nearest
+ * multiple of `step` degrees relative to `referenceBearing`.
+ *
+ * The cursor is projected onto the constrained direction, so the segment
+ * length follows the pointer along that direction. Computed in a local
+ * equirectangular plane around `anchor`, so right angles are preserved at
+ * plot scale.
+ * @param anchor - The fixed start of the segment.
+ * @param cursor - The unconstrained end of the segment.
+ * @param referenceBearing - Bearing the angles are measured from (0 for true north).
+ * @param step - Angle step in degrees.
+ */
+export function constrainToAngle(
+  anchor: Position,
+  cursor: Position,
+  referenceBearing: number,
+  step: number = ANGLE_CONSTRAINT_STEP,
+): Position {
+  const k = Math.cos((anchor[1] * Math.PI) / 180);
+  if (k <= 0) return [cursor[0], cursor[1]];
+
+  const dx = (cursor[0] - anchor[0]) * k;
+  const dy = cursor[1] - anchor[1];
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return [anchor[0], anchor[1]];
+
+  const bearing = planarBearing(anchor, cursor);
+  const snapped = referenceBearing + Math.round((bearing - referenceBearing) / step) * step;
+  const snappedRad = (snapped * Math.PI) / 180;
+  const projected = length * Math.cos(((bearing - snapped) * Math.PI) / 180);
+
+  return [
+    anchor[0] + (projected * Math.sin(snappedRad)) / k,
+    anchor[1] + projected * Math.cos(snappedRad),
+  ];
+}
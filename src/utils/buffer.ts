@@ -0,0 +1,283 @@
+import destination from '@turf/destination';
+import difference from '@turf/difference';
+import union from '@turf/union';
+import { featureCollection, multiPolygon, point as turfPoint, polygon } from '@turf/helpers';
+import type {
+  LibreDrawFeature,
+  MultiPolygonGeometry,
+  PolygonGeometry,
+  Position,
+} from '../types/features';
+import { clonePropertiesWithoutCircle } from './circle';
+import { getPolygonParts, isPolygonalFeature } from './geometry';
+import { toPolygonalGeometry } from './polygonOps';
+
+type PolygonalFeature = LibreDrawFeature<PolygonGeometry | MultiPolygonGeometry>;
+
+/** Planar offset direction in meters: [east, north]. */
+type Vector = [number, number];
+
+const EPSILON = 1e-12;
+// Coordinates are snapped to this many decimals (about 0.01 mm) so the
+// overlay sees exactly shared vertices instead of near-coincident ones.
+const COORDINATE_DECIMALS = 10;
+const METERS_PER_DEGREE = (6371008.8 * Math.PI) / 180;
+// Parts and holes smaller than this (m²) are rounding slivers of the overlay.
+const MIN_RING_AREA_M2 = 0.01;
+// Sharper corners than this (mitre length / distance) are bevelled.
+const MITRE_LIMIT = 4;
+const ROUND_JOIN_SEGMENTS = 32;
+
+/**
+ * How offset edges meet at corners.
+ * - `mitre`: edges are extended to a sharp corner (bevelled when very sharp).
+ * - `round`: corners are rounded with a circular arc.
+ */
+export type BufferJoin = 'mitre' | 'round';
+
+/**
+ * Reason why a buffer failed.
+ * - `not-polygon`: the feature is not a Polygon or MultiPolygon.
+ * - `invalid-distance`: the distance is zero or not a finite number.
+ * - `collapsed`: an inward buffer left nothing of the polygon.
+ */
+export type BufferFailReason = 'not-polygon' | 'invalid-distance' | 'collapsed';
+
+/**
+ * Result of a buffer operation.
+ * - `success`: the buffered feature.
+ * - `error`: the buffer failed for a specific reason.
+ */
+export type BufferResult =
+  | { type: 'success'; feature: PolygonalFeature }
+  | { type: 'error'; reason: BufferFailReason };
+
+/** Round a position to the overlay grid. */
+function snapPosition(position: Position): Position {
+  const factor = 10 ** COORDINATE_DECIMALS;
+  return [Math.round(position[0] * factor) / factor, Math.round(position[1] * factor) / factor];
+}
+
+/** Move a position by an offset vector (meters) along the great circle. */
+function offsetPosition(position: Position, vector: Vector): Position {
+  const meters = Math.hypot(vector[0], vector[1]);
+  if (meters < EPSILON) return position;
+
+  const bearing = (Math.atan2(vector[0], vector[1]) * 180) / Math.PI;
+  const moved = destination(turfPoint(position), meters / 1000, bearing, { units: 'kilometers' });
+  return snapPosition(moved.geometry.coordinates as Position);
+}
+
+/** Unit direction of an edge in a local east/north frame. */
+function edgeDirection(start: Position, end: Position): Vector | null {
+  const latitude = (((start[1] + end[1]) / 2) * Math.PI) / 180;
+  const east = (end[0] - start[0]) * Math.cos(latitude);
+  const north = end[1] - start[1];
+  const length = Math.hypot(east, north);
+  return length < EPSILON ? null : [east / length, north / length];
+}
+
+/** Whether an open ring runs counter-clockwise. */
+function isCounterClockwise(ring: Position[]): boolean {
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const next = ring[(i + 1) % ring.length];
+    area += ring[i][0] * next[1] - next[0] * ring[i][1];
+  }
+  return area > 0;
+}
+
+/** Approximate area of a closed ring in square meters. */
+function ringAreaMeters(ring: Position[]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  const latitude = (ring[0][1] * Math.PI) / 180;
+  return Math.abs(area / 2) * METERS_PER_DEGREE ** 2 * Math.cos(latitude);
+}
+
+/** Remove sliver parts and holes left over by the polygon overlay. */
+function removeSlivers(
+  geometry: PolygonGeometry | MultiPolygonGeometry,
+): PolygonGeometry | MultiPolygonGeometry | null {
+  const parts = getPolygonParts(geometry)
+    .filter(([outer]) => ringAreaMeters(outer) >= MIN_RING_AREA_M2)
+    .map(([outer, ...holes]) => [
+      outer,
+      ...holes.filter((hole) => ringAreaMeters(hole) >= MIN_RING_AREA_M2),
+    ]);
+
+  if (parts.length === 0) return null;
+  return parts.length === 1
+    ? { type: 'Polygon', coordinates: parts[0] }
+    : { type: 'MultiPolygon', coordinates: parts };
+}
+
+/** Snap a closed ring to the overlay grid and drop its closing position and duplicates. */
+function openRing(ring: Position[]): Position[] {
+  const open: Position[] = [];
+  for (const position of ring.slice(0, -1).map(snapPosition)) {
+    const last = open[open.length - 1];
+    if (!last || last[0] !== position[0] || last[1] !== position[1]) {
+      open.push(position);
+    }
+  }
+  return open;
+}
+
+/** Rotate a vector counter-clockwise by an angle in radians. */
+function rotate(vector: Vector, angle: number): Vector {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [vector[0] * cos - vector[1] * sin, vector[0] * sin + vector[1] * cos];
+}
+
+/**
+ * Build the pieces that cover everything within `meters` of a ring on one
+ * side (+1 left, -1 right of the ring direction): a quad along each edge
+ * and a join piece in the gap at each corner that turns away from the side.
+ * Quads and joins share their corner positions exactly, which keeps the
+ * overlay free of near-coincident edges.
+ */
+function ringBandPieces(
+  ring: Position[],
+  meters: number,
+  side: 1 | -1,
+  join: BufferJoin,
+): Position[][] {
+  const pieces: Position[][] = [];
+  const count = ring.length;
+  const normals: (Vector | null)[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const start = ring[i];
+    const end = ring[(i + 1) % count];
+    const direction = edgeDirection(start, end);
+    if (!direction) {
+      normals.push(null);
+      continue;
+    }
+
+    const normal: Vector = [-direction[1] * meters * side, direction[0] * meters * side];
+    normals.push(normal);
+    pieces.push([start, end, offsetPosition(end, normal), offsetPosition(start, normal), start]);
+  }
+
+  for (let i = 0; i < count; i++) {
+    const vertex = ring[i];
+    const incoming = normals[(i - 1 + count) % count];
+    const outgoing = normals[i];
+    if (!incoming || !outgoing) continue;
+
+    // The offset edges leave a gap only where the ring turns away from the side.
+    const cross = incoming[0] * outgoing[1] - incoming[1] * outgoing[0];
+    if (cross * side >= 0) continue;
+
+    const dot = incoming[0] * outgoing[0] + incoming[1] * outgoing[1];
+    const angle = Math.atan2(cross, dot);
+    const p1 = offsetPosition(vertex, incoming);
+    const p2 = offsetPosition(vertex, outgoing);
+
+    if (join === 'round') {
+      const steps = Math.ceil(Math.abs(angle) / ((2 * Math.PI) / ROUND_JOIN_SEGMENTS));
+      const arc: Position[] = [];
+      for (let j = 1; j < steps; j++) {
+        arc.push(offsetPosition(vertex, rotate(incoming, (angle * j) / steps)));
+      }
+      pieces.push([vertex, p1, ...arc, p2, vertex]);
+      continue;
+    }
+
+    const cos = dot / (meters * meters);
+    const mitreRatio = Math.sqrt(2 / (1 + cos));
+    if (!Number.isFinite(mitreRatio) || mitreRatio > MITRE_LIMIT) {
+      pieces.push([vertex, p1, p2, vertex]);
+      continue;
+    }
+
+    const scale = 1 / (1 + cos);
+    const mitre = offsetPosition(vertex, [
+      (incoming[0] + outgoing[0]) * scale,
+      (incoming[1] + outgoing[1]) * scale,
+    ]);
+    pieces.push([vertex, p1, mitre, p2, vertex]);
+  }
+
+  return pieces;
+}
+
+/**
+ * Grow (positive distance) or shrink (negative distance) a polygon by a
+ * uniform distance in meters, e.g. to add a spray buffer or pull in a
+ * headland along the whole boundary.
+ *
+ * Offsets are measured along great circles from each vertex. Holes shrink
+ * as the polygon grows and grow as it shrinks; parts that collapse are
+ * dropped, so the result may be a MultiPolygon. The result keeps the
+ * feature's ID and properties, except the circle parameters of a buffered
+ * circle, which no longer describe it.
+ *
+ * @param feature - The polygon or multipolygon to buffer.
+ * @param distanceMeters - Outward (positive) or inward (negative) distance.
+ * @param join - How offset edges meet at corners. Defaults to `'mitre'`.
+ */
+export function bufferPolygon(
+  feature: LibreDrawFeature,
+  distanceMeters: number,
+  join: BufferJoin = 'mitre',
+): BufferResult {
+  if (!isPolygonalFeature(feature)) {
+    return { type: 'error', reason: 'not-polygon' };
+  }
+  if (!Number.isFinite(distanceMeters) || distanceMeters === 0) {
+    return { type: 'error', reason: 'invalid-distance' };
+  }
+
+  const outward = distanceMeters > 0;
+  const meters = Math.abs(distanceMeters);
+  const pieces: Position[][] = [];
+  const parts: Position[][][] = [];
+
+  for (const rings of getPolygonParts(feature.geometry)) {
+    const part: Position[][] = [];
+    rings.forEach((closedRing, ringIndex) => {
+      const ring = openRing(closedRing);
+      if (ring.length < 3) return;
+      part.push([...ring, ring[0]]);
+
+      // The polygon's exterior lies right of a CCW outer ring and left of a CCW hole.
+      const exteriorSide = isCounterClockwise(ring) === (ringIndex === 0) ? -1 : 1;
+      const side = outward ? exteriorSide : -exteriorSide;
+      pieces.push(...ringBandPieces(ring, meters, side as 1 | -1, join));
+    });
+    if (part.length > 0) parts.push(part);
+  }
+
+  const source = multiPolygon(parts);
+  const band = union(featureCollection(pieces.map((ring) => polygon([ring]))));
+  const buffered = !band
+    ? source
+    : outward
+      ? union(featureCollection<GeoJSON.Polygon | GeoJSON.MultiPolygon>([source, band]))
+      : difference(featureCollection<GeoJSON.Polygon | GeoJSON.MultiPolygon>([source, band]));
+
+  if (!buffered) {
+    return { type: 'error', reason: 'collapsed' };
+  }
+
+  const geometry = removeSlivers(toPolygonalGeometry(buffered.geometry));
+  if (!geometry) {
+    return { type: 'error', reason: 'collapsed' };
+  }
+
+  return {
+    type: 'success',
+    feature: {
+      id: feature.id,
+      type: 'Feature',
+      geometry,
+      properties: clonePropertiesWithoutCircle(feature.properties),
+    },
+  };
+}
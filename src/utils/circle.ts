@@ -0,0 +1,155 @@
+import destination from '@turf/destination';
+import { point as turfPoint } from '@turf/helpers';
+import type {
+  FeatureProperties,
+  LibreDrawFeature,
+  PolygonGeometry,
+  Position,
+} from '../types/features';
+import { cloneProperties } from './featureSnapshot';
+
+/**
+ * Default number of segments used to approximate a circle.
+ */
+export const DEFAULT_CIRCLE_SEGMENTS = 64;
+
+/**
+ * Minimum number of segments (a triangle).
+ */
+export const MIN_CIRCLE_SEGMENTS = 3;
+
+/**
+ * Mean earth radius in meters, matching turf's spherical model.
+ */
+const EARTH_RADIUS_METERS = 6371008.8;
+
+// Largest distance, as a share of the radius, a ring vertex may lie from
+// where the circle parameters put it. Loose enough for coordinates rounded
+// when stored elsewhere, far too tight for any edit.
+const CIRCLE_VERTEX_TOLERANCE_RATIO = 1e-3;
+
+/**
+ * Circle parameters stored in `feature.properties.circle` so the polygon
+ * can be re-edited as a circle.
+ */
+export interface CircleProperties {
+  center: Position;
+  /** Radius in meters. */
+  radius: number;
+  segments: number;
+}
+
+/**
+ * Great-circle (haversine) distance between two positions in meters.
+ */
+export function distanceMeters(a: Position, b: Position): number {
+  const toRad = (deg: number): number => (deg * Math.PI) / 180;
+  const dLat = toRad(b[1] - a[1]);
+  const dLng = toRad(b[0] - a[0]);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a[1])) * Math.cos(toRad(b[1])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Build a closed geodesic ring around a center.
+ *
+ * The first vertex lies due north of the center; the ring runs
+ * counter-clockwise.
+ */
+export function createCircleRing(
+  center: Position,
+  radiusMeters: number,
+  segments: number = DEFAULT_CIRCLE_SEGMENTS,
+): Position[] {
+  const count = Math.max(MIN_CIRCLE_SEGMENTS, Math.floor(segments));
+  const origin = turfPoint(center);
+  const ring: Position[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const bearing = -(360 * i) / count;
+    const vertex = destination(origin, radiusMeters / 1000, bearing, { units: 'kilometers' });
+    ring.push(vertex.geometry.coordinates as Position);
+  }
+
+  ring.push([ring[0][0], ring[0][1]]);
+  return ring;
+}
+
+/**
+ * Read the circle parameters of a feature drawn in circle mode.
+ *
+ * Returns null when the properties are missing or malformed, or when the
+ * geometry no longer matches them vertex for vertex (e.g. after a split or
+ * a hole was cut).
+ */
+export function getCircle(feature: LibreDrawFeature): CircleProperties | null {
+  const circle = feature.properties.circle as Partial<CircleProperties> | undefined;
+  if (!circle || typeof circle !== 'object') return null;
+
+  const { center, radius, segments } = circle;
+  if (
+    !Array.isArray(center) ||
+    center.length !== 2 ||
+    !center.every((n) => typeof n === 'number' && Number.isFinite(n)) ||
+    typeof radius !== 'number' ||
+    !(radius > 0) ||
+    typeof segments !== 'number' ||
+    !Number.isInteger(segments) ||
+    segments < MIN_CIRCLE_SEGMENTS
+  ) {
+    return null;
+  }
+
+  const geometry = feature.geometry;
+  if (
+    geometry.type !== 'Polygon' ||
+    geometry.coordinates.length !== 1 ||
+    geometry.coordinates[0].length !== segments + 1
+  ) {
+    return null;
+  }
+
+  const expected = createCircleRing([center[0], center[1]], radius, segments);
+  const tolerance = radius * CIRCLE_VERTEX_TOLERANCE_RATIO;
+  const matches = geometry.coordinates[0].every(
+    (position, i) => distanceMeters(position, expected[i]) <= tolerance,
+  );
+  if (!matches) return null;
+
+  return { center: [center[0], center[1]], radius, segments };
+}
+
+/**
+ * Create a new feature whose geometry and `circle` property reflect the
+ * given circle parameters. Other properties are preserved.
+ */
+export function withCircle(
+  feature: LibreDrawFeature,
+  circle: CircleProperties,
+): LibreDrawFeature<PolygonGeometry> {
+  const center: Position = [circle.center[0], circle.center[1]];
+  const segments = Math.max(MIN_CIRCLE_SEGMENTS, Math.floor(circle.segments));
+  return {
+    ...feature,
+    geometry: {
+      type: 'Polygon',
+      coordinates: [createCircleRing(center, circle.radius, segments)],
+    },
+    properties: {
+      ...feature.properties,
+      circle: { center, radius: circle.radius, segments },
+    },
+  };
+}
+
+/**
+ * Deep copy of feature properties without the circle parameters, for shapes
+ * derived from a feature whose geometry they no longer describe.
+ */
+export function clonePropertiesWithoutCircle(properties: FeatureProperties): FeatureProperties {
+  const cloned = cloneProperties(properties);
+  delete cloned.circle;
+  return cloned;
+}
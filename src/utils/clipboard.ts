@@ -0,0 +1,63 @@
+import { LibreDrawError } from '../core/errors';
+import type { FeatureCollection, LibreDrawFeature, Position } from '../types/features';
+import { validateFeature, validateGeoJSON } from '../validation/geojson';
+import { translateFeature } from './geometry';
+import { getFeaturesBounds } from './transform';
+
+/**
+ * Serialize features as a GeoJSON FeatureCollection, the format written to
+ * the system clipboard so other tabs and applications can read it.
+ */
+export function serializeFeatures(features: LibreDrawFeature[]): string {
+  const collection: FeatureCollection = { type: 'FeatureCollection', features };
+  return JSON.stringify(collection);
+}
+
+/**
+ * Read features from clipboard text holding a GeoJSON FeatureCollection or
+ * a single Feature.
+ * @returns The validated features, or `null` when the text is not GeoJSON
+ *   that LibreDraw can edit.
+ */
+export function parseClipboardFeatures(text: string): LibreDrawFeature[] | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  try {
+    const features =
+      (parsed as { type?: unknown } | null)?.type === 'FeatureCollection'
+        ? validateGeoJSON(parsed).features
+        : [validateFeature(parsed)];
+    return features.length > 0 ? features : null;
+  } catch (error) {
+    if (error instanceof LibreDrawError) return null;
+    throw error;
+  }
+}
+
+/**
+ * Create copies of features to paste, each with a new ID. The copies are
+ * translated together so the center of their combined bounding box lands
+ * on `position`; without a position they keep their place.
+ */
+export function createPasteFeatures(
+  features: LibreDrawFeature[],
+  position?: Position,
+): LibreDrawFeature[] {
+  let dLng = 0;
+  let dLat = 0;
+  if (position && features.length > 0) {
+    const [[west, south], [east, north]] = getFeaturesBounds(features);
+    dLng = position[0] - (west + east) / 2;
+    dLat = position[1] - (south + north) / 2;
+  }
+
+  return features.map((feature) => ({
+    ...translateFeature(feature, dLng, dLat),
+    id: crypto.randomUUID(),
+  }));
+}
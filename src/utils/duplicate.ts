@@ -0,0 +1,124 @@
+import destination from '@turf/destination';
+import { point as turfPoint } from '@turf/helpers';
+import { LibreDrawError } from '../core/errors';
+import type { LibreDrawFeature, Position } from '../types/features';
+import { translateFeature } from './geometry';
+import { getDistinctPositions, getFeaturesBounds } from './transform';
+
+const EARTH_RADIUS_METERS = 6371008.8;
+const METERS_PER_DEGREE = (EARTH_RADIUS_METERS * Math.PI) / 180;
+
+/**
+ * Upper bound on the number of copies in an array, so a typo cannot add an
+ * unbounded number of features.
+ */
+export const MAX_ARRAY_COPY_COUNT = 500;
+
+/**
+ * Where to place a duplicate: a distance in meters along a bearing in
+ * degrees clockwise from north.
+ */
+export interface DuplicateOffset {
+  distance: number;
+  bearing: number;
+}
+
+/**
+ * How to lay out an array of copies: `count` copies in a row along a
+ * bearing in degrees clockwise from north, with `gap` meters between
+ * neighbouring copies. The gap is measured between the shapes, not their
+ * centers, so it is kept whatever their size.
+ */
+export interface ArrayCopyOptions {
+  count: number;
+  bearing: number;
+  gap: number;
+}
+
+/**
+ * Create copies of features moved together by a geodesic offset, each with
+ * a new ID.
+ * @throws {LibreDrawError} If the distance or bearing is not finite.
+ */
+export function createDuplicates(
+  features: LibreDrawFeature[],
+  offset: DuplicateOffset,
+): LibreDrawFeature[] {
+  if (!Number.isFinite(offset.distance) || !Number.isFinite(offset.bearing)) {
+    throw new LibreDrawError('Duplicate offset distance and bearing must be finite numbers.');
+  }
+  if (features.length === 0) return [];
+
+  const center = getBoundsCenter(features);
+  const target = destination(turfPoint(center), offset.distance, offset.bearing, {
+    units: 'meters',
+  }).geometry.coordinates;
+  const dLng = target[0] - center[0];
+  const dLat = target[1] - center[1];
+
+  return features.map((feature) => ({
+    ...translateFeature(feature, dLng, dLat),
+    id: crypto.randomUUID(),
+  }));
+}
+
+/**
+ * Create a row of copies of features. Each copy is shifted by the extent of
+ * the features along the bearing plus the gap, so neighbouring copies are
+ * `gap` meters apart. A negative gap overlaps the copies, but they must
+ * still advance along the row.
+ * @returns The copies in row order, with the features of each copy in input order.
+ * @throws {LibreDrawError} If the options are invalid.
+ */
+export function createArrayCopies(
+  features: LibreDrawFeature[],
+  options: ArrayCopyOptions,
+): LibreDrawFeature[] {
+  const { count, bearing, gap } = options;
+  if (!Number.isInteger(count) || count < 1 || count > MAX_ARRAY_COPY_COUNT) {
+    throw new LibreDrawError(
+      `Array copy count must be an integer from 1 to ${MAX_ARRAY_COPY_COUNT}.`,
+    );
+  }
+  if (!Number.isFinite(bearing) || !Number.isFinite(gap)) {
+    throw new LibreDrawError('Array copy bearing and gap must be finite numbers.');
+  }
+  if (features.length === 0) return [];
+
+  const step = getExtentAlong(features, bearing) + gap;
+  if (!(step > 0)) {
+    throw new LibreDrawError('Array copy gap must be larger than minus the width of the copies.');
+  }
+
+  const copies: LibreDrawFeature[] = [];
+  for (let i = 1; i <= count; i++) {
+    copies.push(...createDuplicates(features, { distance: step * i, bearing }));
+  }
+  return copies;
+}
+
+/** Center of the combined bounding box of features. */
+function getBoundsCenter(features: LibreDrawFeature[]): Position {
+  const [[west, south], [east, north]] = getFeaturesBounds(features);
+  return [(west + east) / 2, (south + north) / 2];
+}
+
+/**
+ * Length in meters of the features' projection onto a bearing, measured in
+ * a local planar approximation around their center.
+ */
+function getExtentAlong(features: LibreDrawFeature[], bearing: number): number {
+  const center = getBoundsCenter(features);
+  const k = Math.cos((center[1] * Math.PI) / 180);
+  const radians = (bearing * Math.PI) / 180;
+  const east = Math.sin(radians);
+  const north = Math.cos(radians);
+
+  const projected = features
+    .flatMap((feature) => getDistinctPositions(feature))
+    .map(
+      ([lng, lat]) =>
+        ((lng - center[0]) * k * east + (lat - center[1]) * north) * METERS_PER_DEGREE,
+    );
+  return Math.max(...projected) - Math.min(...projected);
+}
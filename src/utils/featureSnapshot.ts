@@ -2,6 +2,7 @@ import type {
   FeatureCollection,
   FeatureProperties,
   LibreDrawFeature,
+  LibreDrawGeometry,
   Position,
 } from '../types/features';
 
@@ -32,9 +33,42 @@ export function deepCloneValue<T>(value: T): T {
 export function cloneCoordinates(
   coordinates: Position[][],
 ): Position[][] {
-  return coordinates.map((ring) =>
-    ring.map((position) => [position[0], position[1]] as Position),
-  );
+  return coordinates.map((ring) => clonePositions(ring));
+}
+
+/**
+ * Clone a list of positions ([lng, lat][]).
+ */
+export function clonePositions(positions: Position[]): Position[] {
+  return positions.map((position) => [position[0], position[1]] as Position);
+}
+
+/**
+ * Clone a geometry deeply, preserving its geometry type.
+ */
+export function cloneGeometry<G extends LibreDrawGeometry>(geometry: G): G {
+  switch (geometry.type) {
+    case 'Point':
+      return {
+        type: 'Point',
+        coordinates: [geometry.coordinates[0], geometry.coordinates[1]],
+      } as G;
+    case 'LineString':
+      return {
+        type: 'LineString',
+        coordinates: clonePositions(geometry.coordinates),
+      } as G;
+    case 'Polygon':
+      return {
+        type: 'Polygon',
+        coordinates: cloneCoordinates(geometry.coordinates),
+      } as G;
+    case 'MultiPolygon':
+      return {
+        type: 'MultiPolygon',
+        coordinates: geometry.coordinates.map((part) => cloneCoordinates(part)),
+      } as G;
+  }
 }
 
 /**
@@ -49,14 +83,13 @@ export function cloneProperties(
 /**
  * Create a deep snapshot of a feature.
  */
-export function cloneFeature(feature: LibreDrawFeature): LibreDrawFeature {
+export function cloneFeature<G extends LibreDrawGeometry>(
+  feature: LibreDrawFeature<G>,
+): LibreDrawFeature<G> {
   return {
     id: feature.id,
     type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: cloneCoordinates(feature.geometry.coordinates),
-    },
+    geometry: cloneGeometry(feature.geometry),
     properties: cloneProperties(feature.properties),
   };
 }
@@ -1,19 +1,177 @@
-import type { LibreDrawFeature, Position } from '../types/features';
+import type {
+  LibreDrawFeature,
+  LibreDrawGeometry,
+  LineStringGeometry,
+  MultiPolygonGeometry,
+  PointGeometry,
+  PolygonGeometry,
+  Position,
+} from '../types/features';
+import { getCircle, withCircle } from './circle';
 
 /**
- * Get the unique vertices (excluding the closing point) of a polygon.
+ * Minimum number of unique vertices for an editable polygon ring.
  */
-export function getVertices(feature: LibreDrawFeature): Position[] {
-  const ring = feature.geometry.coordinates[0];
-  return ring.slice(0, ring.length - 1);
+export const MIN_POLYGON_VERTICES = 3;
+
+/**
+ * Minimum number of vertices for an editable line.
+ */
+export const MIN_LINE_VERTICES = 2;
+
+/**
+ * Whether the feature has Polygon geometry.
+ */
+export function isPolygonFeature(
+  feature: LibreDrawFeature,
+): feature is LibreDrawFeature<PolygonGeometry> {
+  return feature.geometry.type === 'Polygon';
+}
+
+/**
+ * Whether the feature has LineString geometry.
+ */
+export function isLineStringFeature(
+  feature: LibreDrawFeature,
+): feature is LibreDrawFeature<LineStringGeometry> {
+  return feature.geometry.type === 'LineString';
+}
+
+/**
+ * Whether the feature has Point geometry.
+ */
+export function isPointFeature(
+  feature: LibreDrawFeature,
+): feature is LibreDrawFeature<PointGeometry> {
+  return feature.geometry.type === 'Point';
+}
+
+/**
+ * Whether the feature has Polygon or MultiPolygon geometry.
+ */
+export function isPolygonalFeature(
+  feature: LibreDrawFeature,
+): feature is LibreDrawFeature<PolygonGeometry | MultiPolygonGeometry> {
+  return (
+    feature.geometry.type === 'Polygon' ||
+    feature.geometry.type === 'MultiPolygon'
+  );
+}
+
+/**
+ * Whether the feature has MultiPolygon geometry.
+ */
+export function isMultiPolygonFeature(
+  feature: LibreDrawFeature,
+): feature is LibreDrawFeature<MultiPolygonGeometry> {
+  return feature.geometry.type === 'MultiPolygon';
+}
+
+/**
+ * Identifies one ring of a feature: the part index within a
+ * MultiPolygon (0 otherwise) and the ring index within that part
+ * (0 is the outer ring). Lines use `{ part: 0, ring: 0 }`.
+ */
+export interface RingRef {
+  part: number;
+  ring: number;
+}
+
+/**
+ * A ring (or line path) whose vertices can be edited.
+ */
+export interface EditableRing {
+  ref: RingRef;
+  /** The vertices, without a closing point for closed rings. */
+  vertices: Position[];
+  closed: boolean;
+}
+
+const OUTER_RING: RingRef = { part: 0, ring: 0 };
+
+/**
+ * Whether the editable vertices of a feature form a closed ring.
+ */
+export function isClosedPath(feature: LibreDrawFeature): boolean {
+  return feature.geometry.type === 'Polygon' || feature.geometry.type === 'MultiPolygon';
+}
+
+/**
+ * Minimum number of editable vertices the feature must keep.
+ */
+export function getMinVertices(feature: LibreDrawFeature): number {
+  switch (feature.geometry.type) {
+    case 'Polygon':
+    case 'MultiPolygon':
+      return MIN_POLYGON_VERTICES;
+    case 'LineString':
+      return MIN_LINE_VERTICES;
+    case 'Point':
+      return 0;
+  }
 }
 
 /**
- * Compute midpoints for each edge of a polygon.
+ * Get every ring of a feature that can be vertex-edited.
+ *
+ * Polygons expose their outer ring and holes, MultiPolygons the rings of
+ * every part, lines their single path. Points have none.
  */
-export function computeMidpoints(vertices: Position[]): Position[] {
+export function getEditableRings(feature: LibreDrawFeature): EditableRing[] {
+  const geometry = feature.geometry;
+  switch (geometry.type) {
+    case 'Point':
+      return [];
+    case 'LineString':
+      return [
+        { ref: { ...OUTER_RING }, vertices: [...geometry.coordinates], closed: false },
+      ];
+    case 'Polygon':
+    case 'MultiPolygon':
+      return getPolygonParts(geometry).flatMap((rings, partIndex) =>
+        rings.map((ring, ringIndex) => ({
+          ref: { part: partIndex, ring: ringIndex },
+          vertices: openRing(ring),
+          closed: true,
+        })),
+      );
+  }
+}
+
+/**
+ * Get the editable vertices of a feature.
+ *
+ * For polygons this is a ring (the outer ring by default) without its
+ * closing point; for lines it is every coordinate. Points have no
+ * editable vertices and are only moved as a whole.
+ * @param ref - Which ring to read. Defaults to the first outer ring.
+ */
+export function getVertices(
+  feature: LibreDrawFeature,
+  ref: RingRef = OUTER_RING,
+): Position[] {
+  const geometry = feature.geometry;
+  if (geometry.type === 'Point') {
+    return [];
+  }
+  if (geometry.type === 'LineString') {
+    return [...geometry.coordinates];
+  }
+  return openRing(getRing(geometry, ref));
+}
+
+/**
+ * Compute midpoints for each edge of a path.
+ * @param vertices - The path vertices (without a closing point).
+ * @param closed - Whether the path wraps back to its first vertex.
+ */
+export function computeMidpoints(
+  vertices: Position[],
+  closed: boolean = true,
+): Position[] {
   const midpoints: Position[] = [];
-  for (let i = 0; i < vertices.length; i++) {
+  const edgeCount = closed ? vertices.length : vertices.length - 1;
+  for (let i = 0; i < edgeCount; i++) {
     const next = (i + 1) % vertices.length;
     midpoints.push([
       (vertices[i][0] + vertices[next][0]) / 2,
@@ -25,13 +183,25 @@ export function computeMidpoints(vertices: Position[]): Position[] {
 
 /**
  * Create a new feature with a vertex moved to a new position.
+ * @param ref - The ring containing the vertex. Defaults to the first outer ring.
  */
 export function moveVertex(
   feature: LibreDrawFeature,
   vertexIndex: number,
   newPos: Position,
+  ref: RingRef = OUTER_RING,
 ): LibreDrawFeature {
-  const ring = [...feature.geometry.coordinates[0]];
+  const geometry = feature.geometry;
+  if (geometry.type === 'Point') {
+    return withPoint(feature, newPos);
+  }
+  if (geometry.type === 'LineString') {
+    const line = [...geometry.coordinates];
+    line[vertexIndex] = newPos;
+    return withLine(feature, line);
+  }
+
+  const ring = [...getRing(geometry, ref)];
   ring[vertexIndex] = newPos;
 
   // If moving first vertex, also update closing point.
@@ -43,72 +213,220 @@ export function moveVertex(
     ring[0] = newPos;
   }
 
-  return {
-    ...feature,
-    geometry: {
-      type: 'Polygon',
-      coordinates: [ring],
-    },
-  };
+  return withRing(feature, ref, ring);
 }
 
 /**
- * Create a new feature with all vertices translated by the given delta.
+ * Create a new feature with all coordinates translated by the given delta.
  */
 export function movePolygon(
   feature: LibreDrawFeature,
   dLng: number,
   dLat: number,
 ): LibreDrawFeature {
-  const ring = feature.geometry.coordinates[0].map(
-    (pos): Position => [pos[0] + dLng, pos[1] + dLat],
-  );
+  const translate = (pos: Position): Position => [pos[0] + dLng, pos[1] + dLat];
+  const translateRings = (rings: Position[][]): Position[][] =>
+    rings.map((ring) => ring.map(translate));
 
-  return {
-    ...feature,
-    geometry: {
-      type: 'Polygon',
-      coordinates: [ring],
-    },
-  };
+  const geometry = feature.geometry;
+  switch (geometry.type) {
+    case 'Point':
+      return withPoint(feature, translate(geometry.coordinates));
+    case 'LineString':
+      return withLine(feature, geometry.coordinates.map(translate));
+    case 'Polygon':
+      return {
+        ...feature,
+        geometry: { type: 'Polygon', coordinates: translateRings(geometry.coordinates) },
+      };
+    case 'MultiPolygon':
+      return {
+        ...feature,
+        geometry: {
+          type: 'MultiPolygon',
+          coordinates: geometry.coordinates.map(translateRings),
+        },
+      };
+  }
+}
+
+/**
+ * Create a new feature translated by the given delta. Circles are rebuilt
+ * around the moved center so they stay geodesically round and keep their
+ * circle properties in sync.
+ */
+export function translateFeature(
+  feature: LibreDrawFeature,
+  dLng: number,
+  dLat: number,
+): LibreDrawFeature {
+  const circle = getCircle(feature);
+  if (!circle) return movePolygon(feature, dLng, dLat);
+
+  return withCircle(feature, {
+    ...circle,
+    center: [circle.center[0] + dLng, circle.center[1] + dLat],
+  });
 }
 
 /**
  * Create a new feature with a vertex inserted at the given index.
+ * @param ref - The ring to insert into. Defaults to the first outer ring.
  */
 export function insertVertex(
   feature: LibreDrawFeature,
   insertIndex: number,
   pos: Position,
+  ref: RingRef = OUTER_RING,
 ): LibreDrawFeature {
-  const ring = [...feature.geometry.coordinates[0]];
+  const geometry = feature.geometry;
+  if (geometry.type === 'Point') {
+    return feature;
+  }
+  if (geometry.type === 'LineString') {
+    const line = [...geometry.coordinates];
+    line.splice(insertIndex, 0, pos);
+    return withLine(feature, line);
+  }
+
+  const ring = [...getRing(geometry, ref)];
   ring.splice(insertIndex, 0, pos);
 
-  return {
-    ...feature,
-    geometry: {
-      type: 'Polygon',
-      coordinates: [ring],
-    },
-  };
+  return withRing(feature, ref, ring);
 }
 
 /**
  * Create a new feature with a vertex removed at the given index.
+ * @param ref - The ring to remove from. Defaults to the first outer ring.
  */
 export function removeVertex(
   feature: LibreDrawFeature,
   vertexIndex: number,
+  ref: RingRef = OUTER_RING,
 ): LibreDrawFeature {
-  const vertices = getVertices(feature);
+  if (feature.geometry.type === 'Point') {
+    return feature;
+  }
+
+  const vertices = getVertices(feature, ref);
   const newVertices = vertices.filter((_, i) => i !== vertexIndex);
+
+  if (feature.geometry.type === 'LineString') {
+    return withLine(feature, newVertices);
+  }
+
   const ring: Position[] = [...newVertices, [...newVertices[0]] as Position];
+  return withRing(feature, ref, ring);
+}
+
+/**
+ * Get the polygons of a Polygon or MultiPolygon geometry as a list of parts,
+ * each a list of closed rings (outer ring first).
+ */
+export function getPolygonParts(
+  geometry: PolygonGeometry | MultiPolygonGeometry,
+): Position[][][] {
+  return geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+}
+
+/**
+ * Get the closed ring of a (Multi)Polygon addressed by `ref`.
+ */
+export function getRing(
+  geometry: PolygonGeometry | MultiPolygonGeometry,
+  ref: RingRef,
+): Position[] {
+  return geometry.type === 'Polygon'
+    ? geometry.coordinates[ref.ring]
+    : geometry.coordinates[ref.part][ref.ring];
+}
 
+/**
+ * Whether two geometries have the same type and identical coordinates.
+ */
+export function geometryEquals(
+  a: LibreDrawGeometry,
+  b: LibreDrawGeometry,
+): boolean {
+  if (a.type !== b.type) return false;
+  return coordinatesEqual(a.coordinates, b.coordinates);
+}
+
+/**
+ * Recursively compare nested coordinate arrays.
+ */
+function coordinatesEqual(a: unknown, b: unknown): boolean {
+  if (!Array.isArray(a) || !Array.isArray(b)) {
+    return a === b;
+  }
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (!coordinatesEqual(a[i], b[i])) return false;
+  }
+  return true;
+}
+
+/**
+ * Drop the closing point of a ring.
+ */
+function openRing(ring: Position[]): Position[] {
+  return ring.slice(0, ring.length - 1);
+}
+
+/**
+ * Replace one ring of a (Multi)Polygon feature, keeping all other rings.
+ */
+function withRing(
+  feature: LibreDrawFeature,
+  ref: RingRef,
+  ring: Position[],
+): LibreDrawFeature {
+  const replaceIn = (rings: Position[][]): Position[][] =>
+    rings.map((r, i) => (i === ref.ring ? ring : r));
+
+  const geometry = feature.geometry;
+  if (geometry.type === 'Polygon') {
+    return {
+      ...feature,
+      geometry: { type: 'Polygon', coordinates: replaceIn(geometry.coordinates) },
+    };
+  }
+  if (geometry.type === 'MultiPolygon') {
+    return {
+      ...feature,
+      geometry: {
+        type: 'MultiPolygon',
+        coordinates: geometry.coordinates.map((part, p) =>
+          p === ref.part ? replaceIn(part) : part,
+        ),
+      },
+    };
+  }
+  return feature;
+}
+
+/**
+ * Replace the geometry of a feature with a line.
+ */
+function withLine(feature: LibreDrawFeature, line: Position[]): LibreDrawFeature {
+  return {
+    ...feature,
+    geometry: {
+      type: 'LineString',
+      coordinates: line,
+    },
+  };
+}
+
+/**
+ * Replace the geometry of a feature with a point.
+ */
+function withPoint(feature: LibreDrawFeature, pos: Position): LibreDrawFeature {
   return {
     ...feature,
     geometry: {
-      type: 'Polygon',
-      coordinates: [ring],
+      type: 'Point',
+      coordinates: pos,
     },
   };
 }
@@ -0,0 +1,156 @@
+import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
+import { point as turfPoint } from '@turf/helpers';
+import type {
+  LibreDrawFeature,
+  MultiPolygonGeometry,
+  PolygonGeometry,
+  Position,
+} from '../types/features';
+import { clonePropertiesWithoutCircle } from './circle';
+import type { RingRef } from './geometry';
+import { getPolygonParts, MIN_POLYGON_VERTICES } from './geometry';
+import { doRingsIntersect, hasRingSelfIntersection } from '../validation/intersection';
+
+type PolygonalFeature = LibreDrawFeature<PolygonGeometry | MultiPolygonGeometry>;
+
+/**
+ * Reason why cutting a hole failed.
+ */
+export type HoleFailReason =
+  | 'insufficient-vertices'
+  | 'self-intersecting'
+  | 'outside-polygon'
+  | 'overlaps-ring';
+
+/**
+ * Result of a cut-hole operation.
+ * - `success`: the feature with the new interior ring.
+ * - `error`: the ring was rejected for a specific reason.
+ */
+export type HoleResult =
+  | { type: 'success'; feature: PolygonalFeature }
+  | { type: 'error'; reason: HoleFailReason };
+
+/** Whether a position lies strictly inside a closed ring. */
+function isInsideRing(position: Position, ring: Position[]): boolean {
+  return booleanPointInPolygon(
+    turfPoint([position[0], position[1]]),
+    { type: 'Polygon', coordinates: [ring] },
+    { ignoreBoundary: true },
+  );
+}
+
+/** Rebuild a feature with one polygon part replaced. */
+function withPart(
+  feature: PolygonalFeature,
+  partIndex: number,
+  rings: Position[][],
+): PolygonalFeature {
+  if (feature.geometry.type === 'Polygon') {
+    return {
+      ...feature,
+      geometry: { type: 'Polygon', coordinates: rings },
+      properties: clonePropertiesWithoutCircle(feature.properties),
+    };
+  }
+  return {
+    ...feature,
+    properties: clonePropertiesWithoutCircle(feature.properties),
+    geometry: {
+      type: 'MultiPolygon',
+      coordinates: feature.geometry.coordinates.map((part, i) =>
+        i === partIndex ? rings : part,
+      ),
+    },
+  };
+}
+
+/**
+ * Find the index of the polygon part whose area (excluding holes)
+ * contains the position, or -1.
+ */
+export function findPartAt(feature: PolygonalFeature, position: Position): number {
+  const parts = getPolygonParts(feature.geometry);
+  for (let i = 0; i < parts.length; i++) {
+    const [outer, ...holes] = parts[i];
+    if (!isInsideRing(position, outer)) continue;
+    if (holes.some((hole) => isInsideRing(position, hole))) continue;
+    return i;
+  }
+  return -1;
+}
+
+/**
+ * Find the interior ring that contains the position, or null.
+ */
+export function findHoleAt(feature: PolygonalFeature, position: Position): RingRef | null {
+  const parts = getPolygonParts(feature.geometry);
+  for (let part = 0; part < parts.length; part++) {
+    for (let ring = 1; ring < parts[part].length; ring++) {
+      if (isInsideRing(position, parts[part][ring])) {
+        return { part, ring };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Add an interior ring to the polygon part that contains it.
+ *
+ * The ring must not self-intersect, must lie inside one part, and must
+ * not cross or enclose any existing ring of that part.
+ * @param vertices - The hole vertices, without a closing point.
+ */
+export function cutHole(feature: PolygonalFeature, vertices: Position[]): HoleResult {
+  if (vertices.length < MIN_POLYGON_VERTICES) {
+    return { type: 'error', reason: 'insufficient-vertices' };
+  }
+
+  const hole: Position[] = [...vertices, [vertices[0][0], vertices[0][1]]];
+  if (hasRingSelfIntersection(hole)) {
+    return { type: 'error', reason: 'self-intersecting' };
+  }
+
+  const partIndex = findPartAt(feature, vertices[0]);
+  if (partIndex < 0) {
+    return { type: 'error', reason: 'outside-polygon' };
+  }
+
+  const rings = getPolygonParts(feature.geometry)[partIndex];
+  const [outer, ...holes] = rings;
+  if (!vertices.every((v) => isInsideRing(v, outer))) {
+    return { type: 'error', reason: 'outside-polygon' };
+  }
+
+  for (const ring of rings) {
+    if (doRingsIntersect(ring, hole)) {
+      return { type: 'error', reason: 'overlaps-ring' };
+    }
+  }
+  if (
+    holes.some((existing) => isInsideRing(existing[0], hole)) ||
+    vertices.some((v) => holes.some((existing) => isInsideRing(v, existing)))
+  ) {
+    return { type: 'error', reason: 'overlaps-ring' };
+  }
+
+  return { type: 'success', feature: withPart(feature, partIndex, [...rings, hole]) };
+}
+
+/**
+ * Create a new feature with the addressed interior ring removed.
+ * Outer rings (`ref.ring === 0`) are never removed.
+ */
+export function removeHole(feature: PolygonalFeature, ref: RingRef): PolygonalFeature {
+  if (ref.ring === 0) return feature;
+
+  const rings = getPolygonParts(feature.geometry)[ref.part];
+  if (!rings || ref.ring >= rings.length) return feature;
+
+  return withPart(
+    feature,
+    ref.part,
+    rings.filter((_, i) => i !== ref.ring),
+  );
+}
@@ -0,0 +1,275 @@
+import difference from '@turf/difference';
+import intersect from '@turf/intersect';
+import union from '@turf/union';
+import { featureCollection, multiPolygon, polygon, feature as turfFeature } from '@turf/helpers';
+import type {
+  LibreDrawFeature,
+  MultiPolygonGeometry,
+  PolygonGeometry,
+  Position,
+} from '../types/features';
+import { clonePropertiesWithoutCircle } from './circle';
+import { getPolygonParts, isPolygonalFeature } from './geometry';
+
+type PolygonalFeature = LibreDrawFeature<PolygonGeometry | MultiPolygonGeometry>;
+
+/**
+ * Reason why a merge failed.
+ * - `insufficient-features`: fewer than two features were given.
+ * - `not-polygon`: a feature is not a Polygon or MultiPolygon.
+ * - `disjoint`: none of the polygons touch or overlap.
+ * - `empty-result`: the union produced no geometry.
+ */
+export type MergeFailReason =
+  | 'insufficient-features'
+  | 'not-polygon'
+  | 'disjoint'
+  | 'empty-result';
+
+/**
+ * Result of a merge operation.
+ * - `success`: the merged feature.
+ * - `error`: the merge failed for a specific reason.
+ */
+export type MergeResult =
+  | { type: 'success'; feature: PolygonalFeature }
+  | { type: 'error'; reason: MergeFailReason };
+
+/**
+ * Reason why a difference (clip) failed.
+ * - `not-polygon`: the target or the cutter is not a Polygon or MultiPolygon.
+ * - `same-feature`: the target and the cutter are the same feature.
+ * - `no-overlap`: the cutter does not overlap the target.
+ * - `empty-result`: the cutter covers the whole target.
+ */
+export type DifferenceFailReason =
+  | 'not-polygon'
+  | 'same-feature'
+  | 'no-overlap'
+  | 'empty-result';
+
+/**
+ * Result of a difference operation.
+ * - `success`: the clipped target feature.
+ * - `error`: the difference failed for a specific reason.
+ */
+export type DifferenceResult =
+  | { type: 'success'; feature: PolygonalFeature }
+  | { type: 'error'; reason: DifferenceFailReason };
+
+/**
+ * Reason why an intersection failed.
+ * - `not-polygon`: one of the features is not a Polygon or MultiPolygon.
+ * - `same-feature`: both IDs refer to the same feature.
+ * - `no-overlap`: the polygons do not share any area.
+ */
+export type IntersectFailReason = 'not-polygon' | 'same-feature' | 'no-overlap';
+
+/**
+ * Result of an intersection.
+ * - `success`: the new overlap feature.
+ * - `error`: the intersection failed for a specific reason.
+ */
+export type IntersectResult =
+  | { type: 'success'; feature: PolygonalFeature }
+  | { type: 'error'; reason: IntersectFailReason };
+
+/**
+ * Relative tolerance for comparing areas before and after clipping.
+ */
+const AREA_EPSILON = 1e-9;
+
+/** Planar (degree) area of a Polygon or MultiPolygon, holes subtracted. */
+function planarArea(geometry: PolygonGeometry | MultiPolygonGeometry): number {
+  const ringArea = (ring: Position[]): number => {
+    let area = 0;
+    for (let i = 0; i < ring.length - 1; i++) {
+      area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+    }
+    return Math.abs(area / 2);
+  };
+
+  let total = 0;
+  for (const [outer, ...holes] of getPolygonParts(geometry)) {
+    total += ringArea(outer) - holes.reduce((sum, hole) => sum + ringArea(hole), 0);
+  }
+  return total;
+}
+
+/** Convert a turf result geometry to a LibreDraw geometry (2D positions). */
+export function toPolygonalGeometry(
+  geometry: GeoJSON.Polygon | GeoJSON.MultiPolygon,
+): PolygonGeometry | MultiPolygonGeometry {
+  const toRings = (rings: GeoJSON.Position[][]): Position[][] =>
+    rings.map((ring) => ring.map((p): Position => [p[0], p[1]]));
+
+  if (geometry.type === 'Polygon') {
+    return { type: 'Polygon', coordinates: toRings(geometry.coordinates) };
+  }
+  if (geometry.coordinates.length === 1) {
+    return { type: 'Polygon', coordinates: toRings(geometry.coordinates[0]) };
+  }
+  return { type: 'MultiPolygon', coordinates: geometry.coordinates.map(toRings) };
+}
+
+/** Count the polygon parts of a geometry. */
+function countParts(geometry: PolygonGeometry | MultiPolygonGeometry): number {
+  return getPolygonParts(geometry).length;
+}
+
+/**
+ * Merge (union) two or more polygons into one feature.
+ *
+ * The result gets a new ID and the properties of the first feature. It is
+ * a MultiPolygon only when some of the polygons stay apart; the merge
+ * fails when none of them touch or overlap.
+ */
+export function mergePolygons(features: LibreDrawFeature[]): MergeResult {
+  if (features.length < 2) {
+    return { type: 'error', reason: 'insufficient-features' };
+  }
+
+  const polygons: PolygonalFeature[] = [];
+  for (const feature of features) {
+    if (!isPolygonalFeature(feature)) {
+      return { type: 'error', reason: 'not-polygon' };
+    }
+    polygons.push(feature);
+  }
+
+  const merged = union(
+    featureCollection(polygons.map((f) => turfFeature(f.geometry))),
+  );
+  if (!merged) {
+    return { type: 'error', reason: 'empty-result' };
+  }
+
+  const geometry = toPolygonalGeometry(merged.geometry);
+  if (getPolygonParts(geometry).length === 0) {
+    return { type: 'error', reason: 'empty-result' };
+  }
+
+  const inputParts = polygons.reduce((sum, f) => sum + countParts(f.geometry), 0);
+  if (countParts(geometry) >= inputParts) {
+    return { type: 'error', reason: 'disjoint' };
+  }
+
+  return {
+    type: 'success',
+    feature: {
+      id: crypto.randomUUID(),
+      type: 'Feature',
+      geometry,
+      properties: clonePropertiesWithoutCircle(polygons[0].properties),
+    },
+  };
+}
+
+/**
+ * Subtract the cutter polygon from the target polygon.
+ *
+ * The result keeps the target's ID and properties. It may have holes (when
+ * the cutter lies inside the target) or be a MultiPolygon (when the cutter
+ * cuts the target into pieces).
+ */
+export function subtractPolygon(
+  target: LibreDrawFeature,
+  cutter: LibreDrawFeature,
+): DifferenceResult {
+  if (!isPolygonalFeature(target) || !isPolygonalFeature(cutter)) {
+    return { type: 'error', reason: 'not-polygon' };
+  }
+  if (target.id === cutter.id) {
+    return { type: 'error', reason: 'same-feature' };
+  }
+
+  const clipped = difference(
+    featureCollection([turfFeature(target.geometry), turfFeature(cutter.geometry)]),
+  );
+  if (!clipped) {
+    return { type: 'error', reason: 'empty-result' };
+  }
+
+  const geometry = toPolygonalGeometry(clipped.geometry);
+  if (getPolygonParts(geometry).length === 0) {
+    return { type: 'error', reason: 'empty-result' };
+  }
+
+  const originalArea = planarArea(target.geometry);
+  if (Math.abs(planarArea(geometry) - originalArea) <= originalArea * AREA_EPSILON) {
+    return { type: 'error', reason: 'no-overlap' };
+  }
+
+  return {
+    type: 'success',
+    feature: {
+      id: target.id,
+      type: 'Feature',
+      geometry,
+      properties: clonePropertiesWithoutCircle(target.properties),
+    },
+  };
+}
+
+/**
+ * Create a new feature from the area shared by two polygons.
+ *
+ * The inputs are not modified. The result gets a new ID and empty
+ * properties, and is a MultiPolygon when the overlap has several parts.
+ */
+export function intersectPolygons(a: LibreDrawFeature, b: LibreDrawFeature): IntersectResult {
+  if (!isPolygonalFeature(a) || !isPolygonalFeature(b)) {
+    return { type: 'error', reason: 'not-polygon' };
+  }
+  if (a.id === b.id) {
+    return { type: 'error', reason: 'same-feature' };
+  }
+
+  const overlap = intersect(
+    featureCollection([turfFeature(a.geometry), turfFeature(b.geometry)]),
+  );
+  if (!overlap) {
+    return { type: 'error', reason: 'no-overlap' };
+  }
+
+  const geometry = toPolygonalGeometry(overlap.geometry);
+  if (countParts(geometry) === 0 || planarArea(geometry) === 0) {
+    return { type: 'error', reason: 'no-overlap' };
+  }
+
+  return {
+    type: 'success',
+    feature: {
+      id: crypto.randomUUID(),
+      type: 'Feature',
+      geometry,
+      properties: {},
+    },
+  };
+}
+
+/**
+ * Cut holes out of a closed polygon ring. Holes that cross the ring
+ * boundary are clipped to it, so a hole crossed by a split line is shared
+ * between the pieces. The result is a MultiPolygon when a hole divides the
+ * ring's area, or null when nothing is left.
+ */
+export function subtractHoles(
+  ring: Position[],
+  holes: Position[][],
+): PolygonGeometry | MultiPolygonGeometry | null {
+  if (holes.length === 0) {
+    return { type: 'Polygon', coordinates: [ring] };
+  }
+
+  const clipped = difference(
+    featureCollection<GeoJSON.Polygon | GeoJSON.MultiPolygon>([
+      polygon([ring]),
+      multiPolygon(holes.map((hole) => [hole])),
+    ]),
+  );
+  if (!clipped) return null;
+
+  const geometry = toPolygonalGeometry(clipped.geometry);
+  return countParts(geometry) > 0 ? geometry : null;
+}
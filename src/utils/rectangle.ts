@@ -0,0 +1,60 @@
+import type { Position } from '../types/features';
+
+/**
+ * Build a closed axis-aligned rectangle ring from two opposite corners.
+ * Returns null when the corners share a longitude or latitude.
+ */
+export function axisAlignedRectangle(a: Position, b: Position): Position[] | null {
+  if (a[0] === b[0] || a[1] === b[1]) return null;
+
+  return [
+    [a[0], a[1]],
+    [b[0], a[1]],
+    [b[0], b[1]],
+    [a[0], b[1]],
+    [a[0], a[1]],
+  ];
+}
+
+/**
+ * Build a closed rotated rectangle ring from a baseline (`a` → `b`) and a
+ * third position whose perpendicular distance from the baseline sets the
+ * depth. The side of the baseline the position lies on sets the direction.
+ *
+ * Computed in a local equirectangular plane around `a`, so right angles are
+ * preserved at plot scale. Returns null when the rectangle would be degenerate.
+ */
+export function rotatedRectangle(
+  a: Position,
+  b: Position,
+  depthPosition: Position,
+): Position[] | null {
+  const k = Math.cos((a[1] * Math.PI) / 180);
+  if (k <= 0) return null;
+
+  const toPlane = (p: Position): [number, number] => [(p[0] - a[0]) * k, p[1] - a[1]];
+  const fromPlane = (x: number, y: number): Position => [a[0] + x / k, a[1] + y];
+
+  const [bx, by] = toPlane(b);
+  const length = Math.hypot(bx, by);
+  if (length === 0) return null;
+
+  // Unit normal to the baseline
+  const nx = -by / length;
+  const ny = bx / length;
+
+  const [cx, cy] = toPlane(depthPosition);
+  const depth = cx * nx + cy * ny;
+  if (depth === 0) return null;
+
+  const ox = nx * depth;
+  const oy = ny * depth;
+
+  return [
+    [a[0], a[1]],
+    [b[0], b[1]],
+    fromPlane(bx + ox, by + oy),
+    fromPlane(ox, oy),
+    [a[0], a[1]],
+  ];
+}
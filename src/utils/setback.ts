@@ -50,19 +50,22 @@ function signedArea(vertices: Position[]): number {
 
 /**
  * Find nearest polygon edge in screen space.
+ * Pass `closed = false` to search an open path (e.g. a LineString).
  */
 export function findNearestEdge(
   vertices: Position[],
   clickPoint: ScreenPoint,
   threshold: number,
   getScreenPoint: (lngLat: { lng: number; lat: number }) => ScreenPoint,
+  closed: boolean = true,
 ): EdgeHit | null {
   if (vertices.length < 2) return null;
 
   let minDistance = Infinity;
   let minIndex = -1;
+  const edgeCount = closed ? vertices.length : vertices.length - 1;
 
-  for (let i = 0; i < vertices.length; i++) {
+  for (let i = 0; i < edgeCount; i++) {
     const next = (i + 1) % vertices.length;
 
     const a = getScreenPoint({ lng: vertices[i][0], lat: vertices[i][1] });
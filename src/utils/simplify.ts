@@ -0,0 +1,62 @@
+interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Perpendicular distance from a point to the segment a–b.
+ */
+function distanceToSegment(p: ScreenPoint, a: ScreenPoint, b: ScreenPoint): number {
+  const abX = b.x - a.x;
+  const abY = b.y - a.y;
+  const denom = abX * abX + abY * abY;
+  const t =
+    denom === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * abX + (p.y - a.y) * abY) / denom));
+  return Math.hypot(p.x - (a.x + abX * t), p.y - (a.y + abY * t));
+}
+
+/**
+ * Simplify a path with the Douglas–Peucker algorithm.
+ *
+ * Works on screen points so the tolerance is in pixels regardless of zoom.
+ * Returns the indices of the points to keep, in order; the first and last
+ * points are always kept.
+ * @param points - The path in screen coordinates.
+ * @param tolerance - Maximum allowed deviation in pixels.
+ */
+export function simplifyPath(points: ScreenPoint[], tolerance: number): number[] {
+  if (points.length <= 2) {
+    return points.map((_, i) => i);
+  }
+
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  // Iterative to avoid deep recursion on long freehand strokes
+  const stack: [number, number][] = [[0, points.length - 1]];
+  for (let range = stack.pop(); range; range = stack.pop()) {
+    const [start, end] = range;
+    let maxDistance = 0;
+    let maxIndex = -1;
+
+    for (let i = start + 1; i < end; i++) {
+      const d = distanceToSegment(points[i], points[start], points[end]);
+      if (d > maxDistance) {
+        maxDistance = d;
+        maxIndex = i;
+      }
+    }
+
+    if (maxIndex >= 0 && maxDistance > tolerance) {
+      keep[maxIndex] = true;
+      stack.push([start, maxIndex], [maxIndex, end]);
+    }
+  }
+
+  const indices: number[] = [];
+  keep.forEach((kept, i) => {
+    if (kept) indices.push(i);
+  });
+  return indices;
+}
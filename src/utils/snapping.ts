@@ -0,0 +1,233 @@
+import union from '@turf/union';
+import { featureCollection } from '@turf/helpers';
+import type { LibreDrawFeature, LibreDrawGeometry, Position } from '../types/features';
+import type { SnapOptions } from '../types/options';
+import { computeMidpoints, getEditableRings } from './geometry';
+
+/**
+ * Default snapping tolerance in pixels.
+ */
+export const DEFAULT_SNAP_TOLERANCE_PX = 10;
+
+interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * The kind of geometry a position snapped to.
+ */
+export type SnapType = 'vertex' | 'midpoint' | 'edge';
+
+/**
+ * A snapped position and what it snapped to.
+ */
+export interface SnapResult {
+  position: Position;
+  type: SnapType;
+}
+
+/**
+ * Snap options with defaults applied.
+ */
+export type ResolvedSnapOptions = Required<SnapOptions>;
+
+/**
+ * Normalize the `snap` constructor option. Snapping is off unless
+ * `true` or an options object is given.
+ */
+export function resolveSnapOptions(options?: boolean | SnapOptions): ResolvedSnapOptions {
+  const base = typeof options === 'object' ? options : {};
+  return {
+    enabled: typeof options === 'object' ? (options.enabled ?? true) : options === true,
+    tolerance: base.tolerance ?? DEFAULT_SNAP_TOLERANCE_PX,
+    vertex: base.vertex ?? true,
+    midpoint: base.midpoint ?? true,
+    edge: base.edge ?? true,
+    layers: base.layers ?? [],
+  };
+}
+
+/**
+ * A feature returned by `map.queryRenderedFeatures`, which also names the
+ * source and source layer it was rendered from.
+ */
+type RenderedFeature = GeoJSON.Feature & { source?: string; sourceLayer?: string };
+
+type PolygonalFeature = GeoJSON.Feature<GeoJSON.Polygon | GeoJSON.MultiPolygon>;
+
+/**
+ * Convert features rendered by other map layers into snap candidates.
+ *
+ * Vector tile geometries are clipped at tile boundaries, so polygon pieces
+ * sharing a source, source layer and feature ID are merged first; otherwise
+ * the tile edges would become snap targets. Multi-geometries are split into
+ * their parts; geometry collections are skipped.
+ * @param features - Features returned by `map.queryRenderedFeatures`.
+ */
+export function toSnapCandidates(features: RenderedFeature[]): LibreDrawFeature[] {
+  const candidates: LibreDrawFeature[] = [];
+  const push = (geometry: LibreDrawGeometry): void => {
+    candidates.push({ id: '', type: 'Feature', geometry, properties: {} });
+  };
+
+  for (const { geometry } of mergeTilePieces(features)) {
+    switch (geometry.type) {
+      case 'Point':
+        push({ type: 'Point', coordinates: toPosition(geometry.coordinates) });
+        break;
+      case 'MultiPoint':
+        for (const coords of geometry.coordinates) {
+          push({ type: 'Point', coordinates: toPosition(coords) });
+        }
+        break;
+      case 'LineString':
+        push({ type: 'LineString', coordinates: geometry.coordinates.map(toPosition) });
+        break;
+      case 'MultiLineString':
+        for (const line of geometry.coordinates) {
+          push({ type: 'LineString', coordinates: line.map(toPosition) });
+        }
+        break;
+      case 'Polygon':
+        push({
+          type: 'Polygon',
+          coordinates: geometry.coordinates.map((ring) => ring.map(toPosition)),
+        });
+        break;
+      case 'MultiPolygon':
+        push({
+          type: 'MultiPolygon',
+          coordinates: geometry.coordinates.map((polygon) =>
+            polygon.map((ring) => ring.map(toPosition)),
+          ),
+        });
+        break;
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Union the polygon pieces of each tiled feature. Features without an ID
+ * cannot be matched and are kept as they are.
+ */
+function mergeTilePieces(features: RenderedFeature[]): GeoJSON.Feature[] {
+  const result: GeoJSON.Feature[] = [];
+  const pieces = new Map<string, PolygonalFeature[]>();
+
+  for (const feature of features) {
+    const { type } = feature.geometry;
+    if (feature.id === undefined || (type !== 'Polygon' && type !== 'MultiPolygon')) {
+      result.push(feature);
+      continue;
+    }
+    const key = JSON.stringify([feature.source, feature.sourceLayer, feature.id]);
+    const group = pieces.get(key);
+    if (group) {
+      group.push(feature as PolygonalFeature);
+    } else {
+      pieces.set(key, [feature as PolygonalFeature]);
+    }
+  }
+
+  for (const group of pieces.values()) {
+    const merged = group.length > 1 ? union(featureCollection(group)) : null;
+    if (merged) {
+      result.push(merged);
+    } else {
+      result.push(...group);
+    }
+  }
+  return result;
+}
+
+/** Drop any altitude from a GeoJSON position. */
+function toPosition(coords: GeoJSON.Position): Position {
+  return [coords[0], coords[1]];
+}
+
+/**
+ * Find the position to snap to near a screen point.
+ *
+ * Vertices take precedence over midpoints, and midpoints over edges, so
+ * a pointer near a corner lands exactly on it. Within a kind, the closest
+ * candidate wins.
+ * @param point - The pointer position in screen coordinates.
+ * @param features - Candidate features.
+ * @param getScreenPoint - Projects a geographic position to the screen.
+ * @param options - Which kinds to snap to and the pixel tolerance.
+ * @returns The snapped position, or null when nothing is within tolerance.
+ */
+export function findSnapTarget(
+  point: ScreenPoint,
+  features: LibreDrawFeature[],
+  getScreenPoint: (lngLat: { lng: number; lat: number }) => ScreenPoint,
+  options: ResolvedSnapOptions,
+): SnapResult | null {
+  const project = (pos: Position): ScreenPoint => getScreenPoint({ lng: pos[0], lat: pos[1] });
+
+  // Lower rank wins: vertex (0), midpoint (1), edge (2)
+  let best = null as { result: SnapResult; distance: number; rank: number } | null;
+  const consider = (position: Position, type: SnapType, distance: number, rank: number): void => {
+    if (distance > options.tolerance) return;
+    if (best && (rank > best.rank || (rank === best.rank && distance >= best.distance))) return;
+    best = { result: { position: [position[0], position[1]], type }, distance, rank };
+  };
+
+  for (const feature of features) {
+    const geometry = feature.geometry;
+    if (geometry.type === 'Point') {
+      if (options.vertex) {
+        const s = project(geometry.coordinates);
+        consider(geometry.coordinates, 'vertex', Math.hypot(point.x - s.x, point.y - s.y), 0);
+      }
+      continue;
+    }
+
+    for (const { vertices, closed } of getEditableRings(feature)) {
+      const screen = vertices.map(project);
+
+      if (options.vertex) {
+        screen.forEach((s, i) => {
+          consider(vertices[i], 'vertex', Math.hypot(point.x - s.x, point.y - s.y), 0);
+        });
+      }
+
+      if (options.midpoint) {
+        for (const midpoint of computeMidpoints(vertices, closed)) {
+          const s = project(midpoint);
+          consider(midpoint, 'midpoint', Math.hypot(point.x - s.x, point.y - s.y), 1);
+        }
+      }
+
+      if (options.edge) {
+        const edgeCount = closed ? vertices.length : vertices.length - 1;
+        for (let i = 0; i < edgeCount; i++) {
+          const next = (i + 1) % vertices.length;
+          const a = screen[i];
+          const b = screen[next];
+          const abX = b.x - a.x;
+          const abY = b.y - a.y;
+          const denom = abX * abX + abY * abY;
+          if (denom === 0) continue;
+
+          const t = Math.max(
+            0,
+            Math.min(1, ((point.x - a.x) * abX + (point.y - a.y) * abY) / denom),
+          );
+          const distance = Math.hypot(point.x - (a.x + abX * t), point.y - (a.y + abY * t));
+          // Linear interpolation is accurate enough within the snapping tolerance
+          const position: Position = [
+            vertices[i][0] + (vertices[next][0] - vertices[i][0]) * t,
+            vertices[i][1] + (vertices[next][1] - vertices[i][1]) * t,
+          ];
+          consider(position, 'edge', distance, 2);
+        }
+      }
+    }
+  }
+
+  return best ? best.result : null;
+}
@@ -1,5 +1,13 @@
-import type { LibreDrawFeature, Position } from '../types/features';
-import { cloneProperties } from './featureSnapshot';
+import booleanPointInPolygon from '@turf/boolean-point-in-polygon';
+import { point as turfPoint } from '@turf/helpers';
+import type {
+  LibreDrawFeature,
+  MultiPolygonGeometry,
+  PolygonGeometry,
+  Position,
+} from '../types/features';
+import { clonePropertiesWithoutCircle } from './circle';
+import { subtractHoles } from './polygonOps';
 import { computeIntersectionPoint, hasRingSelfIntersection, EPSILON } from '../validation/intersection';
 
 /**
@@ -135,31 +143,156 @@ function findPathIndex(path: Position[], target: Position): number {
   return -1;
 }
 
+/**
+ * Locate a point on the boundary of a ring (vertices without closing point).
+ * Returns the edge it lies on and its parametric position along that edge.
+ */
+function locateOnRing(vertices: Position[], point: Position): EdgeIntersection | null {
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+
+    const cross = (b[0] - a[0]) * (point[1] - a[1]) - (b[1] - a[1]) * (point[0] - a[0]);
+    const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+    if (length < EPSILON || Math.abs(cross) / length > EPSILON * 100) continue;
+
+    const t = edgeParameter(a, b, point);
+    if (t < -EPSILON || t > 1 + EPSILON) continue;
+
+    return { point: clonePosition(point), edgeIndex: i, t };
+  }
+  return null;
+}
+
+/**
+ * Result of splitting a single ring along a chord.
+ */
+type RingSplitResult =
+  | { type: 'success'; rings: [Position[], Position[]] }
+  | { type: 'error'; reason: SplitFailReason };
+
+/**
+ * Split a ring (vertices without closing point) along a chord: a path whose
+ * first and last points lie on the ring boundary and whose interior points
+ * lie inside the ring.
+ */
+function splitRingByChord(vertices: Position[], chord: Position[]): RingSplitResult {
+  const start = locateOnRing(vertices, chord[0]);
+  const end = locateOnRing(vertices, chord[chord.length - 1]);
+  if (!start || !end) {
+    return { type: 'error', reason: 'invalid-intersection-count' };
+  }
+
+  const pointsOnEdge = new Map<number, EdgeIntersection[]>();
+  for (const occ of [start, end]) {
+    if (occ.t > EPSILON && occ.t < 1 - EPSILON) {
+      const list = pointsOnEdge.get(occ.edgeIndex) ?? [];
+      list.push(occ);
+      pointsOnEdge.set(occ.edgeIndex, list);
+    }
+  }
+
+  for (const list of pointsOnEdge.values()) {
+    list.sort((a, b) => a.t - b.t);
+  }
+
+  const path: Position[] = [];
+  for (let i = 0; i < vertices.length; i++) {
+    path.push(clonePosition(vertices[i]));
+
+    const inserts = pointsOnEdge.get(i);
+    if (!inserts) continue;
+
+    for (const insert of inserts) {
+      if (!positionsEqual(path[path.length - 1], insert.point)) {
+        path.push(clonePosition(insert.point));
+      }
+    }
+  }
+
+  const indexA = findPathIndex(path, start.point);
+  const indexB = findPathIndex(path, end.point);
+  if (indexA < 0 || indexB < 0 || indexA === indexB) {
+    return { type: 'error', reason: 'invalid-intersection-count' };
+  }
+
+  const chainAB = buildPathSegment(path, indexA, indexB);
+  const chainBA = buildPathSegment(path, indexB, indexA);
+  if (chainAB.length === 0 || chainBA.length === 0) {
+    return { type: 'error', reason: 'invalid-intersection-count' };
+  }
+
+  const interior = chord.slice(1, -1).map(clonePosition);
+  const ringA = normalizeRing([...chainAB, ...[...interior].reverse()]);
+  const ringB = normalizeRing([...chainBA, ...interior]);
+  if (!ringA || !ringB) {
+    return { type: 'error', reason: 'invalid-intersection-count' };
+  }
+
+  if (hasRingSelfIntersection(ringA) || hasRingSelfIntersection(ringB)) {
+    return { type: 'error', reason: 'self-intersecting-result' };
+  }
+
+  return { type: 'success', rings: [ringA, ringB] };
+}
+
 /**
  * Reason why a split operation failed.
  */
 export type SplitFailReason =
   | 'same-points'
   | 'insufficient-vertices'
-  | 'has-holes'
   | 'invalid-intersection-count'
   | 'self-intersecting-result';
 
+/**
+ * A split piece. It is a MultiPolygon only when a hole of the source
+ * polygon divides the piece.
+ */
+type SplitPiece = LibreDrawFeature<PolygonGeometry | MultiPolygonGeometry>;
+
 /**
  * Result of a split operation.
  * - `success`: the split produced two valid features.
  * - `error`: the split failed for a specific reason.
  */
 export type SplitResult =
-  | { type: 'success'; features: [LibreDrawFeature, LibreDrawFeature] }
+  | { type: 'success'; features: [SplitPiece, SplitPiece] }
   | { type: 'error'; reason: SplitFailReason };
 
+/**
+ * Turn split outer rings into features with the source polygon's
+ * properties, cutting its holes out of each piece. A hole crossed by the
+ * split line is shared between the pieces. Returns null when a piece is
+ * covered by holes entirely.
+ */
+function buildPieces(
+  rings: Position[][],
+  holes: Position[][],
+  source: LibreDrawFeature,
+): SplitPiece[] | null {
+  const pieces: SplitPiece[] = [];
+  for (const ring of rings) {
+    const geometry = subtractHoles(ring, holes);
+    if (!geometry) return null;
+
+    pieces.push({
+      id: crypto.randomUUID(),
+      type: 'Feature',
+      geometry,
+      properties: clonePropertiesWithoutCircle(source.properties),
+    });
+  }
+  return pieces;
+}
+
 /**
  * Split a polygon by a line segment defined by two points.
+ * Holes are cut out of the resulting pieces.
  * Returns a SplitResult indicating success or failure with reason.
  */
 export function splitPolygon(
-  feature: LibreDrawFeature,
+  feature: LibreDrawFeature<PolygonGeometry>,
   lineStart: Position,
   lineEnd: Position,
 ): SplitResult {
@@ -167,11 +300,7 @@ export function splitPolygon(
     return { type: 'error', reason: 'same-points' };
   }
 
-  if (feature.geometry.coordinates.length > 1) {
-    return { type: 'error', reason: 'has-holes' };
-  }
-
-  const ring = feature.geometry.coordinates[0];
+  const [ring, ...holes] = feature.geometry.coordinates;
   const vertices = ring.slice(0, ring.length - 1);
   if (vertices.length < 3) {
     return { type: 'error', reason: 'insufficient-vertices' };
@@ -217,76 +346,150 @@ export function splitPolygon(
     return { type: 'error', reason: 'invalid-intersection-count' };
   }
 
-  const pointsOnEdge = new Map<number, EdgeIntersection[]>();
-  for (const intersection of uniqueIntersections) {
-    for (const occ of intersection.occurrences) {
-      if (occ.t > EPSILON && occ.t < 1 - EPSILON) {
-        const list = pointsOnEdge.get(occ.edgeIndex) ?? [];
-        list.push(occ);
-        pointsOnEdge.set(occ.edgeIndex, list);
-      }
-    }
+  const ringSplit = splitRingByChord(vertices, [
+    uniqueIntersections[0].point,
+    uniqueIntersections[1].point,
+  ]);
+  if (ringSplit.type === 'error') {
+    return ringSplit;
   }
-
-  for (const list of pointsOnEdge.values()) {
-    list.sort((a, b) => a.t - b.t);
+  const pieces = buildPieces(ringSplit.rings, holes, feature);
+  if (!pieces) {
+    return { type: 'error', reason: 'invalid-intersection-count' };
   }
 
-  const path: Position[] = [];
-  for (let i = 0; i < vertices.length; i++) {
-    path.push(clonePosition(vertices[i]));
+  return { type: 'success', features: [pieces[0], pieces[1]] };
+}
 
-    const inserts = pointsOnEdge.get(i);
-    if (!inserts) continue;
+/**
+ * Result of splitting a polygon with a polyline.
+ * - `success`: the split produced two or more valid features.
+ * - `error`: the split failed for a specific reason.
+ */
+export type PolylineSplitResult =
+  | { type: 'success'; features: SplitPiece[] }
+  | { type: 'error'; reason: SplitFailReason };
 
-    for (const insert of inserts) {
-      if (!positionsEqual(path[path.length - 1], insert.point)) {
-        path.push(clonePosition(insert.point));
+/** Whether a point lies strictly inside a ring (vertices without closing point). */
+function isInsideRing(vertices: Position[], point: Position): boolean {
+  return booleanPointInPolygon(
+    turfPoint([point[0], point[1]]),
+    { type: 'Polygon', coordinates: [[...vertices, vertices[0]]] },
+    { ignoreBoundary: true },
+  );
+}
+
+/**
+ * Cut a polyline into chords: the parts between two consecutive boundary
+ * crossings that run through the inside of the ring.
+ */
+function findChords(vertices: Position[], line: Position[]): Position[][] {
+  const crossings: { point: Position; along: number }[] = [];
+
+  for (let j = 0; j < line.length - 1; j++) {
+    for (let i = 0; i < vertices.length; i++) {
+      const point = computeIntersectionPoint(
+        vertices[i],
+        vertices[(i + 1) % vertices.length],
+        line[j],
+        line[j + 1],
+      );
+      if (!point) continue;
+
+      const along = j + Math.min(1, Math.max(0, edgeParameter(line[j], line[j + 1], point)));
+      if (!crossings.some((c) => positionsEqual(c.point, point) && almostEqual(c.along, along))) {
+        crossings.push({ point: clonePosition(point), along });
       }
     }
   }
+  crossings.sort((a, b) => a.along - b.along);
+
+  const chords: Position[][] = [];
+  for (let k = 0; k < crossings.length - 1; k++) {
+    const from = crossings[k];
+    const to = crossings[k + 1];
+    if (positionsEqual(from.point, to.point)) continue;
+
+    const chord: Position[] = [from.point];
+    for (let j = Math.floor(from.along) + 1; j < to.along - EPSILON; j++) {
+      if (!positionsEqual(chord[chord.length - 1], line[j])) {
+        chord.push(clonePosition(line[j]));
+      }
+    }
+    chord.push(to.point);
 
-  const indexA = findPathIndex(path, uniqueIntersections[0].point);
-  const indexB = findPathIndex(path, uniqueIntersections[1].point);
-  if (indexA < 0 || indexB < 0 || indexA === indexB) {
-    return { type: 'error', reason: 'invalid-intersection-count' };
+    const [a, b] = chord;
+    if (isInsideRing(vertices, [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2])) {
+      chords.push(chord);
+    }
   }
+  return chords;
+}
 
-  const chainAB = buildPathSegment(path, indexA, indexB);
-  const chainBA = buildPathSegment(path, indexB, indexA);
-  if (chainAB.length === 0 || chainBA.length === 0) {
-    return { type: 'error', reason: 'invalid-intersection-count' };
+/**
+ * Split a polygon by a polyline with any number of vertices.
+ *
+ * Every part of the line that runs through the polygon from one boundary
+ * crossing to the next cuts it, so the result may have more than two
+ * pieces. Line ends that stop inside the polygon are ignored. Holes are
+ * cut out of the resulting pieces.
+ */
+export function splitPolygonByLine(
+  feature: LibreDrawFeature<PolygonGeometry>,
+  line: Position[],
+): PolylineSplitResult {
+  const points: Position[] = [];
+  for (const point of line) {
+    if (points.length === 0 || !positionsEqual(points[points.length - 1], point)) {
+      points.push(clonePosition(point));
+    }
+  }
+  if (points.length < 2) {
+    return { type: 'error', reason: 'same-points' };
   }
 
-  const ringA = normalizeRing(chainAB);
-  const ringB = normalizeRing(chainBA);
-  if (!ringA || !ringB) {
+  const [ring, ...holes] = feature.geometry.coordinates;
+  const vertices = ring.slice(0, ring.length - 1);
+  if (vertices.length < 3) {
+    return { type: 'error', reason: 'insufficient-vertices' };
+  }
+
+  const chords = findChords(vertices, points);
+  if (chords.length === 0) {
     return { type: 'error', reason: 'invalid-intersection-count' };
   }
 
-  if (hasRingSelfIntersection(ringA) || hasRingSelfIntersection(ringB)) {
-    return { type: 'error', reason: 'self-intersecting-result' };
+  // Each chord lies inside exactly one of the pieces cut so far.
+  let pieces: Position[][] = [vertices];
+  for (const chord of chords) {
+    const [a, b] = chord;
+    const midpoint: Position = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+    const index = pieces.findIndex(
+      (piece) =>
+        locateOnRing(piece, a) !== null &&
+        locateOnRing(piece, chord[chord.length - 1]) !== null &&
+        isInsideRing(piece, midpoint),
+    );
+    if (index < 0) {
+      return { type: 'error', reason: 'invalid-intersection-count' };
+    }
+
+    const ringSplit = splitRingByChord(pieces[index], chord);
+    if (ringSplit.type === 'error') {
+      return ringSplit;
+    }
+    const open = ringSplit.rings.map((r) => r.slice(0, r.length - 1));
+    pieces = [...pieces.slice(0, index), ...open, ...pieces.slice(index + 1)];
+  }
+
+  const features = buildPieces(
+    pieces.map((piece) => [...piece, clonePosition(piece[0])]),
+    holes,
+    feature,
+  );
+  if (!features) {
+    return { type: 'error', reason: 'invalid-intersection-count' };
   }
 
-  const featureA: LibreDrawFeature = {
-    id: crypto.randomUUID(),
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [ringA],
-    },
-    properties: cloneProperties(feature.properties),
-  };
-
-  const featureB: LibreDrawFeature = {
-    id: crypto.randomUUID(),
-    type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: [ringB],
-    },
-    properties: cloneProperties(feature.properties),
-  };
-
-  return { type: 'success', features: [featureA, featureB] };
+  return { type: 'success', features };
 }
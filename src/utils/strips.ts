@@ -0,0 +1,250 @@
+import intersect from '@turf/intersect';
+import { featureCollection, polygon, feature as turfFeature } from '@turf/helpers';
+import type {
+  LibreDrawFeature,
+  MultiPolygonGeometry,
+  PolygonGeometry,
+  Position,
+} from '../types/features';
+import { clonePropertiesWithoutCircle } from './circle';
+import { getVertices, isPolygonFeature } from './geometry';
+import { toPolygonalGeometry } from './polygonOps';
+import { computeInwardNormal } from './setback';
+
+const EARTH_RADIUS_METERS = 6371008.8;
+const BISECTION_STEPS = 60;
+// Cut bands overhang the polygon so its outermost boundary is never clipped.
+const BAND_MARGIN_METERS = 1;
+
+/**
+ * Upper bound on the number of strips, so a tiny target width cannot
+ * produce an unbounded amount of work.
+ */
+export const MAX_STRIP_COUNT = 500;
+
+/**
+ * How to divide a polygon into strips: a fixed number of strips, or a
+ * target strip width in meters measured perpendicular to the chosen edge.
+ * With a width, the count is the polygon's depth divided by the width,
+ * rounded to the nearest whole number.
+ */
+export type StripOptions = { count: number } | { width: number };
+
+/**
+ * Reason why a strip split failed.
+ * - `not-polygon`: the feature is not a Polygon.
+ * - `invalid-edge`: the edge index is out of range or the edge is too short.
+ * - `invalid-count`: fewer than two or more than {@link MAX_STRIP_COUNT} strips.
+ * - `invalid-split`: a strip came out empty.
+ */
+export type StripFailReason = 'not-polygon' | 'invalid-edge' | 'invalid-count' | 'invalid-split';
+
+/**
+ * Strip feature; a strip is a MultiPolygon when a concave part or a hole
+ * divides it.
+ */
+export type StripFeature = LibreDrawFeature<PolygonGeometry | MultiPolygonGeometry>;
+
+/**
+ * Result of a strip split.
+ * - `success`: the strips ordered from the chosen edge, plus the cut lines
+ *   between them (useful as a preview).
+ * - `error`: the split failed for a specific reason.
+ */
+export type StripResult =
+  | { type: 'success'; features: StripFeature[]; cutLines: [Position, Position][] }
+  | { type: 'error'; reason: StripFailReason };
+
+/**
+ * Local planar frame in meters: `along` follows the chosen edge and
+ * `depth` points into the polygon.
+ */
+interface StripFrame {
+  toLocal(position: Position): Position;
+  toLngLat(along: number, depth: number): Position;
+}
+
+/** Build an equirectangular frame anchored at the edge start. */
+function createFrame(edgeStart: Position, edgeEnd: Position, vertices: Position[]): StripFrame {
+  const [lng0, lat0] = edgeStart;
+  const ky = (EARTH_RADIUS_METERS * Math.PI) / 180;
+  const kx = ky * Math.cos((lat0 * Math.PI) / 180);
+  const project = (p: Position): Position => [(p[0] - lng0) * kx, (p[1] - lat0) * ky];
+
+  const a = project(edgeStart);
+  const b = project(edgeEnd);
+  const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+  const u: Position = [(b[0] - a[0]) / length, (b[1] - a[1]) / length];
+  const n = computeInwardNormal(a, b, vertices.map(project));
+
+  return {
+    toLocal(position) {
+      const q = project(position);
+      return [q[0] * u[0] + q[1] * u[1], q[0] * n[0] + q[1] * n[1]];
+    },
+    toLngLat(along, depth) {
+      const x = along * u[0] + depth * n[0];
+      const y = along * u[1] + depth * n[1];
+      return [lng0 + x / kx, lat0 + y / ky];
+    },
+  };
+}
+
+/** Clip a ring (in frame coordinates) to the half-plane `depth <= limit`. */
+function clipRing(ring: Position[], limit: number): Position[] {
+  const clipped: Position[] = [];
+  for (let i = 0; i < ring.length; i++) {
+    const current = ring[i];
+    const next = ring[(i + 1) % ring.length];
+    const currentInside = current[1] <= limit;
+    const nextInside = next[1] <= limit;
+
+    if (currentInside) clipped.push(current);
+    if (currentInside !== nextInside) {
+      const t = (limit - current[1]) / (next[1] - current[1]);
+      clipped.push([current[0] + (next[0] - current[0]) * t, limit]);
+    }
+  }
+  return clipped;
+}
+
+/** Absolute shoelace area of an open ring. */
+function ringArea(ring: Position[]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const next = (i + 1) % ring.length;
+    area += ring[i][0] * ring[next][1] - ring[next][0] * ring[i][1];
+  }
+  return Math.abs(area / 2);
+}
+
+/** Area (square meters) of the polygon part no deeper than `limit`. */
+function areaUpTo(rings: Position[][], limit: number): number {
+  const [outer, ...holes] = rings;
+  return holes.reduce(
+    (area, hole) => area - ringArea(clipRing(hole, limit)),
+    ringArea(clipRing(outer, limit)),
+  );
+}
+
+/** Find the depth at which the area up to it reaches the target area. */
+function findCutDepth(rings: Position[][], target: number, min: number, max: number): number {
+  let low = min;
+  let high = max;
+  for (let i = 0; i < BISECTION_STEPS; i++) {
+    const mid = (low + high) / 2;
+    if (areaUpTo(rings, mid) < target) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/** Resolve the strip count from the options and the polygon depth. */
+function resolveCount(options: StripOptions, depth: number): number {
+  if ('count' in options) {
+    return Number.isInteger(options.count) ? options.count : NaN;
+  }
+  return options.width > 0 ? Math.round(depth / options.width) : NaN;
+}
+
+/**
+ * Divide a polygon into strips of equal area parallel to one of its edges,
+ * for example the plots of a planting trial.
+ *
+ * Strips are numbered from the chosen edge: each gets a new ID, the
+ * original properties and a `stripIndex` property (0 at the edge).
+ * Distances and areas are measured in a local projection around the
+ * edge, which is accurate for field-sized polygons.
+ *
+ * @param feature - The polygon to divide; holes are kept.
+ * @param edgeIndex - Index of the outer-ring edge the strips run along.
+ * @param options - Number of strips, or a target width in meters.
+ */
+export function splitIntoStrips(
+  feature: LibreDrawFeature,
+  edgeIndex: number,
+  options: StripOptions,
+): StripResult {
+  if (!isPolygonFeature(feature)) {
+    return { type: 'error', reason: 'not-polygon' };
+  }
+
+  const vertices = getVertices(feature);
+  if (!Number.isInteger(edgeIndex) || edgeIndex < 0 || edgeIndex >= vertices.length) {
+    return { type: 'error', reason: 'invalid-edge' };
+  }
+
+  let frame: StripFrame;
+  try {
+    frame = createFrame(vertices[edgeIndex], vertices[(edgeIndex + 1) % vertices.length], vertices);
+  } catch {
+    return { type: 'error', reason: 'invalid-edge' };
+  }
+
+  const rings = feature.geometry.coordinates.map((ring) =>
+    ring.slice(0, -1).map((p) => frame.toLocal(p)),
+  );
+  const alongs = rings[0].map((p) => p[0]);
+  const depths = rings[0].map((p) => p[1]);
+  const minAlong = Math.min(...alongs);
+  const maxAlong = Math.max(...alongs);
+  const minDepth = Math.min(...depths);
+  const maxDepth = Math.max(...depths);
+
+  const count = resolveCount(options, maxDepth - minDepth);
+  if (!(count >= 2 && count <= MAX_STRIP_COUNT)) {
+    return { type: 'error', reason: 'invalid-count' };
+  }
+
+  const totalArea = areaUpTo(rings, maxDepth);
+  const cuts: number[] = [];
+  for (let i = 1; i < count; i++) {
+    cuts.push(findCutDepth(rings, (totalArea * i) / count, minDepth, maxDepth));
+  }
+
+  const bandStart = minAlong - BAND_MARGIN_METERS;
+  const bandEnd = maxAlong + BAND_MARGIN_METERS;
+  const limits = [minDepth - BAND_MARGIN_METERS, ...cuts, maxDepth + BAND_MARGIN_METERS];
+  const source = turfFeature(feature.geometry);
+  const features: StripFeature[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const near = limits[i];
+    const far = limits[i + 1];
+    const band = polygon([
+      [
+        frame.toLngLat(bandStart, near),
+        frame.toLngLat(bandEnd, near),
+        frame.toLngLat(bandEnd, far),
+        frame.toLngLat(bandStart, far),
+        frame.toLngLat(bandStart, near),
+      ],
+    ]);
+
+    const strip = intersect(
+      featureCollection<GeoJSON.Polygon | GeoJSON.MultiPolygon>([source, band]),
+    );
+    if (!strip) {
+      return { type: 'error', reason: 'invalid-split' };
+    }
+
+    features.push({
+      id: crypto.randomUUID(),
+      type: 'Feature',
+      geometry: toPolygonalGeometry(strip.geometry),
+      properties: { ...clonePropertiesWithoutCircle(feature.properties), stripIndex: i },
+    });
+  }
+
+  return {
+    type: 'success',
+    features,
+    cutLines: cuts.map((depth) => [
+      frame.toLngLat(minAlong, depth),
+      frame.toLngLat(maxAlong, depth),
+    ]),
+  };
+}
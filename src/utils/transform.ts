@@ -0,0 +1,261 @@
+import type { LibreDrawFeature, Position } from '../types/features';
+import { getCircle } from './circle';
+import { getPolygonParts } from './geometry';
+
+/**
+ * Angle step in degrees for snapped rotation (Shift held).
+ */
+export const ROTATION_SNAP_DEGREES = 15;
+
+// Distance of the rotation handle above the bounding box, as a share of its size.
+const ROTATION_HANDLE_OFFSET_RATIO = 0.2;
+// Scale handles sit on the bounding box grown by this share of its size, so
+// they do not cover the vertices of rectangles.
+const SCALE_HANDLE_PADDING_RATIO = 0.1;
+
+/**
+ * Kind of a transform handle shown around a selected feature.
+ */
+export type TransformHandleKind = 'rotate' | 'scale';
+
+/**
+ * Axes a scale handle resizes: both for corner handles, one for edge handles.
+ */
+export type ScaleAxes = 'x' | 'y' | 'xy';
+
+/**
+ * A transform handle and its geographic position. Scale handles also carry
+ * the axes they resize and their anchor: the opposite corner or edge
+ * midpoint of the bounding box.
+ */
+export type TransformHandle =
+  | { kind: 'rotate'; position: Position }
+  | { kind: 'scale'; position: Position; axes: ScaleAxes; anchor: Position };
+
+/**
+ * Whether a feature can be rotated and scaled as a whole: polygons,
+ * multipolygons and lines. Points have no extent, and circles are resized
+ * with their radius handle.
+ */
+export function isTransformable(feature: LibreDrawFeature): boolean {
+  return feature.geometry.type !== 'Point' && !getCircle(feature);
+}
+
+/**
+ * Distinct positions of a feature, without the closing position of rings.
+ */
+export function getDistinctPositions(feature: LibreDrawFeature): Position[] {
+  const geometry = feature.geometry;
+  switch (geometry.type) {
+    case 'Point':
+      return [geometry.coordinates];
+    case 'LineString':
+      return geometry.coordinates;
+    case 'Polygon':
+    case 'MultiPolygon':
+      return getPolygonParts(geometry).flatMap((rings) =>
+        rings.flatMap((ring) => ring.slice(0, -1)),
+      );
+  }
+}
+
+/**
+ * Center of a feature. For polygons this is the area-weighted centroid of
+ * the outer rings, so unevenly spaced vertices do not pull it aside; for
+ * lines, or polygons without area, it is the mean of the distinct vertices.
+ */
+export function getFeatureCenter(feature: LibreDrawFeature): Position {
+  const geometry = feature.geometry;
+  if (geometry.type === 'Polygon' || geometry.type === 'MultiPolygon') {
+    const centroid = getOuterRingsCentroid(getPolygonParts(geometry).map(([outer]) => outer));
+    if (centroid) return centroid;
+  }
+
+  const positions = getDistinctPositions(feature);
+  const sum = positions.reduce<Position>(
+    (acc, position) => [acc[0] + position[0], acc[1] + position[1]],
+    [0, 0],
+  );
+  return [sum[0] / positions.length, sum[1] / positions.length];
+}
+
+/**
+ * Area-weighted centroid of closed rings (shoelace formula), measured from
+ * the first vertex to keep precision. Null when the rings have no area.
+ */
+function getOuterRingsCentroid(rings: Position[][]): Position | null {
+  const origin = rings[0]?.[0];
+  if (!origin) return null;
+
+  let area = 0;
+  let x = 0;
+  let y = 0;
+  for (const ring of rings) {
+    // Orientation can differ between parts; weight each by its own signed area
+    let ringArea = 0;
+    let ringX = 0;
+    let ringY = 0;
+    for (let i = 0; i < ring.length - 1; i++) {
+      const x0 = ring[i][0] - origin[0];
+      const y0 = ring[i][1] - origin[1];
+      const x1 = ring[i + 1][0] - origin[0];
+      const y1 = ring[i + 1][1] - origin[1];
+      const cross = x0 * y1 - x1 * y0;
+      ringArea += cross;
+      ringX += (x0 + x1) * cross;
+      ringY += (y0 + y1) * cross;
+    }
+    const sign = ringArea < 0 ? -1 : 1;
+    area += ringArea * sign;
+    x += ringX * sign;
+    y += ringY * sign;
+  }
+
+  if (area === 0) return null;
+  return [origin[0] + x / (3 * area), origin[1] + y / (3 * area)];
+}
+
+/**
+ * Bounding box of a feature as `[southWest, northEast]`.
+ */
+export function getFeatureBounds(feature: LibreDrawFeature): [Position, Position] {
+  const positions = getDistinctPositions(feature);
+  const lngs = positions.map((position) => position[0]);
+  const lats = positions.map((position) => position[1]);
+  return [
+    [Math.min(...lngs), Math.min(...lats)],
+    [Math.max(...lngs), Math.max(...lats)],
+  ];
+}
+
+/**
+ * Combined bounding box of several features as `[southWest, northEast]`.
+ */
+export function getFeaturesBounds(features: LibreDrawFeature[]): [Position, Position] {
+  const bounds = features.map((feature) => getFeatureBounds(feature));
+  return [
+    [Math.min(...bounds.map(([sw]) => sw[0])), Math.min(...bounds.map(([sw]) => sw[1]))],
+    [Math.max(...bounds.map(([, ne]) => ne[0])), Math.max(...bounds.map(([, ne]) => ne[1]))],
+  ];
+}
+
+/**
+ * Transform handles for a selected feature: a rotation handle centered
+ * above the bounding box, and scale handles at the corners and edge
+ * midpoints of the slightly grown bounding box. Returns an empty list for
+ * features that cannot be transformed.
+ */
+export function getTransformHandles(feature: LibreDrawFeature): TransformHandle[] {
+  if (!isTransformable(feature)) return [];
+
+  const [[west, south], [east, north]] = getFeatureBounds(feature);
+  const k = Math.cos((((south + north) / 2) * Math.PI) / 180);
+  const size = Math.max((east - west) * k, north - south);
+  const padLat = size * SCALE_HANDLE_PADDING_RATIO;
+  const padLng = padLat / k;
+  const midLng = (west + east) / 2;
+  const midLat = (south + north) / 2;
+
+  const scale = (position: Position, axes: ScaleAxes, anchor: Position): TransformHandle => ({
+    kind: 'scale',
+    position,
+    axes,
+    anchor,
+  });
+
+  return [
+    { kind: 'rotate', position: [midLng, north + size * ROTATION_HANDLE_OFFSET_RATIO] },
+    scale([west - padLng, south - padLat], 'xy', [east, north]),
+    scale([east + padLng, south - padLat], 'xy', [west, north]),
+    scale([east + padLng, north + padLat], 'xy', [west, south]),
+    scale([west - padLng, north + padLat], 'xy', [east, south]),
+    scale([midLng, south - padLat], 'y', [midLng, north]),
+    scale([east + padLng, midLat], 'x', [west, midLat]),
+    scale([midLng, north + padLat], 'y', [midLng, south]),
+    scale([west - padLng, midLat], 'x', [east, midLat]),
+  ];
+}
+
+/**
+ * Round an angle to the nearest multiple of `step` degrees.
+ */
+export function snapAngle(angle: number, step: number = ROTATION_SNAP_DEGREES): number {
+  return Math.round(angle / step) * step;
+}
+
+/**
+ * Create a new feature with every position mapped by `transform`.
+ */
+function mapFeaturePositions(
+  feature: LibreDrawFeature,
+  transform: (position: Position) => Position,
+): LibreDrawFeature {
+  const mapRings = (rings: Position[][]): Position[][] =>
+    rings.map((ring) => ring.map(transform));
+
+  const geometry = feature.geometry;
+  switch (geometry.type) {
+    case 'Point':
+      return {
+        ...feature,
+        geometry: { type: 'Point', coordinates: transform(geometry.coordinates) },
+      };
+    case 'LineString':
+      return {
+        ...feature,
+        geometry: { type: 'LineString', coordinates: geometry.coordinates.map(transform) },
+      };
+    case 'Polygon':
+      return {
+        ...feature,
+        geometry: { type: 'Polygon', coordinates: mapRings(geometry.coordinates) },
+      };
+    case 'MultiPolygon':
+      return {
+        ...feature,
+        geometry: { type: 'MultiPolygon', coordinates: geometry.coordinates.map(mapRings) },
+      };
+  }
+}
+
+/**
+ * Create a new feature rotated clockwise by `angle` degrees around `center`.
+ *
+ * Computed in a local equirectangular plane around the center, so shapes
+ * keep their angles at plot scale.
+ */
+export function rotateFeature(
+  feature: LibreDrawFeature,
+  angle: number,
+  center: Position,
+): LibreDrawFeature {
+  const k = Math.cos((center[1] * Math.PI) / 180);
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+
+  return mapFeaturePositions(feature, (position) => {
+    const x = (position[0] - center[0]) * k;
+    const y = position[1] - center[1];
+    return [center[0] + (x * cos + y * sin) / k, center[1] - x * sin + y * cos];
+  });
+}
+
+/**
+ * Create a new feature scaled by `scaleX` (east-west) and `scaleY`
+ * (north-south) about `origin`.
+ *
+ * Scaling along the axes of a local equirectangular plane is the same as
+ * scaling the longitude and latitude offsets from the origin.
+ */
+export function scaleFeature(
+  feature: LibreDrawFeature,
+  scaleX: number,
+  scaleY: number,
+  origin: Position,
+): LibreDrawFeature {
+  return mapFeaturePositions(feature, (position) => [
+    origin[0] + (position[0] - origin[0]) * scaleX,
+    origin[1] + (position[1] - origin[1]) * scaleY,
+  ]);
+}
@@ -0,0 +1,42 @@
+import destination from '@turf/destination';
+import { point as turfPoint } from '@turf/helpers';
+import type { Position } from '../types/features';
+import type { TypedVertex } from '../types/input';
+import { planarBearing } from './angle';
+
+/**
+ * Resolve a typed vertex to a position.
+ *
+ * Length/bearing and length/angle input are measured geodesically from the
+ * last vertex, so they need at least one vertex. Returns null when the
+ * input cannot be resolved (no previous vertex, non-positive length or
+ * out-of-range coordinates).
+ * @param vertex - The typed input.
+ * @param vertices - The vertices placed so far.
+ */
+export function resolveTypedVertex(vertex: TypedVertex, vertices: Position[]): Position | null {
+  if (vertex.type === 'lnglat') {
+    const { lng, lat } = vertex;
+    if (!Number.isFinite(lng) || !Number.isFinite(lat)) return null;
+    if (lng < -180 || lng > 180 || lat < -90 || lat > 90) return null;
+    return [lng, lat];
+  }
+
+  const anchor = vertices[vertices.length - 1];
+  if (!anchor || !(vertex.distance > 0)) return null;
+
+  let bearing: number;
+  if (vertex.type === 'bearing') {
+    bearing = vertex.bearing;
+  } else {
+    const previous = vertices[vertices.length - 2];
+    bearing = (previous ? planarBearing(previous, anchor) : 0) + vertex.angle;
+  }
+  if (!Number.isFinite(bearing)) return null;
+
+  const target = destination(turfPoint(anchor), vertex.distance, bearing, {
+    units: 'meters',
+  });
+  const [lng, lat] = target.geometry.coordinates;
+  return [lng, lat];
+}
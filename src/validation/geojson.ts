@@ -1,4 +1,8 @@
-import type { LibreDrawFeature, Position } from '../types/features';
+import type {
+  LibreDrawFeature,
+  LibreDrawGeometry,
+  Position,
+} from '../types/features';
 import { LibreDrawError } from '../core/errors';
 import { hasRingSelfIntersection } from './intersection';
 import { deepCloneValue } from '../utils/featureSnapshot';
@@ -81,9 +85,145 @@ function validateRing(ring: Position[]): void {
   }
 }
 
+/**
+ * Validate that a line (array of positions) is a valid LineString.
+ * A valid line must have at least 2 positions.
+ * @param line - The line to validate.
+ */
+function validateLine(line: Position[]): void {
+  if (line.length < 2) {
+    throw new LibreDrawError(
+      `LineString must have at least 2 positions (got ${line.length}).`,
+    );
+  }
+
+  for (const pos of line) {
+    if (!Array.isArray(pos) || pos.length < 2) {
+      throw new LibreDrawError(
+        'Each position in a LineString must be an array of at least 2 numbers.',
+      );
+    }
+    validateCoordinate(pos as Position);
+  }
+}
+
+/**
+ * Validate that a Point has a single [lng, lat] position.
+ * @param position - The point coordinates to validate.
+ */
+function validatePoint(position: Position): void {
+  if (position.length < 2) {
+    throw new LibreDrawError(
+      'Point coordinates must be an array of at least 2 numbers.',
+    );
+  }
+  validateCoordinate(position);
+}
+
+/**
+ * Validate Polygon coordinates and return a normalized copy.
+ */
+function validatePolygonCoordinates(coordinates: Position[][]): Position[][] {
+  if (coordinates.length === 0) {
+    throw new LibreDrawError(
+      'Polygon must have at least one ring (outer ring).',
+    );
+  }
+
+  for (const ring of coordinates) {
+    validateRing(ring);
+  }
+
+  return coordinates.map((ring) =>
+    ring.map((position) => [position[0], position[1]] as Position),
+  );
+}
+
+/**
+ * Validate MultiPolygon coordinates and return a normalized copy.
+ * Each part must be a valid Polygon coordinate array.
+ */
+function validateMultiPolygonCoordinates(
+  coordinates: Position[][][],
+): Position[][][] {
+  if (coordinates.length === 0) {
+    throw new LibreDrawError('MultiPolygon must have at least one polygon.');
+  }
+
+  return coordinates.map((part, i) => {
+    if (!Array.isArray(part)) {
+      throw new LibreDrawError(
+        `MultiPolygon part ${i} must be an array of rings.`,
+      );
+    }
+    try {
+      return validatePolygonCoordinates(part);
+    } catch (err) {
+      if (err instanceof LibreDrawError) {
+        throw new LibreDrawError(`MultiPolygon part ${i}: ${err.message}`);
+      }
+      throw err;
+    }
+  });
+}
+
+/**
+ * Validate a geometry object and return a normalized copy.
+ */
+function validateGeometry(geom: Record<string, unknown>): LibreDrawGeometry {
+  if (
+    geom.type !== 'Polygon' &&
+    geom.type !== 'MultiPolygon' &&
+    geom.type !== 'LineString' &&
+    geom.type !== 'Point'
+  ) {
+    throw new LibreDrawError(
+      `Feature.geometry.type must be "Polygon", "MultiPolygon", "LineString" or "Point", got "${String(geom.type)}".`,
+    );
+  }
+
+  if (!Array.isArray(geom.coordinates)) {
+    throw new LibreDrawError(
+      'Feature.geometry.coordinates must be an array.',
+    );
+  }
+
+  if (geom.type === 'Point') {
+    const position = geom.coordinates as Position;
+    validatePoint(position);
+    return {
+      type: 'Point',
+      coordinates: [position[0], position[1]],
+    };
+  }
+
+  if (geom.type === 'LineString') {
+    const line = geom.coordinates as Position[];
+    validateLine(line);
+    return {
+      type: 'LineString',
+      coordinates: line.map((position) => [position[0], position[1]] as Position),
+    };
+  }
+
+  if (geom.type === 'MultiPolygon') {
+    return {
+      type: 'MultiPolygon',
+      coordinates: validateMultiPolygonCoordinates(
+        geom.coordinates as Position[][][],
+      ),
+    };
+  }
+
+  return {
+    type: 'Polygon',
+    coordinates: validatePolygonCoordinates(geom.coordinates as Position[][]),
+  };
+}
+
 /**
  * Validate a single GeoJSON-like object as a valid LibreDraw Feature
- * with Polygon geometry.
+ * with Polygon, MultiPolygon, LineString or Point geometry.
  * @param feature - The object to validate.
  * @returns The validated feature.
  * @throws LibreDrawError if the feature is invalid.
@@ -113,30 +253,7 @@ export function validateFeature(feature: unknown): LibreDrawFeature {
     throw new LibreDrawError('Feature.geometry must be a non-null object.');
   }
 
-  const geom = f.geometry as Record<string, unknown>;
-
-  if (geom.type !== 'Polygon') {
-    throw new LibreDrawError(
-      `Feature.geometry.type must be "Polygon", got "${String(geom.type)}".`,
-    );
-  }
-
-  if (!Array.isArray(geom.coordinates)) {
-    throw new LibreDrawError(
-      'Feature.geometry.coordinates must be an array.',
-    );
-  }
-
-  const coordinates = geom.coordinates as Position[][];
-  if (coordinates.length === 0) {
-    throw new LibreDrawError(
-      'Polygon must have at least one ring (outer ring).',
-    );
-  }
-
-  for (const ring of coordinates) {
-    validateRing(ring);
-  }
+  const geometry = validateGeometry(f.geometry as Record<string, unknown>);
 
   const id = typeof f.id === 'string' ? f.id : '';
   const propertiesRaw = f.properties;
@@ -151,19 +268,15 @@ export function validateFeature(feature: unknown): LibreDrawFeature {
   return {
     id,
     type: 'Feature',
-    geometry: {
-      type: 'Polygon',
-      coordinates: coordinates.map((ring) =>
-        ring.map((position) => [position[0], position[1]] as Position),
-      ),
-    },
+    geometry,
     properties,
   };
 }
 
 /**
  * Validate that an unknown value is a valid GeoJSON FeatureCollection
- * containing only valid Polygon features.
+ * containing only valid Polygon, MultiPolygon, LineString or
+ * Point features.
  * @param geojson - The value to validate.
  * @returns The validated FeatureCollection.
  * @throws LibreDrawError if the value is invalid.
@@ -173,3 +173,22 @@ export function wouldClosingCauseIntersection(vertices: Position[]): boolean {
 
   return false;
 }
+
+/**
+ * Check if any edge of one closed ring crosses an edge of another.
+ * Both rings should include their closing point.
+ * @param a - The first ring.
+ * @param b - The second ring.
+ * @returns True if the rings' boundaries cross.
+ */
+export function doRingsIntersect(a: Position[], b: Position[]): boolean {
+  for (let i = 0; i < a.length - 1; i++) {
+    for (let j = 0; j < b.length - 1; j++) {
+      if (segmentsIntersect(a[i], a[i + 1], b[j], b[j + 1])) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
@@ -53,9 +53,14 @@ describe('Draw Flow Integration', () => {
         renderEdgeHighlight: vi.fn(),
         clearEdgeHighlight: vi.fn(),
         renderVertices: vi.fn(),
+        renderTransformHandles: vi.fn(),
         clearVertices: vi.fn(),
         setSelectedIds: vi.fn(),
       },
+      snapping: {
+        snap: (event) => [event.lngLat.lng, event.lngLat.lat],
+        clearIndicator: vi.fn(),
+      },
       getScreenPoint: (lngLat) => ({
         x: lngLat.lng * 10,
         y: lngLat.lat * 10,
@@ -8,6 +8,7 @@ import { IdleMode } from '../../src/modes/IdleMode';
 import { DrawMode } from '../../src/modes/DrawMode';
 import { SelectMode } from '../../src/modes/SelectMode';
 import { DeleteAction } from '../../src/types/features';
+import { getCircle, withCircle } from '../../src/utils/circle';
 import type { NormalizedInputEvent } from '../../src/types/input';
 
 function createPointerEvent(
@@ -50,9 +51,14 @@ describe('Edit Flow Integration', () => {
         renderEdgeHighlight: vi.fn(),
         clearEdgeHighlight: vi.fn(),
         renderVertices: vi.fn(),
+        renderTransformHandles: vi.fn(),
         clearVertices: vi.fn(),
         setSelectedIds: vi.fn(),
       },
+      snapping: {
+        snap: (event) => [event.lngLat.lng, event.lngLat.lat],
+        clearIndicator: vi.fn(),
+      },
       getScreenPoint: (lngLat) => ({
         x: lngLat.lng * 10,
         y: lngLat.lat * 10,
@@ -359,4 +365,245 @@ describe('Edit Flow Integration', () => {
     expect(selectMode.getSelectedIds()).toHaveLength(0);
     expect(store.getAll()).toHaveLength(0);
   });
+
+  it('should select a line by its stroke, drag a vertex, and undo', () => {
+    const { store, history, modeManager, selectMode } = createSystem();
+
+    store.add({
+      id: 'line-1',
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+        ],
+      },
+      properties: {},
+    });
+
+    modeManager.setMode('select');
+    const selectImpl = modeManager.getCurrentMode()!;
+
+    // Click near the first segment (0.5px away in screen space)
+    selectImpl.onPointerDown(createPointerEvent(5, 0.05));
+    expect(selectMode.getSelectedIds()).toEqual(['line-1']);
+
+    // Drag the last vertex
+    selectImpl.onPointerDown(createPointerEvent(10, 10));
+    selectImpl.onPointerMove(createPointerEvent(12, 12));
+    selectImpl.onPointerUp(createPointerEvent(12, 12));
+
+    expect(store.getById('line-1')!.geometry).toEqual({
+      type: 'LineString',
+      coordinates: [
+        [0, 0],
+        [10, 0],
+        [12, 12],
+      ],
+    });
+
+    history.undo(store);
+    expect(store.getById('line-1')!.geometry.coordinates).toEqual([
+      [0, 0],
+      [10, 0],
+      [10, 10],
+    ]);
+  });
+
+  it('should select a point marker and drag it as a whole, then undo', () => {
+    const { eventBus, store, history, modeManager, selectMode } = createSystem();
+    const onUpdate = vi.fn();
+    eventBus.on('update', onUpdate);
+
+    store.add({
+      id: 'point-1',
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [5, 5] },
+      properties: {},
+    });
+
+    modeManager.setMode('select');
+    const selectImpl = modeManager.getCurrentMode()!;
+
+    // Click within the marker hit radius (0.5px away)
+    selectImpl.onPointerDown(createPointerEvent(5.05, 5));
+    expect(selectMode.getSelectedIds()).toEqual(['point-1']);
+
+    selectImpl.onPointerDown(createPointerEvent(5, 5));
+    selectImpl.onPointerMove(createPointerEvent(7, 8));
+    selectImpl.onPointerUp(createPointerEvent(7, 8));
+
+    expect(store.getById('point-1')!.geometry).toEqual({
+      type: 'Point',
+      coordinates: [7, 8],
+    });
+    expect(onUpdate).toHaveBeenCalledTimes(1);
+
+    history.undo(store);
+    expect(store.getById('point-1')!.geometry).toEqual({
+      type: 'Point',
+      coordinates: [5, 5],
+    });
+  });
+
+  it('should select a MultiPolygon as one feature and edit its second part', () => {
+    const { store, history, modeManager, selectMode } = createSystem();
+
+    store.add({
+      id: 'multi-1',
+      type: 'Feature',
+      geometry: {
+        type: 'MultiPolygon',
+        coordinates: [
+          [
+            [
+              [0, 0],
+              [10, 0],
+              [10, 10],
+              [0, 10],
+              [0, 0],
+            ],
+          ],
+          [
+            [
+              [20, 0],
+              [30, 0],
+              [30, 10],
+              [20, 10],
+              [20, 0],
+            ],
+          ],
+        ],
+      },
+      properties: {},
+    });
+
+    modeManager.setMode('select');
+    const selectImpl = modeManager.getCurrentMode()!;
+
+    // Clicking inside either part selects the whole feature
+    selectImpl.onPointerDown(createPointerEvent(25, 5));
+    expect(selectMode.getSelectedIds()).toEqual(['multi-1']);
+
+    // Drag a vertex of the second part
+    selectImpl.onPointerDown(createPointerEvent(30, 10));
+    selectImpl.onPointerMove(createPointerEvent(32, 12));
+    selectImpl.onPointerUp(createPointerEvent(32, 12));
+
+    const edited = store.getById('multi-1')!;
+    expect(edited.geometry.type).toBe('MultiPolygon');
+    expect(edited.geometry.coordinates[1]).toEqual([
+      [
+        [20, 0],
+        [30, 0],
+        [32, 12],
+        [20, 10],
+        [20, 0],
+      ],
+    ]);
+
+    history.undo(store);
+    expect(
+      (store.getById('multi-1')!.geometry.coordinates[1] as number[][][])[0][2],
+    ).toEqual([30, 10]);
+  });
+
+  it('should edit a hole vertex and refuse to drag it across the outer ring', () => {
+    const { store, history, modeManager, selectMode } = createSystem();
+
+    store.add({
+      id: 'holed',
+      type: 'Feature',
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [0, 0],
+            [10, 0],
+            [10, 10],
+            [0, 10],
+            [0, 0],
+          ],
+          [
+            [3, 3],
+            [6, 3],
+            [6, 6],
+            [3, 3],
+          ],
+        ],
+      },
+      properties: {},
+    });
+
+    modeManager.setMode('select');
+    const selectImpl = modeManager.getCurrentMode()!;
+
+    selectImpl.onPointerDown(createPointerEvent(8, 2));
+    expect(selectMode.getSelectedIds()).toEqual(['holed']);
+
+    // Drag the hole vertex at (6, 6) to (7, 7)
+    selectImpl.onPointerDown(createPointerEvent(6, 6));
+    selectImpl.onPointerMove(createPointerEvent(7, 7));
+    // Moving it outside the outer ring would cross it and is ignored
+    selectImpl.onPointerMove(createPointerEvent(12, 7));
+    selectImpl.onPointerUp(createPointerEvent(12, 7));
+
+    const coords = store.getById('holed')!.geometry.coordinates as number[][][];
+    expect(coords[1]).toEqual([
+      [3, 3],
+      [6, 3],
+      [7, 7],
+      [3, 3],
+    ]);
+    expect(coords[0]).toHaveLength(5);
+
+    history.undo(store);
+    expect((store.getById('holed')!.geometry.coordinates as number[][][])[1][2]).toEqual([
+      6, 6,
+    ]);
+  });
+
+  it('should resize a circle from its radius handle and move it with its center', () => {
+    const { store, history, modeManager, selectMode } = createSystem();
+
+    store.add(
+      withCircle(
+        { id: 'well', type: 'Feature', geometry: { type: 'Polygon', coordinates: [] }, properties: {} },
+        { center: [5, 5], radius: 222000, segments: 32 },
+      ),
+    );
+
+    modeManager.setMode('select');
+    const selectImpl = modeManager.getCurrentMode()!;
+
+    selectImpl.onPointerDown(createPointerEvent(5, 5));
+    expect(selectMode.getSelectedIds()).toEqual(['well']);
+
+    // The radius handle sits due north of the center (about 2 degrees)
+    selectImpl.onPointerDown(createPointerEvent(5, 7));
+    selectImpl.onPointerMove(createPointerEvent(5, 8));
+    selectImpl.onPointerUp(createPointerEvent(5, 8));
+
+    const resized = getCircle(store.getById('well')!);
+    expect(resized).not.toBeNull();
+    expect(resized!.radius).toBeCloseTo(333585, -2);
+    expect(resized!.center).toEqual([5, 5]);
+    expect(store.getById('well')!.geometry.coordinates[0]).toHaveLength(33);
+
+    // Drag the whole circle from inside
+    selectImpl.onPointerDown(createPointerEvent(5, 4));
+    selectImpl.onPointerMove(createPointerEvent(6, 4));
+    selectImpl.onPointerUp(createPointerEvent(6, 4));
+
+    const moved = getCircle(store.getById('well')!);
+    expect(moved!.center[0]).toBeCloseTo(6, 10);
+    expect(moved!.center[1]).toBeCloseTo(5, 10);
+    expect(moved!.radius).toBe(resized!.radius);
+
+    history.undo(store);
+    history.undo(store);
+    expect(getCircle(store.getById('well')!)!.radius).toBe(222000);
+  });
 });
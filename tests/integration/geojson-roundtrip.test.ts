@@ -198,4 +198,59 @@ describe('GeoJSON Roundtrip Integration', () => {
       expect(geojson.features[0].id).toBe('polygon-2');
     });
   });
+
+  it('should roundtrip LineString features alongside polygons', () => {
+    const store = new FeatureStore();
+    store.add(sampleFeatures[0]);
+    store.add({
+      id: 'line-1',
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: [
+          [0, 0],
+          [5, 5],
+          [10, 0],
+        ],
+      },
+      properties: { kind: 'fence' },
+    });
+
+    const validated = validateGeoJSON(store.toGeoJSON());
+    const store2 = new FeatureStore();
+    store2.setAll(validated.features);
+
+    const line = store2.getById('line-1');
+    expect(line?.geometry).toEqual({
+      type: 'LineString',
+      coordinates: [
+        [0, 0],
+        [5, 5],
+        [10, 0],
+      ],
+    });
+    expect(line?.properties).toEqual({ kind: 'fence' });
+    expect(store2.getById('polygon-1')?.geometry.type).toBe('Polygon');
+  });
+
+  it('should roundtrip Point features with marker properties', () => {
+    const store = new FeatureStore();
+    store.add({
+      id: 'well-1',
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [139.76, 35.68] },
+      properties: { 'marker-symbol': 'well' },
+    });
+
+    const validated = validateGeoJSON(store.toGeoJSON());
+    const store2 = new FeatureStore();
+    store2.setAll(validated.features);
+
+    const point = store2.getById('well-1');
+    expect(point?.geometry).toEqual({
+      type: 'Point',
+      coordinates: [139.76, 35.68],
+    });
+    expect(point?.properties).toEqual({ 'marker-symbol': 'well' });
+  });
 });
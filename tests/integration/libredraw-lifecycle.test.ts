@@ -21,6 +21,7 @@ class FakeMap {
   private canvas: HTMLDivElement;
   private sources: Map<string, FakeGeoJSONSource> = new Map();
   private layers: Map<string, unknown> = new Map();
+  public renderedFeatures: GeoJSON.Feature[] = [];
   private listeners: Map<string, Set<(...args: unknown[]) => void>> =
     new Map();
 
@@ -34,6 +35,11 @@ class FakeMap {
     disable: vi.fn(),
   };
 
+  public boxZoom = {
+    enable: vi.fn(),
+    disable: vi.fn(),
+  };
+
   constructor() {
     this.canvas = document.createElement('div');
     vi.spyOn(this.canvas, 'getBoundingClientRect').mockReturnValue({
@@ -135,6 +141,13 @@ class FakeMap {
     this.layers.delete(id);
   }
 
+  queryRenderedFeatures(
+    _geometry: unknown,
+    options: { layers: string[] },
+  ): GeoJSON.Feature[] {
+    return options.layers.some((id) => this.layers.has(id)) ? this.renderedFeatures : [];
+  }
+
   hasSource(id: string): boolean {
     return this.sources.has(id);
   }
@@ -221,7 +234,10 @@ describe('LibreDraw lifecycle integration', () => {
     expect(map.hasSource(SOURCE_IDS.EDIT_VERTICES)).toBe(true);
     expect(map.hasLayer(LAYER_IDS.FILL)).toBe(true);
     expect(map.hasLayer(LAYER_IDS.OUTLINE)).toBe(true);
+    expect(map.hasLayer(LAYER_IDS.POINT)).toBe(true);
+    expect(map.hasLayer(LAYER_IDS.POINT_SYMBOL)).toBe(true);
     expect(map.hasLayer(LAYER_IDS.VERTICES)).toBe(true);
+    expect(map.hasLayer(LAYER_IDS.SNAP_INDICATOR)).toBe(true);
     expect(map.getSourceData(SOURCE_IDS.FEATURES)?.features).toHaveLength(1);
 
     draw.setMode('select');
@@ -256,6 +272,7 @@ describe('LibreDraw lifecycle integration', () => {
     draw.setMode('select');
     expect(map.dragPan.enable).toHaveBeenCalledTimes(1);
     expect(map.doubleClickZoom.disable).toHaveBeenCalledTimes(2);
+    expect(map.boxZoom.disable).toHaveBeenCalledTimes(1);
 
     draw.setMode('split');
     expect(map.dragPan.disable).toHaveBeenCalledTimes(2);
@@ -268,6 +285,7 @@ describe('LibreDraw lifecycle integration', () => {
     draw.setMode('idle');
     expect(map.dragPan.enable).toHaveBeenCalledTimes(2);
     expect(map.doubleClickZoom.enable).toHaveBeenCalledTimes(1);
+    expect(map.boxZoom.disable).toHaveBeenCalledTimes(1);
 
     draw.destroy();
   });
@@ -322,4 +340,588 @@ describe('LibreDraw lifecycle integration', () => {
 
     draw.destroy();
   });
+
+  it('should show the snap indicator near a vertex only when snapping is enabled', () => {
+    const hover = (canvas: HTMLElement): void => {
+      canvas.dispatchEvent(new MouseEvent('mousemove', { clientX: 13, clientY: 8 }));
+    };
+
+    const map = new FakeMap();
+    const draw = new LibreDraw(map.asMap(), { toolbar: false, snap: true });
+    draw.addFeatures([makeFeature('f1')]);
+    draw.setMode('draw');
+
+    hover(map.getCanvasContainer());
+    const indicator = map.getSourceData(SOURCE_IDS.SNAP_INDICATOR)?.features ?? [];
+    expect(indicator).toHaveLength(1);
+    expect((indicator[0].geometry as GeoJSON.Point).coordinates).toEqual([10, 10]);
+
+    draw.setMode('idle');
+    expect(map.getSourceData(SOURCE_IDS.SNAP_INDICATOR)?.features).toHaveLength(0);
+    draw.destroy();
+
+    const plainMap = new FakeMap();
+    const plainDraw = new LibreDraw(plainMap.asMap(), { toolbar: false });
+    plainDraw.addFeatures([makeFeature('f1')]);
+    plainDraw.setMode('draw');
+
+    hover(plainMap.getCanvasContainer());
+    expect(plainMap.getSourceData(SOURCE_IDS.SNAP_INDICATOR)?.features).toHaveLength(0);
+    plainDraw.destroy();
+  });
+
+  it('should snap to features rendered by other map layers', () => {
+    const map = new FakeMap();
+    map.addLayer({ id: 'parcels' });
+    map.renderedFeatures = [makeFeature('parcel')];
+
+    const draw = new LibreDraw(map.asMap(), {
+      toolbar: false,
+      snap: { layers: ['parcels', 'missing'] },
+    });
+    draw.setMode('draw');
+
+    map.getCanvasContainer().dispatchEvent(
+      new MouseEvent('mousemove', { clientX: 13, clientY: 8 }),
+    );
+    const indicator = map.getSourceData(SOURCE_IDS.SNAP_INDICATOR)?.features ?? [];
+    expect(indicator).toHaveLength(1);
+    expect((indicator[0].geometry as GeoJSON.Point).coordinates).toEqual([10, 10]);
+
+    draw.destroy();
+  });
+
+  it('should merge features as one undoable action', () => {
+    const map = new FakeMap();
+    const draw = new LibreDraw(map.asMap(), { toolbar: false });
+    const right = makeFeature('f2') as GeoJSON.Feature<GeoJSON.Polygon>;
+    right.geometry.coordinates = [
+      [
+        [10, 0],
+        [20, 0],
+        [20, 10],
+        [10, 10],
+        [10, 0],
+      ],
+    ];
+    draw.addFeatures([makeFeature('f1'), right]);
+
+    const onMerge = vi.fn();
+    const onMergeFailed = vi.fn();
+    draw.on('merge', onMerge);
+    draw.on('mergefailed', onMergeFailed);
+
+    draw.setMode('select');
+    draw.selectFeature('f1');
+    const merged = draw.mergeFeatures(['f1', 'f2']);
+
+    expect(merged?.geometry.type).toBe('Polygon');
+    expect(draw.getFeatures().map((f) => f.id)).toEqual([merged?.id]);
+    expect(draw.getSelectedFeatureIds()).toEqual([]);
+    expect(onMerge).toHaveBeenCalledWith({
+      originalFeatures: [
+        expect.objectContaining({ id: 'f1' }),
+        expect.objectContaining({ id: 'f2' }),
+      ],
+      feature: expect.objectContaining({ id: merged?.id }),
+    });
+
+    expect(draw.undo()).toBe(true);
+    expect(draw.getFeatures().map((f) => f.id).sort()).toEqual(['f1', 'f2']);
+    expect(draw.redo()).toBe(true);
+    expect(draw.getFeatures()).toHaveLength(1);
+
+    expect(draw.mergeFeatures([merged?.id ?? ''])).toBeUndefined();
+    expect(onMergeFailed).toHaveBeenCalledWith({
+      reason: 'insufficient-features',
+      featureIds: [merged?.id],
+    });
+    expect(() => draw.mergeFeatures(['missing', 'f1'])).toThrow('Feature not found');
+
+    draw.destroy();
+  });
+
+  it('should copy, cut and paste features with undo', () => {
+    const map = new FakeMap();
+    const draw = new LibreDraw(map.asMap(), { toolbar: false });
+    draw.addFeatures([makeFeature('f1')]);
+
+    const onCreate = vi.fn();
+    draw.on('create', onCreate);
+
+    expect(draw.copy(['f1']).map((f) => f.id)).toEqual(['f1']);
+    map.emit('mousemove', { lngLat: { lng: 105, lat: 5 } });
+    const [pasted] = draw.paste();
+
+    expect(pasted.id).not.toBe('f1');
+    expect((pasted.geometry as GeoJSON.Polygon).coordinates[0][0]).toEqual([100, 0]);
+    expect(onCreate).toHaveBeenCalledWith({ feature: pasted });
+    expect(draw.getFeatures()).toHaveLength(2);
+
+    draw.setMode('select');
+    draw.selectFeature('f1');
+    expect(draw.cut().map((f) => f.id)).toEqual(['f1']);
+    expect(draw.getFeatures().map((f) => f.id)).toEqual([pasted.id]);
+    expect(draw.getSelectedFeatureIds()).toEqual([]);
+
+    const copies = draw.paste([50, 50]);
+    expect(draw.getSelectedFeatureIds()).toEqual([copies[0].id]);
+
+    expect(draw.undo()).toBe(true);
+    expect(draw.undo()).toBe(true);
+    expect(draw.getFeatures().map((f) => f.id).sort()).toEqual(['f1', pasted.id].sort());
+    expect(() => draw.copy(['missing'])).toThrow('Feature not found');
+
+    draw.destroy();
+  });
+
+  it('should copy and paste GeoJSON with the clipboard shortcuts in select mode', () => {
+    const map = new FakeMap();
+    const draw = new LibreDraw(map.asMap(), { toolbar: false });
+    draw.addFeatures([makeFeature('f1')]);
+
+    const clipboardEvent = (type: string, text?: string): ClipboardEvent => {
+      const clipboardData = new DataTransfer();
+      if (text !== undefined) clipboardData.setData('text/plain', text);
+      const event = new ClipboardEvent(type, { clipboardData, cancelable: true });
+      document.dispatchEvent(event);
+      return event;
+    };
+
+    // Nothing selected: the browser keeps handling the copy
+    expect(clipboardEvent('copy').defaultPrevented).toBe(false);
+
+    draw.selectFeature('f1');
+    const copy = clipboardEvent('copy');
+    expect(copy.defaultPrevented).toBe(true);
+    const text = copy.clipboardData!.getData('text/plain');
+    expect(JSON.parse(text)).toMatchObject({
+      type: 'FeatureCollection',
+      features: [{ id: 'f1' }],
+    });
+
+    map.emit('mousemove', { lngLat: { lng: 25, lat: 5 } });
+    expect(clipboardEvent('paste', text).defaultPrevented).toBe(true);
+    const [, pasted] = draw.getFeatures();
+    expect((pasted.geometry as GeoJSON.Polygon).coordinates[0][0]).toEqual([20, 0]);
+    expect(draw.getSelectedFeatureIds()).toEqual([pasted.id]);
+
+    expect(clipboardEvent('paste', 'not geojson').defaultPrevented).toBe(false);
+    expect(draw.getFeatures()).toHaveLength(2);
+
+    draw.destroy();
+  });
+
+  it('should leave copy and cut of selected page text to the browser', () => {
+    const map = new FakeMap();
+    const draw = new LibreDraw(map.asMap(), { toolbar: false });
+    draw.addFeatures([makeFeature('f1')]);
+    draw.selectFeature('f1');
+
+    const paragraph = document.createElement('p');
+    paragraph.textContent = 'Parcel notes';
+    document.body.appendChild(paragraph);
+    window.getSelection()!.selectAllChildren(paragraph);
+
+    for (const type of ['copy', 'cut']) {
+      const event = new ClipboardEvent(type, {
+        clipboardData: new DataTransfer(),
+        cancelable: true,
+      });
+      document.dispatchEvent(event);
+      expect(event.defaultPrevented).toBe(false);
+    }
+    expect(draw.getFeatures()).toHaveLength(1);
+
+    window.getSelection()!.removeAllRanges();
+    paragraph.remove();
+    draw.destroy();
+  });
+
+  it('should duplicate and array-copy features as one undoable entry each', () => {
+    const map = new FakeMap();
+    const draw = new LibreDraw(map.asMap(), { toolbar: false });
+    draw.addFeatures([makeFeature('f1')]);
+
+    const onCreate = vi.fn();
+    draw.on('create', onCreate);
+
+    draw.setMode('select');
+    draw.selectFeature('f1');
+    const [duplicate] = draw.duplicate({ distance: 1000, bearing: 0 });
+    expect(duplicate.id).not.toBe('f1');
+    expect(draw.getSelectedFeatureIds()).toEqual([duplicate.id]);
+
+    const row = draw.arrayCopy({ count: 3, bearing: 90, gap: 500 }, ['f1']);
+    expect(row).toHaveLength(3);
+    expect(onCreate).toHaveBeenCalledTimes(4);
+    expect(draw.getSelectedFeatureIds()).toEqual(row.map((f) => f.id));
+    const firstLngs = row.map((f) => (f.geometry as GeoJSON.Polygon).coordinates[0][0][0]);
+    // Each copy sits one 10° width (plus the gap) beyond the previous one
+    expect(firstLngs[0]).toBeCloseTo(10, 1);
+    expect(firstLngs[1] - firstLngs[0]).toBeCloseTo(10, 1);
+    expect(firstLngs[2] - firstLngs[1]).toBeCloseTo(10, 1);
+
+    expect(draw.undo()).toBe(true);
+    expect(draw.getFeatures().map((f) => f.id)).toEqual(['f1', duplicate.id]);
+    expect(draw.redo()).toBe(true);
+    expect(draw.getFeatures()).toHaveLength(5);
+
+    expect(() => draw.arrayCopy({ count: 0, bearing: 90, gap: 5 }, ['f1'])).toThrow(
+      'Array copy count',
+    );
+    expect(() => draw.duplicate({ distance: 10, bearing: 0 }, ['missing'])).toThrow(
+      'Feature not found',
+    );
+
+    draw.destroy();
+  });
+
+  it('should undo and redo the changes of a transaction together', () => {
+    const map = new FakeMap();
+    const draw = new LibreDraw(map.asMap(), { toolbar: false });
+    draw.addFeatures([makeFeature('f1'), makeFeature('f2'), makeFeature('f3')]);
+
+    const onDelete = vi.fn();
+    const onChange = vi.fn();
+    draw.on('delete', onDelete);
+    draw.on('change', onChange);
+
+    const result = draw.transaction(() => {
+      draw.deleteFeature('f1');
+      draw.transaction(() => draw.deleteFeature('f2'));
+      draw.buffer('f3', 1000);
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(onDelete).toHaveBeenCalledTimes(2);
+    expect(onChange).toHaveBeenCalledTimes(1);
+    const change = onChange.mock.calls[0][0];
+    expect(change.rolledBack).toBe(false);
+    expect(change.created).toEqual([]);
+    expect(change.deleted.map((f: GeoJSON.Feature) => f.id)).toEqual(['f1', 'f2']);
+    expect(change.updated.map((u: { feature: GeoJSON.Feature }) => u.feature.id)).toEqual([
+      'f3',
+    ]);
+
+    expect(draw.undo()).toBe(true);
+    expect(draw.getFeatures().map((f) => f.id)).toEqual(['f3', 'f2', 'f1']);
+    expect(draw.getFeatureById('f3')).toEqual(makeFeature('f3'));
+    expect(draw.undo()).toBe(false);
+
+    expect(draw.redo()).toBe(true);
+    expect(draw.getFeatures().map((f) => f.id)).toEqual(['f3']);
+
+    draw.destroy();
+  });
+
+  it('should delete several selected features with one toolbar click and one undo', () => {
+    const map = new FakeMap();
+    const draw = new LibreDraw(map.asMap(), { toolbar: true });
+    draw.addFeatures([makeFeature('f1'), makeFeature('f2')]);
+
+    draw.setMode('select');
+    draw.copy(['f1', 'f2']);
+    const pasted = draw.paste([50, 50]);
+    expect(draw.getSelectedFeatureIds()).toEqual(pasted.map((f) => f.id));
+
+    const deleteButton = map
+      .getContainer()
+      .querySelector<HTMLButtonElement>('[data-libre-draw-button="delete"]')!;
+    deleteButton.click();
+    expect(draw.getFeatures().map((f) => f.id)).toEqual(['f1', 'f2']);
+
+    expect(draw.undo()).toBe(true);
+    expect(draw.getFeatures()).toHaveLength(4);
+
+    draw.destroy();
+  });
+
+  it('should roll back a transaction that throws', () => {
+    const map = new FakeMap();
+    const draw = new LibreDraw(map.asMap(), { toolbar: false });
+    draw.addFeatures([makeFeature('f1'), makeFeature('f2')]);
+    const onChange = vi.fn();
+    draw.on('change', onChange);
+
+    expect(() =>
+      draw.transaction(() => {
+        draw.deleteFeature('f1');
+        expect(() => draw.undo()).toThrow('inside a transaction');
+        draw.mergeFeatures(['f2', 'missing']);
+      }),
+    ).toThrow('Feature not found');
+
+    expect(draw.getFeatures().map((f) => f.id)).toEqual(['f1', 'f2']);
+    expect(draw.undo()).toBe(false);
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    draw.transaction(() => {});
+    expect(onChange).toHaveBeenCalledTimes(1);
+
+    draw.destroy();
+  });
+
+  it('should reject addFeatures inside a transaction and roll back earlier changes', () => {
+    const map = new FakeMap();
+    const draw = new LibreDraw(map.asMap(), { toolbar: false });
+    draw.addFeatures([makeFeature('f1'), makeFeature('f2')]);
+
+    expect(() =>
+      draw.transaction(() => {
+        draw.deleteFeature('f1');
+        draw.addFeatures([makeFeature('f3')]);
+      }),
+    ).toThrow('Cannot add features inside a transaction');
+
+    expect(draw.getFeatures().map((f) => f.id)).toEqual(['f1', 'f2']);
+    expect(draw.undo()).toBe(false);
+
+    draw.destroy();
+  });
+
+  it('should reject setFeatures inside a transaction and keep its history', () => {
+    const map = new FakeMap();
+    const draw = new LibreDraw(map.asMap(), { toolbar: false });
+    draw.addFeatures([makeFeature('f1'), makeFeature('f2')]);
+    draw.deleteFeature('f2');
+
+    expect(() =>
+      draw.transaction(() => {
+        draw.deleteFeature('f1');
+        draw.setFeatures({ type: 'FeatureCollection', features: [makeFeature('f3')] });
+      }),
+    ).toThrow('Cannot set features inside a transaction');
+
+    expect(draw.getFeatures().map((f) => f.id)).toEqual(['f1']);
+    expect(draw.undo()).toBe(true);
+    expect(draw.getFeatures().map((f) => f.id)).toEqual(['f1', 'f2']);
+
+    draw.destroy();
+  });
+
+  it('should describe a rolled-back transaction to listeners of feature events', () => {
+    const map = new FakeMap();
+    const draw = new LibreDraw(map.asMap(), { toolbar: false });
+    draw.addFeatures([makeFeature('f1'), makeFeature('f2')]);
+    const onCreate = vi.fn();
+    const onBuffer = vi.fn();
+    const onDelete = vi.fn();
+    const onChange = vi.fn();
+    draw.on('create', onCreate);
+    draw.on('buffer', onBuffer);
+    draw.on('delete', onDelete);
+    draw.on('change', onChange);
+
+    expect(() =>
+      draw.transaction(() => {
+        draw.deleteFeature('f1');
+        draw.buffer('f2', 1000);
+        const [copy] = draw.duplicate({ distance: 100, bearing: 90 }, ['f2']);
+        draw.mergeFeatures([copy.id, 'missing']);
+      }),
+    ).toThrow('Feature not found');
+
+    // The per-feature events fired as the changes happened
+    expect(onDelete).toHaveBeenCalledTimes(1);
+    expect(onBuffer).toHaveBeenCalledTimes(1);
+    expect(onCreate).toHaveBeenCalledTimes(1);
+    const copy = onCreate.mock.calls[0][0].feature;
+    const buffered = onBuffer.mock.calls[0][0].feature;
+
+    expect(onChange).toHaveBeenCalledTimes(1);
+    expect(onChange).toHaveBeenCalledWith({
+      created: [makeFeature('f1')],
+      updated: [{ feature: makeFeature('f2'), oldFeature: buffered }],
+      deleted: [copy],
+      rolledBack: true,
+    });
+
+    draw.destroy();
+  });
+
+  it('should subtract a polygon as one undoable update', () => {
+    const map = new FakeMap();
+    const draw = new LibreDraw(map.asMap(), { toolbar: false });
+    const zone = makeFeature('zone') as GeoJSON.Feature<GeoJSON.Polygon>;
+    zone.geometry.coordinates = [
+      [
+        [5, -5],
+        [15, -5],
+        [15, 15],
+        [5, 15],
+        [5, -5],
+      ],
+    ];
+    draw.addFeatures([makeFeature('f1'), zone]);
+    const original = draw.getFeatureById('f1');
+
+    const onDifference = vi.fn();
+    const onDifferenceFailed = vi.fn();
+    draw.on('difference', onDifference);
+    draw.on('differencefailed', onDifferenceFailed);
+
+    const clipped = draw.difference('f1', 'zone');
+
+    expect(clipped?.id).toBe('f1');
+    expect(draw.getFeatureById('f1')).toEqual(clipped);
+    expect(draw.getFeatures()).toHaveLength(2);
+    expect(onDifference).toHaveBeenCalledWith({
+      originalFeature: original,
+      feature: clipped,
+      cutterId: 'zone',
+    });
+
+    expect(draw.undo()).toBe(true);
+    expect(draw.getFeatureById('f1')).toEqual(original);
+    expect(draw.redo()).toBe(true);
+    expect(draw.getFeatureById('f1')).toEqual(clipped);
+
+    expect(draw.difference('zone', 'zone')).toBeUndefined();
+    expect(onDifferenceFailed).toHaveBeenCalledWith({
+      reason: 'same-feature',
+      featureId: 'zone',
+    });
+    expect(() => draw.difference('f1', 'missing')).toThrow('Feature not found');
+
+    draw.destroy();
+  });
+
+  it('should create the overlap of two polygons as one undoable creation', () => {
+    const map = new FakeMap();
+    const draw = new LibreDraw(map.asMap(), { toolbar: false });
+    const zone = makeFeature('zone') as GeoJSON.Feature<GeoJSON.Polygon>;
+    zone.geometry.coordinates = [
+      [
+        [5, 5],
+        [15, 5],
+        [15, 15],
+        [5, 15],
+        [5, 5],
+      ],
+    ];
+    const far = makeFeature('far') as GeoJSON.Feature<GeoJSON.Polygon>;
+    far.geometry.coordinates = [
+      [
+        [20, 20],
+        [30, 20],
+        [30, 30],
+        [20, 30],
+        [20, 20],
+      ],
+    ];
+    draw.addFeatures([makeFeature('f1'), zone, far]);
+    const before = draw.getFeatures();
+
+    const onCreate = vi.fn();
+    const onIntersectFailed = vi.fn();
+    draw.on('create', onCreate);
+    draw.on('intersectfailed', onIntersectFailed);
+
+    const overlap = draw.intersect('zone', 'f1');
+
+    expect(overlap?.geometry.type).toBe('Polygon');
+    expect(draw.getFeatures()).toHaveLength(4);
+    expect(draw.getFeatures().slice(0, 3)).toEqual(before);
+    expect(onCreate).toHaveBeenCalledWith({ feature: overlap });
+
+    expect(draw.undo()).toBe(true);
+    expect(draw.getFeatures()).toEqual(before);
+    expect(draw.redo()).toBe(true);
+    expect(draw.getFeatureById(overlap?.id ?? '')).toEqual(overlap);
+
+    expect(draw.intersect('f1', 'far')).toBeUndefined();
+    expect(onIntersectFailed).toHaveBeenCalledWith({
+      reason: 'no-overlap',
+      featureIds: ['f1', 'far'],
+    });
+    expect(() => draw.intersect('missing', 'f1')).toThrow('Feature not found');
+
+    draw.destroy();
+  });
+
+  it('should divide a polygon into strips as one undoable action', () => {
+    const map = new FakeMap();
+    const draw = new LibreDraw(map.asMap(), { toolbar: false });
+    draw.addFeatures([makeFeature('f1')]);
+    const original = draw.getFeatureById('f1');
+
+    const onStrips = vi.fn();
+    const onStripsFailed = vi.fn();
+    draw.on('strips', onStrips);
+    draw.on('stripsfailed', onStripsFailed);
+
+    const strips = draw.splitIntoStrips('f1', 0, { count: 5 });
+
+    expect(strips).toHaveLength(5);
+    expect(strips?.map((s) => s.properties.stripIndex)).toEqual([0, 1, 2, 3, 4]);
+    expect(draw.getFeatureById('f1')).toBeUndefined();
+    expect(draw.getFeatures()).toEqual(strips);
+    expect(onStrips).toHaveBeenCalledWith({
+      originalFeature: original,
+      features: strips,
+      edgeIndex: 0,
+    });
+
+    expect(draw.undo()).toBe(true);
+    expect(draw.getFeatures()).toEqual([original]);
+    expect(draw.redo()).toBe(true);
+    expect(draw.getFeatures()).toEqual(strips);
+
+    expect(draw.splitIntoStrips(strips![0].id, 7, { count: 2 })).toBeUndefined();
+    expect(onStripsFailed).toHaveBeenCalledWith({
+      reason: 'invalid-edge',
+      featureId: strips![0].id,
+    });
+    expect(() => draw.splitIntoStrips('missing', 0, { count: 2 })).toThrow('Feature not found');
+
+    draw.destroy();
+  });
+
+  it('should buffer a polygon boundary as one undoable update', () => {
+    const map = new FakeMap();
+    const draw = new LibreDraw(map.asMap(), { toolbar: false, buffer: { join: 'round' } });
+    const field = makeFeature('f1') as GeoJSON.Feature<GeoJSON.Polygon>;
+    field.geometry.coordinates = [
+      [
+        [0, 0],
+        [0.001, 0],
+        [0.001, 0.001],
+        [0, 0.001],
+        [0, 0],
+      ],
+    ];
+    draw.addFeatures([field]);
+    const original = draw.getFeatureById('f1');
+
+    const onBuffer = vi.fn();
+    const onBufferFailed = vi.fn();
+    draw.on('buffer', onBuffer);
+    draw.on('bufferfailed', onBufferFailed);
+
+    const grown = draw.buffer('f1', 5);
+    const ring = (grown?.geometry.coordinates as [number, number][][])[0];
+
+    expect(grown?.id).toBe('f1');
+    expect(ring.length).toBeGreaterThan(20);
+    expect(draw.getFeatureById('f1')).toEqual(grown);
+    expect(onBuffer).toHaveBeenCalledWith({
+      originalFeature: original,
+      feature: grown,
+      distance: 5,
+    });
+
+    expect(draw.undo()).toBe(true);
+    expect(draw.getFeatureById('f1')).toEqual(original);
+
+    const shrunk = draw.buffer('f1', -5, { join: 'mitre' });
+    expect((shrunk?.geometry.coordinates as [number, number][][])[0]).toHaveLength(5);
+
+    expect(draw.buffer('f1', -500)).toBeUndefined();
+    expect(onBufferFailed).toHaveBeenCalledWith({ reason: 'collapsed', featureId: 'f1' });
+    expect(() => draw.buffer('missing', 5)).toThrow('Feature not found');
+
+    draw.destroy();
+  });
 });
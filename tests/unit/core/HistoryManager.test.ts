@@ -1,5 +1,6 @@
 import { describe, it, expect, vi } from 'vitest';
 import { HistoryManager } from '../../../src/core/HistoryManager';
+import { CompoundAction } from '../../../src/types/features';
 import type {
   Action,
   FeatureStoreInterface,
@@ -111,4 +112,88 @@ describe('HistoryManager', () => {
     expect(history.canUndo()).toBe(false);
     expect(history.canRedo()).toBe(false);
   });
+
+  it('should record actions pushed in a transaction as one entry', () => {
+    const history = new HistoryManager();
+    const store = createMockStore();
+    const first = createMockAction();
+    const second = createMockAction();
+
+    history.beginTransaction();
+    history.push(first);
+    history.push(second);
+    expect(history.canUndo()).toBe(false);
+    history.commitTransaction();
+
+    expect(history.undo(store)).toBe(true);
+    expect(first.revert).toHaveBeenCalledWith(store);
+    expect(second.revert).toHaveBeenCalledWith(store);
+    expect(history.canUndo()).toBe(false);
+
+    history.redo(store);
+    expect(first.apply).toHaveBeenCalledWith(store);
+    expect(second.apply).toHaveBeenCalledWith(store);
+  });
+
+  it('should record a single action or nothing without a compound entry', () => {
+    const history = new HistoryManager();
+    history.beginTransaction();
+    history.commitTransaction();
+    expect(history.canUndo()).toBe(false);
+
+    const action = createMockAction();
+    history.beginTransaction();
+    history.push(action);
+    history.commitTransaction();
+
+    const store = createMockStore();
+    history.undo(store);
+    expect(action.revert).toHaveBeenCalledWith(store);
+  });
+
+  it('should revert and discard actions when a transaction is rolled back', () => {
+    const history = new HistoryManager();
+    const store = createMockStore();
+    const earlier = createMockAction();
+    history.push(earlier);
+    history.undo(store);
+
+    const order: string[] = [];
+    const first = { ...createMockAction(), revert: vi.fn(() => order.push('first')) };
+    const second = { ...createMockAction(), revert: vi.fn(() => order.push('second')) };
+    history.beginTransaction();
+    history.push(first);
+    history.push(second);
+    history.rollbackTransaction(store);
+
+    expect(order).toEqual(['second', 'first']);
+    expect(history.isInTransaction()).toBe(false);
+    expect(history.canUndo()).toBe(false);
+    expect(history.canRedo()).toBe(true);
+  });
+
+  it('should not open nested transactions', () => {
+    const history = new HistoryManager();
+    history.beginTransaction();
+    expect(() => history.beginTransaction()).toThrow();
+  });
+});
+
+describe('CompoundAction', () => {
+  it('should apply in order and revert in reverse order', () => {
+    const order: string[] = [];
+    const make = (name: string): Action => ({
+      type: 'update',
+      apply: () => order.push(`apply ${name}`),
+      revert: () => order.push(`revert ${name}`),
+    });
+    const action = new CompoundAction([make('a'), make('b')]);
+    const store = createMockStore();
+
+    action.apply(store);
+    action.revert(store);
+
+    expect(action.type).toBe('compound');
+    expect(order).toEqual(['apply a', 'apply b', 'revert b', 'revert a']);
+  });
 });
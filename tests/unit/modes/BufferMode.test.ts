@@ -0,0 +1,215 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ModeContext } from '../../../src/core/ModeContext';
+import { BufferMode } from '../../../src/modes/BufferMode';
+import type { LibreDrawFeature, Position } from '../../../src/types/features';
+import { UpdateAction } from '../../../src/types/features';
+import type { NormalizedInputEvent } from '../../../src/types/input';
+
+// About 111 m x 111 m at the equator.
+function makeField(id: string): LibreDrawFeature {
+  return {
+    id,
+    type: 'Feature',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [0.001, 0],
+          [0.001, 0.001],
+          [0, 0.001],
+          [0, 0],
+        ],
+      ],
+    },
+    properties: { name: id },
+  };
+}
+
+function pointerEvent(lng: number, lat: number): NormalizedInputEvent {
+  return {
+    lngLat: { lng, lat },
+    point: { x: lng * 100000, y: lat * 100000 },
+    originalEvent: new MouseEvent('click'),
+    inputType: 'mouse',
+  };
+}
+
+function pressKey(mode: BufferMode, key: string): void {
+  mode.onKeyDown(key, new KeyboardEvent('keydown', { key }));
+}
+
+/** Largest longitude of a polygon's outer ring. */
+function maxLng(coordinates: Position[][]): number {
+  return Math.max(...coordinates[0].map((p) => p[0]));
+}
+
+interface TestHarness {
+  context: ModeContext;
+  features: Map<string, LibreDrawFeature>;
+  setDistance(value: number): void;
+  mocks: {
+    update: ReturnType<typeof vi.fn>;
+    push: ReturnType<typeof vi.fn>;
+    emit: ReturnType<typeof vi.fn>;
+    renderPreviewLines: ReturnType<typeof vi.fn>;
+    clearPreview: ReturnType<typeof vi.fn>;
+    setSelectedIds: ReturnType<typeof vi.fn>;
+  };
+}
+
+function createHarness(): TestHarness {
+  const features = new Map<string, LibreDrawFeature>();
+  features.set('field', makeField('field'));
+
+  let bufferDistance = -10;
+
+  const update = vi.fn((id: string, feature: LibreDrawFeature) => {
+    features.set(id, feature);
+  });
+  const push = vi.fn();
+  const emit = vi.fn();
+  const renderPreviewLines = vi.fn();
+  const clearPreview = vi.fn();
+  const setSelectedIds = vi.fn();
+
+  const context: ModeContext = {
+    store: {
+      add: vi.fn((feature: LibreDrawFeature) => feature),
+      update,
+      remove: vi.fn(),
+      getById: (id: string) => features.get(id),
+      getAll: () => Array.from(features.values()),
+    },
+    history: {
+      push,
+    },
+    events: {
+      emit,
+    },
+    render: {
+      renderFeatures: vi.fn(),
+      renderPreview: vi.fn(),
+      renderPreviewLines,
+      clearPreview,
+      renderEdgeHighlight: vi.fn(),
+      clearEdgeHighlight: vi.fn(),
+      renderVertices: vi.fn(),
+      clearVertices: vi.fn(),
+      setSelectedIds,
+    },
+    snapping: {
+      snap: (event) => [event.lngLat.lng, event.lngLat.lat],
+      clearIndicator: vi.fn(),
+    },
+    getScreenPoint: ({ lng, lat }) => ({ x: lng * 100000, y: lat * 100000 }),
+    setDragPan: vi.fn(),
+    getSetbackDistance: () => 10,
+    getStripOptions: () => ({ count: 4 }),
+    getBufferDistance: () => bufferDistance,
+  };
+
+  return {
+    context,
+    features,
+    setDistance: (value) => {
+      bufferDistance = value;
+    },
+    mocks: { update, push, emit, renderPreviewLines, clearPreview, setSelectedIds },
+  };
+}
+
+describe('BufferMode', () => {
+  let harness: TestHarness;
+  let mode: BufferMode;
+
+  beforeEach(() => {
+    harness = createHarness();
+    mode = new BufferMode(harness.context);
+  });
+
+  it('should preview the inward outline of the clicked polygon', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(0.0005, 0.0005));
+
+    expect(harness.mocks.setSelectedIds).toHaveBeenCalledWith(['field']);
+    const rings = harness.mocks.renderPreviewLines.mock.lastCall![0] as Position[][];
+    expect(rings).toHaveLength(1);
+    expect(maxLng(rings)).toBeLessThan(0.001);
+  });
+
+  it('should update the preview when the distance changes', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(0.0005, 0.0005));
+    mode.onDistanceChange(20);
+
+    const rings = harness.mocks.renderPreviewLines.mock.lastCall![0] as Position[][];
+    expect(maxLng(rings)).toBeGreaterThan(0.001);
+  });
+
+  it('should apply the buffer as one update on Enter', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(0.0005, 0.0005));
+    pressKey(mode, 'Enter');
+
+    const buffered = harness.features.get('field')!;
+    expect(maxLng(buffered.geometry.coordinates as Position[][])).toBeLessThan(0.001);
+    expect(harness.mocks.push).toHaveBeenCalledTimes(1);
+    expect(harness.mocks.push.mock.calls[0][0]).toBeInstanceOf(UpdateAction);
+    expect(harness.mocks.emit).toHaveBeenCalledWith('buffer', {
+      originalFeature: makeField('field'),
+      feature: buffered,
+      distance: -10,
+    });
+    expect(harness.mocks.setSelectedIds).toHaveBeenLastCalledWith([]);
+  });
+
+  it('should use the distance from the toolbar button', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(0.0005, 0.0005));
+    mode.executeFromUi(5);
+
+    expect(harness.mocks.emit).toHaveBeenCalledWith(
+      'buffer',
+      expect.objectContaining({ distance: 5 }),
+    );
+  });
+
+  it('should emit bufferfailed and keep the polygon when it collapses', () => {
+    harness.setDistance(-100);
+    mode.activate();
+    mode.onPointerDown(pointerEvent(0.0005, 0.0005));
+    expect(harness.mocks.renderPreviewLines).not.toHaveBeenCalled();
+
+    pressKey(mode, 'Enter');
+    expect(harness.mocks.emit).toHaveBeenCalledWith('bufferfailed', {
+      reason: 'collapsed',
+      featureId: 'field',
+    });
+    expect(harness.mocks.update).not.toHaveBeenCalled();
+    expect(harness.mocks.setSelectedIds).toHaveBeenLastCalledWith(['field']);
+  });
+
+  it('should use round joins when configured', () => {
+    mode = new BufferMode(harness.context, { join: 'round' });
+    mode.activate();
+    mode.onPointerDown(pointerEvent(0.0005, 0.0005));
+    mode.executeFromUi(10);
+
+    const buffered = harness.features.get('field')!;
+    expect((buffered.geometry.coordinates as Position[][])[0].length).toBeGreaterThan(20);
+  });
+
+  it('should reset when clicking outside any polygon or pressing Escape', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(0.0005, 0.0005));
+    mode.onPointerDown(pointerEvent(0.01, 0.01));
+    expect(harness.mocks.setSelectedIds).toHaveBeenLastCalledWith([]);
+
+    mode.onPointerDown(pointerEvent(0.0005, 0.0005));
+    pressKey(mode, 'Escape');
+    pressKey(mode, 'Enter');
+    expect(harness.mocks.setSelectedIds).toHaveBeenLastCalledWith([]);
+    expect(harness.mocks.push).not.toHaveBeenCalled();
+  });
+});
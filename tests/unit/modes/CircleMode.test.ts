@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CircleMode } from '../../../src/modes/CircleMode';
+import type { ModeContext } from '../../../src/core/ModeContext';
+import type { NormalizedInputEvent } from '../../../src/types/input';
+import type { LibreDrawFeature, PolygonGeometry } from '../../../src/types/features';
+import { distanceMeters } from '../../../src/utils/circle';
+
+function createMockContext(): ModeContext {
+  return {
+    store: {
+      add: vi.fn((f: LibreDrawFeature) => f),
+      update: vi.fn(),
+      remove: vi.fn(),
+      getById: vi.fn(),
+      getAll: vi.fn(() => []),
+    },
+    history: {
+      push: vi.fn(),
+    },
+    events: {
+      emit: vi.fn(),
+    },
+    render: {
+      renderPreview: vi.fn(),
+      clearPreview: vi.fn(),
+      renderEdgeHighlight: vi.fn(),
+      clearEdgeHighlight: vi.fn(),
+      renderFeatures: vi.fn(),
+      renderVertices: vi.fn(),
+      clearVertices: vi.fn(),
+      setSelectedIds: vi.fn(),
+    },
+    snapping: {
+      snap: (event) => [event.lngLat.lng, event.lngLat.lat],
+      clearIndicator: vi.fn(),
+    },
+    getScreenPoint: vi.fn((lngLat) => ({ x: lngLat.lng * 10, y: lngLat.lat * 10 })),
+    setDragPan: vi.fn(),
+    getSetbackDistance: () => 10,
+    getCircleRadius: () => 30,
+  };
+}
+
+function createPointerEvent(lng: number, lat: number): NormalizedInputEvent {
+  return {
+    lngLat: { lng, lat },
+    point: { x: lng * 10, y: lat * 10 },
+    originalEvent: new MouseEvent('click'),
+    inputType: 'mouse',
+  };
+}
+
+function click(mode: CircleMode, lng: number, lat: number): void {
+  mode.onPointerDown(createPointerEvent(lng, lat));
+  mode.onPointerUp(createPointerEvent(lng, lat));
+}
+
+function getCreatedFeature(context: ModeContext): LibreDrawFeature {
+  return vi.mocked(context.store.add).mock.calls[0][0];
+}
+
+describe('CircleMode', () => {
+  let context: ModeContext;
+  let mode: CircleMode;
+
+  beforeEach(() => {
+    context = createMockContext();
+    mode = new CircleMode(context, { segments: 16 });
+  });
+
+  it('should not respond to events when inactive', () => {
+    click(mode, 0, 0);
+    click(mode, 1, 0);
+    expect(context.store.add).not.toHaveBeenCalled();
+  });
+
+  it('should create a circle from a center click and a radius click', () => {
+    mode.activate();
+    click(mode, 0, 0);
+    expect(context.store.add).not.toHaveBeenCalled();
+    click(mode, 0, 1);
+
+    expect(context.store.add).toHaveBeenCalledOnce();
+    const feature = getCreatedFeature(context);
+    const ring = (feature.geometry as PolygonGeometry).coordinates[0];
+    expect(ring).toHaveLength(17);
+    expect(feature.properties.circle).toEqual({
+      center: [0, 0],
+      radius: distanceMeters([0, 0], [0, 1]),
+      segments: 16,
+    });
+  });
+
+  it('should create a circle from a drag', () => {
+    mode.activate();
+    mode.onPointerDown(createPointerEvent(0, 0));
+    mode.onPointerMove(createPointerEvent(1, 0));
+    mode.onPointerUp(createPointerEvent(2, 0));
+
+    expect(context.store.add).toHaveBeenCalledOnce();
+    const circle = getCreatedFeature(context).properties.circle as { radius: number };
+    expect(circle.radius).toBeCloseTo(distanceMeters([0, 0], [2, 0]), 6);
+  });
+
+  it('should push a create action and emit create event', () => {
+    mode.activate();
+    click(mode, 0, 0);
+    click(mode, 1, 0);
+
+    expect(context.history.push).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(context.history.push).mock.calls[0][0].type).toBe('create');
+    expect(context.events.emit).toHaveBeenCalledWith(
+      'create',
+      expect.objectContaining({
+        feature: expect.objectContaining({
+          geometry: expect.objectContaining({ type: 'Polygon' }),
+        }),
+      })
+    );
+  });
+
+  it('should preview the circle while choosing the radius', () => {
+    mode.activate();
+    click(mode, 0, 0);
+    mode.onPointerMove(createPointerEvent(0, 1));
+
+    const preview = vi.mocked(context.render.renderPreview).mock.lastCall![0];
+    expect(preview).toHaveLength(17);
+    expect(preview[0][1]).toBeCloseTo(1, 6);
+  });
+
+  it('should ignore a radius click on the center', () => {
+    mode.activate();
+    click(mode, 0, 0);
+    click(mode, 0.2, 0);
+
+    expect(context.store.add).not.toHaveBeenCalled();
+  });
+
+  it('should create a circle with a typed radius in meters', () => {
+    mode.activate();
+    click(mode, 139.7, 35.6);
+    mode.onRadiusChange(50);
+    mode.executeFromUi(50);
+
+    expect(context.store.add).toHaveBeenCalledOnce();
+    const circle = getCreatedFeature(context).properties.circle as { radius: number };
+    expect(circle.radius).toBe(50);
+  });
+
+  it('should use the typed radius on Enter', () => {
+    mode.activate();
+    mode.onRadiusChange(25);
+    click(mode, 139.7, 35.6);
+    mode.onKeyDown('Enter', new KeyboardEvent('keydown', { key: 'Enter' }));
+
+    expect(context.store.add).toHaveBeenCalledOnce();
+    const circle = getCreatedFeature(context).properties.circle as { radius: number };
+    expect(circle.radius).toBe(25);
+  });
+
+  it('should use the radius in the toolbar input on Enter before it is edited', () => {
+    mode.activate();
+    click(mode, 139.7, 35.6);
+    mode.onKeyDown('Enter', new KeyboardEvent('keydown', { key: 'Enter' }));
+
+    expect(context.store.add).toHaveBeenCalledOnce();
+    const circle = getCreatedFeature(context).properties.circle as { radius: number };
+    expect(circle.radius).toBe(30);
+  });
+
+  it('should keep previewing the typed radius while the pointer moves', () => {
+    mode.activate();
+    click(mode, 0, 0);
+    mode.onRadiusChange(50);
+    mode.onPointerMove(createPointerEvent(0, 1));
+
+    const preview = vi.mocked(context.render.renderPreview).mock.lastCall![0];
+    expect(distanceMeters([0, 0], preview[0])).toBeCloseTo(50, 3);
+  });
+
+  it('should follow the pointer again for the next circle', () => {
+    mode.activate();
+    click(mode, 0, 0);
+    mode.onRadiusChange(50);
+    mode.executeFromUi(50);
+    click(mode, 0, 0);
+    mode.onPointerMove(createPointerEvent(0, 1));
+
+    const preview = vi.mocked(context.render.renderPreview).mock.lastCall![0];
+    expect(preview[0][1]).toBeCloseTo(1, 6);
+  });
+
+  it('should not create a circle from the typed radius without a center', () => {
+    mode.activate();
+    mode.executeFromUi(50);
+    expect(context.store.add).not.toHaveBeenCalled();
+  });
+
+  it('should cancel drawing on Escape', () => {
+    mode.activate();
+    click(mode, 0, 0);
+    mode.onKeyDown('Escape', new KeyboardEvent('keydown', { key: 'Escape' }));
+    click(mode, 0, 1);
+
+    expect(context.store.add).not.toHaveBeenCalled();
+    expect(context.render.clearPreview).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ModeContext } from '../../../src/core/ModeContext';
+import { DifferenceMode } from '../../../src/modes/DifferenceMode';
+import type { LibreDrawFeature, Position } from '../../../src/types/features';
+import { UpdateAction } from '../../../src/types/features';
+import type { NormalizedInputEvent } from '../../../src/types/input';
+
+function makeRect(id: string, x0: number, y0: number, x1: number, y1: number): LibreDrawFeature {
+  return {
+    id,
+    type: 'Feature',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [x0, y0],
+          [x1, y0],
+          [x1, y1],
+          [x0, y1],
+          [x0, y0],
+        ],
+      ],
+    },
+    properties: { name: id },
+  };
+}
+
+function pointerEvent(lng: number, lat: number): NormalizedInputEvent {
+  return {
+    lngLat: { lng, lat },
+    point: { x: lng * 10, y: lat * 10 },
+    originalEvent: new MouseEvent('click'),
+    inputType: 'mouse',
+  };
+}
+
+interface TestHarness {
+  context: ModeContext;
+  features: Map<string, LibreDrawFeature>;
+  mocks: {
+    update: ReturnType<typeof vi.fn>;
+    push: ReturnType<typeof vi.fn>;
+    emit: ReturnType<typeof vi.fn>;
+    renderFeatures: ReturnType<typeof vi.fn>;
+    setSelectedIds: ReturnType<typeof vi.fn>;
+  };
+}
+
+function createHarness(): TestHarness {
+  const features = new Map<string, LibreDrawFeature>();
+  features.set('field', makeRect('field', 0, 0, 10, 10));
+  features.set('zone', makeRect('zone', 3, 3, 6, 6));
+
+  const update = vi.fn((id: string, feature: LibreDrawFeature) => {
+    features.set(id, feature);
+  });
+  const push = vi.fn();
+  const emit = vi.fn();
+  const renderFeatures = vi.fn();
+  const setSelectedIds = vi.fn();
+
+  const context: ModeContext = {
+    store: {
+      add: vi.fn((feature: LibreDrawFeature) => feature),
+      update,
+      remove: vi.fn(),
+      getById: (id: string) => features.get(id),
+      getAll: () => Array.from(features.values()),
+    },
+    history: {
+      push,
+    },
+    events: {
+      emit,
+    },
+    render: {
+      renderFeatures,
+      renderPreview: vi.fn(),
+      clearPreview: vi.fn(),
+      renderEdgeHighlight: vi.fn(),
+      clearEdgeHighlight: vi.fn(),
+      renderVertices: vi.fn(),
+      clearVertices: vi.fn(),
+      setSelectedIds,
+    },
+    snapping: {
+      snap: (event) => [event.lngLat.lng, event.lngLat.lat],
+      clearIndicator: vi.fn(),
+    },
+    getScreenPoint: ({ lng, lat }) => ({ x: lng * 10, y: lat * 10 }),
+    setDragPan: vi.fn(),
+    getSetbackDistance: () => 10,
+  };
+
+  return {
+    context,
+    features,
+    mocks: { update, push, emit, renderFeatures, setSelectedIds },
+  };
+}
+
+describe('DifferenceMode', () => {
+  let harness: TestHarness;
+  let mode: DifferenceMode;
+
+  beforeEach(() => {
+    harness = createHarness();
+    mode = new DifferenceMode(harness.context);
+  });
+
+  it('should highlight the clicked polygon as the target', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(1, 1));
+
+    expect(harness.mocks.setSelectedIds).toHaveBeenCalledWith(['field']);
+    expect(harness.mocks.emit).toHaveBeenCalledWith('selectionchange', {
+      selectedIds: ['field'],
+    });
+  });
+
+  it('should subtract the clicked cutter from the target as one update', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(1, 1)); // target
+    mode.onPointerDown(pointerEvent(4, 4)); // cutter
+
+    const clipped = harness.features.get('field')!;
+    expect(clipped.geometry.coordinates as Position[][]).toHaveLength(2);
+    expect(harness.features.get('zone')).toEqual(makeRect('zone', 3, 3, 6, 6));
+    expect(harness.mocks.push).toHaveBeenCalledTimes(1);
+    expect(harness.mocks.push.mock.calls[0][0]).toBeInstanceOf(UpdateAction);
+    expect(harness.mocks.emit).toHaveBeenCalledWith(
+      'difference',
+      expect.objectContaining({
+        originalFeature: makeRect('field', 0, 0, 10, 10),
+        cutterId: 'zone',
+      }),
+    );
+    expect(harness.mocks.setSelectedIds).toHaveBeenLastCalledWith([]);
+  });
+
+  it('should emit differencefailed and keep the target when the cutter covers it', () => {
+    harness.features.set('far', makeRect('far', 20, 20, 22, 22));
+
+    mode.activate();
+    mode.onPointerDown(pointerEvent(4, 4)); // target: zone (topmost)
+    mode.onPointerDown(pointerEvent(4, 4)); // cutter: field, which covers the zone
+
+    expect(harness.mocks.emit).toHaveBeenCalledWith('differencefailed', {
+      reason: 'empty-result',
+      featureId: 'zone',
+    });
+    expect(harness.mocks.push).not.toHaveBeenCalled();
+
+    // Still waiting for a cutter on the same target
+    mode.onPointerDown(pointerEvent(21, 21));
+    expect(harness.mocks.emit).toHaveBeenCalledWith('differencefailed', {
+      reason: 'no-overlap',
+      featureId: 'zone',
+    });
+  });
+
+  it('should reset when clicking outside any cutter', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(1, 1));
+    mode.onPointerDown(pointerEvent(50, 50));
+
+    expect(harness.mocks.setSelectedIds).toHaveBeenLastCalledWith([]);
+    expect(harness.mocks.push).not.toHaveBeenCalled();
+  });
+
+  it('should clear the target on Escape', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(1, 1));
+    mode.onKeyDown('Escape', new KeyboardEvent('keydown', { key: 'Escape' }));
+
+    expect(harness.mocks.setSelectedIds).toHaveBeenLastCalledWith([]);
+  });
+
+  it('should ignore input while inactive', () => {
+    mode.onPointerDown(pointerEvent(1, 1));
+    expect(harness.mocks.setSelectedIds).not.toHaveBeenCalled();
+  });
+});
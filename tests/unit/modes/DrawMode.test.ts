@@ -29,6 +29,10 @@ function createMockContext(): ModeContext {
       clearVertices: vi.fn(),
       setSelectedIds: vi.fn(),
     },
+    snapping: {
+      snap: (event) => [event.lngLat.lng, event.lngLat.lat],
+      clearIndicator: vi.fn(),
+    },
     getScreenPoint: vi.fn((lngLat) => ({ x: lngLat.lng * 10, y: lngLat.lat * 10 })),
     setDragPan: vi.fn(),
     getSetbackDistance: () => 10,
@@ -170,6 +174,189 @@ describe('DrawMode', () => {
     expect(context.store.add).toHaveBeenCalled();
   });
 
+  it('should use snapped positions for vertices and the preview', () => {
+    // Snap every position to the nearest whole degree
+    context.snapping.snap = vi.fn((event: NormalizedInputEvent) => [
+      Math.round(event.lngLat.lng),
+      Math.round(event.lngLat.lat),
+    ]);
+    drawMode.activate();
+
+    drawMode.onPointerDown(createPointerEvent(0.2, 0.3));
+    drawMode.onPointerDown(createPointerEvent(9.8, 0.1));
+    drawMode.onPointerMove(createPointerEvent(10.4, 9.6));
+
+    expect(context.render.renderPreview).toHaveBeenLastCalledWith([
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [0, 0],
+    ]);
+
+    drawMode.onPointerDown(createPointerEvent(10.4, 9.6));
+    drawMode.onPointerDown(createPointerEvent(0.1, 0.1, 1, 1));
+
+    const created = vi.mocked(context.store.add).mock.calls[0][0];
+    expect(created.geometry.coordinates).toEqual([
+      [
+        [0, 0],
+        [10, 0],
+        [10, 10],
+        [0, 0],
+      ],
+    ]);
+  });
+
+  it('should snap on hover before the first vertex without rendering a preview', () => {
+    context.snapping.snap = vi.fn((event: NormalizedInputEvent) => [
+      event.lngLat.lng,
+      event.lngLat.lat,
+    ]);
+    drawMode.activate();
+    drawMode.onPointerMove(createPointerEvent(5, 5));
+
+    expect(context.snapping.snap).toHaveBeenCalled();
+    expect(context.render.renderPreview).not.toHaveBeenCalled();
+  });
+
+  describe('angle constraints', () => {
+    function shiftPointerEvent(lng: number, lat: number): NormalizedInputEvent {
+      return {
+        ...createPointerEvent(lng, lat),
+        originalEvent: new MouseEvent('mousemove', { shiftKey: true }),
+      };
+    }
+
+    it('should constrain the preview and vertex to north while Shift is held', () => {
+      drawMode.activate();
+      drawMode.onPointerDown(createPointerEvent(0, 0));
+      drawMode.onPointerMove(shiftPointerEvent(0.05, 1));
+
+      const preview = vi.mocked(context.render.renderPreview).mock.calls.at(-1)?.[0];
+      expect(preview?.[1][0]).toBeCloseTo(0);
+      expect(preview?.[1][1]).toBeCloseTo(1);
+
+      drawMode.onPointerDown(shiftPointerEvent(0.05, 1));
+      drawMode.onPointerMove(createPointerEvent(3, 3));
+
+      const next = vi.mocked(context.render.renderPreview).mock.calls.at(-1)?.[0];
+      expect(next?.[1][0]).toBeCloseTo(0);
+      expect(next?.[2]).toEqual([3, 3]);
+    });
+
+    it('should constrain relative to the previous segment', () => {
+      drawMode = new DrawMode(context, { constrainAngles: true });
+      drawMode.activate();
+      drawMode.onPointerDown(createPointerEvent(0, 0));
+      drawMode.onPointerDown(createPointerEvent(1, 0.02)); // snaps to due east
+      drawMode.onPointerMove(createPointerEvent(1.1, 1));
+
+      const preview = vi.mocked(context.render.renderPreview).mock.calls.at(-1)?.[0];
+      expect(preview?.[1][1]).toBeCloseTo(0);
+      // Right angle to the previous segment
+      expect(preview?.[2][0]).toBeCloseTo(preview?.[1][0] ?? NaN);
+      expect(preview?.[2][1]).toBeCloseTo(1);
+      expect(context.snapping.clearIndicator).toHaveBeenCalled();
+    });
+
+    it('should measure from north when configured', () => {
+      drawMode = new DrawMode(context, { constrainAngles: true, angleReference: 'north' });
+      drawMode.activate();
+      drawMode.onPointerDown(createPointerEvent(0, 0));
+      drawMode.onPointerDown(createPointerEvent(1, 0.6)); // snaps to 45°
+      drawMode.onPointerMove(createPointerEvent(1.9, 0.75));
+
+      const preview = vi.mocked(context.render.renderPreview).mock.calls.at(-1)?.[0];
+      expect(preview?.[1][0]).toBeCloseTo(preview?.[1][1] ?? NaN);
+      // 90° from north, not from the 45° segment
+      expect(preview?.[2][1]).toBeCloseTo(preview?.[1][1] ?? NaN);
+    });
+  });
+
+  describe('typed vertices', () => {
+    it('should preview and add a typed length and bearing', () => {
+      drawMode.activate();
+      drawMode.onPointerDown(createPointerEvent(0, 0));
+
+      drawMode.onTypedVertexChange({ type: 'bearing', distance: 1000, bearing: 0 });
+      const preview = vi.mocked(context.render.renderPreview).mock.calls.at(-1)?.[0];
+      expect(preview).toHaveLength(3);
+      expect(preview?.[1][0]).toBeCloseTo(0);
+      expect(preview?.[1][1]).toBeCloseTo(0.009, 3);
+
+      drawMode.executeFromUi({ type: 'bearing', distance: 1000, bearing: 0 });
+      drawMode.executeFromUi({ type: 'lnglat', lng: 0.01, lat: 0.01 });
+      drawMode.onDoubleClick(createPointerEvent(0.01, 0.01));
+
+      expect(context.store.add).toHaveBeenCalled();
+      const created = vi.mocked(context.store.add).mock.calls[0][0];
+      expect(created.geometry.coordinates[0]).toHaveLength(4);
+    });
+
+    it('should keep the typed preview while the pointer moves until the input is cleared', () => {
+      drawMode.activate();
+      drawMode.onPointerDown(createPointerEvent(0, 0));
+      drawMode.onTypedVertexChange({ type: 'lnglat', lng: 0, lat: 5 });
+
+      drawMode.onPointerMove(createPointerEvent(3, 3));
+      let preview = vi.mocked(context.render.renderPreview).mock.calls.at(-1)?.[0];
+      expect(preview?.[1]).toEqual([0, 5]);
+
+      drawMode.onTypedVertexChange(null);
+      drawMode.onPointerMove(createPointerEvent(3, 3));
+      preview = vi.mocked(context.render.renderPreview).mock.calls.at(-1)?.[0];
+      expect(preview?.[1]).toEqual([3, 3]);
+    });
+
+    it('should follow the pointer again after the typed vertex is added', () => {
+      drawMode.activate();
+      drawMode.onPointerDown(createPointerEvent(0, 0));
+      drawMode.onTypedVertexChange({ type: 'lnglat', lng: 0, lat: 5 });
+      drawMode.executeFromUi({ type: 'lnglat', lng: 0, lat: 5 });
+
+      drawMode.onPointerMove(createPointerEvent(3, 3));
+      const preview = vi.mocked(context.render.renderPreview).mock.calls.at(-1)?.[0];
+      expect(preview).toEqual([
+        [0, 0],
+        [0, 5],
+        [3, 3],
+        [0, 0],
+      ]);
+    });
+
+        it('should ignore length input before the first vertex', () => {
+      drawMode.activate();
+      drawMode.executeFromUi({ type: 'bearing', distance: 10, bearing: 0 });
+
+      expect(context.render.renderPreview).not.toHaveBeenCalled();
+    });
+
+    it('should reject a typed vertex that would cause self-intersection', () => {
+      drawMode.activate();
+      drawMode.executeFromUi({ type: 'lnglat', lng: 0, lat: 0 });
+      drawMode.executeFromUi({ type: 'lnglat', lng: 10, lat: 10 });
+      drawMode.executeFromUi({ type: 'lnglat', lng: 10, lat: 0 });
+      vi.mocked(context.render.renderPreview).mockClear();
+
+      drawMode.executeFromUi({ type: 'lnglat', lng: 0, lat: 10 });
+      expect(context.render.renderPreview).not.toHaveBeenCalled();
+    });
+
+    it('should do nothing when inactive', () => {
+      drawMode.executeFromUi({ type: 'lnglat', lng: 0, lat: 0 });
+      drawMode.onTypedVertexChange({ type: 'lnglat', lng: 1, lat: 1 });
+
+      expect(context.render.renderPreview).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should clear the snap indicator on deactivate', () => {
+    drawMode.activate();
+    drawMode.deactivate();
+
+    expect(context.snapping.clearIndicator).toHaveBeenCalled();
+  });
+
   // --- Self-intersection prevention ---
 
   describe('self-intersection prevention', () => {
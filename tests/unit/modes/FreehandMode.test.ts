@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FreehandMode } from '../../../src/modes/FreehandMode';
+import type { ModeContext } from '../../../src/core/ModeContext';
+import type { NormalizedInputEvent } from '../../../src/types/input';
+import type { LibreDrawFeature } from '../../../src/types/features';
+
+function createMockContext(): ModeContext {
+  return {
+    store: {
+      add: vi.fn((f: LibreDrawFeature) => f),
+      update: vi.fn(),
+      remove: vi.fn(),
+      getById: vi.fn(),
+      getAll: vi.fn(() => []),
+    },
+    history: {
+      push: vi.fn(),
+    },
+    events: {
+      emit: vi.fn(),
+    },
+    render: {
+      renderPreview: vi.fn(),
+      clearPreview: vi.fn(),
+      renderEdgeHighlight: vi.fn(),
+      clearEdgeHighlight: vi.fn(),
+      renderFeatures: vi.fn(),
+      renderVertices: vi.fn(),
+      clearVertices: vi.fn(),
+      setSelectedIds: vi.fn(),
+    },
+    snapping: {
+      snap: (event) => [event.lngLat.lng, event.lngLat.lat],
+      clearIndicator: vi.fn(),
+    },
+    getScreenPoint: vi.fn((lngLat) => ({ x: lngLat.lng * 10, y: lngLat.lat * 10 })),
+    setDragPan: vi.fn(),
+    getSetbackDistance: () => 10,
+  };
+}
+
+function createPointerEvent(lng: number, lat: number): NormalizedInputEvent {
+  return {
+    lngLat: { lng, lat },
+    point: { x: lng * 10, y: lat * 10 },
+    originalEvent: new MouseEvent('click'),
+    inputType: 'mouse',
+  };
+}
+
+
+/** Press at the first point, drag through the rest and release at the last. */
+function stroke(mode: FreehandMode, points: [number, number][]): void {
+  mode.onPointerDown(createPointerEvent(...points[0]));
+  for (const point of points.slice(1, -1)) {
+    mode.onPointerMove(createPointerEvent(...point));
+  }
+  mode.onPointerUp(createPointerEvent(...points[points.length - 1]));
+}
+
+/** A square traced with intermediate samples along each side. */
+function squarePath(): [number, number][] {
+  const path: [number, number][] = [];
+  for (let i = 0; i < 10; i++) path.push([i, 0]);
+  for (let i = 0; i < 10; i++) path.push([10, i]);
+  for (let i = 10; i > 0; i--) path.push([i, 10]);
+  for (let i = 10; i > 0; i--) path.push([0, i]);
+  path.push([0, 0.01]);
+  return path;
+}
+
+describe('FreehandMode', () => {
+  let context: ModeContext;
+  let mode: FreehandMode;
+
+  beforeEach(() => {
+    context = createMockContext();
+    mode = new FreehandMode(context);
+  });
+
+  it('should not respond to events when inactive', () => {
+    stroke(mode, squarePath());
+    expect(context.store.add).not.toHaveBeenCalled();
+  });
+
+  it('should simplify a traced path into a polygon', () => {
+    mode.activate();
+    stroke(mode, squarePath());
+
+    expect(context.store.add).toHaveBeenCalledOnce();
+    const feature = vi.mocked(context.store.add).mock.calls[0][0];
+    expect(feature.geometry).toEqual({
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+          [0, 10],
+          [0, 0],
+        ],
+      ],
+    });
+  });
+
+  it('should push a create action and emit create event', () => {
+    mode.activate();
+    stroke(mode, squarePath());
+
+    expect(context.history.push).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(context.history.push).mock.calls[0][0].type).toBe('create');
+    expect(context.events.emit).toHaveBeenCalledWith(
+      'create',
+      expect.objectContaining({
+        feature: expect.objectContaining({
+          geometry: expect.objectContaining({ type: 'Polygon' }),
+        }),
+      }),
+    );
+  });
+
+  it('should keep more vertices with a smaller tolerance', () => {
+    const wobbly: [number, number][] = squarePath().map(([x, y], i) => [
+      x + (i % 2) * 0.05,
+      y,
+    ]);
+    mode = new FreehandMode(context, { tolerance: 0.1 });
+    mode.activate();
+    stroke(mode, wobbly);
+
+    const feature = vi.mocked(context.store.add).mock.calls[0][0];
+    expect((feature.geometry.coordinates as number[][][])[0].length).toBeGreaterThan(5);
+  });
+
+  it('should render a closed preview while drawing', () => {
+    mode.activate();
+    mode.onPointerDown(createPointerEvent(0, 0));
+    mode.onPointerMove(createPointerEvent(5, 0));
+    mode.onPointerMove(createPointerEvent(5, 5));
+
+    expect(context.render.renderPreview).toHaveBeenLastCalledWith([
+      [0, 0],
+      [5, 0],
+      [5, 5],
+      [0, 0],
+    ]);
+  });
+
+  it('should reject a self-intersecting outline', () => {
+    mode.activate();
+    // Figure-eight: the path crosses itself in the middle
+    stroke(mode, [
+      [0, 0],
+      [10, 10],
+      [10, 0],
+      [0, 10],
+      [0, 0.01],
+    ]);
+
+    expect(context.store.add).not.toHaveBeenCalled();
+    expect(context.render.clearPreview).toHaveBeenCalled();
+  });
+
+  it('should ignore a click without a path', () => {
+    mode.activate();
+    stroke(mode, [
+      [1, 1],
+      [1, 1],
+    ]);
+
+    expect(context.store.add).not.toHaveBeenCalled();
+  });
+
+  it('should cancel the stroke on Escape', () => {
+    mode.activate();
+    const path = squarePath();
+    mode.onPointerDown(createPointerEvent(...path[0]));
+    for (const point of path.slice(1, 20)) {
+      mode.onPointerMove(createPointerEvent(...point));
+    }
+    mode.onKeyDown('Escape', new KeyboardEvent('keydown', { key: 'Escape' }));
+    mode.onPointerUp(createPointerEvent(0, 10));
+
+    expect(context.store.add).not.toHaveBeenCalled();
+  });
+});
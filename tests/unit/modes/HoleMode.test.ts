@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ModeContext } from '../../../src/core/ModeContext';
+import { HoleMode } from '../../../src/modes/HoleMode';
+import type { LibreDrawFeature, Position } from '../../../src/types/features';
+import type { NormalizedInputEvent } from '../../../src/types/input';
+
+const OUTER: Position[] = [
+  [0, 0],
+  [10, 0],
+  [10, 10],
+  [0, 10],
+  [0, 0],
+];
+
+function makeSquare(id: string, rings: Position[][] = [OUTER]): LibreDrawFeature {
+  return {
+    id,
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: rings },
+    properties: {},
+  };
+}
+
+function pointerEvent(lng: number, lat: number): NormalizedInputEvent {
+  return {
+    lngLat: { lng, lat },
+    point: { x: lng * 10, y: lat * 10 },
+    originalEvent: new MouseEvent('click'),
+    inputType: 'mouse',
+  };
+}
+
+function createContext(features: Map<string, LibreDrawFeature>): ModeContext {
+  return {
+    store: {
+      add: vi.fn((f: LibreDrawFeature) => {
+        features.set(f.id, f);
+        return f;
+      }),
+      update: vi.fn((id: string, f: LibreDrawFeature) => {
+        features.set(id, f);
+      }),
+      remove: vi.fn((id: string) => {
+        const existing = features.get(id);
+        features.delete(id);
+        return existing;
+      }),
+      getById: vi.fn((id: string) => features.get(id)),
+      getAll: vi.fn(() => Array.from(features.values())),
+    },
+    history: { push: vi.fn() },
+    events: { emit: vi.fn() },
+    render: {
+      renderFeatures: vi.fn(),
+      renderPreview: vi.fn(),
+      clearPreview: vi.fn(),
+      renderEdgeHighlight: vi.fn(),
+      clearEdgeHighlight: vi.fn(),
+      renderVertices: vi.fn(),
+      clearVertices: vi.fn(),
+      setSelectedIds: vi.fn(),
+    },
+    snapping: {
+      snap: (event) => [event.lngLat.lng, event.lngLat.lat],
+      clearIndicator: vi.fn(),
+    },
+    getScreenPoint: ({ lng, lat }) => ({ x: lng * 10, y: lat * 10 }),
+    setDragPan: vi.fn(),
+    getSetbackDistance: () => 10,
+  };
+}
+
+describe('HoleMode', () => {
+  let features: Map<string, LibreDrawFeature>;
+  let context: ModeContext;
+  let mode: HoleMode;
+
+  beforeEach(() => {
+    features = new Map([['f1', makeSquare('f1')]]);
+    context = createContext(features);
+    mode = new HoleMode(context);
+    mode.activate();
+  });
+
+  function drawRing(points: Position[]): void {
+    for (const [lng, lat] of points) {
+      mode.onPointerDown(pointerEvent(lng, lat));
+    }
+    mode.onKeyDown('Enter', new KeyboardEvent('keydown', { key: 'Enter' }));
+  }
+
+  it('should select the clicked polygon as the target', () => {
+    mode.onPointerDown(pointerEvent(5, 5));
+
+    expect(context.render.setSelectedIds).toHaveBeenCalledWith(['f1']);
+    expect(context.events.emit).toHaveBeenCalledWith('selectionchange', {
+      selectedIds: ['f1'],
+    });
+  });
+
+  it('should cut a hole and push a single update action', () => {
+    mode.onPointerDown(pointerEvent(5, 5)); // select target
+    drawRing([
+      [2, 2],
+      [4, 2],
+      [4, 4],
+    ]);
+
+    expect(features.get('f1')!.geometry.coordinates).toEqual([
+      OUTER,
+      [
+        [2, 2],
+        [4, 2],
+        [4, 4],
+        [2, 2],
+      ],
+    ]);
+    expect(context.history.push).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(context.history.push).mock.calls[0][0].type).toBe('update');
+    expect(context.events.emit).toHaveBeenCalledWith(
+      'update',
+      expect.objectContaining({
+        feature: expect.objectContaining({ id: 'f1' }),
+      }),
+    );
+  });
+
+  it('should close the ring when clicking near the first vertex', () => {
+    mode.onPointerDown(pointerEvent(5, 5)); // select target
+    mode.onPointerDown(pointerEvent(2, 2));
+    mode.onPointerDown(pointerEvent(4, 2));
+    mode.onPointerDown(pointerEvent(4, 4));
+    mode.onPointerDown(pointerEvent(2.05, 2));
+
+    expect(features.get('f1')!.geometry.coordinates).toHaveLength(2);
+  });
+
+  it('should emit holefailed for a ring leaving the polygon', () => {
+    mode.onPointerDown(pointerEvent(5, 5)); // select target
+    drawRing([
+      [5, 5],
+      [15, 5],
+      [15, 8],
+    ]);
+
+    expect(context.history.push).not.toHaveBeenCalled();
+    expect(context.events.emit).toHaveBeenCalledWith('holefailed', {
+      reason: 'outside-polygon',
+      featureId: 'f1',
+    });
+  });
+
+  it('should remove an existing hole when clicking inside it', () => {
+    const hole: Position[] = [
+      [2, 2],
+      [4, 2],
+      [4, 4],
+      [2, 2],
+    ];
+    features.set('f1', makeSquare('f1', [OUTER, hole]));
+
+    mode.onPointerDown(pointerEvent(5, 5)); // select target
+    mode.onPointerDown(pointerEvent(3.5, 2.5)); // inside the hole
+
+    expect(features.get('f1')!.geometry.coordinates).toEqual([OUTER]);
+    expect(context.history.push).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel the current ring on Escape and clear the target on second Escape', () => {
+    mode.onPointerDown(pointerEvent(5, 5)); // select target
+    mode.onPointerDown(pointerEvent(2, 2));
+
+    mode.onKeyDown('Escape', new KeyboardEvent('keydown', { key: 'Escape' }));
+    expect(context.render.clearPreview).toHaveBeenCalled();
+    expect(context.render.setSelectedIds).not.toHaveBeenCalledWith([]);
+
+    mode.onKeyDown('Escape', new KeyboardEvent('keydown', { key: 'Escape' }));
+    expect(context.render.setSelectedIds).toHaveBeenCalledWith([]);
+  });
+});
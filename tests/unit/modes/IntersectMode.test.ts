@@ -0,0 +1,170 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ModeContext } from '../../../src/core/ModeContext';
+import { IntersectMode } from '../../../src/modes/IntersectMode';
+import type { LibreDrawFeature } from '../../../src/types/features';
+import { CreateAction } from '../../../src/types/features';
+import type { NormalizedInputEvent } from '../../../src/types/input';
+
+function makeRect(id: string, x0: number, y0: number, x1: number, y1: number): LibreDrawFeature {
+  return {
+    id,
+    type: 'Feature',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [x0, y0],
+          [x1, y0],
+          [x1, y1],
+          [x0, y1],
+          [x0, y0],
+        ],
+      ],
+    },
+    properties: { name: id },
+  };
+}
+
+function pointerEvent(lng: number, lat: number): NormalizedInputEvent {
+  return {
+    lngLat: { lng, lat },
+    point: { x: lng * 10, y: lat * 10 },
+    originalEvent: new MouseEvent('click'),
+    inputType: 'mouse',
+  };
+}
+
+interface TestHarness {
+  context: ModeContext;
+  features: Map<string, LibreDrawFeature>;
+  mocks: {
+    add: ReturnType<typeof vi.fn>;
+    push: ReturnType<typeof vi.fn>;
+    emit: ReturnType<typeof vi.fn>;
+    renderFeatures: ReturnType<typeof vi.fn>;
+    setSelectedIds: ReturnType<typeof vi.fn>;
+  };
+}
+
+function createHarness(): TestHarness {
+  const features = new Map<string, LibreDrawFeature>();
+  features.set('field', makeRect('field', 0, 0, 10, 10));
+  features.set('zone', makeRect('zone', 5, 5, 15, 15));
+  features.set('far', makeRect('far', 20, 20, 22, 22));
+
+  const add = vi.fn((feature: LibreDrawFeature) => {
+    features.set(feature.id, feature);
+    return feature;
+  });
+  const push = vi.fn();
+  const emit = vi.fn();
+  const renderFeatures = vi.fn();
+  const setSelectedIds = vi.fn();
+
+  const context: ModeContext = {
+    store: {
+      add,
+      update: vi.fn(),
+      remove: vi.fn(),
+      getById: (id: string) => features.get(id),
+      getAll: () => Array.from(features.values()),
+    },
+    history: {
+      push,
+    },
+    events: {
+      emit,
+    },
+    render: {
+      renderFeatures,
+      renderPreview: vi.fn(),
+      clearPreview: vi.fn(),
+      renderEdgeHighlight: vi.fn(),
+      clearEdgeHighlight: vi.fn(),
+      renderVertices: vi.fn(),
+      clearVertices: vi.fn(),
+      setSelectedIds,
+    },
+    snapping: {
+      snap: (event) => [event.lngLat.lng, event.lngLat.lat],
+      clearIndicator: vi.fn(),
+    },
+    getScreenPoint: ({ lng, lat }) => ({ x: lng * 10, y: lat * 10 }),
+    setDragPan: vi.fn(),
+    getSetbackDistance: () => 10,
+  };
+
+  return {
+    context,
+    features,
+    mocks: { add, push, emit, renderFeatures, setSelectedIds },
+  };
+}
+
+describe('IntersectMode', () => {
+  let harness: TestHarness;
+  let mode: IntersectMode;
+
+  beforeEach(() => {
+    harness = createHarness();
+    mode = new IntersectMode(harness.context);
+  });
+
+  it('should highlight the first clicked polygon', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(1, 1));
+
+    expect(harness.mocks.setSelectedIds).toHaveBeenCalledWith(['field']);
+    expect(harness.mocks.emit).toHaveBeenCalledWith('selectionchange', {
+      selectedIds: ['field'],
+    });
+  });
+
+  it('should create the overlap as a new feature and keep the inputs', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(1, 1)); // field
+    mode.onPointerDown(pointerEvent(12, 12)); // zone
+
+    expect(harness.mocks.add).toHaveBeenCalledTimes(1);
+    const created = harness.mocks.add.mock.calls[0][0] as LibreDrawFeature;
+    expect(harness.features.size).toBe(4);
+    expect(harness.features.get('field')).toEqual(makeRect('field', 0, 0, 10, 10));
+    expect(harness.features.get('zone')).toEqual(makeRect('zone', 5, 5, 15, 15));
+    expect(harness.mocks.push).toHaveBeenCalledTimes(1);
+    expect(harness.mocks.push.mock.calls[0][0]).toBeInstanceOf(CreateAction);
+    expect(harness.mocks.emit).toHaveBeenCalledWith('create', { feature: created });
+    expect(harness.mocks.setSelectedIds).toHaveBeenLastCalledWith([]);
+  });
+
+  it('should emit intersectfailed and keep waiting when the polygons do not overlap', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(1, 1)); // field
+    mode.onPointerDown(pointerEvent(21, 21)); // far
+
+    expect(harness.mocks.emit).toHaveBeenCalledWith('intersectfailed', {
+      reason: 'no-overlap',
+      featureIds: ['field', 'far'],
+    });
+    expect(harness.mocks.add).not.toHaveBeenCalled();
+
+    mode.onPointerDown(pointerEvent(12, 12)); // zone
+    expect(harness.mocks.add).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reset when clicking outside any polygon', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(1, 1));
+    mode.onPointerDown(pointerEvent(50, 50));
+
+    expect(harness.mocks.setSelectedIds).toHaveBeenLastCalledWith([]);
+    expect(harness.mocks.add).not.toHaveBeenCalled();
+  });
+
+  it('should clear the highlight on Escape', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(1, 1));
+    mode.onKeyDown('Escape', new KeyboardEvent('keydown', { key: 'Escape' }));
+
+    expect(harness.mocks.setSelectedIds).toHaveBeenLastCalledWith([]);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LineMode } from '../../../src/modes/LineMode';
+import type { ModeContext } from '../../../src/core/ModeContext';
+import type { NormalizedInputEvent } from '../../../src/types/input';
+import type { LibreDrawFeature } from '../../../src/types/features';
+
+function createMockContext(): ModeContext {
+  return {
+    store: {
+      add: vi.fn((f: LibreDrawFeature) => f),
+      update: vi.fn(),
+      remove: vi.fn(),
+      getById: vi.fn(),
+      getAll: vi.fn(() => []),
+    },
+    history: {
+      push: vi.fn(),
+    },
+    events: {
+      emit: vi.fn(),
+    },
+    render: {
+      renderPreview: vi.fn(),
+      clearPreview: vi.fn(),
+      renderEdgeHighlight: vi.fn(),
+      clearEdgeHighlight: vi.fn(),
+      renderFeatures: vi.fn(),
+      renderVertices: vi.fn(),
+      clearVertices: vi.fn(),
+      setSelectedIds: vi.fn(),
+    },
+    snapping: {
+      snap: (event) => [event.lngLat.lng, event.lngLat.lat],
+      clearIndicator: vi.fn(),
+    },
+    getScreenPoint: vi.fn((lngLat) => ({ x: lngLat.lng * 10, y: lngLat.lat * 10 })),
+    setDragPan: vi.fn(),
+    getSetbackDistance: () => 10,
+  };
+}
+
+function createPointerEvent(lng: number, lat: number): NormalizedInputEvent {
+  return {
+    lngLat: { lng, lat },
+    point: { x: lng * 10, y: lat * 10 },
+    originalEvent: new MouseEvent('click'),
+    inputType: 'mouse',
+  };
+}
+
+describe('LineMode', () => {
+  let context: ModeContext;
+  let lineMode: LineMode;
+
+  beforeEach(() => {
+    context = createMockContext();
+    lineMode = new LineMode(context);
+  });
+
+  it('should not respond to events when inactive', () => {
+    lineMode.onPointerDown(createPointerEvent(0, 0));
+    expect(context.render.renderPreview).not.toHaveBeenCalled();
+  });
+
+  it('should render an open preview path without closing point', () => {
+    lineMode.activate();
+    lineMode.onPointerDown(createPointerEvent(0, 0));
+    lineMode.onPointerDown(createPointerEvent(10, 0));
+    lineMode.onPointerMove(createPointerEvent(10, 10));
+
+    expect(context.render.renderPreview).toHaveBeenLastCalledWith([
+      [0, 0],
+      [10, 0],
+      [10, 10],
+    ]);
+  });
+
+  it('should finalize a LineString on double click', () => {
+    lineMode.activate();
+    lineMode.onPointerDown(createPointerEvent(0, 0));
+    lineMode.onPointerDown(createPointerEvent(10, 0));
+    lineMode.onPointerDown(createPointerEvent(10, 10));
+    lineMode.onPointerDown(createPointerEvent(10, 10)); // extra from dblclick
+
+    lineMode.onDoubleClick(createPointerEvent(10, 10));
+
+    expect(context.store.add).toHaveBeenCalledTimes(1);
+    const created = vi.mocked(context.store.add).mock.calls[0][0];
+    expect(created.geometry).toEqual({
+      type: 'LineString',
+      coordinates: [
+        [0, 0],
+        [10, 0],
+        [10, 10],
+      ],
+    });
+    expect(context.history.push).toHaveBeenCalledTimes(1);
+    expect(context.events.emit).toHaveBeenCalledWith(
+      'create',
+      expect.objectContaining({
+        feature: expect.objectContaining({ type: 'Feature' }),
+      }),
+    );
+    expect(context.render.clearPreview).toHaveBeenCalled();
+  });
+
+  it('should finalize a LineString on Enter', () => {
+    lineMode.activate();
+    lineMode.onPointerDown(createPointerEvent(0, 0));
+    lineMode.onPointerDown(createPointerEvent(5, 5));
+
+    lineMode.onKeyDown('Enter', new KeyboardEvent('keydown', { key: 'Enter' }));
+
+    expect(context.store.add).toHaveBeenCalledTimes(1);
+    const created = vi.mocked(context.store.add).mock.calls[0][0];
+    expect(created.geometry.coordinates).toEqual([
+      [0, 0],
+      [5, 5],
+    ]);
+  });
+
+  it('should not finalize with fewer than 2 vertices', () => {
+    lineMode.activate();
+    lineMode.onPointerDown(createPointerEvent(0, 0));
+
+    lineMode.onKeyDown('Enter', new KeyboardEvent('keydown', { key: 'Enter' }));
+
+    expect(context.store.add).not.toHaveBeenCalled();
+  });
+
+  it('should cancel drawing on Escape key', () => {
+    lineMode.activate();
+    lineMode.onPointerDown(createPointerEvent(0, 0));
+    lineMode.onPointerDown(createPointerEvent(10, 0));
+
+    lineMode.onKeyDown('Escape', new KeyboardEvent('keydown', { key: 'Escape' }));
+    lineMode.onKeyDown('Enter', new KeyboardEvent('keydown', { key: 'Enter' }));
+
+    expect(context.render.clearPreview).toHaveBeenCalled();
+    expect(context.store.add).not.toHaveBeenCalled();
+  });
+
+  it('should remove last vertex on long press', () => {
+    lineMode.activate();
+    lineMode.onPointerDown(createPointerEvent(0, 0));
+    lineMode.onPointerDown(createPointerEvent(10, 0));
+    lineMode.onPointerDown(createPointerEvent(10, 10));
+
+    lineMode.onLongPress(createPointerEvent(10, 10));
+    lineMode.onKeyDown('Enter', new KeyboardEvent('keydown', { key: 'Enter' }));
+
+    const created = vi.mocked(context.store.add).mock.calls[0][0];
+    expect(created.geometry.coordinates).toEqual([
+      [0, 0],
+      [10, 0],
+    ]);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PointMode } from '../../../src/modes/PointMode';
+import type { ModeContext } from '../../../src/core/ModeContext';
+import type { NormalizedInputEvent } from '../../../src/types/input';
+import type { LibreDrawFeature } from '../../../src/types/features';
+
+function createMockContext(): ModeContext {
+  return {
+    store: {
+      add: vi.fn((f: LibreDrawFeature) => f),
+      update: vi.fn(),
+      remove: vi.fn(),
+      getById: vi.fn(),
+      getAll: vi.fn(() => []),
+    },
+    history: {
+      push: vi.fn(),
+    },
+    events: {
+      emit: vi.fn(),
+    },
+    render: {
+      renderPreview: vi.fn(),
+      clearPreview: vi.fn(),
+      renderEdgeHighlight: vi.fn(),
+      clearEdgeHighlight: vi.fn(),
+      renderFeatures: vi.fn(),
+      renderVertices: vi.fn(),
+      clearVertices: vi.fn(),
+      setSelectedIds: vi.fn(),
+    },
+    snapping: {
+      snap: (event) => [event.lngLat.lng, event.lngLat.lat],
+      clearIndicator: vi.fn(),
+    },
+    getScreenPoint: vi.fn((lngLat) => ({ x: lngLat.lng * 10, y: lngLat.lat * 10 })),
+    setDragPan: vi.fn(),
+    getSetbackDistance: () => 10,
+  };
+}
+
+function createPointerEvent(lng: number, lat: number): NormalizedInputEvent {
+  return {
+    lngLat: { lng, lat },
+    point: { x: lng * 10, y: lat * 10 },
+    originalEvent: new MouseEvent('click'),
+    inputType: 'mouse',
+  };
+}
+
+describe('PointMode', () => {
+  let context: ModeContext;
+  let pointMode: PointMode;
+
+  beforeEach(() => {
+    context = createMockContext();
+    pointMode = new PointMode(context);
+  });
+
+  it('should not respond to events when inactive', () => {
+    pointMode.onPointerDown(createPointerEvent(0, 0));
+    expect(context.store.add).not.toHaveBeenCalled();
+  });
+
+  it('should create a Point feature on each click', () => {
+    pointMode.activate();
+    pointMode.onPointerDown(createPointerEvent(1, 2));
+    pointMode.onPointerDown(createPointerEvent(3, 4));
+
+    expect(context.store.add).toHaveBeenCalledTimes(2);
+    const first = vi.mocked(context.store.add).mock.calls[0][0];
+    const second = vi.mocked(context.store.add).mock.calls[1][0];
+    expect(first.geometry).toEqual({ type: 'Point', coordinates: [1, 2] });
+    expect(second.geometry).toEqual({ type: 'Point', coordinates: [3, 4] });
+    expect(first.id).not.toBe(second.id);
+  });
+
+  it('should push a create action and emit create event', () => {
+    pointMode.activate();
+    pointMode.onPointerDown(createPointerEvent(1, 2));
+
+    expect(context.history.push).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(context.history.push).mock.calls[0][0].type).toBe('create');
+    expect(context.events.emit).toHaveBeenCalledWith(
+      'create',
+      expect.objectContaining({
+        feature: expect.objectContaining({
+          geometry: { type: 'Point', coordinates: [1, 2] },
+        }),
+      }),
+    );
+    expect(context.render.renderFeatures).toHaveBeenCalled();
+  });
+
+  it('should stop responding after deactivate', () => {
+    pointMode.activate();
+    pointMode.deactivate();
+    pointMode.onPointerDown(createPointerEvent(1, 2));
+
+    expect(context.store.add).not.toHaveBeenCalled();
+  });
+
+  it('should disable drag pan and double click zoom', () => {
+    expect(pointMode.mapInteractions()).toEqual({
+      dragPan: false,
+      doubleClickZoom: false,
+    });
+  });
+
+  it('should create a single point on double click', () => {
+    pointMode.activate();
+    pointMode.onPointerDown(createPointerEvent(1, 2));
+    pointMode.onPointerDown(createPointerEvent(1, 2));
+    pointMode.onDoubleClick(createPointerEvent(1, 2));
+
+    expect(context.store.add).toHaveBeenCalledTimes(1);
+    expect(context.history.push).toHaveBeenCalledTimes(1);
+  });
+
+  it('should create a point on each of two slow clicks on the same spot', () => {
+    vi.useFakeTimers();
+    try {
+      pointMode.activate();
+      pointMode.onPointerDown(createPointerEvent(1, 2));
+      vi.advanceTimersByTime(500);
+      pointMode.onPointerDown(createPointerEvent(1, 2));
+
+      expect(context.store.add).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RectangleMode } from '../../../src/modes/RectangleMode';
+import type { ModeContext } from '../../../src/core/ModeContext';
+import type { NormalizedInputEvent } from '../../../src/types/input';
+import type { LibreDrawFeature, PolygonGeometry } from '../../../src/types/features';
+
+function createMockContext(): ModeContext {
+  return {
+    store: {
+      add: vi.fn((f: LibreDrawFeature) => f),
+      update: vi.fn(),
+      remove: vi.fn(),
+      getById: vi.fn(),
+      getAll: vi.fn(() => []),
+    },
+    history: {
+      push: vi.fn(),
+    },
+    events: {
+      emit: vi.fn(),
+    },
+    render: {
+      renderPreview: vi.fn(),
+      clearPreview: vi.fn(),
+      renderEdgeHighlight: vi.fn(),
+      clearEdgeHighlight: vi.fn(),
+      renderFeatures: vi.fn(),
+      renderVertices: vi.fn(),
+      clearVertices: vi.fn(),
+      setSelectedIds: vi.fn(),
+    },
+    snapping: {
+      snap: (event) => [event.lngLat.lng, event.lngLat.lat],
+      clearIndicator: vi.fn(),
+    },
+    getScreenPoint: vi.fn((lngLat) => ({ x: lngLat.lng * 10, y: lngLat.lat * 10 })),
+    setDragPan: vi.fn(),
+    getSetbackDistance: () => 10,
+  };
+}
+
+function createPointerEvent(lng: number, lat: number): NormalizedInputEvent {
+  return {
+    lngLat: { lng, lat },
+    point: { x: lng * 10, y: lat * 10 },
+    originalEvent: new MouseEvent('click'),
+    inputType: 'mouse',
+  };
+}
+
+function click(mode: RectangleMode, lng: number, lat: number): void {
+  mode.onPointerDown(createPointerEvent(lng, lat));
+  mode.onPointerUp(createPointerEvent(lng, lat));
+}
+
+function getCreatedRing(context: ModeContext): number[][] {
+  const feature = vi.mocked(context.store.add).mock.calls[0][0];
+  return (feature.geometry as PolygonGeometry).coordinates[0];
+}
+
+describe('RectangleMode', () => {
+  let context: ModeContext;
+  let mode: RectangleMode;
+
+  beforeEach(() => {
+    context = createMockContext();
+    mode = new RectangleMode(context);
+  });
+
+  it('should not respond to events when inactive', () => {
+    click(mode, 0, 0);
+    click(mode, 2, 1);
+    expect(context.store.add).not.toHaveBeenCalled();
+  });
+
+  it('should create an axis-aligned rectangle from two clicks', () => {
+    mode.activate();
+    click(mode, 0, 0);
+    expect(context.store.add).not.toHaveBeenCalled();
+    click(mode, 2, 1);
+
+    expect(context.store.add).toHaveBeenCalledOnce();
+    expect(getCreatedRing(context)).toEqual([
+      [0, 0],
+      [2, 0],
+      [2, 1],
+      [0, 1],
+      [0, 0],
+    ]);
+  });
+
+  it('should create an axis-aligned rectangle from a drag', () => {
+    mode.activate();
+    mode.onPointerDown(createPointerEvent(0, 0));
+    mode.onPointerMove(createPointerEvent(1, 1));
+    mode.onPointerUp(createPointerEvent(2, 1));
+
+    expect(context.store.add).toHaveBeenCalledOnce();
+    expect(getCreatedRing(context)[2]).toEqual([2, 1]);
+  });
+
+  it('should push a create action and emit create event', () => {
+    mode.activate();
+    click(mode, 0, 0);
+    click(mode, 2, 1);
+
+    expect(context.history.push).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(context.history.push).mock.calls[0][0].type).toBe('create');
+    expect(context.events.emit).toHaveBeenCalledWith(
+      'create',
+      expect.objectContaining({
+        feature: expect.objectContaining({
+          geometry: expect.objectContaining({ type: 'Polygon' }),
+        }),
+      }),
+    );
+  });
+
+  it('should render a rectangle preview while choosing the second corner', () => {
+    mode.activate();
+    click(mode, 0, 0);
+    mode.onPointerMove(createPointerEvent(2, 1));
+
+    expect(context.render.renderPreview).toHaveBeenLastCalledWith([
+      [0, 0],
+      [2, 0],
+      [2, 1],
+      [0, 1],
+      [0, 0],
+    ]);
+  });
+
+  it('should ignore a second click on the first corner', () => {
+    mode.activate();
+    click(mode, 0, 0);
+    click(mode, 0.2, 0.2);
+
+    expect(context.store.add).not.toHaveBeenCalled();
+  });
+
+  it('should cancel drawing on Escape', () => {
+    mode.activate();
+    click(mode, 0, 0);
+    mode.onKeyDown('Escape', new KeyboardEvent('keydown', { key: 'Escape' }));
+    click(mode, 2, 1);
+
+    expect(context.store.add).not.toHaveBeenCalled();
+    expect(context.render.clearPreview).toHaveBeenCalled();
+  });
+
+  describe('rotated', () => {
+    beforeEach(() => {
+      mode = new RectangleMode(context, { rotated: true });
+      mode.activate();
+    });
+
+    it('should create a rectangle from baseline and depth clicks', () => {
+      click(mode, 0, 0);
+      click(mode, 2, 0);
+      expect(context.store.add).not.toHaveBeenCalled();
+      click(mode, 1, 1);
+
+      expect(context.store.add).toHaveBeenCalledOnce();
+      const ring = getCreatedRing(context);
+      expect(ring).toHaveLength(5);
+      expect(ring[0]).toEqual([0, 0]);
+      expect(ring[1]).toEqual([2, 0]);
+      expect(ring[2][0]).toBeCloseTo(2, 10);
+      expect(ring[2][1]).toBeCloseTo(1, 10);
+      expect(ring[3][0]).toBeCloseTo(0, 10);
+      expect(ring[3][1]).toBeCloseTo(1, 10);
+    });
+
+    it('should ignore a depth click on the baseline', () => {
+      click(mode, 0, 0);
+      click(mode, 2, 0);
+      click(mode, 3, 0);
+
+      expect(context.store.add).not.toHaveBeenCalled();
+    });
+
+    it('should remove the baseline end on long press', () => {
+      click(mode, 0, 0);
+      click(mode, 2, 0);
+      mode.onLongPress(createPointerEvent(2, 0));
+      click(mode, 0, 2);
+      click(mode, 1, 1);
+
+      expect(context.store.add).toHaveBeenCalledOnce();
+      expect(getCreatedRing(context)[1]).toEqual([0, 2]);
+    });
+  });
+});
@@ -2,7 +2,14 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { SelectMode } from '../../../src/modes/SelectMode';
 import type { ModeContext } from '../../../src/core/ModeContext';
 import type { NormalizedInputEvent } from '../../../src/types/input';
-import type { LibreDrawFeature } from '../../../src/types/features';
+import type { LibreDrawFeature, Position } from '../../../src/types/features';
+import {
+  BatchDeleteAction,
+  BatchUpdateAction,
+  UpdateAction,
+} from '../../../src/types/features';
+import type { TransformHandle } from '../../../src/utils/transform';
+import { getTransformHandles, rotateFeature } from '../../../src/utils/transform';
 
 function makeFeature(id: string): LibreDrawFeature {
   return {
@@ -52,6 +59,24 @@ function createPointerEvent(lng: number, lat: number): NormalizedInputEvent {
   };
 }
 
+function createShiftPointerEvent(lng: number, lat: number): NormalizedInputEvent {
+  return {
+    ...createPointerEvent(lng, lat),
+    originalEvent: new MouseEvent('mousemove', { shiftKey: true }),
+  };
+}
+
+function createAreaSelectEvent(
+  lng: number,
+  lat: number,
+  options: { altKey?: boolean } = {},
+): NormalizedInputEvent {
+  return {
+    ...createPointerEvent(lng, lat),
+    originalEvent: new MouseEvent('mousedown', { shiftKey: true, ...options }),
+  };
+}
+
 function createTouchEvent(lng: number, lat: number): NormalizedInputEvent {
   return {
     lngLat: { lng, lat },
@@ -71,6 +96,7 @@ interface SelectModeMocks {
   getScreenPoint: ReturnType<typeof vi.fn>;
   updateFeatureInStore: ReturnType<typeof vi.fn>;
   renderVertices: ReturnType<typeof vi.fn>;
+  renderTransformHandles: ReturnType<typeof vi.fn>;
   clearVertices: ReturnType<typeof vi.fn>;
   setDragPan: ReturnType<typeof vi.fn>;
 }
@@ -97,6 +123,7 @@ function createCallbacks(
       featureMap.set(id, feature);
     }),
     renderVertices: vi.fn(),
+    renderTransformHandles: vi.fn(),
     clearVertices: vi.fn(),
     setDragPan: vi.fn(),
   };
@@ -124,9 +151,14 @@ function createModeContext(callbacks: SelectModeMocks): ModeContext {
       renderEdgeHighlight: vi.fn(),
       clearEdgeHighlight: vi.fn(),
       renderVertices: callbacks.renderVertices,
+      renderTransformHandles: callbacks.renderTransformHandles,
       clearVertices: callbacks.clearVertices,
       setSelectedIds: vi.fn(),
     },
+    snapping: {
+      snap: (event) => [event.lngLat.lng, event.lngLat.lat],
+      clearIndicator: vi.fn(),
+    },
     getScreenPoint: callbacks.getScreenPoint,
     setDragPan: callbacks.setDragPan,
     getSetbackDistance: () => 10,
@@ -480,6 +512,22 @@ describe('SelectMode', () => {
     });
 
     it('should miss vertex at 25px with touch input', () => {
+      // A larger square keeps its scale handles out of touch reach of (-2.5,0)
+      featureMap.set('f1', {
+        ...makeFeature('f1'),
+        geometry: {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [0, 0],
+              [30, 0],
+              [30, 30],
+              [0, 30],
+              [0, 0],
+            ],
+          ],
+        },
+      });
       selectMode.activate();
       selectMode.onPointerDown(createPointerEvent(5, 5)); // select
 
@@ -841,4 +889,338 @@ describe('SelectMode', () => {
       expect(callbacks.updateFeatureInStore).toHaveBeenCalled();
     });
   });
+
+  describe('rotation', () => {
+    // The 10x10 square's rotation handle sits 2 units above its top edge.
+    const handle = (): NormalizedInputEvent => createPointerEvent(5, 12);
+
+    it('should render a rotation handle above the selected polygon', () => {
+      selectMode.activate();
+      selectMode.onPointerDown(createPointerEvent(5, 5));
+
+      const handles: TransformHandle[] =
+        vi.mocked(callbacks.renderTransformHandles).mock.lastCall![0];
+      const rotate = handles.find((h) => h.kind === 'rotate')!;
+      expect(rotate.position[0]).toBeCloseTo(5);
+      expect(rotate.position[1]).toBeCloseTo(12);
+    });
+
+    it('should rotate around the center and commit one UpdateAction on pointer up', () => {
+      selectMode.activate();
+      selectMode.onPointerDown(createPointerEvent(5, 5));
+      selectMode.onPointerDown(handle());
+      expect(callbacks.setDragPan).toHaveBeenCalledWith(false);
+
+      selectMode.onPointerMove(createPointerEvent(8, 8));
+      selectMode.onPointerMove(createPointerEvent(12, 5)); // due east of the center
+      expect(callbacks.pushToHistory).not.toHaveBeenCalled();
+
+      selectMode.onPointerUp(createPointerEvent(12, 5));
+
+      const ring = (featureMap.get('f1')!.geometry.coordinates as Position[][])[0];
+      // Rotated a quarter turn clockwise: (0,0) moves to the top-left corner
+      expect(ring[0][0]).toBeCloseTo(0, 1);
+      expect(ring[0][1]).toBeCloseTo(10, 1);
+
+      expect(callbacks.pushToHistory).toHaveBeenCalledTimes(1);
+      expect(callbacks.pushToHistory.mock.calls[0][0]).toBeInstanceOf(UpdateAction);
+      expect(callbacks.emitEvent).toHaveBeenCalledWith(
+        'update',
+        expect.objectContaining({ oldFeature: makeFeature('f1') }),
+      );
+      expect(callbacks.setDragPan).toHaveBeenLastCalledWith(true);
+    });
+
+    it('should snap the angle to 15° steps while Shift is held', () => {
+      selectMode.activate();
+      selectMode.onPointerDown(createPointerEvent(5, 5));
+      selectMode.onPointerDown(handle());
+
+      // About 50° clockwise from north, snapped to 45°
+      selectMode.onPointerMove(createShiftPointerEvent(10.9, 10));
+
+      const rotated = vi.mocked(callbacks.updateFeatureInStore).mock.lastCall![1];
+      const expected = rotateFeature(makeFeature('f1'), 45, [5, 5]);
+      expect(rotated.geometry.coordinates).toEqual(expected.geometry.coordinates);
+    });
+
+    it('should start rotating when Shift is already held on the handle', () => {
+      selectMode.activate();
+      selectMode.onPointerDown(createPointerEvent(5, 5));
+      selectMode.onPointerDown(createAreaSelectEvent(5, 12));
+      selectMode.onPointerMove(createShiftPointerEvent(10.9, 10));
+
+      const rotated = vi.mocked(callbacks.updateFeatureInStore).mock.lastCall![1];
+      const expected = rotateFeature(makeFeature('f1'), 45, [5, 5]);
+      expect(rotated.geometry.coordinates).toEqual(expected.geometry.coordinates);
+      expect(selectMode.getSelectedIds()).toEqual(['f1']);
+    });
+
+    it('should not show a rotation handle for points', () => {
+      featureMap.set('p1', {
+        id: 'p1',
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [50, 50] },
+        properties: {},
+      });
+
+      selectMode.activate();
+      selectMode.onPointerDown(createPointerEvent(50, 50));
+
+      expect(callbacks.renderTransformHandles).toHaveBeenLastCalledWith([]);
+    });
+  });
+
+  describe('scaling', () => {
+    // Scale handles of the 10x10 square, which sit just outside its bounding box
+    const scaleHandle = (axes: 'x' | 'y' | 'xy', lng: number, lat: number): Position => {
+      const handle = getTransformHandles(makeFeature('f1')).find(
+        (h) =>
+          h.kind === 'scale' &&
+          h.axes === axes &&
+          Math.sign(h.position[0] - 5) === lng &&
+          Math.sign(h.position[1] - 5) === lat,
+      )!;
+      return handle.position;
+    };
+    const northEast = (): Position => scaleHandle('xy', 1, 1);
+    const east = (): Position => scaleHandle('x', 1, 0);
+
+    const ringOf = (id: string): Position[] =>
+      (featureMap.get(id)!.geometry.coordinates as Position[][])[0];
+
+    it('should render corner and edge scale handles for the selected polygon', () => {
+      selectMode.activate();
+      selectMode.onPointerDown(createPointerEvent(5, 5));
+
+      const handles: TransformHandle[] =
+        vi.mocked(callbacks.renderTransformHandles).mock.lastCall![0];
+      const scaleHandles = handles.filter((h) => h.kind === 'scale');
+      expect(scaleHandles).toHaveLength(8);
+      expect(scaleHandles.filter((h) => h.axes === 'xy')).toHaveLength(4);
+    });
+
+    it('should scale about the opposite corner and commit one UpdateAction', () => {
+      const [lng, lat] = northEast();
+      selectMode.activate();
+      selectMode.onPointerDown(createPointerEvent(5, 5));
+      selectMode.onPointerDown(createPointerEvent(lng, lat));
+      expect(callbacks.setDragPan).toHaveBeenCalledWith(false);
+
+      selectMode.onPointerMove(createPointerEvent(lng * 1.5, lat));
+      selectMode.onPointerMove(createPointerEvent(lng * 2, lat * 1.5));
+      expect(callbacks.pushToHistory).not.toHaveBeenCalled();
+
+      selectMode.onPointerUp(createPointerEvent(lng * 2, lat * 1.5));
+
+      const ring = ringOf('f1');
+      expect(ring[0][0]).toBeCloseTo(0);
+      expect(ring[0][1]).toBeCloseTo(0);
+      expect(ring[2][0]).toBeCloseTo(20);
+      expect(ring[2][1]).toBeCloseTo(15);
+
+      expect(callbacks.pushToHistory).toHaveBeenCalledTimes(1);
+      expect(callbacks.pushToHistory.mock.calls[0][0]).toBeInstanceOf(UpdateAction);
+      expect(callbacks.emitEvent).toHaveBeenCalledWith(
+        'update',
+        expect.objectContaining({ oldFeature: makeFeature('f1') }),
+      );
+      expect(callbacks.setDragPan).toHaveBeenLastCalledWith(true);
+    });
+
+    it('should scale only one axis from an edge handle', () => {
+      const [lng, lat] = east();
+      selectMode.activate();
+      selectMode.onPointerDown(createPointerEvent(5, 5));
+      selectMode.onPointerDown(createPointerEvent(lng, lat));
+      selectMode.onPointerMove(createPointerEvent(lng * 2, lat + 3));
+
+      const ring = ringOf('f1');
+      expect(ring[2][0]).toBeCloseTo(20);
+      expect(ring[2][1]).toBeCloseTo(10);
+    });
+
+    it('should keep the proportions while Shift is held', () => {
+      const [lng, lat] = east();
+      selectMode.activate();
+      selectMode.onPointerDown(createPointerEvent(5, 5));
+      selectMode.onPointerDown(createPointerEvent(lng, lat));
+      selectMode.onPointerMove(createShiftPointerEvent(lng * 2, lat));
+
+      // Scaled by 2 about the west edge midpoint (0, 5)
+      const ring = ringOf('f1');
+      expect(ring[0][0]).toBeCloseTo(0);
+      expect(ring[0][1]).toBeCloseTo(-5);
+      expect(ring[2][0]).toBeCloseTo(20);
+      expect(ring[2][1]).toBeCloseTo(15);
+    });
+
+    it('should scale uniformly when Shift is already held on the handle', () => {
+      const [lng, lat] = east();
+      selectMode.activate();
+      selectMode.onPointerDown(createPointerEvent(5, 5));
+      selectMode.onPointerDown(createAreaSelectEvent(lng, lat));
+      selectMode.onPointerMove(createShiftPointerEvent(lng * 2, lat));
+      selectMode.onPointerUp(createShiftPointerEvent(lng * 2, lat));
+
+      const ring = ringOf('f1');
+      expect(ring[0][1]).toBeCloseTo(-5);
+      expect(ring[2][0]).toBeCloseTo(20);
+      expect(ring[2][1]).toBeCloseTo(15);
+      expect(selectMode.getSelectedIds()).toEqual(['f1']);
+      expect(callbacks.pushToHistory).toHaveBeenCalledTimes(1);
+    });
+
+    it('should scale about the center while Alt is held', () => {
+      const [lng, lat] = northEast();
+      selectMode.activate();
+      selectMode.onPointerDown(createPointerEvent(5, 5));
+      selectMode.onPointerDown(createPointerEvent(lng, lat));
+      selectMode.onPointerMove({
+        ...createPointerEvent(5 + (lng - 5) * 2, 5 + (lat - 5) * 2),
+        originalEvent: new MouseEvent('mousemove', { altKey: true }),
+      });
+
+      const ring = ringOf('f1');
+      expect(ring[0][0]).toBeCloseTo(-5);
+      expect(ring[0][1]).toBeCloseTo(-5);
+      expect(ring[2][0]).toBeCloseTo(15);
+      expect(ring[2][1]).toBeCloseTo(15);
+    });
+
+    it('should ignore moves that would collapse or mirror the polygon', () => {
+      const [lng, lat] = northEast();
+      selectMode.activate();
+      selectMode.onPointerDown(createPointerEvent(5, 5));
+      selectMode.onPointerDown(createPointerEvent(lng, lat));
+
+      // Dragging past the anchor corner would mirror the polygon
+      selectMode.onPointerMove(createPointerEvent(-5, -5));
+      expect(callbacks.updateFeatureInStore).not.toHaveBeenCalled();
+
+      selectMode.onPointerUp(createPointerEvent(-5, -5));
+      expect(callbacks.pushToHistory).not.toHaveBeenCalled();
+      expect(callbacks.setDragPan).toHaveBeenLastCalledWith(true);
+    });
+  });
+
+  describe('multi-selection', () => {
+    // A 10x10 square with its south-west corner at (lng, lat)
+    const makeSquareAt = (id: string, lng: number, lat: number): LibreDrawFeature => ({
+      ...makeFeature(id),
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [lng, lat],
+            [lng + 10, lat],
+            [lng + 10, lat + 10],
+            [lng, lat + 10],
+            [lng, lat],
+          ],
+        ],
+      },
+    });
+
+    beforeEach(() => {
+      featureMap.set('f2', makeSquareAt('f2', 20, 0));
+      featureMap.set('f3', makeSquareAt('f3', 40, 0));
+    });
+
+    it('should add and remove features with Shift-click', () => {
+      selectMode.activate();
+      selectMode.onPointerDown(createPointerEvent(5, 5));
+      selectMode.onPointerDown(createShiftPointerEvent(25, 5));
+
+      expect(selectMode.getSelectedIds()).toEqual(['f1', 'f2']);
+      expect(onSelectionChange).toHaveBeenLastCalledWith(['f1', 'f2']);
+      // Handles are only shown for a single selected feature
+      expect(callbacks.clearVertices).toHaveBeenCalled();
+      expect(callbacks.setDragPan).not.toHaveBeenCalledWith(false);
+
+      selectMode.onPointerDown(createShiftPointerEvent(5, 5));
+      expect(selectMode.getSelectedIds()).toEqual(['f2']);
+    });
+
+    it('should select the features inside a Shift-dragged box', () => {
+      selectMode.activate();
+      selectMode.onPointerDown(createAreaSelectEvent(-1, -1));
+      expect(callbacks.setDragPan).toHaveBeenCalledWith(false);
+
+      selectMode.onPointerMove(createAreaSelectEvent(45, 11));
+      expect(context.render.renderPreview).toHaveBeenLastCalledWith([
+        [-1, -1],
+        [45, -1],
+        [45, 11],
+        [-1, 11],
+        [-1, -1],
+      ]);
+
+      selectMode.onPointerUp(createAreaSelectEvent(45, 11));
+
+      // f3 is only partly inside the box
+      expect(selectMode.getSelectedIds()).toEqual(['f1', 'f2']);
+      expect(context.render.clearPreview).toHaveBeenCalled();
+      expect(callbacks.setDragPan).toHaveBeenLastCalledWith(true);
+    });
+
+    it('should select the features inside a Shift+Alt-dragged lasso', () => {
+      selectMode.activate();
+      selectMode.onPointerDown(createAreaSelectEvent(-1, -1, { altKey: true }));
+      selectMode.onPointerMove(createAreaSelectEvent(35, 0, { altKey: true }));
+      selectMode.onPointerMove(createAreaSelectEvent(12, 20, { altKey: true }));
+      selectMode.onPointerMove(createAreaSelectEvent(-1, 12, { altKey: true }));
+      selectMode.onPointerUp(createAreaSelectEvent(-1, 12, { altKey: true }));
+
+      // f2's north-east corner lies outside the lasso
+      expect(selectMode.getSelectedIds()).toEqual(['f1']);
+    });
+
+    it('should move the whole selection as one history entry', () => {
+      selectMode.activate();
+      selectMode.onPointerDown(createPointerEvent(5, 5));
+      selectMode.onPointerDown(createShiftPointerEvent(25, 5));
+
+      selectMode.onPointerDown(createPointerEvent(25, 5));
+      selectMode.onPointerMove(createPointerEvent(27, 8));
+      selectMode.onPointerUp(createPointerEvent(27, 8));
+
+      expect(featureMap.get('f1')).toEqual(makeSquareAt('f1', 2, 3));
+      expect(featureMap.get('f2')).toEqual(makeSquareAt('f2', 22, 3));
+      expect(featureMap.get('f3')).toEqual(makeSquareAt('f3', 40, 0));
+
+      expect(callbacks.pushToHistory).toHaveBeenCalledTimes(1);
+      const action = callbacks.pushToHistory.mock.calls[0][0];
+      expect(action).toBeInstanceOf(BatchUpdateAction);
+      expect(
+        callbacks.emitEvent.mock.calls.filter(([type]) => type === 'update'),
+      ).toHaveLength(2);
+
+      action.revert({
+        add: vi.fn(),
+        remove: vi.fn(),
+        update: (id: string, feature: LibreDrawFeature) => featureMap.set(id, feature),
+        getById: (id: string) => featureMap.get(id),
+      });
+      expect(featureMap.get('f1')).toEqual(makeFeature('f1'));
+      expect(featureMap.get('f2')).toEqual(makeSquareAt('f2', 20, 0));
+    });
+
+    it('should delete the whole selection as one history entry', () => {
+      selectMode.activate();
+      selectMode.onPointerDown(createPointerEvent(5, 5));
+      selectMode.onPointerDown(createShiftPointerEvent(25, 5));
+      selectMode.onKeyDown('Delete', new KeyboardEvent('keydown', { key: 'Delete' }));
+
+      expect([...featureMap.keys()]).toEqual(['f3']);
+      expect(callbacks.pushToHistory).toHaveBeenCalledTimes(1);
+      const action = callbacks.pushToHistory.mock.calls[0][0] as BatchDeleteAction;
+      expect(action).toBeInstanceOf(BatchDeleteAction);
+      expect(action.features.map((f) => f.id)).toEqual(['f1', 'f2']);
+      expect(
+        callbacks.emitEvent.mock.calls.filter(([type]) => type === 'delete'),
+      ).toHaveLength(2);
+      expect(selectMode.getSelectedIds()).toEqual([]);
+    });
+  });
 });
@@ -1,8 +1,12 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import type { ModeContext } from '../../../src/core/ModeContext';
 import { SetbackMode } from '../../../src/modes/SetbackMode';
-import type { LibreDrawFeature } from '../../../src/types/features';
+import type { SetbackEvent } from '../../../src/types/events';
+import type { LibreDrawFeature, Position } from '../../../src/types/features';
+import { SetbackAction } from '../../../src/types/features';
 import type { NormalizedInputEvent } from '../../../src/types/input';
+import { getCircle, withCircle } from '../../../src/utils/circle';
+import { translateFeature } from '../../../src/utils/geometry';
 
 function makeSquare(id: string): LibreDrawFeature {
   return {
@@ -51,15 +55,18 @@ function makeSquareWithHole(id: string): LibreDrawFeature {
   };
 }
 
-function pointerEvent(lng: number, lat: number): NormalizedInputEvent {
+function pointerEvent(lng: number, lat: number, shiftKey = false): NormalizedInputEvent {
   return {
     lngLat: { lng, lat },
     point: { x: lng * 10, y: lat * 10 },
-    originalEvent: new MouseEvent('click'),
+    originalEvent: new MouseEvent('click', { shiftKey }),
     inputType: 'mouse',
   };
 }
 
+// Meters per degree on turf's spherical earth.
+const METERS_PER_DEGREE = (6371008.8 * Math.PI) / 180;
+
 interface Harness {
   context: ModeContext;
   features: Map<string, LibreDrawFeature>;
@@ -74,8 +81,10 @@ interface Harness {
     emit: ReturnType<typeof vi.fn>;
     renderFeatures: ReturnType<typeof vi.fn>;
     renderPreview: ReturnType<typeof vi.fn>;
+    renderPreviewLines: ReturnType<typeof vi.fn>;
     clearPreview: ReturnType<typeof vi.fn>;
     renderEdgeHighlight: ReturnType<typeof vi.fn>;
+    renderEdgeHighlights: ReturnType<typeof vi.fn>;
     clearEdgeHighlight: ReturnType<typeof vi.fn>;
     renderVertices: ReturnType<typeof vi.fn>;
     clearVertices: ReturnType<typeof vi.fn>;
@@ -111,13 +120,18 @@ function createHarness(
   const emit = vi.fn();
   const renderFeatures = vi.fn();
   const renderPreview = vi.fn();
+  const renderPreviewLines = vi.fn();
   const clearPreview = vi.fn();
   const renderEdgeHighlight = vi.fn();
+  const renderEdgeHighlights = vi.fn();
   const clearEdgeHighlight = vi.fn();
   const renderVertices = vi.fn();
   const clearVertices = vi.fn();
   const setSelectedIds = vi.fn();
   const setDragPan = vi.fn();
+  const setSetbackDistance = vi.fn((value: number) => {
+    setbackDistance = value;
+  });
 
   const context: ModeContext = {
     store: {
@@ -132,16 +146,23 @@ function createHarness(
     render: {
       renderFeatures,
       renderPreview,
+      renderPreviewLines,
       clearPreview,
       renderEdgeHighlight,
+      renderEdgeHighlights,
       clearEdgeHighlight,
       renderVertices,
       clearVertices,
       setSelectedIds,
     },
+    snapping: {
+      snap: (event) => [event.lngLat.lng, event.lngLat.lat],
+      clearIndicator: vi.fn(),
+    },
     getScreenPoint: ({ lng, lat }) => ({ x: lng * 10, y: lat * 10 }),
     setDragPan,
     getSetbackDistance: () => setbackDistance,
+    setSetbackDistance,
   };
 
   return {
@@ -160,17 +181,26 @@ function createHarness(
       emit,
       renderFeatures,
       renderPreview,
+      renderPreviewLines,
       clearPreview,
       renderEdgeHighlight,
+      renderEdgeHighlights,
       clearEdgeHighlight,
       renderVertices,
       clearVertices,
       setSelectedIds,
       setDragPan,
+      setSetbackDistance,
     },
   };
 }
 
+function setbackPayload(harness: Harness): SetbackEvent {
+  const call = harness.mocks.emit.mock.calls.find(([type]) => type === 'setback');
+  expect(call).toBeDefined();
+  return call![1] as SetbackEvent;
+}
+
 describe('SetbackMode', () => {
   let harness: Harness;
   let mode: SetbackMode;
@@ -219,10 +249,10 @@ describe('SetbackMode', () => {
     mode.activate();
     mode.onPointerDown(pointerEvent(5, 5)); // select polygon
 
-    harness.mocks.renderPreview.mockClear();
+    harness.mocks.renderPreviewLines.mockClear();
     mode.onPointerDown(pointerEvent(5, 1.6)); // 16px away from top edge
 
-    expect(harness.mocks.renderPreview).toHaveBeenCalled();
+    expect(harness.mocks.renderPreviewLines).toHaveBeenCalled();
   });
 
   it('should execute setback on Enter key in previewing state', () => {
@@ -301,33 +331,81 @@ describe('SetbackMode', () => {
     );
   });
 
+  it('should drop the circle parameters from a setback circle', () => {
+    const circle = withCircle(makeSquare('c1'), { center: [5, 5], radius: 500000, segments: 32 });
+    harness = createHarness(circle);
+    mode = new SetbackMode(harness.context);
+    const northVertex = circle.geometry.coordinates[0][0];
+
+    mode.activate();
+    mode.onPointerDown(pointerEvent(5, 5));
+    mode.onPointerDown(pointerEvent(northVertex[0] - 0.3, northVertex[1] - 0.05));
+    mode.executeFromUi(20000);
+
+    const { feature } = setbackPayload(harness);
+    expect(feature.properties.circle).toBeUndefined();
+    expect(getCircle(feature)).toBeNull();
+
+    const moved = translateFeature(feature, 1, 0);
+    const ring = feature.geometry.coordinates[0] as Position[];
+    expect(moved.geometry.coordinates[0]).toEqual(ring.map(([x, y]) => [x + 1, y]));
+  });
+
   it('should use distance argument on onDistanceChange for preview updates', () => {
     harness.setDistance(0);
 
     mode.activate();
     mode.onPointerDown(pointerEvent(5, 5));
     mode.onPointerDown(pointerEvent(5, 0));
-    harness.mocks.renderPreview.mockClear();
+    harness.mocks.renderPreviewLines.mockClear();
 
     mode.onDistanceChange(1000);
 
-    expect(harness.mocks.renderPreview).toHaveBeenCalled();
+    expect(harness.mocks.renderPreviewLines).toHaveBeenCalled();
   });
 
-  it('should emit setbackfailed(has-holes) for polygon with holes', () => {
+  it('should keep a hole that lies beyond the setback band', () => {
     harness = createHarness(makeSquareWithHole('h1'));
     mode = new SetbackMode(harness.context);
 
     mode.activate();
     mode.onPointerDown(pointerEvent(2, 2));
     mode.onPointerDown(pointerEvent(5, 0));
-    mode.executeFromUi(10);
+    mode.executeFromUi(1000);
 
-    expect(harness.mocks.emit).toHaveBeenCalledWith('setbackfailed', {
-      reason: 'has-holes',
-      featureId: 'h1',
-    });
-    expect(harness.mocks.remove).not.toHaveBeenCalled();
+    const payload = setbackPayload(harness);
+    expect(payload.feature.geometry.type).toBe('Polygon');
+    expect(payload.feature.geometry.coordinates).toHaveLength(2);
+  });
+
+  it('should notch the result when the setback line crosses a hole', () => {
+    harness = createHarness(makeSquareWithHole('h1'));
+    mode = new SetbackMode(harness.context);
+
+    mode.activate();
+    mode.onPointerDown(pointerEvent(2, 2));
+    mode.onPointerDown(pointerEvent(5, 0));
+    mode.executeFromUi(556000); // about 5 degrees of latitude
+
+    const rings = setbackPayload(harness).feature.geometry.coordinates as Position[][];
+    expect(rings).toHaveLength(1);
+    const ys = rings[0].map((p) => p[1]);
+    expect(Math.min(...ys)).toBeCloseTo(5, 1);
+    // The hole's upper half is cut into the outer boundary
+    expect(rings[0]).toContainEqual([4, 6]);
+    expect(rings[0]).toContainEqual([6, 6]);
+  });
+
+  it('should drop a hole that lies inside the removed band', () => {
+    harness = createHarness(makeSquareWithHole('h1'));
+    mode = new SetbackMode(harness.context);
+
+    mode.activate();
+    mode.onPointerDown(pointerEvent(2, 2));
+    mode.onPointerDown(pointerEvent(5, 0));
+    mode.executeFromUi(780000); // about 7 degrees of latitude
+
+    expect(setbackPayload(harness).feature.geometry.coordinates).toHaveLength(1);
   });
 
   it('should emit setbackfailed(invalid-split) when offset split fails', () => {
@@ -395,4 +473,90 @@ describe('SetbackMode', () => {
       }),
     );
   });
+
+  it('should set back several edges with their own distances as one action', () => {
+    harness.setDistance(METERS_PER_DEGREE);
+
+    mode.activate();
+    mode.onPointerDown(pointerEvent(5, 5));
+    mode.onPointerDown(pointerEvent(5, 0)); // bottom edge at the input distance
+    mode.onPointerDown(pointerEvent(10, 5, true)); // add right edge
+    mode.onDistanceChange(2 * METERS_PER_DEGREE);
+
+    const preview = harness.mocks.renderPreviewLines.mock.lastCall![0] as Position[][];
+    expect(preview).toHaveLength(2);
+    expect(harness.mocks.renderEdgeHighlights.mock.lastCall![0]).toHaveLength(2);
+
+    mode.executeFromUi(2 * METERS_PER_DEGREE);
+
+    expect(harness.mocks.push).toHaveBeenCalledTimes(1);
+    expect(harness.mocks.push.mock.calls[0][0]).toBeInstanceOf(SetbackAction);
+    expect(harness.features.size).toBe(1);
+
+    const payload = setbackPayload(harness);
+    expect(payload.edges).toEqual([
+      { edgeIndex: 0, distance: METERS_PER_DEGREE },
+      { edgeIndex: 1, distance: 2 * METERS_PER_DEGREE },
+    ]);
+    expect(payload.edgeIndex).toBe(0);
+    expect(payload.distance).toBe(METERS_PER_DEGREE);
+
+    const ring = (payload.feature.geometry.coordinates as Position[][])[0];
+    expect(Math.min(...ring.map((p) => p[1]))).toBeCloseTo(1, 1);
+    expect(Math.max(...ring.map((p) => p[0]))).toBeCloseTo(8, 0);
+  });
+
+  it('should remove a picked edge on Shift-click', () => {
+    harness.setDistance(1000);
+
+    mode.activate();
+    mode.onPointerDown(pointerEvent(5, 5));
+    mode.onPointerDown(pointerEvent(5, 0));
+    mode.onPointerDown(pointerEvent(10, 5, true));
+    mode.onPointerDown(pointerEvent(5, 0, true)); // remove bottom edge
+    mode.executeFromUi(1000);
+
+    expect(setbackPayload(harness).edges).toEqual([{ edgeIndex: 1, distance: 1000 }]);
+  });
+
+  it('should keep the distance of an edge that becomes active again', () => {
+    harness.setDistance(5000);
+
+    mode.activate();
+    mode.onPointerDown(pointerEvent(5, 5));
+    mode.onPointerDown(pointerEvent(5, 0)); // bottom edge at 5000
+    mode.onPointerDown(pointerEvent(10, 5, true)); // add right edge
+    harness.setDistance(2000);
+    mode.onDistanceChange(2000);
+    mode.onPointerDown(pointerEvent(10, 5, true)); // remove right edge
+
+    expect(harness.mocks.setSetbackDistance).toHaveBeenLastCalledWith(5000);
+
+    mode.onKeyDown('Enter', new KeyboardEvent('keydown', { key: 'Enter' }));
+
+    expect(setbackPayload(harness).edges).toEqual([{ edgeIndex: 0, distance: 5000 }]);
+  });
+
+    it('should return to edge selection when the last edge is removed', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(5, 5));
+    mode.onPointerDown(pointerEvent(5, 0));
+    mode.onPointerDown(pointerEvent(5, 0, true));
+    mode.executeFromUi(1000);
+
+    expect(harness.mocks.push).not.toHaveBeenCalled();
+    expect(harness.mocks.clearEdgeHighlight).toHaveBeenCalled();
+  });
+
+  it('should add an edge on long press for touch input', () => {
+    harness.setDistance(1000);
+
+    mode.activate();
+    mode.onPointerDown(pointerEvent(5, 5));
+    mode.onPointerDown(pointerEvent(5, 0));
+    mode.onLongPress(pointerEvent(0, 5));
+    mode.executeFromUi(1000);
+
+    expect(setbackPayload(harness).edges.map((edge) => edge.edgeIndex)).toEqual([0, 3]);
+  });
 });
@@ -1,7 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import type { ModeContext } from '../../../src/core/ModeContext';
 import { SplitMode } from '../../../src/modes/SplitMode';
-import type { LibreDrawFeature } from '../../../src/types/features';
+import type { LibreDrawFeature, SplitAction } from '../../../src/types/features';
 import type { NormalizedInputEvent } from '../../../src/types/input';
 
 function makeSquare(id: string): LibreDrawFeature {
@@ -33,6 +33,10 @@ function pointerEvent(lng: number, lat: number): NormalizedInputEvent {
   };
 }
 
+function pressEnter(mode: SplitMode): void {
+  mode.onKeyDown('Enter', new KeyboardEvent('keydown', { key: 'Enter' }));
+}
+
 interface TestHarness {
   context: ModeContext;
   features: Map<string, LibreDrawFeature>;
@@ -111,6 +115,10 @@ function createHarness(): TestHarness {
       clearVertices,
       setSelectedIds,
     },
+    snapping: {
+      snap: (event) => [event.lngLat.lng, event.lngLat.lat],
+      clearIndicator: vi.fn(),
+    },
     getScreenPoint: ({ lng, lat }) => ({ x: lng * 10, y: lat * 10 }),
     setDragPan,
     getSetbackDistance: () => 10,
@@ -186,6 +194,9 @@ describe('SplitMode', () => {
     mode.onPointerDown(pointerEvent(5, -1)); // first split point
     mode.onPointerDown(pointerEvent(5, 11)); // second split point
 
+    expect(harness.mocks.remove).not.toHaveBeenCalled();
+    pressEnter(mode);
+
     expect(harness.mocks.remove).toHaveBeenCalledWith('f1');
     expect(harness.mocks.add).toHaveBeenCalledTimes(2);
     expect(harness.features.size).toBe(2);
@@ -205,7 +216,8 @@ describe('SplitMode', () => {
     mode.activate();
     mode.onPointerDown(pointerEvent(5, 5)); // select target
     mode.onPointerDown(pointerEvent(20, 20)); // first split point
-    mode.onPointerDown(pointerEvent(30, 30)); // invalid split
+    mode.onPointerDown(pointerEvent(30, 30)); // second split point
+    pressEnter(mode); // invalid split
 
     expect(harness.mocks.remove).not.toHaveBeenCalled();
     expect(harness.mocks.push).not.toHaveBeenCalled();
@@ -226,6 +238,30 @@ describe('SplitMode', () => {
     ]);
   });
 
+  it('should split along snapped endpoints', () => {
+    // Snap to the square's corners
+    harness.context.snapping.snap = vi.fn((event: NormalizedInputEvent) => [
+      Math.round(event.lngLat.lng / 10) * 10,
+      Math.round(event.lngLat.lat / 10) * 10,
+    ]);
+    mode.activate();
+    mode.onPointerDown(pointerEvent(5, 5)); // select target
+    mode.onPointerDown(pointerEvent(0.3, 0.2)); // first split point, snaps to [0, 0]
+    mode.onPointerMove(pointerEvent(9.6, 10.4));
+
+    expect(harness.mocks.renderPreview).toHaveBeenLastCalledWith([
+      [0, 0],
+      [10, 10],
+    ]);
+
+    mode.onPointerDown(pointerEvent(9.6, 10.4)); // second split point, snaps to [10, 10]
+    pressEnter(mode);
+
+    expect(harness.features.size).toBe(2);
+    expect(harness.mocks.emit).toHaveBeenCalledWith('split', expect.anything());
+    expect(harness.context.snapping.clearIndicator).toHaveBeenCalled();
+  });
+
   it('should reset interaction state on Escape', () => {
     mode.activate();
     mode.onPointerDown(pointerEvent(5, 5)); // select target
@@ -241,4 +277,81 @@ describe('SplitMode', () => {
       selectedIds: [],
     });
   });
+
+  it('should keep split pieces as one MultiPolygon when configured', () => {
+    mode = new SplitMode(harness.context, { keepAsMultiPolygon: true });
+    mode.activate();
+    mode.onPointerDown(pointerEvent(5, 5)); // select target
+    mode.onPointerDown(pointerEvent(5, -1)); // first split point
+    mode.onPointerDown(pointerEvent(5, 11)); // second split point
+    pressEnter(mode);
+
+    expect(harness.features.size).toBe(1);
+    const result = harness.features.get('f1')!;
+    expect(result.geometry.type).toBe('MultiPolygon');
+    expect(result.geometry.coordinates).toHaveLength(2);
+    expect(result.properties).toEqual({ name: 'f1' });
+    expect(harness.mocks.push).toHaveBeenCalledTimes(1);
+    expect(harness.mocks.emit).toHaveBeenCalledWith(
+      'split',
+      expect.objectContaining({
+        features: [expect.objectContaining({ id: 'f1' })],
+      }),
+    );
+  });
+
+  it('should split along a polyline finished by double-click into all pieces', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(5, 5)); // select target
+    mode.onPointerDown(pointerEvent(2, -1));
+    mode.onPointerDown(pointerEvent(2, 11));
+    mode.onPointerDown(pointerEvent(8, 11));
+    mode.onPointerMove(pointerEvent(8, -1));
+
+    expect(harness.mocks.renderPreview).toHaveBeenLastCalledWith([
+      [2, -1],
+      [2, 11],
+      [8, 11],
+      [8, -1],
+    ]);
+
+    // A double-click fires two pointerdowns before the dblclick event
+    mode.onPointerDown(pointerEvent(8, -1));
+    mode.onPointerDown(pointerEvent(8, -1));
+    mode.onDoubleClick(pointerEvent(8, -1));
+
+    expect(harness.mocks.remove).toHaveBeenCalledWith('f1');
+    expect(harness.mocks.add).toHaveBeenCalledTimes(3);
+    expect(harness.features.size).toBe(3);
+    expect(harness.mocks.push).toHaveBeenCalledTimes(1);
+    const action = harness.mocks.push.mock.calls[0][0] as SplitAction;
+    expect(action.features).toHaveLength(3);
+    const splitCall = harness.mocks.emit.mock.calls.find(([type]) => type === 'split');
+    expect(splitCall?.[1].features).toHaveLength(3);
+  });
+
+  it('should not split before the line has two points', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(5, 5)); // select target
+    mode.onPointerDown(pointerEvent(5, -1));
+    pressEnter(mode);
+
+    expect(harness.mocks.emit).not.toHaveBeenCalledWith('splitfailed', expect.anything());
+    expect(harness.mocks.push).not.toHaveBeenCalled();
+  });
+
+  it('should remove the last line point on long press', () => {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(5, 5)); // select target
+    mode.onPointerDown(pointerEvent(5, -1));
+    mode.onPointerDown(pointerEvent(5, 3));
+    mode.onLongPress(pointerEvent(5, 3));
+
+    expect(harness.mocks.renderPreview).toHaveBeenLastCalledWith([[5, -1]]);
+
+    mode.onPointerDown(pointerEvent(5, 11));
+    pressEnter(mode);
+
+    expect(harness.features.size).toBe(2);
+  });
 });
@@ -0,0 +1,236 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ModeContext } from '../../../src/core/ModeContext';
+import { StripsMode } from '../../../src/modes/StripsMode';
+import type { LibreDrawFeature } from '../../../src/types/features';
+import { SplitAction } from '../../../src/types/features';
+import type { NormalizedInputEvent } from '../../../src/types/input';
+import type { StripOptions } from '../../../src/utils/strips';
+
+function makeSquare(id: string): LibreDrawFeature {
+  return {
+    id,
+    type: 'Feature',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [0.01, 0],
+          [0.01, 0.01],
+          [0, 0.01],
+          [0, 0],
+        ],
+      ],
+    },
+    properties: { name: id },
+  };
+}
+
+function pointerEvent(lng: number, lat: number): NormalizedInputEvent {
+  return {
+    lngLat: { lng, lat },
+    point: { x: lng * 10000, y: lat * 10000 },
+    originalEvent: new MouseEvent('click'),
+    inputType: 'mouse',
+  };
+}
+
+function pressKey(mode: StripsMode, key: string): void {
+  mode.onKeyDown(key, new KeyboardEvent('keydown', { key }));
+}
+
+interface TestHarness {
+  context: ModeContext;
+  features: Map<string, LibreDrawFeature>;
+  setOptions(value: StripOptions): void;
+  mocks: {
+    push: ReturnType<typeof vi.fn>;
+    emit: ReturnType<typeof vi.fn>;
+    renderPreviewLines: ReturnType<typeof vi.fn>;
+    clearPreview: ReturnType<typeof vi.fn>;
+    renderEdgeHighlight: ReturnType<typeof vi.fn>;
+    setSelectedIds: ReturnType<typeof vi.fn>;
+  };
+}
+
+function createHarness(): TestHarness {
+  const features = new Map<string, LibreDrawFeature>();
+  features.set('field', makeSquare('field'));
+
+  let stripOptions: StripOptions = { count: 4 };
+
+  const push = vi.fn();
+  const emit = vi.fn();
+  const renderPreviewLines = vi.fn();
+  const clearPreview = vi.fn();
+  const renderEdgeHighlight = vi.fn();
+  const setSelectedIds = vi.fn();
+
+  const context: ModeContext = {
+    store: {
+      add: vi.fn((feature: LibreDrawFeature) => {
+        features.set(feature.id, feature);
+        return feature;
+      }),
+      update: vi.fn(),
+      remove: vi.fn((id: string) => {
+        const found = features.get(id);
+        features.delete(id);
+        return found;
+      }),
+      getById: (id: string) => features.get(id),
+      getAll: () => Array.from(features.values()),
+    },
+    history: {
+      push,
+    },
+    events: {
+      emit,
+    },
+    render: {
+      renderFeatures: vi.fn(),
+      renderPreview: vi.fn(),
+      renderPreviewLines,
+      clearPreview,
+      renderEdgeHighlight,
+      clearEdgeHighlight: vi.fn(),
+      renderVertices: vi.fn(),
+      clearVertices: vi.fn(),
+      setSelectedIds,
+    },
+    snapping: {
+      snap: (event) => [event.lngLat.lng, event.lngLat.lat],
+      clearIndicator: vi.fn(),
+    },
+    getScreenPoint: ({ lng, lat }) => ({ x: lng * 10000, y: lat * 10000 }),
+    setDragPan: vi.fn(),
+    getSetbackDistance: () => 10,
+    getStripOptions: () => stripOptions,
+  };
+
+  return {
+    context,
+    features,
+    setOptions: (value) => {
+      stripOptions = value;
+    },
+    mocks: { push, emit, renderPreviewLines, clearPreview, renderEdgeHighlight, setSelectedIds },
+  };
+}
+
+describe('StripsMode', () => {
+  let harness: TestHarness;
+  let mode: StripsMode;
+
+  beforeEach(() => {
+    harness = createHarness();
+    mode = new StripsMode(harness.context);
+  });
+
+  /** Select the field and its bottom edge. */
+  function pickBottomEdge(): void {
+    mode.activate();
+    mode.onPointerDown(pointerEvent(0.005, 0.005));
+    mode.onPointerDown(pointerEvent(0.005, 0.0005));
+  }
+
+  it('should preview the cut lines after picking an edge', () => {
+    pickBottomEdge();
+
+    expect(harness.mocks.setSelectedIds).toHaveBeenCalledWith(['field']);
+    expect(harness.mocks.renderEdgeHighlight).toHaveBeenLastCalledWith([
+      [0, 0],
+      [0.01, 0],
+    ]);
+    const lines = harness.mocks.renderPreviewLines.mock.lastCall![0];
+    expect(lines).toHaveLength(3);
+    expect(lines[0][0][1]).toBeCloseTo(0.0025, 9);
+  });
+
+  it('should update the preview when the strip count changes', () => {
+    pickBottomEdge();
+    mode.onOptionsChange({ count: 2 });
+
+    const lines = harness.mocks.renderPreviewLines.mock.lastCall![0];
+    expect(lines).toHaveLength(1);
+    expect(lines[0][0][1]).toBeCloseTo(0.005, 9);
+  });
+
+  it('should replace the polygon with indexed strips as one split on Enter', () => {
+    pickBottomEdge();
+    pressKey(mode, 'Enter');
+
+    expect(harness.features.has('field')).toBe(false);
+    expect(harness.features.size).toBe(4);
+    expect(harness.mocks.push).toHaveBeenCalledTimes(1);
+    const action = harness.mocks.push.mock.calls[0][0] as SplitAction;
+    expect(action).toBeInstanceOf(SplitAction);
+    expect(action.features.map((f) => f.properties.stripIndex)).toEqual([0, 1, 2, 3]);
+    expect(harness.mocks.emit).toHaveBeenCalledWith(
+      'strips',
+      expect.objectContaining({
+        originalFeature: makeSquare('field'),
+        edgeIndex: 0,
+      }),
+    );
+    expect(harness.mocks.setSelectedIds).toHaveBeenLastCalledWith([]);
+  });
+
+  it('should use the count from the toolbar button', () => {
+    pickBottomEdge();
+    mode.executeFromUi({ count: 3 });
+
+    expect(harness.features.size).toBe(3);
+  });
+
+  it('should emit stripsfailed and keep previewing for an invalid count', () => {
+    harness.setOptions({ count: 1 });
+    pickBottomEdge();
+    expect(harness.mocks.renderPreviewLines).not.toHaveBeenCalled();
+
+    pressKey(mode, 'Enter');
+    expect(harness.mocks.emit).toHaveBeenCalledWith('stripsfailed', {
+      reason: 'invalid-count',
+      featureId: 'field',
+    });
+    expect(harness.mocks.push).not.toHaveBeenCalled();
+
+    mode.executeFromUi({ count: 2 });
+    expect(harness.features.size).toBe(2);
+  });
+
+  it('should preview and split by a target width from the toolbar', () => {
+    pickBottomEdge();
+    // The square is about 1113 m deep, so 500 m strips round to two
+    mode.onOptionsChange({ width: 500 });
+
+    const lines = harness.mocks.renderPreviewLines.mock.lastCall![0];
+    expect(lines).toHaveLength(1);
+    expect(lines[0][0][1]).toBeCloseTo(0.005, 9);
+
+    mode.executeFromUi({ width: 500 });
+    expect(harness.features.size).toBe(2);
+  });
+
+  it('should use the width set in the toolbar input on Enter', () => {
+    harness.setOptions({ width: 300 });
+    pickBottomEdge();
+    pressKey(mode, 'Enter');
+
+    expect(harness.features.size).toBe(4);
+  });
+
+  it('should reset on Escape', () => {
+    pickBottomEdge();
+    pressKey(mode, 'Escape');
+    pressKey(mode, 'Enter');
+
+    expect(harness.mocks.setSelectedIds).toHaveBeenLastCalledWith([]);
+    expect(harness.mocks.push).not.toHaveBeenCalled();
+  });
+
+  it('should ignore input while inactive', () => {
+    mode.onPointerDown(pointerEvent(0.005, 0.005));
+    expect(harness.mocks.setSelectedIds).not.toHaveBeenCalled();
+  });
+});
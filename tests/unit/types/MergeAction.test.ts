@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { FeatureStore } from '../../../src/core/FeatureStore';
+import { MergeAction } from '../../../src/types/features';
+import type { LibreDrawFeature } from '../../../src/types/features';
+
+function makeSquare(id: string, x: number): LibreDrawFeature {
+  return {
+    id,
+    type: 'Feature',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [x, 0],
+          [x + 10, 0],
+          [x + 10, 10],
+          [x, 10],
+          [x, 0],
+        ],
+      ],
+    },
+    properties: { tag: id },
+  };
+}
+
+const merged: LibreDrawFeature = {
+  id: 'merged',
+  type: 'Feature',
+  geometry: {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [0, 0],
+        [20, 0],
+        [20, 10],
+        [0, 10],
+        [0, 0],
+      ],
+    ],
+  },
+  properties: { tag: 'merged' },
+};
+
+describe('MergeAction', () => {
+  it('apply should remove all originals and add the merged feature', () => {
+    const store = new FeatureStore();
+    const a = makeSquare('a', 0);
+    const b = makeSquare('b', 10);
+    store.add(a);
+    store.add(b);
+
+    new MergeAction([a, b], merged).apply(store);
+
+    expect(store.getById('a')).toBeUndefined();
+    expect(store.getById('b')).toBeUndefined();
+    expect(store.getById('merged')).toBeDefined();
+  });
+
+  it('revert should remove the merged feature and restore every original', () => {
+    const store = new FeatureStore();
+    const a = makeSquare('a', 0);
+    const b = makeSquare('b', 10);
+    const c = makeSquare('c', 20);
+    store.add(a);
+    store.add(b);
+    store.add(c);
+
+    const action = new MergeAction([a, b, c], merged);
+    action.apply(store);
+    action.revert(store);
+
+    expect(store.getById('merged')).toBeUndefined();
+    expect(store.getAll().map((f) => f.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should keep constructor snapshots immutable', () => {
+    const store = new FeatureStore();
+    const a = makeSquare('a', 0);
+    const b = makeSquare('b', 10);
+    const result = { ...merged, properties: { tag: 'merged' } };
+
+    const action = new MergeAction([a, b], result);
+    a.properties.tag = 'tampered';
+    result.properties.tag = 'tampered';
+
+    store.add(a);
+    store.add(b);
+    action.apply(store);
+    expect(store.getById('merged')?.properties.tag).toBe('merged');
+
+    action.revert(store);
+    expect(store.getById('a')?.properties.tag).toBe('a');
+  });
+});
@@ -123,4 +123,114 @@ describe('SplitAction', () => {
     expect(store.getById('a')?.properties.tag).toBe('a');
     expect(store.getById('b')?.properties.tag).toBe('b');
   });
+
+  it('should keep the deprecated featureA and featureB fields', () => {
+    const original = makeFeature('orig', [
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [0, 10],
+      [0, 0],
+    ]);
+    const a = makeFeature('a', [
+      [0, 0],
+      [5, 0],
+      [5, 10],
+      [0, 10],
+      [0, 0],
+    ]);
+    const b = makeFeature('b', [
+      [5, 0],
+      [10, 0],
+      [10, 10],
+      [5, 10],
+      [5, 0],
+    ]);
+
+    const action = new SplitAction(original, a, b);
+
+    expect(action.featureA).toEqual(a);
+    expect(action.featureB).toEqual(b);
+  });
+
+  it('should replace the original with a single MultiPolygon result and undo it', () => {
+    const store = new FeatureStore();
+
+    const original = makeFeature('orig', [
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [0, 10],
+      [0, 0],
+    ]);
+    const merged: LibreDrawFeature = {
+      id: 'orig',
+      type: 'Feature',
+      geometry: {
+        type: 'MultiPolygon',
+        coordinates: [
+          [
+            [
+              [0, 0],
+              [5, 0],
+              [5, 10],
+              [0, 10],
+              [0, 0],
+            ],
+          ],
+          [
+            [
+              [5, 0],
+              [10, 0],
+              [10, 10],
+              [5, 10],
+              [5, 0],
+            ],
+          ],
+        ],
+      },
+      properties: { tag: 'orig' },
+    };
+
+    const action = new SplitAction(original, merged);
+    store.add(original);
+    action.apply(store);
+
+    expect(action.features).toHaveLength(1);
+    expect(store.getAll()).toHaveLength(1);
+    expect(store.getById('orig')?.geometry.type).toBe('MultiPolygon');
+
+    action.revert(store);
+    expect(store.getAll()).toHaveLength(1);
+    expect(store.getById('orig')?.geometry.type).toBe('Polygon');
+  });
+
+  it('should apply and revert a split into more than two features', () => {
+    const store = new FeatureStore();
+    const original = makeFeature('orig', [
+      [0, 0],
+      [9, 0],
+      [9, 9],
+      [0, 9],
+      [0, 0],
+    ]);
+    const pieces = [0, 3, 6].map((x) =>
+      makeFeature(`p${x}`, [
+        [x, 0],
+        [x + 3, 0],
+        [x + 3, 9],
+        [x, 9],
+        [x, 0],
+      ]),
+    );
+
+    store.add(original);
+    const action = new SplitAction(original, ...pieces);
+    action.apply(store);
+
+    expect(store.getAll().map((f) => f.id)).toEqual(['p0', 'p3', 'p6']);
+
+    action.revert(store);
+    expect(store.getAll().map((f) => f.id)).toEqual(['orig']);
+  });
 });
@@ -1,6 +1,8 @@
 import { describe, expect, it } from 'vitest';
 import { FeatureStore } from '../../../src/core/FeatureStore';
 import {
+  BatchDeleteAction,
+  BatchUpdateAction,
   CreateAction,
   DeleteAction,
   UpdateAction,
@@ -77,4 +79,44 @@ describe('Feature actions snapshot behavior', () => {
     const restored = store.getById('f1')!;
     expect(restored.geometry.coordinates[0][0][0]).toBe(0);
   });
+
+  it('BatchUpdateAction should apply and revert every feature', () => {
+    const store = new FeatureStore();
+    store.add(makeFeature('f1'));
+    store.add(makeFeature('f2'));
+
+    const newFeatures = ['f1', 'f2'].map((id) => ({
+      ...makeFeature(id),
+      properties: { name: `moved-${id}` },
+    }));
+    const action = new BatchUpdateAction(
+      [makeFeature('f1'), makeFeature('f2')],
+      newFeatures,
+    );
+    newFeatures[0].properties.name = 'tampered';
+
+    action.apply(store);
+    expect(store.getById('f1')!.properties.name).toBe('moved-f1');
+    expect(store.getById('f2')!.properties.name).toBe('moved-f2');
+
+    action.revert(store);
+    expect(store.getById('f1')!.properties.name).toBeUndefined();
+    expect(store.getById('f2')!.properties.name).toBeUndefined();
+  });
+
+  it('BatchDeleteAction should remove and restore every feature', () => {
+    const store = new FeatureStore();
+    const sources = [makeFeature('f1'), makeFeature('f2')];
+    sources.forEach((feature) => store.add(feature));
+
+    const action = new BatchDeleteAction(sources);
+    sources[0].geometry.coordinates[0][0][0] = 999;
+
+    action.apply(store);
+    expect(store.getAll()).toHaveLength(0);
+
+    action.revert(store);
+    expect(store.getAll().map((f) => f.id)).toEqual(['f1', 'f2']);
+    expect(store.getById('f1')!.geometry.coordinates[0][0][0]).toBe(0);
+  });
 });
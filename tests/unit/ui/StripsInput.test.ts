@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+import { StripsInput } from '../../../src/ui/StripsInput';
+
+function setup() {
+  const callbacks = { onSubmit: vi.fn(), onOptionsChange: vi.fn() };
+  const input = new StripsInput(callbacks);
+  const el = input.getElement();
+  const select = el.querySelector('select') as HTMLSelectElement;
+  const field = el.querySelector('input') as HTMLInputElement;
+  const button = el.querySelector('button') as HTMLButtonElement;
+
+  const type = (value: string): void => {
+    field.value = value;
+    field.dispatchEvent(new Event('input'));
+  };
+  const choose = (kind: string): void => {
+    select.value = kind;
+    select.dispatchEvent(new Event('change'));
+  };
+
+  return { callbacks, input, el, field, button, type, choose };
+}
+
+describe('StripsInput', () => {
+  it('should start with the default strip count', () => {
+    const { input, field } = setup();
+
+    expect(input.getOptions()).toEqual({ count: 4 });
+    expect(field.getAttribute('aria-label')).toBe('Number of strips');
+  });
+
+  it('should report the count while typing and submit it', () => {
+    const { callbacks, button, type } = setup();
+
+    type('6');
+    expect(callbacks.onOptionsChange).toHaveBeenLastCalledWith({ count: 6 });
+
+    type('');
+    expect(callbacks.onOptionsChange).toHaveBeenCalledTimes(1);
+
+    type('3');
+    button.click();
+    expect(callbacks.onSubmit).toHaveBeenLastCalledWith({ count: 3 });
+  });
+
+  it('should switch to a target width in meters', () => {
+    const { callbacks, input, field, type, choose } = setup();
+
+    choose('width');
+    expect(field.getAttribute('aria-label')).toBe('Strip width in meters');
+    expect(callbacks.onOptionsChange).toHaveBeenLastCalledWith({ width: 10 });
+
+    type('25.5');
+    expect(input.getOptions()).toEqual({ width: 25.5 });
+
+    field.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+    expect(callbacks.onSubmit).toHaveBeenLastCalledWith({ width: 25.5 });
+  });
+
+  it('should remove its element on destroy', () => {
+    const { input, el } = setup();
+    document.body.appendChild(el);
+
+    input.destroy();
+    expect(el.isConnected).toBe(false);
+  });
+});
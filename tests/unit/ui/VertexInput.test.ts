@@ -0,0 +1,96 @@
+import { describe, it, expect, vi } from 'vitest';
+import { VertexInput } from '../../../src/ui/VertexInput';
+
+function setup() {
+  const callbacks = { onSubmit: vi.fn(), onVertexChange: vi.fn() };
+  const input = new VertexInput(callbacks);
+  const el = input.getElement();
+  const select = el.querySelector('select') as HTMLSelectElement;
+  const [first, second] = Array.from(el.querySelectorAll('input'));
+  const button = el.querySelector('button') as HTMLButtonElement;
+
+  const type = (field: HTMLInputElement, value: string): void => {
+    field.value = value;
+    field.dispatchEvent(new Event('input'));
+  };
+
+  return { callbacks, input, el, select, first, second, button, type };
+}
+
+describe('VertexInput', () => {
+  it('should be hidden until shown', () => {
+    const { input, el } = setup();
+    expect(el.style.display).toBe('none');
+
+    input.setVisible(true);
+    expect(el.style.display).toBe('inline-flex');
+  });
+
+  it('should report length and bearing while typing', () => {
+    const { callbacks, first, second, type } = setup();
+
+    type(first, '25');
+    expect(callbacks.onVertexChange).not.toHaveBeenCalled();
+
+    type(second, '90');
+    expect(callbacks.onVertexChange).toHaveBeenLastCalledWith({
+      type: 'bearing',
+      distance: 25,
+      bearing: 90,
+    });
+  });
+
+  it('should report null once a typed vertex is cleared', () => {
+    const { callbacks, first, second, type } = setup();
+    type(first, '25');
+    type(second, '90');
+
+    type(second, '');
+    expect(callbacks.onVertexChange).toHaveBeenLastCalledWith(null);
+    expect(callbacks.onVertexChange).toHaveBeenCalledTimes(2);
+
+    type(first, '');
+    expect(callbacks.onVertexChange).toHaveBeenCalledTimes(2);
+  });
+
+    it('should submit on Enter and on the execute button', () => {
+    const { callbacks, second, button, first, type } = setup();
+    type(first, '10');
+    type(second, '45');
+
+    second.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter' }));
+    button.click();
+
+    expect(callbacks.onSubmit).toHaveBeenCalledTimes(2);
+    expect(callbacks.onSubmit).toHaveBeenCalledWith({
+      type: 'bearing',
+      distance: 10,
+      bearing: 45,
+    });
+  });
+
+  it('should switch to lng/lat input', () => {
+    const { callbacks, select, first, second, type } = setup();
+    select.value = 'lnglat';
+    select.dispatchEvent(new Event('change'));
+
+    expect(first.getAttribute('aria-label')).toBe('Longitude');
+    expect(second.getAttribute('aria-label')).toBe('Latitude');
+
+    type(first, '139.7');
+    type(second, '35.6');
+    expect(callbacks.onVertexChange).toHaveBeenLastCalledWith({
+      type: 'lnglat',
+      lng: 139.7,
+      lat: 35.6,
+    });
+  });
+
+  it('should remove its element on destroy', () => {
+    const { input, el } = setup();
+    document.body.appendChild(el);
+
+    input.destroy();
+    expect(el.isConnected).toBe(false);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { constrainToAngle, planarBearing } from '../../../src/utils/angle';
+
+describe('planarBearing', () => {
+  it('should measure clockwise from north', () => {
+    expect(planarBearing([0, 0], [0, 1])).toBeCloseTo(0);
+    expect(planarBearing([0, 0], [1, 0])).toBeCloseTo(90);
+    expect(planarBearing([0, 0], [0, -1])).toBeCloseTo(180);
+    expect(planarBearing([0, 0], [-1, 0])).toBeCloseTo(-90);
+  });
+
+  it('should account for longitude convergence', () => {
+    // At 60° latitude a degree of longitude is half as long as one of latitude
+    expect(planarBearing([0, 60], [2, 61])).toBeCloseTo(45);
+  });
+});
+
+describe('constrainToAngle', () => {
+  it('should snap to north and project the cursor onto it', () => {
+    const result = constrainToAngle([0, 0], [0.1, 1], 0);
+    expect(result[0]).toBeCloseTo(0);
+    expect(result[1]).toBeCloseTo(1);
+  });
+
+  it('should snap to 45° steps', () => {
+    const result = constrainToAngle([0, 0], [1, 0.9], 0);
+    expect(result[0]).toBeCloseTo(result[1]);
+    expect(planarBearing([0, 0], result)).toBeCloseTo(45);
+  });
+
+  it('should measure from the reference bearing', () => {
+    // Previous segment runs due east; a right angle turns to north or south
+    const result = constrainToAngle([1, 0], [1.1, -1], 90);
+    expect(result[0]).toBeCloseTo(1);
+    expect(result[1]).toBeCloseTo(-1);
+  });
+
+  it('should keep right angles at high latitude', () => {
+    const anchor: [number, number] = [10, 60];
+    const reference = planarBearing([9, 60.5], anchor);
+    const result = constrainToAngle(anchor, [10.9, 60.6], reference);
+    const turn = planarBearing(anchor, result) - reference;
+    expect(Math.abs(((turn + 540) % 360) - 180)).toBeCloseTo(90);
+  });
+
+  it('should return the anchor when the cursor is on it', () => {
+    expect(constrainToAngle([3, 4], [3, 4], 0)).toEqual([3, 4]);
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { bufferPolygon } from '../../../src/utils/buffer';
+import type { LibreDrawFeature, Position } from '../../../src/types/features';
+import { getCircle, withCircle } from '../../../src/utils/circle';
+import { getPolygonParts, translateFeature } from '../../../src/utils/geometry';
+
+// Meters per degree at the equator on turf's spherical earth.
+const METERS_PER_DEGREE = (6371008.8 * Math.PI) / 180;
+
+function makePolygon(rings: Position[][], id = 'field'): LibreDrawFeature {
+  return {
+    id,
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: rings },
+    properties: { name: id },
+  };
+}
+
+/** Axis-aligned square ring with the given side in meters, centered on 0,0. */
+function squareRing(sideMeters: number): Position[] {
+  const h = sideMeters / 2 / METERS_PER_DEGREE;
+  return [
+    [-h, -h],
+    [h, -h],
+    [h, h],
+    [-h, h],
+    [-h, -h],
+  ];
+}
+
+/** Shoelace area of a closed ring in square meters (near the equator). */
+function ringArea(ring: Position[]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return Math.abs(area / 2) * METERS_PER_DEGREE ** 2;
+}
+
+/** Area of a buffered feature in square meters, holes subtracted. */
+function featureArea(feature: LibreDrawFeature): number {
+  if (feature.geometry.type !== 'Polygon' && feature.geometry.type !== 'MultiPolygon') return 0;
+  return getPolygonParts(feature.geometry).reduce(
+    (sum, [outer, ...holes]) =>
+      sum + ringArea(outer) - holes.reduce((h, hole) => h + ringArea(hole), 0),
+    0,
+  );
+}
+
+describe('bufferPolygon', () => {
+  const field = makePolygon([squareRing(100)]);
+
+  it('should pull the whole boundary in with mitre joins', () => {
+    const result = bufferPolygon(field, -10);
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+
+    expect(result.feature.id).toBe('field');
+    expect(result.feature.properties).toEqual({ name: 'field' });
+    expect(result.feature.geometry.type).toBe('Polygon');
+    expect(featureArea(result.feature)).toBeCloseTo(80 * 80, -1);
+  });
+
+  it('should push the boundary out with sharp mitre corners', () => {
+    const result = bufferPolygon(field, 10, 'mitre');
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+
+    expect(featureArea(result.feature)).toBeCloseTo(120 * 120, -1);
+    const xs = (result.feature.geometry.coordinates as Position[][])[0].map((p) => p[0]);
+    expect(Math.max(...xs) * METERS_PER_DEGREE).toBeCloseTo(60, 1);
+  });
+
+  it('should round outward corners with round joins', () => {
+    const result = bufferPolygon(field, 10, 'round');
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+
+    const expected = 100 * 100 + 4 * 100 * 10 + Math.PI * 10 * 10;
+    expect(featureArea(result.feature) / expected).toBeCloseTo(1, 2);
+  });
+
+  it('should widen holes when shrinking and close them when growing', () => {
+    const withHole = makePolygon([squareRing(100), [...squareRing(20)].reverse()]);
+
+    const inward = bufferPolygon(withHole, -5);
+    expect(inward.type).toBe('success');
+    if (inward.type !== 'success') return;
+    expect(featureArea(inward.feature)).toBeCloseTo(90 * 90 - 30 * 30, -1);
+
+    const outward = bufferPolygon(withHole, 15);
+    expect(outward.type).toBe('success');
+    if (outward.type !== 'success') return;
+    expect(outward.feature.geometry.coordinates).toHaveLength(1);
+    expect(featureArea(outward.feature)).toBeCloseTo(130 * 130, -1);
+  });
+
+  it('should drop parts that collapse and keep the rest as a MultiPolygon', () => {
+    // Two 40 m squares joined by a 6 m wide neck
+    const d = (m: number) => m / METERS_PER_DEGREE;
+    const dumbbell = makePolygon([
+      [
+        [d(0), d(0)],
+        [d(40), d(0)],
+        [d(40), d(17)],
+        [d(60), d(17)],
+        [d(60), d(0)],
+        [d(100), d(0)],
+        [d(100), d(40)],
+        [d(60), d(40)],
+        [d(60), d(23)],
+        [d(40), d(23)],
+        [d(40), d(40)],
+        [d(0), d(40)],
+        [d(0), d(0)],
+      ],
+    ]);
+
+    const result = bufferPolygon(dumbbell, -5);
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+
+    expect(result.feature.geometry.type).toBe('MultiPolygon');
+    expect(featureArea(result.feature)).toBeCloseTo(2 * 30 * 30, -1);
+  });
+
+  it('should fail when an inward buffer collapses the whole polygon', () => {
+    expect(bufferPolygon(field, -60)).toEqual({ type: 'error', reason: 'collapsed' });
+  });
+
+  it('should reject a zero distance and non-polygons', () => {
+    const line: LibreDrawFeature = {
+      id: 'line',
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: [
+          [0, 0],
+          [1, 1],
+        ],
+      },
+      properties: {},
+    };
+
+    expect(bufferPolygon(field, 0)).toEqual({ type: 'error', reason: 'invalid-distance' });
+    expect(bufferPolygon(field, NaN)).toEqual({ type: 'error', reason: 'invalid-distance' });
+    expect(bufferPolygon(line, 10)).toEqual({ type: 'error', reason: 'not-polygon' });
+  });
+
+  it('should drop the circle parameters so a moved result keeps the buffer', () => {
+    const circle = withCircle(makePolygon([]), { center: [0, 0], radius: 50, segments: 64 });
+
+    for (const join of ['mitre', 'round'] as const) {
+      const result = bufferPolygon(circle, -10, join);
+      expect(result.type).toBe('success');
+      if (result.type !== 'success') continue;
+
+      expect(result.feature.properties).toEqual({ name: 'field' });
+      expect(getCircle(result.feature)).toBeNull();
+
+      const moved = translateFeature(result.feature, 0.001, 0);
+      const ring = result.feature.geometry.coordinates[0] as Position[];
+      expect(moved.geometry.coordinates[0]).toEqual(ring.map(([x, y]) => [x + 0.001, y]));
+    }
+  });
+});
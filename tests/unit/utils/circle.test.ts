@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clonePropertiesWithoutCircle,
+  createCircleRing,
+  DEFAULT_CIRCLE_SEGMENTS,
+  distanceMeters,
+  getCircle,
+  withCircle,
+} from '../../../src/utils/circle';
+import type { LibreDrawFeature } from '../../../src/types/features';
+
+function createEmptyFeature(properties: Record<string, unknown> = {}): LibreDrawFeature {
+  return {
+    id: 'c1',
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: [] },
+    properties,
+  };
+}
+
+describe('distanceMeters', () => {
+  it('should return zero for identical positions', () => {
+    expect(distanceMeters([139.7, 35.6], [139.7, 35.6])).toBe(0);
+  });
+
+  it('should measure one degree of latitude as about 111 km', () => {
+    expect(distanceMeters([0, 0], [0, 1])).toBeCloseTo(111195, -1);
+  });
+});
+
+describe('createCircleRing', () => {
+  it('should create a closed ring with the default segment count', () => {
+    const ring = createCircleRing([139.7, 35.6], 50);
+    expect(ring).toHaveLength(DEFAULT_CIRCLE_SEGMENTS + 1);
+    expect(ring[ring.length - 1]).toEqual(ring[0]);
+  });
+
+  it('should place every vertex at the radius from the center', () => {
+    const center: [number, number] = [139.7, 35.6];
+    for (const vertex of createCircleRing(center, 50, 16)) {
+      expect(distanceMeters(center, vertex)).toBeCloseTo(50, 3);
+    }
+  });
+
+  it('should start due north of the center', () => {
+    const ring = createCircleRing([10, 20], 1000, 8);
+    expect(ring[0][0]).toBeCloseTo(10, 10);
+    expect(ring[0][1]).toBeGreaterThan(20);
+  });
+
+  it('should build regular polygons from small segment counts', () => {
+    expect(createCircleRing([0, 0], 100, 6)).toHaveLength(7);
+    expect(createCircleRing([0, 0], 100, 1)).toHaveLength(4);
+  });
+});
+
+describe('withCircle / getCircle', () => {
+  it('should store the circle parameters and keep other properties', () => {
+    const feature = withCircle(createEmptyFeature({ name: 'well' }), {
+      center: [139.7, 35.6],
+      radius: 50,
+      segments: 32,
+    });
+
+    expect(feature.geometry.coordinates[0]).toHaveLength(33);
+    expect(feature.properties.name).toBe('well');
+    expect(getCircle(feature)).toEqual({ center: [139.7, 35.6], radius: 50, segments: 32 });
+  });
+
+  it('should return null for features without circle properties', () => {
+    expect(getCircle(createEmptyFeature())).toBeNull();
+    expect(
+      getCircle(createEmptyFeature({ circle: { center: [0, 0], radius: -1, segments: 8 } }))
+    ).toBeNull();
+  });
+
+  it('should return null when the geometry no longer matches the circle', () => {
+    const feature = withCircle(createEmptyFeature(), {
+      center: [0, 0],
+      radius: 100,
+      segments: 8,
+    });
+    const edited: LibreDrawFeature = {
+      ...feature,
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          feature.geometry.coordinates[0].slice(0, 6).concat([feature.geometry.coordinates[0][0]]),
+        ],
+      },
+    };
+    expect(getCircle(edited)).toBeNull();
+  });
+
+  it('should return null when a vertex moved but the vertex count still matches', () => {
+    const feature = withCircle(createEmptyFeature(), { center: [0, 0], radius: 100, segments: 8 });
+    const ring = feature.geometry.coordinates[0].map(([lng, lat]) => [lng, lat]);
+    ring[3] = [ring[3][0] * 0.5, ring[3][1] * 0.5];
+    const edited: LibreDrawFeature = {
+      ...feature,
+      geometry: { type: 'Polygon', coordinates: [ring] },
+    };
+    expect(getCircle(edited)).toBeNull();
+  });
+
+  it('should accept coordinates rounded to seven decimals', () => {
+    const feature = withCircle(createEmptyFeature(), {
+      center: [139.7, 35.6],
+      radius: 50,
+      segments: 16,
+    });
+    const rounded: LibreDrawFeature = {
+      ...feature,
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          feature.geometry.coordinates[0].map(([lng, lat]) => [
+            Number(lng.toFixed(7)),
+            Number(lat.toFixed(7)),
+          ]),
+        ],
+      },
+    };
+    expect(getCircle(rounded)).not.toBeNull();
+  });
+});
+
+describe('clonePropertiesWithoutCircle', () => {
+  it('should copy the other properties and drop the circle parameters', () => {
+    const properties = { name: 'well', circle: { center: [0, 0], radius: 5, segments: 8 } };
+    expect(clonePropertiesWithoutCircle(properties)).toEqual({ name: 'well' });
+    expect(properties.circle).toBeDefined();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import type { LibreDrawFeature, Position } from '../../../src/types/features';
+import { getCircle, withCircle } from '../../../src/utils/circle';
+import {
+  createPasteFeatures,
+  parseClipboardFeatures,
+  serializeFeatures,
+} from '../../../src/utils/clipboard';
+
+function makeSquare(id: string, lng = 0, lat = 0): LibreDrawFeature {
+  return {
+    id,
+    type: 'Feature',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [lng, lat],
+          [lng + 2, lat],
+          [lng + 2, lat + 2],
+          [lng, lat + 2],
+          [lng, lat],
+        ],
+      ],
+    },
+    properties: { name: id },
+  };
+}
+
+describe('parseClipboardFeatures', () => {
+  it('should read back serialized features', () => {
+    const features = [makeSquare('a'), makeSquare('b', 5)];
+    expect(parseClipboardFeatures(serializeFeatures(features))).toEqual(features);
+  });
+
+  it('should accept a single GeoJSON feature', () => {
+    const [feature] = parseClipboardFeatures(JSON.stringify(makeSquare('a')))!;
+    expect(feature.properties).toEqual({ name: 'a' });
+  });
+
+  it('should return null for text that is not editable GeoJSON', () => {
+    expect(parseClipboardFeatures('plot A')).toBeNull();
+    expect(parseClipboardFeatures('{"type":"Feature","geometry":null}')).toBeNull();
+    expect(parseClipboardFeatures('{"type":"FeatureCollection","features":[]}')).toBeNull();
+  });
+});
+
+describe('createPasteFeatures', () => {
+  it('should center the copies on the position and give them new IDs', () => {
+    const pasted = createPasteFeatures([makeSquare('a'), makeSquare('b', 4)], [13, 21]);
+
+    // The combined bounding box (0,0)-(6,2) is centered on (13, 21)
+    expect((pasted[0].geometry.coordinates as Position[][])[0][0]).toEqual([10, 20]);
+    expect((pasted[1].geometry.coordinates as Position[][])[0][0]).toEqual([14, 20]);
+    expect(pasted[0].properties).toEqual({ name: 'a' });
+    expect(pasted.map((f) => f.id)).not.toContain('a');
+    expect(pasted[0].id).not.toBe(pasted[1].id);
+  });
+
+  it('should keep the place without a position', () => {
+    const [pasted] = createPasteFeatures([makeSquare('a')]);
+    expect(pasted.geometry).toEqual(makeSquare('a').geometry);
+    expect(pasted.id).not.toBe('a');
+  });
+
+  it('should keep circle properties in sync with the moved circle', () => {
+    const circle = withCircle(makeSquare('c'), { center: [0, 0], radius: 100, segments: 16 });
+    const [pasted] = createPasteFeatures([circle], [1, 1]);
+
+    const center = getCircle(pasted)!.center;
+    expect(center[0]).toBeCloseTo(1);
+    expect(center[1]).toBeCloseTo(1);
+  });
+});
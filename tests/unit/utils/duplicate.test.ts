@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { LibreDrawError } from '../../../src/core/errors';
+import type { LibreDrawFeature, Position } from '../../../src/types/features';
+import { getCircle, withCircle } from '../../../src/utils/circle';
+import { createArrayCopies, createDuplicates } from '../../../src/utils/duplicate';
+
+const METERS_PER_DEGREE = (6371008.8 * Math.PI) / 180;
+
+// 0.001° square at the equator, about 111 m wide
+function makeSquare(id: string, lng = 0, lat = 0): LibreDrawFeature {
+  return {
+    id,
+    type: 'Feature',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [lng, lat],
+          [lng + 0.001, lat],
+          [lng + 0.001, lat + 0.001],
+          [lng, lat + 0.001],
+          [lng, lat],
+        ],
+      ],
+    },
+    properties: { name: id },
+  };
+}
+
+function firstVertex(feature: LibreDrawFeature): Position {
+  return (feature.geometry.coordinates as Position[][])[0][0];
+}
+
+describe('createDuplicates', () => {
+  it('should move the copies by the offset and give them new IDs', () => {
+    const [copy] = createDuplicates([makeSquare('a')], { distance: 100, bearing: 0 });
+
+    expect(firstVertex(copy)[0]).toBeCloseTo(0, 9);
+    expect(firstVertex(copy)[1]).toBeCloseTo(100 / METERS_PER_DEGREE, 9);
+    expect(copy.properties).toEqual({ name: 'a' });
+    expect(copy.id).not.toBe('a');
+  });
+
+  it('should move several features together', () => {
+    const copies = createDuplicates([makeSquare('a'), makeSquare('b', 0.002)], {
+      distance: 50,
+      bearing: 90,
+    });
+
+    const gap = firstVertex(copies[1])[0] - firstVertex(copies[0])[0];
+    expect(gap).toBeCloseTo(0.002, 9);
+    expect(copies[0].id).not.toBe(copies[1].id);
+  });
+
+  it('should reject a non-finite offset', () => {
+    expect(() => createDuplicates([makeSquare('a')], { distance: NaN, bearing: 0 })).toThrow(
+      LibreDrawError,
+    );
+  });
+});
+
+describe('createArrayCopies', () => {
+  it('should keep the gap between neighbouring copies', () => {
+    const copies = createArrayCopies([makeSquare('a')], { count: 3, bearing: 90, gap: 10 });
+    const step = 0.001 + 10 / METERS_PER_DEGREE;
+
+    expect(copies).toHaveLength(3);
+    copies.forEach((copy, i) => {
+      expect(firstVertex(copy)[0]).toBeCloseTo(step * (i + 1), 7);
+      expect(firstVertex(copy)[1]).toBeCloseTo(0, 9);
+    });
+    expect(new Set(copies.map((f) => f.id)).size).toBe(3);
+  });
+
+  it('should measure the width along a diagonal bearing', () => {
+    const [copy] = createArrayCopies([makeSquare('a')], { count: 1, bearing: 45, gap: 0 });
+
+    // The square's extent along 45° is its diagonal projected: 2 · side · cos 45°
+    const shift = 0.001 * Math.SQRT2 * Math.SQRT1_2;
+    expect(firstVertex(copy)[0]).toBeCloseTo(shift, 6);
+    expect(firstVertex(copy)[1]).toBeCloseTo(shift, 6);
+  });
+
+  it('should copy circles with their circle properties', () => {
+    const circle = withCircle(makeSquare('c'), { center: [0, 0], radius: 50, segments: 16 });
+    const [copy] = createArrayCopies([circle], { count: 1, bearing: 0, gap: 20 });
+
+    expect(getCircle(copy)!.center[1]).toBeCloseTo(120 / METERS_PER_DEGREE, 6);
+  });
+
+  it('should reject invalid options', () => {
+    const square = [makeSquare('a')];
+    expect(() => createArrayCopies(square, { count: 0, bearing: 0, gap: 5 })).toThrow(
+      LibreDrawError,
+    );
+    expect(() => createArrayCopies(square, { count: 2.5, bearing: 0, gap: 5 })).toThrow(
+      LibreDrawError,
+    );
+    expect(() => createArrayCopies(square, { count: 501, bearing: 0, gap: 5 })).toThrow(
+      LibreDrawError,
+    );
+    expect(() => createArrayCopies(square, { count: 2, bearing: 0, gap: -200 })).toThrow(
+      LibreDrawError,
+    );
+  });
+});
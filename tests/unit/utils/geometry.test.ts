@@ -2,6 +2,8 @@ import { describe, expect, it } from 'vitest';
 import type { LibreDrawFeature, Position } from '../../../src/types/features';
 import {
   computeMidpoints,
+  geometryEquals,
+  getEditableRings,
   getVertices,
   insertVertex,
   movePolygon,
@@ -166,4 +168,236 @@ describe('geometry utils', () => {
       ]);
     });
   });
+
+  describe('LineString features', () => {
+    function makeLine(): LibreDrawFeature {
+      return {
+        id: 'line',
+        type: 'Feature',
+        geometry: {
+          type: 'LineString',
+          coordinates: [
+            [0, 0],
+            [10, 0],
+            [10, 10],
+          ],
+        },
+        properties: {},
+      };
+    }
+
+    it('should return every coordinate as a vertex', () => {
+      expect(getVertices(makeLine())).toEqual([
+        [0, 0],
+        [10, 0],
+        [10, 10],
+      ]);
+    });
+
+    it('should not compute a closing midpoint for open paths', () => {
+      expect(computeMidpoints(getVertices(makeLine()), false)).toEqual([
+        [5, 0],
+        [10, 5],
+      ]);
+    });
+
+    it('should move, insert, and remove line vertices', () => {
+      const moved = moveVertex(makeLine(), 0, [1, 1]);
+      expect(moved.geometry).toEqual({
+        type: 'LineString',
+        coordinates: [
+          [1, 1],
+          [10, 0],
+          [10, 10],
+        ],
+      });
+
+      const inserted = insertVertex(makeLine(), 1, [5, 0]);
+      expect(inserted.geometry.coordinates).toEqual([
+        [0, 0],
+        [5, 0],
+        [10, 0],
+        [10, 10],
+      ]);
+
+      const removed = removeVertex(makeLine(), 2);
+      expect(removed.geometry).toEqual({
+        type: 'LineString',
+        coordinates: [
+          [0, 0],
+          [10, 0],
+        ],
+      });
+    });
+
+    it('should translate a line', () => {
+      const moved = movePolygon(makeLine(), 1, 2);
+      expect(moved.geometry.coordinates).toEqual([
+        [1, 2],
+        [11, 2],
+        [11, 12],
+      ]);
+    });
+  });
+
+  describe('Point features', () => {
+    function makePoint(): LibreDrawFeature {
+      return {
+        id: 'point',
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [1, 2] },
+        properties: {},
+      };
+    }
+
+    it('should have no editable vertices', () => {
+      expect(getVertices(makePoint())).toEqual([]);
+    });
+
+    it('should translate a point', () => {
+      const moved = movePolygon(makePoint(), 3, 4);
+      expect(moved.geometry).toEqual({ type: 'Point', coordinates: [4, 6] });
+    });
+
+    it('should leave points unchanged on vertex insert/remove', () => {
+      const point = makePoint();
+      expect(insertVertex(point, 0, [5, 5]).geometry).toEqual(point.geometry);
+      expect(removeVertex(point, 0).geometry).toEqual(point.geometry);
+    });
+  });
+
+  describe('MultiPolygon features', () => {
+    function makeMulti(): LibreDrawFeature {
+      return {
+        id: 'multi',
+        type: 'Feature',
+        geometry: {
+          type: 'MultiPolygon',
+          coordinates: [
+            [
+              [
+                [0, 0],
+                [10, 0],
+                [10, 10],
+                [0, 0],
+              ],
+            ],
+            [
+              [
+                [20, 0],
+                [30, 0],
+                [30, 10],
+                [20, 0],
+              ],
+            ],
+          ],
+        },
+        properties: {},
+      };
+    }
+
+    it('should expose the outer ring of every part for editing', () => {
+      const rings = getEditableRings(makeMulti());
+      expect(rings.map((r) => r.ref)).toEqual([
+        { part: 0, ring: 0 },
+        { part: 1, ring: 0 },
+      ]);
+      expect(rings[1].vertices).toEqual([
+        [20, 0],
+        [30, 0],
+        [30, 10],
+      ]);
+      expect(rings.every((r) => r.closed)).toBe(true);
+    });
+
+    it('should move a vertex of the addressed part only', () => {
+      const moved = moveVertex(makeMulti(), 0, [21, 1], { part: 1, ring: 0 });
+      expect(moved.geometry.coordinates).toEqual([
+        makeMulti().geometry.coordinates[0],
+        [
+          [
+            [21, 1],
+            [30, 0],
+            [30, 10],
+            [21, 1],
+          ],
+        ],
+      ]);
+    });
+
+    it('should insert and remove vertices in the addressed part', () => {
+      const ref = { part: 1, ring: 0 };
+      const inserted = insertVertex(makeMulti(), 1, [25, 0], ref);
+      expect(getVertices(inserted, ref)).toEqual([
+        [20, 0],
+        [25, 0],
+        [30, 0],
+        [30, 10],
+      ]);
+
+      const removed = removeVertex(inserted, 1, ref);
+      expect(removed.geometry).toEqual(makeMulti().geometry);
+    });
+
+    it('should translate every part', () => {
+      const moved = movePolygon(makeMulti(), 1, 1);
+      expect(getVertices(moved, { part: 1, ring: 0 })[0]).toEqual([21, 1]);
+      expect(getVertices(moved)[0]).toEqual([1, 1]);
+    });
+  });
+
+  it('should keep interior rings when editing the outer ring', () => {
+    const hole: Position[] = [
+      [2, 2],
+      [4, 2],
+      [4, 4],
+      [2, 2],
+    ];
+    const feature = makeFeature('with-hole');
+    if (feature.geometry.type === 'Polygon') {
+      feature.geometry.coordinates.push(hole);
+    }
+
+    expect(moveVertex(feature, 1, [11, 0]).geometry.coordinates[1]).toEqual(hole);
+    expect(movePolygon(feature, 1, 0).geometry.coordinates[1]).toEqual([
+      [3, 2],
+      [5, 2],
+      [5, 4],
+      [3, 2],
+    ]);
+  });
+
+  describe('geometryEquals', () => {
+    it('should compare geometry type and coordinates', () => {
+      const polygon = makeFeature('a').geometry;
+      expect(geometryEquals(polygon, makeFeature('b').geometry)).toBe(true);
+      expect(
+        geometryEquals(polygon, movePolygon(makeFeature('c'), 1, 0).geometry),
+      ).toBe(false);
+      expect(
+        geometryEquals(polygon, {
+          type: 'LineString',
+          coordinates: [
+            [0, 0],
+            [10, 0],
+          ],
+        }),
+      ).toBe(false);
+    });
+
+    it('should compare point coordinates', () => {
+      expect(
+        geometryEquals(
+          { type: 'Point', coordinates: [1, 2] },
+          { type: 'Point', coordinates: [1, 2] },
+        ),
+      ).toBe(true);
+      expect(
+        geometryEquals(
+          { type: 'Point', coordinates: [1, 2] },
+          { type: 'Point', coordinates: [1, 3] },
+        ),
+      ).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import type {
+  LibreDrawFeature,
+  MultiPolygonGeometry,
+  PolygonGeometry,
+  Position,
+} from '../../../src/types/features';
+import { cutHole, findHoleAt, findPartAt, removeHole } from '../../../src/utils/holes';
+
+const OUTER: Position[] = [
+  [0, 0],
+  [10, 0],
+  [10, 10],
+  [0, 10],
+  [0, 0],
+];
+
+const HOLE: Position[] = [
+  [2, 2],
+  [4, 2],
+  [4, 4],
+  [2, 4],
+  [2, 2],
+];
+
+function makePolygon(rings: Position[][] = [OUTER]): LibreDrawFeature<PolygonGeometry> {
+  return {
+    id: 'p1',
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: rings },
+    properties: {},
+  };
+}
+
+describe('cutHole', () => {
+  it('should append a closed interior ring', () => {
+    const result = cutHole(makePolygon(), [
+      [6, 6],
+      [8, 6],
+      [8, 8],
+    ]);
+
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+    expect(result.feature.geometry.coordinates).toEqual([
+      OUTER,
+      [
+        [6, 6],
+        [8, 6],
+        [8, 8],
+        [6, 6],
+      ],
+    ]);
+  });
+
+  it('should reject fewer than 3 vertices', () => {
+    expect(cutHole(makePolygon(), [[5, 5], [6, 6]])).toEqual({
+      type: 'error',
+      reason: 'insufficient-vertices',
+    });
+  });
+
+  it('should reject a self-intersecting ring', () => {
+    const result = cutHole(makePolygon(), [
+      [2, 2],
+      [6, 6],
+      [6, 2],
+      [2, 6],
+    ]);
+    expect(result).toEqual({ type: 'error', reason: 'self-intersecting' });
+  });
+
+  it('should reject a ring that leaves the polygon', () => {
+    const result = cutHole(makePolygon(), [
+      [5, 5],
+      [15, 5],
+      [15, 8],
+    ]);
+    expect(result).toEqual({ type: 'error', reason: 'outside-polygon' });
+  });
+
+  it('should reject a ring that crosses or encloses an existing hole', () => {
+    const crossing = cutHole(makePolygon([OUTER, HOLE]), [
+      [6, 6],
+      [6, 3],
+      [3, 3],
+    ]);
+    expect(crossing).toEqual({ type: 'error', reason: 'overlaps-ring' });
+
+    const enclosing = cutHole(makePolygon([OUTER, HOLE]), [
+      [1, 1],
+      [6, 1],
+      [6, 6],
+      [1, 6],
+    ]);
+    expect(enclosing).toEqual({ type: 'error', reason: 'overlaps-ring' });
+  });
+
+  it('should add the hole to the MultiPolygon part that contains it', () => {
+    const feature: LibreDrawFeature<MultiPolygonGeometry> = {
+      id: 'm1',
+      type: 'Feature',
+      geometry: {
+        type: 'MultiPolygon',
+        coordinates: [[OUTER], [OUTER.map(([x, y]) => [x + 20, y] as Position)]],
+      },
+      properties: {},
+    };
+
+    const result = cutHole(feature, [
+      [22, 2],
+      [24, 2],
+      [24, 4],
+    ]);
+
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+    const coords = (result.feature.geometry as MultiPolygonGeometry).coordinates;
+    expect(coords[0]).toHaveLength(1);
+    expect(coords[1]).toHaveLength(2);
+  });
+});
+
+describe('findPartAt / findHoleAt / removeHole', () => {
+  it('should not treat positions inside a hole as part of the polygon', () => {
+    const feature = makePolygon([OUTER, HOLE]);
+    expect(findPartAt(feature, [3, 3])).toBe(-1);
+    expect(findPartAt(feature, [7, 7])).toBe(0);
+  });
+
+  it('should locate and remove a hole', () => {
+    const feature = makePolygon([OUTER, HOLE]);
+    const ref = findHoleAt(feature, [3, 3]);
+    expect(ref).toEqual({ part: 0, ring: 1 });
+
+    const removed = removeHole(feature, ref!);
+    expect(removed.geometry.coordinates).toEqual([OUTER]);
+    expect(findHoleAt(feature, [7, 7])).toBeNull();
+  });
+
+  it('should never remove the outer ring', () => {
+    const feature = makePolygon([OUTER, HOLE]);
+    expect(removeHole(feature, { part: 0, ring: 0 })).toBe(feature);
+  });
+});
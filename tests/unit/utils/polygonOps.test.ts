@@ -0,0 +1,255 @@
+import { describe, it, expect } from 'vitest';
+import {
+  intersectPolygons,
+  mergePolygons,
+  subtractHoles,
+  subtractPolygon,
+} from '../../../src/utils/polygonOps';
+import type { LibreDrawFeature, Position } from '../../../src/types/features';
+
+function makeRect(id: string, x0: number, y0: number, x1: number, y1: number): LibreDrawFeature {
+  return {
+    id,
+    type: 'Feature',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [x0, y0],
+          [x1, y0],
+          [x1, y1],
+          [x0, y1],
+          [x0, y0],
+        ],
+      ],
+    },
+    properties: { name: id },
+  };
+}
+
+/** Shoelace area of a closed ring. */
+function ringArea(ring: Position[]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return Math.abs(area / 2);
+}
+
+describe('mergePolygons', () => {
+  it('should merge adjacent polygons into a single polygon', () => {
+    const result = mergePolygons([makeRect('a', 0, 0, 10, 10), makeRect('b', 10, 0, 20, 10)]);
+
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+    expect(result.feature.geometry.type).toBe('Polygon');
+    expect(ringArea(result.feature.geometry.coordinates[0] as Position[])).toBeCloseTo(200);
+    expect(result.feature.id).not.toBe('a');
+    expect(result.feature.properties).toEqual({ name: 'a' });
+  });
+
+  it('should merge overlapping polygons', () => {
+    const result = mergePolygons([
+      makeRect('a', 0, 0, 10, 10),
+      makeRect('b', 5, 5, 15, 15),
+      makeRect('c', 12, 0, 20, 8),
+    ]);
+
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+    expect(result.feature.geometry.type).toBe('Polygon');
+    // 100 + 100 - 25 + 64 - 3 * 3 overlap of b and c
+    expect(ringArea(result.feature.geometry.coordinates[0] as Position[])).toBeCloseTo(230);
+  });
+
+  it('should keep apart pieces as a MultiPolygon when others join', () => {
+    const result = mergePolygons([
+      makeRect('a', 0, 0, 10, 10),
+      makeRect('b', 10, 0, 20, 10),
+      makeRect('c', 30, 0, 40, 10),
+    ]);
+
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+    expect(result.feature.geometry.type).toBe('MultiPolygon');
+    expect(result.feature.geometry.coordinates).toHaveLength(2);
+  });
+
+  it('should fail for disjoint polygons', () => {
+    const result = mergePolygons([makeRect('a', 0, 0, 10, 10), makeRect('b', 20, 0, 30, 10)]);
+    expect(result).toEqual({ type: 'error', reason: 'disjoint' });
+  });
+
+  it('should fail for fewer than two features', () => {
+    expect(mergePolygons([makeRect('a', 0, 0, 10, 10)])).toEqual({
+      type: 'error',
+      reason: 'insufficient-features',
+    });
+  });
+
+  it('should fail for non-polygon features', () => {
+    const point: LibreDrawFeature = {
+      id: 'p',
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [5, 5] },
+      properties: {},
+    };
+    expect(mergePolygons([makeRect('a', 0, 0, 10, 10), point])).toEqual({
+      type: 'error',
+      reason: 'not-polygon',
+    });
+  });
+});
+
+describe('subtractPolygon', () => {
+  it('should cut a hole when the cutter lies inside the target', () => {
+    const result = subtractPolygon(makeRect('field', 0, 0, 10, 10), makeRect('zone', 3, 3, 6, 6));
+
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+    expect(result.feature.id).toBe('field');
+    expect(result.feature.properties).toEqual({ name: 'field' });
+    expect(result.feature.geometry.type).toBe('Polygon');
+    const rings = result.feature.geometry.coordinates as Position[][];
+    expect(rings).toHaveLength(2);
+    expect(ringArea(rings[0]) - ringArea(rings[1])).toBeCloseTo(91);
+  });
+
+  it('should clip the overlapping part of the target', () => {
+    const result = subtractPolygon(makeRect('field', 0, 0, 10, 10), makeRect('zone', 5, -5, 15, 15));
+
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+    expect(result.feature.geometry.type).toBe('Polygon');
+    expect(ringArea(result.feature.geometry.coordinates[0] as Position[])).toBeCloseTo(50);
+  });
+
+  it('should return a MultiPolygon when the cutter splits the target', () => {
+    const result = subtractPolygon(makeRect('field', 0, 0, 10, 10), makeRect('zone', 4, -1, 6, 11));
+
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+    expect(result.feature.geometry.type).toBe('MultiPolygon');
+    expect(result.feature.geometry.coordinates).toHaveLength(2);
+  });
+
+  it('should fail when the polygons do not overlap', () => {
+    const result = subtractPolygon(makeRect('field', 0, 0, 10, 10), makeRect('zone', 20, 0, 30, 10));
+    expect(result).toEqual({ type: 'error', reason: 'no-overlap' });
+  });
+
+  it('should fail when the polygons only share an edge', () => {
+    const result = subtractPolygon(makeRect('field', 0, 0, 10, 10), makeRect('zone', 10, 0, 20, 10));
+    expect(result).toEqual({ type: 'error', reason: 'no-overlap' });
+  });
+
+  it('should fail when the cutter covers the whole target', () => {
+    const result = subtractPolygon(makeRect('field', 2, 2, 8, 8), makeRect('zone', 0, 0, 10, 10));
+    expect(result).toEqual({ type: 'error', reason: 'empty-result' });
+  });
+
+  it('should fail for the same feature', () => {
+    const field = makeRect('field', 0, 0, 10, 10);
+    expect(subtractPolygon(field, field)).toEqual({ type: 'error', reason: 'same-feature' });
+  });
+
+  it('should fail for non-polygon features', () => {
+    const line: LibreDrawFeature = {
+      id: 'line',
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: [[0, 0], [5, 5]] },
+      properties: {},
+    };
+    expect(subtractPolygon(makeRect('field', 0, 0, 10, 10), line)).toEqual({
+      type: 'error',
+      reason: 'not-polygon',
+    });
+  });
+});
+
+describe('intersectPolygons', () => {
+  it('should create a new feature from the overlap', () => {
+    const a = makeRect('zone', 0, 0, 10, 10);
+    const b = makeRect('field', 5, 5, 15, 15);
+    const result = intersectPolygons(a, b);
+
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+    expect(result.feature.id).not.toBe('zone');
+    expect(result.feature.id).not.toBe('field');
+    expect(result.feature.properties).toEqual({});
+    expect(result.feature.geometry.type).toBe('Polygon');
+    expect(ringArea(result.feature.geometry.coordinates[0] as Position[])).toBeCloseTo(25);
+    expect(a).toEqual(makeRect('zone', 0, 0, 10, 10));
+    expect(b).toEqual(makeRect('field', 5, 5, 15, 15));
+  });
+
+  it('should return a MultiPolygon when the overlap has several parts', () => {
+    const u: LibreDrawFeature = {
+      id: 'u',
+      type: 'Feature',
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [0, 0],
+            [10, 0],
+            [10, 10],
+            [7, 10],
+            [7, 3],
+            [3, 3],
+            [3, 10],
+            [0, 10],
+            [0, 0],
+          ],
+        ],
+      },
+      properties: {},
+    };
+    const result = intersectPolygons(u, makeRect('bar', -1, 5, 11, 8));
+
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+    expect(result.feature.geometry.type).toBe('MultiPolygon');
+    expect(result.feature.geometry.coordinates).toHaveLength(2);
+  });
+
+  it('should fail when the polygons do not overlap', () => {
+    const result = intersectPolygons(makeRect('a', 0, 0, 10, 10), makeRect('b', 20, 0, 30, 10));
+    expect(result).toEqual({ type: 'error', reason: 'no-overlap' });
+  });
+
+  it('should fail when the polygons only share an edge', () => {
+    const result = intersectPolygons(makeRect('a', 0, 0, 10, 10), makeRect('b', 10, 0, 20, 10));
+    expect(result).toEqual({ type: 'error', reason: 'no-overlap' });
+  });
+
+  it('should fail for the same feature', () => {
+    const a = makeRect('a', 0, 0, 10, 10);
+    expect(intersectPolygons(a, a)).toEqual({ type: 'error', reason: 'same-feature' });
+  });
+});
+
+describe('subtractHoles', () => {
+  const ring = makeRect('r', 0, 0, 10, 10).geometry.coordinates[0] as Position[];
+
+  it('should return the ring unchanged without holes', () => {
+    expect(subtractHoles(ring, [])).toEqual({ type: 'Polygon', coordinates: [ring] });
+  });
+
+  it('should keep an inner hole and clip a hole that crosses the boundary', () => {
+    const inner = makeRect('h1', 2, 2, 4, 4).geometry.coordinates[0] as Position[];
+    const crossing = makeRect('h2', 8, 4, 12, 6).geometry.coordinates[0] as Position[];
+    const geometry = subtractHoles(ring, [inner, crossing]);
+
+    expect(geometry?.type).toBe('Polygon');
+    const rings = geometry!.coordinates as Position[][];
+    expect(rings).toHaveLength(2);
+    expect(ringArea(rings[0]) - ringArea(rings[1])).toBeCloseTo(100 - 4 - 4);
+  });
+
+  it('should return null when the holes cover the ring', () => {
+    const cover = makeRect('h', -1, -1, 11, 11).geometry.coordinates[0] as Position[];
+    expect(subtractHoles(ring, [cover])).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { axisAlignedRectangle, rotatedRectangle } from '../../../src/utils/rectangle';
+import type { Position } from '../../../src/types/features';
+
+describe('axisAlignedRectangle', () => {
+  it('should build a closed ring from two opposite corners', () => {
+    expect(axisAlignedRectangle([0, 0], [2, 1])).toEqual([
+      [0, 0],
+      [2, 0],
+      [2, 1],
+      [0, 1],
+      [0, 0],
+    ]);
+  });
+
+  it('should accept corners in any order', () => {
+    const ring = axisAlignedRectangle([2, 1], [0, 0]);
+    expect(ring).toHaveLength(5);
+    expect(ring?.[0]).toEqual([2, 1]);
+    expect(ring?.[2]).toEqual([0, 0]);
+  });
+
+  it('should return null for zero width or height', () => {
+    expect(axisAlignedRectangle([0, 0], [0, 1])).toBeNull();
+    expect(axisAlignedRectangle([0, 0], [1, 0])).toBeNull();
+  });
+});
+
+describe('rotatedRectangle', () => {
+  it('should match the axis-aligned rectangle for a horizontal baseline at the equator', () => {
+    const ring = rotatedRectangle([0, 0], [2, 0], [1, 1]) as Position[];
+    const expected: Position[] = [
+      [0, 0],
+      [2, 0],
+      [2, 1],
+      [0, 1],
+      [0, 0],
+    ];
+    ring.forEach((pos, i) => {
+      expect(pos[0]).toBeCloseTo(expected[i][0], 10);
+      expect(pos[1]).toBeCloseTo(expected[i][1], 10);
+    });
+  });
+
+  it('should extend toward the side of the depth position', () => {
+    const ring = rotatedRectangle([0, 0], [2, 0], [1, -0.5]) as Position[];
+    expect(ring[2][1]).toBeCloseTo(-0.5, 10);
+    expect(ring[3][1]).toBeCloseTo(-0.5, 10);
+  });
+
+  it('should keep right angles for a diagonal baseline away from the equator', () => {
+    const lat = 45;
+    const k = Math.cos((lat * Math.PI) / 180);
+    const ring = rotatedRectangle([0, lat], [0.01, lat + 0.01], [0, lat + 0.02]) as Position[];
+    expect(ring).toHaveLength(5);
+    expect(ring[4]).toEqual(ring[0]);
+
+    // Sides in the local plane must be perpendicular
+    const plane = (p: Position): [number, number] => [p[0] * k, p[1] - lat];
+    const [a, b, c] = ring.slice(0, 3).map(plane);
+    const dot = (b[0] - a[0]) * (c[0] - b[0]) + (b[1] - a[1]) * (c[1] - b[1]);
+    expect(dot).toBeCloseTo(0, 12);
+  });
+
+  it('should return null for a zero-length baseline or zero depth', () => {
+    expect(rotatedRectangle([1, 1], [1, 1], [2, 2])).toBeNull();
+    expect(rotatedRectangle([0, 0], [2, 0], [5, 0])).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { simplifyPath } from '../../../src/utils/simplify';
+
+describe('simplifyPath', () => {
+  it('should keep all points of paths with two points or fewer', () => {
+    expect(simplifyPath([], 1)).toEqual([]);
+    expect(simplifyPath([{ x: 0, y: 0 }], 1)).toEqual([0]);
+    expect(simplifyPath([{ x: 0, y: 0 }, { x: 5, y: 5 }], 1)).toEqual([0, 1]);
+  });
+
+  it('should drop points within the tolerance of a straight line', () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0.5 },
+      { x: 20, y: -0.5 },
+      { x: 30, y: 0 },
+    ];
+    expect(simplifyPath(points, 1)).toEqual([0, 3]);
+  });
+
+  it('should keep corners that deviate more than the tolerance', () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 5, y: 0.2 },
+      { x: 10, y: 0 },
+      { x: 10, y: 5 },
+      { x: 10, y: 10 },
+    ];
+    expect(simplifyPath(points, 1)).toEqual([0, 2, 4]);
+  });
+
+  it('should keep more points with a smaller tolerance', () => {
+    const points = Array.from({ length: 50 }, (_, i) => ({
+      x: i,
+      y: Math.sin(i / 4) * 5,
+    }));
+    expect(simplifyPath(points, 0.1).length).toBeGreaterThan(simplifyPath(points, 2).length);
+  });
+
+  it('should simplify a closed loop that returns to its start', () => {
+    const points = [
+      { x: 0, y: 0 },
+      { x: 5, y: 0 },
+      { x: 10, y: 0 },
+      { x: 10, y: 10 },
+      { x: 0, y: 10 },
+      { x: 0, y: 5 },
+      { x: 0, y: 0 },
+    ];
+    expect(simplifyPath(points, 1)).toEqual([0, 2, 3, 4, 6]);
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SNAP_TOLERANCE_PX,
+  findSnapTarget,
+  resolveSnapOptions,
+  toSnapCandidates,
+} from '../../../src/utils/snapping';
+import type { LibreDrawFeature } from '../../../src/types/features';
+
+// 1 degree = 10 pixels
+const project = (lngLat: { lng: number; lat: number }) => ({
+  x: lngLat.lng * 10,
+  y: lngLat.lat * 10,
+});
+
+const square: LibreDrawFeature = {
+  id: 'square',
+  type: 'Feature',
+  geometry: {
+    type: 'Polygon',
+    coordinates: [
+      [
+        [0, 0],
+        [10, 0],
+        [10, 10],
+        [0, 10],
+        [0, 0],
+      ],
+    ],
+  },
+  properties: {},
+};
+
+const options = resolveSnapOptions(true);
+
+describe('resolveSnapOptions', () => {
+  it('should be disabled by default', () => {
+    expect(resolveSnapOptions().enabled).toBe(false);
+    expect(resolveSnapOptions(false).enabled).toBe(false);
+  });
+
+  it('should enable every kind with the default tolerance for true', () => {
+    expect(resolveSnapOptions(true)).toEqual({
+      enabled: true,
+      tolerance: DEFAULT_SNAP_TOLERANCE_PX,
+      vertex: true,
+      midpoint: true,
+      edge: true,
+      layers: [],
+    });
+  });
+
+  it('should enable snapping for an options object unless disabled explicitly', () => {
+    expect(resolveSnapOptions({ tolerance: 4, edge: false })).toMatchObject({
+      enabled: true,
+      tolerance: 4,
+      edge: false,
+    });
+    expect(resolveSnapOptions({ enabled: false }).enabled).toBe(false);
+  });
+});
+
+describe('findSnapTarget', () => {
+  it('should snap to a nearby vertex', () => {
+    expect(findSnapTarget({ x: 103, y: 96 }, [square], project, options)).toEqual({
+      position: [10, 10],
+      type: 'vertex',
+    });
+  });
+
+  it('should snap to an edge midpoint', () => {
+    expect(findSnapTarget({ x: 52, y: 3 }, [square], project, options)).toEqual({
+      position: [5, 0],
+      type: 'midpoint',
+    });
+  });
+
+  it('should snap to the closest point on an edge', () => {
+    const result = findSnapTarget({ x: 24, y: 103 }, [square], project, options);
+    expect(result?.type).toBe('edge');
+    expect(result?.position[0]).toBeCloseTo(2.4);
+    expect(result?.position[1]).toBeCloseTo(10);
+  });
+
+  it('should prefer a vertex over a closer edge', () => {
+    // 2px from the edge but 8px from the corner
+    const result = findSnapTarget({ x: 102, y: 92 }, [square], project, options);
+    expect(result).toEqual({ position: [10, 10], type: 'vertex' });
+  });
+
+  it('should return null outside the tolerance', () => {
+    expect(findSnapTarget({ x: 50, y: 50 }, [square], project, options)).toBeNull();
+    expect(
+      findSnapTarget({ x: 104, y: 104 }, [square], project, { ...options, tolerance: 2 }),
+    ).toBeNull();
+  });
+
+  it('should skip disabled kinds', () => {
+    const edgesOnly = { ...options, vertex: false, midpoint: false };
+    const result = findSnapTarget({ x: 102, y: 92 }, [square], project, edgesOnly);
+    expect(result?.type).toBe('edge');
+    expect(result?.position[0]).toBeCloseTo(10);
+    expect(result?.position[1]).toBeCloseTo(9.2);
+  });
+
+  it('should snap to points and line vertices', () => {
+    const point: LibreDrawFeature = {
+      id: 'point',
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [30, 30] },
+      properties: {},
+    };
+    const line: LibreDrawFeature = {
+      id: 'line',
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: [
+          [40, 0],
+          [50, 0],
+        ],
+      },
+      properties: {},
+    };
+
+    expect(findSnapTarget({ x: 302, y: 301 }, [point, line], project, options)).toEqual({
+      position: [30, 30],
+      type: 'vertex',
+    });
+    expect(findSnapTarget({ x: 501, y: 2 }, [point, line], project, options)).toEqual({
+      position: [50, 0],
+      type: 'vertex',
+    });
+  });
+
+  it('should not treat a line as closed', () => {
+    const line: LibreDrawFeature = {
+      id: 'line',
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+        ],
+      },
+      properties: {},
+    };
+    // On the closing segment a polygon would have, far from any vertex
+    expect(findSnapTarget({ x: 48, y: 52 }, [line], project, options)).toBeNull();
+  });
+});
+
+describe('toSnapCandidates', () => {
+  it('should split multi-geometries into their parts', () => {
+    const candidates = toSnapCandidates([
+      {
+        type: 'Feature',
+        properties: {},
+        geometry: {
+          type: 'MultiLineString',
+          coordinates: [
+            [
+              [0, 0],
+              [1, 0],
+            ],
+            [
+              [2, 0],
+              [3, 0],
+            ],
+          ],
+        },
+      },
+      {
+        type: 'Feature',
+        properties: {},
+        geometry: {
+          type: 'MultiPoint',
+          coordinates: [
+            [5, 5],
+            [6, 6],
+          ],
+        },
+      },
+    ]);
+
+    expect(candidates.map((c) => c.geometry.type)).toEqual([
+      'LineString',
+      'LineString',
+      'Point',
+      'Point',
+    ]);
+  });
+
+  it('should drop altitudes and skip geometry collections', () => {
+    const candidates = toSnapCandidates([
+      {
+        type: 'Feature',
+        properties: {},
+        geometry: { type: 'Point', coordinates: [1, 2, 30] },
+      },
+      {
+        type: 'Feature',
+        properties: {},
+        geometry: { type: 'GeometryCollection', geometries: [] },
+      },
+    ]);
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].geometry.coordinates).toEqual([1, 2]);
+  });
+
+  it('should produce polygons that can be snapped to', () => {
+    const [parcel] = toSnapCandidates([
+      {
+        type: 'Feature',
+        properties: {},
+        geometry: square.geometry as GeoJSON.Polygon,
+      },
+    ]);
+
+    expect(findSnapTarget({ x: 103, y: 96 }, [parcel], project, options)).toEqual({
+      position: [10, 10],
+      type: 'vertex',
+    });
+  });
+
+  describe('polygon split across two tiles', () => {
+    // The square is clipped at the tile boundary x = 4
+    const tilePiece = (west: number, east: number, id: string | number = 7) => ({
+      id,
+      type: 'Feature' as const,
+      properties: {},
+      source: 'parcels',
+      sourceLayer: 'lots',
+      geometry: {
+        type: 'Polygon' as const,
+        coordinates: [
+          [
+            [west, 0],
+            [east, 0],
+            [east, 10],
+            [west, 10],
+            [west, 0],
+          ],
+        ],
+      },
+    });
+
+    it('should merge the pieces so the tile edge is not a snap target', () => {
+      const candidates = toSnapCandidates([tilePiece(0, 4), tilePiece(4, 10)]);
+
+      expect(candidates).toHaveLength(1);
+      // Near the tile edge inside the polygon: no vertex, midpoint or edge there
+      expect(findSnapTarget({ x: 42, y: 50 }, candidates, project, options)).toBeNull();
+      // Near where the tile edge meets the real edge: only the real edge is hit
+      expect(findSnapTarget({ x: 40, y: 1 }, candidates, project, options)?.type).toBe('edge');
+      expect(findSnapTarget({ x: 103, y: 96 }, candidates, project, options)).toEqual({
+        position: [10, 10],
+        type: 'vertex',
+      });
+    });
+
+    it('should keep pieces of different features apart', () => {
+      const candidates = toSnapCandidates([tilePiece(0, 4, 1), tilePiece(4, 10, 2)]);
+
+      expect(candidates).toHaveLength(2);
+    });
+  });
+});
@@ -1,6 +1,8 @@
 import { describe, expect, it } from 'vitest';
 import type { LibreDrawFeature, Position } from '../../../src/types/features';
-import { splitPolygon } from '../../../src/utils/splitPolygon';
+import { getCircle, withCircle } from '../../../src/utils/circle';
+import { translateFeature } from '../../../src/utils/geometry';
+import { splitPolygon, splitPolygonByLine } from '../../../src/utils/splitPolygon';
 
 function makeFeature(
   id: string,
@@ -173,7 +175,7 @@ describe('splitPolygon', () => {
     expect(signedArea(b.geometry.coordinates[0])).toBeGreaterThan(0);
   });
 
-  it('should return error with reason "has-holes" for polygon with holes', () => {
+  it('should cut a hole crossed by the split line between both pieces', () => {
     const feature = makeFeatureWithHoles(
       'with-hole',
       [
@@ -195,7 +197,48 @@ describe('splitPolygon', () => {
     );
 
     const result = splitPolygon(feature, [10, -5], [10, 25]);
-    expect(result).toEqual({ type: 'error', reason: 'has-holes' });
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+
+    for (const piece of result.features) {
+      expect(piece.geometry.type).toBe('Polygon');
+      const rings = piece.geometry.coordinates as Position[][];
+      expect(rings).toHaveLength(1);
+      expect(Math.abs(signedArea(rings[0]))).toBeCloseTo(150, 8);
+      expect(isClosed(rings[0])).toBe(true);
+    }
+  });
+
+  it('should keep a hole in the piece that contains it', () => {
+    const feature = makeFeatureWithHoles(
+      'with-hole',
+      [
+        [0, 0],
+        [20, 0],
+        [20, 20],
+        [0, 20],
+        [0, 0],
+      ],
+      [
+        [
+          [12, 5],
+          [12, 15],
+          [18, 15],
+          [18, 5],
+          [12, 5],
+        ],
+      ],
+    );
+
+    const result = splitPolygon(feature, [10, -5], [10, 25]);
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+
+    const ringCounts = result.features.map((piece) => piece.geometry.coordinates.length).sort();
+    expect(ringCounts).toEqual([1, 2]);
+    const holed = result.features.find((piece) => piece.geometry.coordinates.length === 2)!;
+    const [outer, hole] = holed.geometry.coordinates as Position[][];
+    expect(Math.abs(signedArea(outer)) - Math.abs(signedArea(hole))).toBeCloseTo(140, 8);
   });
 
   it('should return error with reason "same-points" when split points are identical', () => {
@@ -253,15 +296,216 @@ describe('splitPolygon', () => {
     const r2 = splitPolygon(square, [20, 20], [30, 30]);
     expect(r2.type).toBe('error');
     if (r2.type === 'error') expect(r2.reason).toBe('invalid-intersection-count');
+  });
+});
 
-    // Polygon with hole
-    const withHole = makeFeatureWithHoles(
-      'h',
-      [[0, 0], [10, 0], [10, 10], [0, 10], [0, 0]],
-      [[[2, 2], [2, 8], [8, 8], [8, 2], [2, 2]]],
-    );
-    const r3 = splitPolygon(withHole, [5, -1], [5, 11]);
-    expect(r3.type).toBe('error');
-    if (r3.type === 'error') expect(r3.reason).toBe('has-holes');
+describe('splitting circles', () => {
+  it('should not leave a piece that still counts as a circle', () => {
+    const circle = withCircle(makeFeature('c', [], { name: 'well' }), {
+      center: [0, 0],
+      radius: 1000,
+      segments: 64,
+    });
+    // Cut off the first two vertices with a line through the midpoints of
+    // the edges on either side of them, extended past the ring
+    const ring = circle.geometry.coordinates[0];
+    const mid = (a: Position, b: Position): Position => [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+    const a = mid(ring[63], ring[0]);
+    const b = mid(ring[1], ring[2]);
+    const start: Position = [a[0] - (b[0] - a[0]), a[1] - (b[1] - a[1])];
+    const end: Position = [b[0] + (b[0] - a[0]), b[1] + (b[1] - a[1])];
+    const result = splitPolygon(circle, start, end);
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+
+    const piece = result.features.find((f) => f.geometry.coordinates[0].length === 65)!;
+    expect(piece).toBeDefined();
+    expect(piece.properties).toEqual({ name: 'well' });
+    expect(getCircle(piece)).toBeNull();
+
+    // Moving the piece keeps the cut instead of rebuilding the circle
+    const moved = translateFeature(piece, 0.01, 0);
+    const pieceRing = piece.geometry.coordinates[0] as Position[];
+    expect(moved.geometry.coordinates[0]).toEqual(pieceRing.map(([x, y]) => [x + 0.01, y]));
+  });
+});
+
+describe('splitPolygonByLine', () => {
+  const square: Position[] = [
+    [0, 0],
+    [10, 0],
+    [10, 10],
+    [0, 10],
+    [0, 0],
+  ];
+
+  it('should split a square along a bent polyline', () => {
+    const feature = makeFeature('square', square, { name: 'field' });
+    const result = splitPolygonByLine(feature, [
+      [3, -1],
+      [3, 5],
+      [7, 5],
+      [7, 11],
+    ]);
+
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+    expect(result.features).toHaveLength(2);
+    const areas = result.features.map((f) => Math.abs(signedArea(f.geometry.coordinates[0])));
+    expect(areas[0] + areas[1]).toBeCloseTo(100, 8);
+    expect(areas.sort((a, b) => a - b)).toEqual([expect.closeTo(50, 8), expect.closeTo(50, 8)]);
+    for (const f of result.features) {
+      expect(f.id).not.toBe('square');
+      expect(f.properties).toEqual({ name: 'field' });
+      expect(isClosed(f.geometry.coordinates[0])).toBe(true);
+    }
+  });
+
+  it('should split into more than two pieces when the line crosses repeatedly', () => {
+    const feature = makeFeature('square', square);
+    const result = splitPolygonByLine(feature, [
+      [2, -1],
+      [2, 11],
+      [5, 11],
+      [5, -1],
+      [8, -1],
+      [8, 11],
+    ]);
+
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+    const areas = result.features
+      .map((f) => Math.abs(signedArea(f.geometry.coordinates[0])))
+      .sort((a, b) => a - b);
+    expect(areas).toHaveLength(4);
+    expect(areas[0]).toBeCloseTo(20, 8);
+    expect(areas[1]).toBeCloseTo(20, 8);
+    expect(areas[2]).toBeCloseTo(30, 8);
+    expect(areas[3]).toBeCloseTo(30, 8);
+  });
+
+  it('should split a concave polygon into three pieces with a straight line', () => {
+    const feature = makeFeature('concave', [
+      [0, 0],
+      [10, 0],
+      [10, 10],
+      [7, 10],
+      [7, 3],
+      [3, 3],
+      [3, 10],
+      [0, 10],
+      [0, 0],
+    ]);
+
+    const result = splitPolygonByLine(feature, [
+      [-1, 4],
+      [11, 4],
+    ]);
+
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+    expect(result.features).toHaveLength(3);
+  });
+
+  it('should ignore line ends that stop inside the polygon', () => {
+    const feature = makeFeature('square', square);
+    const result = splitPolygonByLine(feature, [
+      [5, 5],
+      [5, -1],
+      [6, -1],
+      [6, 11],
+      [4, 8],
+    ]);
+
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+    expect(result.features).toHaveLength(2);
+  });
+
+  it('should fail when the line never cuts through the polygon', () => {
+    const feature = makeFeature('square', square);
+    expect(
+      splitPolygonByLine(feature, [
+        [-1, -1],
+        [5, 5],
+        [6, 4],
+      ]),
+    ).toEqual({ type: 'error', reason: 'invalid-intersection-count' });
+  });
+
+  it('should fail for fewer than two distinct points', () => {
+    const feature = makeFeature('square', square);
+    expect(
+      splitPolygonByLine(feature, [
+        [1, 1],
+        [1, 1],
+      ]),
+    ).toEqual({ type: 'error', reason: 'same-points' });
+  });
+
+  it('should fail when a self-crossing line produces invalid pieces', () => {
+    const feature = makeFeature('square', square);
+    const result = splitPolygonByLine(feature, [
+      [2, -1],
+      [8, 11],
+      [8, -1],
+      [2, 11],
+    ]);
+
+    expect(result.type).toBe('error');
+  });
+
+  it('should share holes crossed by the polyline between the pieces', () => {
+    const feature = makeFeatureWithHoles('holed', square, [
+      [
+        [4, 4],
+        [6, 4],
+        [6, 6],
+        [4, 6],
+        [4, 4],
+      ],
+    ]);
+    const result = splitPolygonByLine(feature, [
+      [5, -1],
+      [5, 5],
+      [11, 5],
+    ]);
+
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+    expect(result.features).toHaveLength(2);
+    const areas = result.features
+      .map((f) => Math.abs(signedArea((f.geometry.coordinates as Position[][])[0])))
+      .sort((a, b) => a - b);
+    // The 2 x 2 hole is split 1 : 3 between the corner piece and the rest
+    expect(areas[0]).toBeCloseTo(25 - 1, 8);
+    expect(areas[1]).toBeCloseTo(75 - 3, 8);
+    for (const f of result.features) {
+      expect(f.geometry.coordinates).toHaveLength(1);
+    }
+  });
+
+  it('should return a MultiPolygon piece when a hole divides it', () => {
+    // A long, narrow hole across the inside of the U-shaped cut below
+    const feature = makeFeatureWithHoles('holed', square, [
+      [
+        [2, 6],
+        [8, 6],
+        [8, 7],
+        [2, 7],
+        [2, 6],
+      ],
+    ]);
+    const result = splitPolygonByLine(feature, [
+      [3, 11],
+      [3, 5],
+      [7, 5],
+      [7, 11],
+    ]);
+
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+    const types = result.features.map((f) => f.geometry.type).sort();
+    expect(types).toEqual(['MultiPolygon', 'Polygon']);
   });
 });
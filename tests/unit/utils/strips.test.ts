@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_STRIP_COUNT, splitIntoStrips } from '../../../src/utils/strips';
+import type { LibreDrawFeature, Position } from '../../../src/types/features';
+import { getPolygonParts } from '../../../src/utils/geometry';
+
+function makePolygon(rings: Position[][], id = 'field'): LibreDrawFeature {
+  return {
+    id,
+    type: 'Feature',
+    geometry: { type: 'Polygon', coordinates: rings },
+    properties: { name: id },
+  };
+}
+
+/** Shoelace area of a closed ring. */
+function ringArea(ring: Position[]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return Math.abs(area / 2);
+}
+
+/** Planar area of a strip, holes subtracted. */
+function stripArea(feature: LibreDrawFeature): number {
+  if (feature.geometry.type !== 'Polygon' && feature.geometry.type !== 'MultiPolygon') return 0;
+  return getPolygonParts(feature.geometry).reduce(
+    (sum, [outer, ...holes]) =>
+      sum + ringArea(outer) - holes.reduce((h, hole) => h + ringArea(hole), 0),
+    0,
+  );
+}
+
+// About 444 m x 222 m at the equator.
+const field = makePolygon([
+  [
+    [0, 0],
+    [0.004, 0],
+    [0.004, 0.002],
+    [0, 0.002],
+    [0, 0],
+  ],
+]);
+
+describe('splitIntoStrips', () => {
+  it('should divide a rectangle into equal strips parallel to the edge', () => {
+    const result = splitIntoStrips(field, 0, { count: 4 });
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+
+    expect(result.features).toHaveLength(4);
+    expect(result.cutLines).toHaveLength(3);
+    result.features.forEach((strip, i) => {
+      expect(strip.id).not.toBe('field');
+      expect(strip.properties).toEqual({ name: 'field', stripIndex: i });
+      expect(stripArea(strip)).toBeCloseTo(0.004 * 0.0005, 12);
+
+      // Strip 0 lies along the bottom edge
+      const lats = (strip.geometry.coordinates as Position[][])[0].map((p) => p[1]);
+      expect(Math.min(...lats)).toBeCloseTo(0.0005 * i, 9);
+      expect(Math.max(...lats)).toBeCloseTo(0.0005 * (i + 1), 9);
+    });
+
+    const [start, end] = result.cutLines[0];
+    expect(start[1]).toBeCloseTo(0.0005, 9);
+    expect(end[1]).toBeCloseTo(0.0005, 9);
+  });
+
+  it('should give strips of a triangle equal area', () => {
+    const triangle = makePolygon([
+      [
+        [0, 0],
+        [0.004, 0],
+        [0.002, 0.003],
+        [0, 0],
+      ],
+    ]);
+
+    const result = splitIntoStrips(triangle, 0, { count: 3 });
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+
+    const total = ringArea(triangle.geometry.coordinates[0] as Position[]);
+    for (const strip of result.features) {
+      expect(stripArea(strip) / total).toBeCloseTo(1 / 3, 6);
+    }
+  });
+
+  it('should derive the strip count from a target width', () => {
+    // About 222 m deep from the bottom edge and 444 m from the right edge
+    const fromBottom = splitIntoStrips(field, 0, { width: 50 });
+    const fromRight = splitIntoStrips(field, 1, { width: 50 });
+
+    expect(fromBottom.type === 'success' && fromBottom.features).toHaveLength(4);
+    expect(fromRight.type === 'success' && fromRight.features).toHaveLength(9);
+  });
+
+  it('should keep holes and share the area around them equally', () => {
+    const withHole = makePolygon([
+      field.geometry.coordinates[0] as Position[],
+      [
+        [0.001, 0.0005],
+        [0.001, 0.0015],
+        [0.003, 0.0015],
+        [0.003, 0.0005],
+        [0.001, 0.0005],
+      ],
+    ]);
+
+    const result = splitIntoStrips(withHole, 0, { count: 2 });
+    expect(result.type).toBe('success');
+    if (result.type !== 'success') return;
+
+    const expected = (0.004 * 0.002 - 0.002 * 0.001) / 2;
+    for (const strip of result.features) {
+      expect(stripArea(strip)).toBeCloseTo(expected, 12);
+      expect(strip.geometry.type).toBe('Polygon');
+    }
+  });
+
+  it('should reject features that are not polygons', () => {
+    const line: LibreDrawFeature = {
+      id: 'line',
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: [
+          [0, 0],
+          [1, 1],
+        ],
+      },
+      properties: {},
+    };
+
+    expect(splitIntoStrips(line, 0, { count: 2 })).toEqual({
+      type: 'error',
+      reason: 'not-polygon',
+    });
+  });
+
+  it('should reject an edge index outside the ring', () => {
+    expect(splitIntoStrips(field, 4, { count: 2 })).toEqual({
+      type: 'error',
+      reason: 'invalid-edge',
+    });
+    expect(splitIntoStrips(field, -1, { count: 2 })).toEqual({
+      type: 'error',
+      reason: 'invalid-edge',
+    });
+  });
+
+  it('should reject counts that do not give at least two strips', () => {
+    const invalid = [
+      { count: 1 },
+      { count: 2.5 },
+      { count: MAX_STRIP_COUNT + 1 },
+      { width: 1000 },
+      { width: 0 },
+    ];
+
+    for (const options of invalid) {
+      expect(splitIntoStrips(field, 0, options)).toEqual({
+        type: 'error',
+        reason: 'invalid-count',
+      });
+    }
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+import type { LibreDrawFeature, Position } from '../../../src/types/features';
+import { withCircle } from '../../../src/utils/circle';
+import {
+  getFeatureCenter,
+  getTransformHandles,
+  rotateFeature,
+  scaleFeature,
+  snapAngle,
+} from '../../../src/utils/transform';
+
+function makeSquare(): LibreDrawFeature {
+  return {
+    id: 'sq',
+    type: 'Feature',
+    geometry: {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [2, 0],
+          [2, 2],
+          [0, 2],
+          [0, 0],
+        ],
+      ],
+    },
+    properties: { name: 'sq' },
+  };
+}
+
+describe('getFeatureCenter', () => {
+  it('should return the centroid of a polygon', () => {
+    expect(getFeatureCenter(makeSquare())).toEqual([1, 1]);
+  });
+
+  it('should not be pulled towards a densely sampled side', () => {
+    // The top side of the square carries many extra vertices
+    const top = Array.from({ length: 19 }, (_, i): [number, number] => [1.9 - i * 0.1, 2]);
+    const square = makeSquare();
+    square.geometry.coordinates = [
+      [
+        [0, 0],
+        [2, 0],
+        [2, 2],
+        ...top,
+        [0, 2],
+        [0, 0],
+      ],
+    ];
+
+    const [lng, lat] = getFeatureCenter(square);
+    expect(lng).toBeCloseTo(1, 9);
+    expect(lat).toBeCloseTo(1, 9);
+  });
+
+  it('should weight the parts of a MultiPolygon by area', () => {
+    const feature: LibreDrawFeature = {
+      id: 'mp',
+      type: 'Feature',
+      geometry: {
+        type: 'MultiPolygon',
+        coordinates: [
+          [
+            [
+              [0, 0],
+              [3, 0],
+              [3, 3],
+              [0, 3],
+              [0, 0],
+            ],
+          ],
+          // Clockwise on purpose
+          [
+            [
+              [10, 0],
+              [10, 1],
+              [11, 1],
+              [11, 0],
+              [10, 0],
+            ],
+          ],
+        ],
+      },
+      properties: {},
+    };
+
+    const [lng, lat] = getFeatureCenter(feature);
+    expect(lng).toBeCloseTo((9 * 1.5 + 1 * 10.5) / 10, 9);
+    expect(lat).toBeCloseTo((9 * 1.5 + 1 * 0.5) / 10, 9);
+  });
+
+  it('should average the vertices of a line', () => {
+    const line: LibreDrawFeature = {
+      id: 'l',
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: [
+          [0, 0],
+          [4, 0],
+          [4, 2],
+        ],
+      },
+      properties: {},
+    };
+
+    expect(getFeatureCenter(line)).toEqual([8 / 3, 2 / 3]);
+  });
+});
+
+describe('getTransformHandles', () => {
+  it('should place the rotation handle centered above the bounding box', () => {
+    const [handle] = getTransformHandles(makeSquare());
+    expect(handle.kind).toBe('rotate');
+    expect(handle.position[0]).toBeCloseTo(1);
+    expect(handle.position[1]).toBeCloseTo(2.4);
+  });
+
+  it('should place scale handles around the grown bounding box', () => {
+    const handles = getTransformHandles(makeSquare());
+    const northEast = handles.find(
+      (h) => h.kind === 'scale' && h.position[0] > 2 && h.position[1] > 2,
+    );
+
+    expect(handles.filter((h) => h.kind === 'scale')).toHaveLength(8);
+    expect(northEast).toMatchObject({ kind: 'scale', axes: 'xy', anchor: [0, 0] });
+    expect(northEast!.position[1]).toBeCloseTo(2.2);
+  });
+
+  it('should not offer handles for points and circles', () => {
+    const point: LibreDrawFeature = {
+      id: 'p',
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [0, 0] },
+      properties: {},
+    };
+    const circle = withCircle(makeSquare(), { center: [0, 0], radius: 100, segments: 16 });
+
+    expect(getTransformHandles(point)).toEqual([]);
+    expect(getTransformHandles(circle)).toEqual([]);
+  });
+});
+
+describe('rotateFeature', () => {
+  it('should rotate clockwise around the center and keep rings closed', () => {
+    const rotated = rotateFeature(makeSquare(), 90, [1, 1]);
+    const ring = (rotated.geometry.coordinates as Position[][])[0];
+
+    // (0,0) moves to the top-left corner
+    expect(ring[0][0]).toBeCloseTo(0, 3);
+    expect(ring[0][1]).toBeCloseTo(2, 3);
+    expect(ring[ring.length - 1]).toEqual(ring[0]);
+    expect(rotated.id).toBe('sq');
+    expect(rotated.properties).toEqual({ name: 'sq' });
+  });
+
+  it('should preserve right angles at high latitude', () => {
+    const line: LibreDrawFeature = {
+      id: 'l',
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: [
+          [10, 60],
+          [12, 60],
+        ],
+      },
+      properties: {},
+    };
+
+    const rotated = rotateFeature(line, 90, [11, 60]);
+    const [start, end] = rotated.geometry.coordinates as Position[];
+    expect(start[0]).toBeCloseTo(11, 9);
+    expect(end[0]).toBeCloseTo(11, 9);
+    // 2° of longitude at 60° are as long as 1° of latitude
+    expect(start[1] - end[1]).toBeCloseTo(1, 3);
+  });
+});
+
+describe('scaleFeature', () => {
+  it('should scale each axis about the origin and keep rings closed', () => {
+    const scaled = scaleFeature(makeSquare(), 2, 0.5, [0, 0]);
+    const ring = (scaled.geometry.coordinates as Position[][])[0];
+
+    expect(ring[2]).toEqual([4, 1]);
+    expect(ring[ring.length - 1]).toEqual(ring[0]);
+    expect(scaled.id).toBe('sq');
+    expect(scaled.properties).toEqual({ name: 'sq' });
+  });
+});
+
+describe('snapAngle', () => {
+  it('should round to 15° steps by default', () => {
+    expect(snapAngle(50)).toBe(45);
+    expect(snapAngle(-8)).toBe(-15);
+    expect(snapAngle(97, 90)).toBe(90);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { resolveTypedVertex } from '../../../src/utils/typedVertex';
+import { distanceMeters } from '../../../src/utils/circle';
+import { planarBearing } from '../../../src/utils/angle';
+import type { Position } from '../../../src/types/features';
+
+describe('resolveTypedVertex', () => {
+  it('should return absolute coordinates as-is', () => {
+    expect(resolveTypedVertex({ type: 'lnglat', lng: 139.7, lat: 35.6 }, [])).toEqual([
+      139.7, 35.6,
+    ]);
+  });
+
+  it('should reject out-of-range coordinates', () => {
+    expect(resolveTypedVertex({ type: 'lnglat', lng: 181, lat: 0 }, [])).toBeNull();
+    expect(resolveTypedVertex({ type: 'lnglat', lng: 0, lat: -91 }, [])).toBeNull();
+  });
+
+  it('should place a vertex at a length and bearing from the last vertex', () => {
+    const anchor: Position = [139.7, 35.6];
+    const result = resolveTypedVertex({ type: 'bearing', distance: 100, bearing: 90 }, [anchor]);
+
+    expect(result).not.toBeNull();
+    expect(distanceMeters(anchor, result as Position)).toBeCloseTo(100, 3);
+    expect(planarBearing(anchor, result as Position)).toBeCloseTo(90, 2);
+  });
+
+  it('should measure angles from the previous segment', () => {
+    const vertices: Position[] = [
+      [139.7, 35.6],
+      [139.701, 35.6],
+    ];
+    // Previous segment runs east; turning 90° clockwise heads south
+    const result = resolveTypedVertex({ type: 'angle', distance: 50, angle: 90 }, vertices);
+
+    expect(result).not.toBeNull();
+    expect(distanceMeters(vertices[1], result as Position)).toBeCloseTo(50, 3);
+    expect(planarBearing(vertices[1], result as Position)).toBeCloseTo(180, 2);
+  });
+
+  it('should measure the first angle from north', () => {
+    const result = resolveTypedVertex({ type: 'angle', distance: 10, angle: 0 }, [[0, 0]]);
+    expect(result?.[0]).toBeCloseTo(0);
+    expect(result?.[1]).toBeGreaterThan(0);
+  });
+
+  it('should need a previous vertex and a positive length', () => {
+    expect(resolveTypedVertex({ type: 'bearing', distance: 10, bearing: 0 }, [])).toBeNull();
+    expect(resolveTypedVertex({ type: 'bearing', distance: 0, bearing: 0 }, [[0, 0]])).toBeNull();
+  });
+});
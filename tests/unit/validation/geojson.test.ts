@@ -74,12 +74,162 @@ describe('validateFeature', () => {
     expect(() =>
       validateFeature(
         makeFeature({
-          geometry: { type: 'LineString', coordinates: [[0, 0], [1, 1]] },
+          geometry: {
+            type: 'MultiLineString',
+            coordinates: [[[0, 0], [1, 1]]],
+          },
         }),
       ),
     ).toThrow('Feature.geometry.type must be "Polygon"');
   });
 
+  it('should accept a valid LineString feature', () => {
+    const result = validateFeature(
+      makeFeature({
+        geometry: {
+          type: 'LineString',
+          coordinates: [
+            [0, 0],
+            [1, 1],
+            [2, 0],
+          ],
+        },
+      }),
+    );
+
+    expect(result.geometry).toEqual({
+      type: 'LineString',
+      coordinates: [
+        [0, 0],
+        [1, 1],
+        [2, 0],
+      ],
+    });
+  });
+
+  it('should reject LineString with fewer than 2 positions', () => {
+    expect(() =>
+      validateFeature(
+        makeFeature({
+          geometry: { type: 'LineString', coordinates: [[0, 0]] },
+        }),
+      ),
+    ).toThrow('LineString must have at least 2 positions');
+  });
+
+  it('should reject LineString with out-of-range coordinates', () => {
+    expect(() =>
+      validateFeature(
+        makeFeature({
+          geometry: {
+            type: 'LineString',
+            coordinates: [
+              [0, 0],
+              [200, 0],
+            ],
+          },
+        }),
+      ),
+    ).toThrow('Invalid longitude');
+  });
+
+  it('should accept a valid Point feature', () => {
+    const result = validateFeature(
+      makeFeature({
+        geometry: { type: 'Point', coordinates: [139.7, 35.6, 10] },
+      }),
+    );
+
+    expect(result.geometry).toEqual({
+      type: 'Point',
+      coordinates: [139.7, 35.6],
+    });
+  });
+
+  it('should reject Point with out-of-range coordinates', () => {
+    expect(() =>
+      validateFeature(
+        makeFeature({
+          geometry: { type: 'Point', coordinates: [0, 95] },
+        }),
+      ),
+    ).toThrow('Invalid latitude');
+  });
+
+  it('should reject Point with too few coordinates', () => {
+    expect(() =>
+      validateFeature(
+        makeFeature({
+          geometry: { type: 'Point', coordinates: [0] },
+        }),
+      ),
+    ).toThrow('Point coordinates must be an array of at least 2 numbers');
+  });
+
+  it('should accept a valid MultiPolygon feature', () => {
+    const coordinates = [
+      [
+        [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+          [0, 0],
+        ],
+      ],
+      [
+        [
+          [20, 20],
+          [30, 20],
+          [30, 30],
+          [20, 20],
+        ],
+      ],
+    ];
+    const result = validateFeature(
+      makeFeature({ geometry: { type: 'MultiPolygon', coordinates } }),
+    );
+
+    expect(result.geometry).toEqual({ type: 'MultiPolygon', coordinates });
+  });
+
+  it('should reject MultiPolygon with no parts', () => {
+    expect(() =>
+      validateFeature(
+        makeFeature({ geometry: { type: 'MultiPolygon', coordinates: [] } }),
+      ),
+    ).toThrow('MultiPolygon must have at least one polygon');
+  });
+
+  it('should report the invalid part of a MultiPolygon', () => {
+    expect(() =>
+      validateFeature(
+        makeFeature({
+          geometry: {
+            type: 'MultiPolygon',
+            coordinates: [
+              [
+                [
+                  [0, 0],
+                  [10, 0],
+                  [10, 10],
+                  [0, 0],
+                ],
+              ],
+              [
+                [
+                  [20, 20],
+                  [30, 20],
+                  [30, 30],
+                  [25, 25],
+                ],
+              ],
+            ],
+          },
+        }),
+      ),
+    ).toThrow('MultiPolygon part 1: Ring is not closed');
+  });
+
   it('should reject polygon with no rings', () => {
     expect(() =>
       validateFeature(